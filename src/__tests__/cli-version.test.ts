@@ -68,6 +68,8 @@ describe('CLI Version Module', () => {
       expect(logOutput.join('\n')).toContain('Options:');
       expect(logOutput.join('\n')).toContain('-v, --version  Display version information');
       expect(logOutput.join('\n')).toContain('-h, --help     Display this help message');
+      expect(logOutput.join('\n')).toContain('--read-only    Only register tools');
+      expect(logOutput.join('\n')).toContain('DEEPSOURCE_TOOLS_DENY');
     });
 
     it('should display help with -h flag', () => {
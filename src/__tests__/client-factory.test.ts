@@ -9,6 +9,10 @@ import { IssuesClient } from '../client/issues-client.js';
 import { RunsClient } from '../client/runs-client.js';
 import { MetricsClient } from '../client/metrics-client.js';
 import { SecurityClient } from '../client/security-client.js';
+import { AnalyzersClient } from '../client/analyzers-client.js';
+import { IgnoreRulesClient } from '../client/ignore-rules-client.js';
+import { QualityGatesClient } from '../client/quality-gates-client.js';
+import { SuppressionsClient } from '../client/suppressions-client.js';
 
 describe('DeepSourceClientFactory', () => {
   const API_KEY = 'test-api-key';
@@ -182,4 +186,80 @@ describe('DeepSourceClientFactory', () => {
       expect(client1).toBe(client2);
     });
   });
+
+  describe('getAnalyzersClient', () => {
+    it('should return an AnalyzersClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+      const client = factory.getAnalyzersClient();
+
+      expect(client).toBeInstanceOf(AnalyzersClient);
+    });
+
+    it('should cache the AnalyzersClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+
+      const client1 = factory.getAnalyzersClient();
+      const client2 = factory.getAnalyzersClient();
+
+      // Should be the same instance
+      expect(client1).toBe(client2);
+    });
+  });
+
+  describe('getIgnoreRulesClient', () => {
+    it('should return an IgnoreRulesClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+      const client = factory.getIgnoreRulesClient();
+
+      expect(client).toBeInstanceOf(IgnoreRulesClient);
+    });
+
+    it('should cache the IgnoreRulesClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+
+      const client1 = factory.getIgnoreRulesClient();
+      const client2 = factory.getIgnoreRulesClient();
+
+      // Should be the same instance
+      expect(client1).toBe(client2);
+    });
+  });
+
+  describe('getQualityGatesClient', () => {
+    it('should return a QualityGatesClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+      const client = factory.getQualityGatesClient();
+
+      expect(client).toBeInstanceOf(QualityGatesClient);
+    });
+
+    it('should cache the QualityGatesClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+
+      const client1 = factory.getQualityGatesClient();
+      const client2 = factory.getQualityGatesClient();
+
+      // Should be the same instance
+      expect(client1).toBe(client2);
+    });
+  });
+
+  describe('getSuppressionsClient', () => {
+    it('should return a SuppressionsClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+      const client = factory.getSuppressionsClient();
+
+      expect(client).toBeInstanceOf(SuppressionsClient);
+    });
+
+    it('should cache the SuppressionsClient instance', () => {
+      const factory = new DeepSourceClientFactory(API_KEY);
+
+      const client1 = factory.getSuppressionsClient();
+      const client2 = factory.getSuppressionsClient();
+
+      // Should be the same instance
+      expect(client1).toBe(client2);
+    });
+  });
 });
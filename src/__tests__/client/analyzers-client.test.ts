@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Tests for analyzers client
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalyzersClient } from '../../client/analyzers-client.js';
+
+interface MockAnalyzersClient {
+  executeGraphQL: ReturnType<typeof vi.fn>;
+  logger: {
+    info: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    debug: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+}
+
+const pythonAnalyzerNode = {
+  id: 'QW5hbHl6ZXI6MQ==',
+  name: 'Python',
+  shortcode: 'python',
+  description: 'Finds bug risks and anti-patterns in Python code',
+  version: '1.4.0',
+  type: 'CORE',
+  numIssues: 412,
+};
+
+describe('AnalyzersClient', () => {
+  let client: AnalyzersClient;
+  let mockedClient: MockAnalyzersClient;
+
+  beforeEach(() => {
+    client = new AnalyzersClient('test-api-key');
+    mockedClient = client as unknown as MockAnalyzersClient;
+    mockedClient.executeGraphQL = vi.fn();
+    mockedClient.logger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+    };
+  });
+
+  describe('listAnalyzers', () => {
+    it('should fetch and map analyzers', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: {
+          analyzers: {
+            totalCount: 2,
+            pageInfo: { hasNextPage: false, hasPreviousPage: false },
+            edges: [
+              { node: pythonAnalyzerNode },
+              { node: { id: 'QW5hbHl6ZXI6Mg==', name: 'Docker', shortcode: 'docker' } },
+            ],
+          },
+        },
+      });
+
+      const result = await client.listAnalyzers({ first: 10 });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('analyzers('),
+        { first: 10 }
+      );
+      expect(result.totalCount).toBe(2);
+      expect(result.items[0]).toEqual(pythonAnalyzerNode);
+      expect(result.items[1]).toEqual({
+        id: 'QW5hbHl6ZXI6Mg==',
+        name: 'Docker',
+        shortcode: 'docker',
+        description: '',
+        version: null,
+        type: null,
+        numIssues: 0,
+      });
+    });
+
+    it('should return an empty response when no analyzers are returned', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({ data: {} });
+
+      const result = await client.listAnalyzers();
+
+      expect(result.items).toEqual([]);
+      expect(result.totalCount).toBe(0);
+    });
+
+    it('should fetch multiple pages when max_pages is set', async () => {
+      mockedClient.executeGraphQL
+        .mockResolvedValueOnce({
+          data: {
+            analyzers: {
+              totalCount: 2,
+              pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+              edges: [{ node: pythonAnalyzerNode }],
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            analyzers: {
+              totalCount: 2,
+              pageInfo: { hasNextPage: false, hasPreviousPage: true },
+              edges: [{ node: { ...pythonAnalyzerNode, shortcode: 'go', name: 'Go' } }],
+            },
+          },
+        });
+
+      const result = await client.listAnalyzers({ first: 1, max_pages: 2 });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledTimes(2);
+      expect(mockedClient.executeGraphQL.mock.calls[1][1]).toMatchObject({ after: 'cursor-1' });
+      expect(result.items.map((a) => a.shortcode)).toEqual(['python', 'go']);
+    });
+
+    it('should return an empty response for NoneType errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('NoneType object has no attribute'));
+
+      const result = await client.listAnalyzers();
+
+      expect(result.items).toEqual([]);
+    });
+
+    it('should rethrow other errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('Unauthorized'));
+
+      await expect(client.listAnalyzers()).rejects.toThrow('Unauthorized');
+    });
+  });
+
+  describe('getAnalyzerIssues', () => {
+    it('should fetch an analyzer with its issue catalog', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: {
+          analyzer: {
+            ...pythonAnalyzerNode,
+            issues: {
+              totalCount: 412,
+              pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+              edges: [
+                {
+                  node: {
+                    id: 'SXNzdWU6MQ==',
+                    shortcode: 'PYL-W0611',
+                    title: 'Unused import',
+                    category: 'ANTI_PATTERN',
+                    severity: 'MINOR',
+                    autofixAvailable: true,
+                  },
+                },
+                { node: { id: 'SXNzdWU6Mg==', shortcode: 'PY-S0001' } },
+              ],
+            },
+          },
+        },
+      });
+
+      const result = await client.getAnalyzerIssues('python', { first: 2 });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('analyzer(shortcode: $shortcode)'),
+        { shortcode: 'python', first: 2 }
+      );
+      expect(result?.analyzer.name).toBe('Python');
+      expect(result?.totalCount).toBe(412);
+      expect(result?.pageInfo.endCursor).toBe('cursor-1');
+      expect(result?.items).toEqual([
+        {
+          id: 'SXNzdWU6MQ==',
+          shortcode: 'PYL-W0611',
+          title: 'Unused import',
+          category: 'ANTI_PATTERN',
+          severity: 'MINOR',
+          autofixAvailable: true,
+        },
+        {
+          id: 'SXNzdWU6Mg==',
+          shortcode: 'PY-S0001',
+          title: 'Unknown Issue',
+          category: 'UNKNOWN',
+          severity: 'UNKNOWN',
+          autofixAvailable: false,
+        },
+      ]);
+    });
+
+    it('should return null when the analyzer does not exist', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({ data: { analyzer: null } });
+
+      const result = await client.getAnalyzerIssues('cobol');
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null for not found errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('Analyzer not found'));
+
+      const result = await client.getAnalyzerIssues('cobol');
+
+      expect(result).toBeNull();
+    });
+
+    it('should rethrow other errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('Network error'));
+
+      await expect(client.getAnalyzerIssues('python')).rejects.toThrow('Network error');
+    });
+  });
+
+  describe('getIssueDefinition', () => {
+    it('should fetch the full issue definition', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: {
+          analyzer: {
+            name: 'JavaScript',
+            shortcode: 'javascript',
+            issue: {
+              id: 'SXNzdWU6MTI1',
+              shortcode: 'JS-0125',
+              title: 'Detected the use of variables before they are defined',
+              category: 'BUG_RISK',
+              severity: 'MAJOR',
+              shortDescription: 'Variables should be defined before use',
+              description: '## Rationale\n\nUsing a variable before it is defined...',
+              tags: ['recommended'],
+              isRecommended: true,
+              autofixAvailable: false,
+              autofixAiAvailable: true,
+            },
+          },
+        },
+      });
+
+      const result = await client.getIssueDefinition('javascript', 'JS-0125');
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('issue(shortcode: $issueShortcode)'),
+        { analyzerShortcode: 'javascript', issueShortcode: 'JS-0125' }
+      );
+      expect(result).toEqual({
+        id: 'SXNzdWU6MTI1',
+        shortcode: 'JS-0125',
+        title: 'Detected the use of variables before they are defined',
+        category: 'BUG_RISK',
+        severity: 'MAJOR',
+        shortDescription: 'Variables should be defined before use',
+        description: '## Rationale\n\nUsing a variable before it is defined...',
+        tags: ['recommended'],
+        isRecommended: true,
+        autofixAvailable: false,
+        autofixAiAvailable: true,
+        analyzer: { name: 'JavaScript', shortcode: 'javascript' },
+      });
+    });
+
+    it('should return null when the issue does not exist', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: { analyzer: { name: 'JavaScript', shortcode: 'javascript', issue: null } },
+      });
+
+      const result = await client.getIssueDefinition('javascript', 'JS-9999');
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null for NoneType errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('NoneType object is not iterable'));
+
+      const result = await client.getIssueDefinition('cobol', 'CBL-0001');
+
+      expect(result).toBeNull();
+    });
+  });
+});
@@ -7,6 +7,7 @@ import nock from 'nock';
 import { BaseDeepSourceClient } from '../../client/base-client.js';
 import { GraphQLResponse } from '../../types/graphql-responses.js';
 import { PaginationParams, PaginatedResponse } from '../../utils/pagination/types.js';
+import { ResponseCache } from '../../utils/cache/response-cache.js';
 
 // Extend the BaseDeepSourceClient to expose the protected methods
 class TestableBaseClient extends BaseDeepSourceClient {
@@ -193,43 +194,168 @@ describe('BaseDeepSourceClient', () => {
     });
   });
 
+  describe('response cache', () => {
+    const query = 'query getQualityMetrics { repository { id } }';
+    const originalFeatureCache = process.env.FEATURE_CACHE;
+
+    beforeEach(() => {
+      process.env.FEATURE_CACHE = 'true';
+      ResponseCache.getInstance().clear();
+    });
+
+    afterAll(() => {
+      if (originalFeatureCache === undefined) {
+        delete process.env.FEATURE_CACHE;
+      } else {
+        process.env.FEATURE_CACHE = originalFeatureCache;
+      }
+      ResponseCache.getInstance().clear();
+    });
+
+    it('should serve repeated queries from the cache', async () => {
+      const client = new TestableBaseClient(API_KEY);
+      const scope = nock(API_URL)
+        .post('/graphql/', { query })
+        .once()
+        .reply(200, { data: { repository: { id: '1' } } });
+
+      await client.testExecuteGraphQL(query);
+      const result = await client.testExecuteGraphQL(query);
+
+      expect(result).toEqual({ data: { repository: { id: '1' } } });
+      expect(scope.isDone()).toBe(true);
+      expect(ResponseCache.getInstance().getStats().hits).toBe(1);
+    });
+
+    it('should not share cached responses between API keys', async () => {
+      nock(API_URL)
+        .post('/graphql/', { query })
+        .twice()
+        .reply(200, { data: { repository: { id: '1' } } });
+
+      await new TestableBaseClient(API_KEY).testExecuteGraphQL(query);
+      await new TestableBaseClient('other-api-key').testExecuteGraphQL(query);
+
+      expect(ResponseCache.getInstance().getStats()).toMatchObject({ hits: 0, size: 2 });
+    });
+
+    it('should invalidate metrics after a metric mutation', async () => {
+      const client = new TestableBaseClient(API_KEY);
+      const mutation = 'mutation updateMetricSetting { updateMetricSetting { success } }';
+      nock(API_URL)
+        .post('/graphql/', { query })
+        .twice()
+        .reply(200, { data: { repository: { id: '1' } } });
+      nock(API_URL)
+        .post('/graphql/', { query: mutation })
+        .reply(200, { data: { updateMetricSetting: { success: true } } });
+
+      await client.testExecuteGraphQL(query);
+      await client.testExecuteGraphQL(mutation);
+      await client.testExecuteGraphQL(query);
+
+      expect(ResponseCache.getInstance().getStats().hits).toBe(0);
+    });
+
+    it('should bypass the cache when the feature is disabled', async () => {
+      process.env.FEATURE_CACHE = 'false';
+      const client = new TestableBaseClient(API_KEY);
+      nock(API_URL)
+        .post('/graphql/', { query })
+        .twice()
+        .reply(200, { data: { repository: { id: '1' } } });
+
+      await client.testExecuteGraphQL(query);
+      await client.testExecuteGraphQL(query);
+
+      expect(ResponseCache.getInstance().getStats().size).toBe(0);
+    });
+  });
+
   describe('findProjectByKey', () => {
+    const viewerResponse = {
+      data: {
+        viewer: {
+          accounts: {
+            edges: [
+              {
+                node: {
+                  login: 'organization',
+                  repositories: {
+                    edges: [
+                      {
+                        node: {
+                          id: 'repo1',
+                          name: 'repository',
+                          dsn: 'organization/repository',
+                          isPrivate: true,
+                          isActivated: true,
+                          vcsProvider: 'GITHUB',
+                        },
+                      },
+                      { node: { id: 'repo2', name: 'other', dsn: 'organization/other' } },
+                      { node: { id: 'repo3', name: 'no-dsn' } },
+                    ],
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+    };
+
     it('should return a project for a valid project key', async () => {
+      nock(API_URL).post('/graphql/').reply(200, viewerResponse);
       const client = new TestableBaseClient(API_KEY);
-      const projectKey = 'organization/repository';
 
-      const result = await client.testFindProjectByKey(projectKey);
+      const result = await client.testFindProjectByKey('organization/repository');
 
-      expect(result).not.toBeNull();
-      expect(result?.key).toBe(projectKey);
-      expect(result?.name).toBe('Project');
+      expect(result?.key).toBe('organization/repository');
+      expect(result?.name).toBe('repository');
+      expect(result?.repository.id).toBe('repo1');
       expect(result?.repository.login).toBe('organization');
-      expect(result?.repository.name).toBe('repository');
+      expect(result?.repository.isPrivate).toBe(true);
     });
 
-    it('should handle simple project keys without slash', async () => {
+    it('should resolve concurrent lookups with one request', async () => {
+      const scope = nock(API_URL).post('/graphql/').once().reply(200, viewerResponse);
       const client = new TestableBaseClient(API_KEY);
-      const projectKey = 'simple-project';
 
-      const result = await client.testFindProjectByKey(projectKey);
+      const [first, second, again] = await Promise.all([
+        client.testFindProjectByKey('organization/repository'),
+        client.testFindProjectByKey('organization/other'),
+        client.testFindProjectByKey('organization/repository'),
+      ]);
 
-      expect(result).not.toBeNull();
-      expect(result?.key).toBe(projectKey);
-      // When there's no slash, split returns the full key for both parts
-      expect(result?.repository.login).toBe('simple-project');
-      expect(result?.repository.name).toBe('unknown');
+      expect(first?.repository.id).toBe('repo1');
+      expect(second?.repository.id).toBe('repo2');
+      expect(again).toEqual(first);
+      expect(scope.isDone()).toBe(true);
     });
 
-    it('should handle normal processing without errors', async () => {
+    it('should return null for unknown project keys and failed lookups', async () => {
+      nock(API_URL).post('/graphql/').reply(200, viewerResponse);
+      nock(API_URL).post('/graphql/').reply(500, 'Internal Server Error');
       const client = new TestableBaseClient(API_KEY);
-      const projectKey = 'test/project';
 
-      const result = await client.testFindProjectByKey(projectKey);
+      expect(await client.testFindProjectByKey('organization/missing')).toBeNull();
+      expect(await client.testFindProjectByKey('organization/repository')).toBeNull();
+    });
+
+    it('should drop the project loaders of an API key', async () => {
+      nock(API_URL).post('/graphql/').times(2).reply(200, viewerResponse);
+      const loaders = (BaseDeepSourceClient as unknown as { projectLoaders: Map<string, unknown> })
+        .projectLoaders;
+      await new TestableBaseClient('tenant-a-key').testFindProjectByKey('organization/repository');
+      await new TestableBaseClient('tenant-b-key').testFindProjectByKey('organization/repository');
+      const loaderCount = loaders.size;
+
+      BaseDeepSourceClient.removeProjectLoaders('tenant-a-key');
 
-      expect(result).not.toBeNull();
-      expect(result?.key).toBe(projectKey);
-      expect(result?.repository.login).toBe('test');
-      expect(result?.repository.name).toBe('project');
+      expect(loaders.size).toBe(loaderCount - 1);
+      BaseDeepSourceClient.removeProjectLoaders('tenant-b-key');
+      expect(loaders.size).toBe(loaderCount - 2);
     });
   });
 
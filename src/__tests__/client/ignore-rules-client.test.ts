@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Tests for ignore rules client
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IgnoreRulesClient } from '../../client/ignore-rules-client.js';
+
+interface MockIgnoreRulesClient {
+  executeGraphQL: ReturnType<typeof vi.fn>;
+  findProjectByKey: ReturnType<typeof vi.fn>;
+  logger: {
+    info: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    debug: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+}
+
+const foreverRuleNode = {
+  id: 'SWdub3JlUnVsZTox',
+  level: 'REPOSITORY',
+  type: 'FOREVER',
+  filePath: null,
+  globPattern: null,
+  issue: { shortcode: 'JS-0002', title: 'Avoid console' },
+};
+
+const testPatternRuleNode = {
+  id: 'SWdub3JlUnVsZToy',
+  level: 'REPOSITORY',
+  type: 'TEST_PATTERN',
+  filePath: null,
+  globPattern: 'tests/**',
+  issue: { shortcode: 'JS-0125', title: 'Variable used before definition' },
+};
+
+describe('IgnoreRulesClient', () => {
+  let client: IgnoreRulesClient;
+  let mockedClient: MockIgnoreRulesClient;
+
+  beforeEach(() => {
+    client = new IgnoreRulesClient('test-api-key');
+    mockedClient = client as unknown as MockIgnoreRulesClient;
+    mockedClient.executeGraphQL = vi.fn();
+    mockedClient.findProjectByKey = vi.fn().mockResolvedValue({
+      key: 'owner/repo',
+      name: 'repo',
+      repository: {
+        url: 'owner/repo',
+        provider: 'github',
+        login: 'owner',
+        name: 'repo',
+        isPrivate: false,
+        isActivated: true,
+      },
+    });
+    mockedClient.logger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+    };
+  });
+
+  describe('getIgnoreRules', () => {
+    it('should fetch and map ignore rules', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: {
+          repository: {
+            ignoreRules: {
+              totalCount: 2,
+              pageInfo: { hasNextPage: false, hasPreviousPage: false },
+              edges: [
+                { node: foreverRuleNode },
+                { node: { id: 'SWdub3JlUnVsZToz', type: 'PATTERN', filePath: 'src/legacy.js' } },
+              ],
+            },
+          },
+        },
+      });
+
+      const result = await client.getIgnoreRules('owner/repo', { first: 10 });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('ignoreRules('),
+        { login: 'owner', name: 'repo', provider: 'github', first: 10 }
+      );
+      expect(result.totalCount).toBe(2);
+      expect(result.items[0]).toEqual(foreverRuleNode);
+      expect(result.items[1]).toEqual({
+        id: 'SWdub3JlUnVsZToz',
+        level: 'UNKNOWN',
+        type: 'PATTERN',
+        filePath: 'src/legacy.js',
+        globPattern: null,
+        issue: null,
+      });
+    });
+
+    it('should filter rules by type on every page', async () => {
+      mockedClient.executeGraphQL
+        .mockResolvedValueOnce({
+          data: {
+            repository: {
+              ignoreRules: {
+                totalCount: 3,
+                pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+                edges: [{ node: foreverRuleNode }, { node: testPatternRuleNode }],
+              },
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            repository: {
+              ignoreRules: {
+                totalCount: 3,
+                pageInfo: { hasNextPage: false, hasPreviousPage: true },
+                edges: [{ node: { ...testPatternRuleNode, id: 'SWdub3JlUnVsZTo0' } }],
+              },
+            },
+          },
+        });
+
+      const result = await client.getIgnoreRules('owner/repo', {
+        type: 'TEST_PATTERN',
+        first: 2,
+        max_pages: 2,
+      });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledTimes(2);
+      expect(mockedClient.executeGraphQL.mock.calls[1][1]).toMatchObject({ after: 'cursor-1' });
+      expect(result.items.map((rule) => rule.id)).toEqual(['SWdub3JlUnVsZToy', 'SWdub3JlUnVsZTo0']);
+    });
+
+    it('should return an empty response when the repository has no rules', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({ data: { repository: {} } });
+
+      const result = await client.getIgnoreRules('owner/repo');
+
+      expect(result.items).toEqual([]);
+      expect(result.totalCount).toBe(0);
+    });
+
+    it('should return an empty response for NoneType errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('NoneType object has no attribute'));
+
+      const result = await client.getIgnoreRules('owner/repo');
+
+      expect(result.items).toEqual([]);
+    });
+
+    it('should rethrow other errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('Unauthorized'));
+
+      await expect(client.getIgnoreRules('owner/repo')).rejects.toThrow('Unauthorized');
+    });
+  });
+});
@@ -85,6 +85,44 @@ describe('ProjectsClient', () => {
       expect(result[0]?.repository.login).toBe('test-org');
     });
 
+    it('should include the repository ID and default branch when available', async () => {
+      mockExecuteGraphQL.mockResolvedValue({
+        data: {
+          viewer: {
+            accounts: {
+              edges: [
+                {
+                  node: {
+                    login: 'test-org',
+                    repositories: {
+                      edges: [
+                        {
+                          node: {
+                            id: 'UmVwb3NpdG9yeTox',
+                            name: 'test-repo',
+                            defaultBranch: 'main',
+                            dsn: 'github.com/test-org/test-repo',
+                            vcsProvider: 'GITHUB',
+                            isPrivate: false,
+                            isActivated: true,
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      });
+
+      const result = await projectsClient.listProjects();
+
+      expect(result[0]?.repository.id).toBe('UmVwb3NpdG9yeTox');
+      expect(result[0]?.repository.defaultBranch).toBe('main');
+    });
+
     it.skip('should handle projects with missing DSN by skipping them', async () => {
       const mockResponse = {
         data: {
@@ -364,4 +402,125 @@ describe('ProjectsClient', () => {
       );
     });
   });
+
+  describe('getRepositorySettings', () => {
+    beforeEach(() => {
+      (
+        projectsClient as unknown as { findProjectByKey: ReturnType<typeof vi.fn> }
+      ).findProjectByKey = vi.fn().mockResolvedValue({
+        key: 'my-project',
+        name: 'repo',
+        repository: { login: 'owner', name: 'repo', provider: 'GITHUB' },
+      });
+    });
+
+    it('should fetch the default branch, configuration and enabled analyzers', async () => {
+      mockExecuteGraphQL.mockResolvedValue({
+        data: {
+          repository: {
+            id: 'UmVwb3NpdG9yeTox',
+            defaultBranch: 'main',
+            configJson: '{"version":1,"analyzers":[{"name":"python"}]}',
+            enabledAnalyzers: {
+              edges: [{ node: { shortcode: 'python', name: 'Python' } }, { node: null }],
+            },
+          },
+        },
+      });
+
+      const result = await projectsClient.getRepositorySettings('my-project');
+
+      expect(mockExecuteGraphQL).toHaveBeenCalledWith(expect.stringContaining('configJson'), {
+        login: 'owner',
+        name: 'repo',
+        provider: 'GITHUB',
+      });
+      expect(result).toEqual({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        defaultBranch: 'main',
+        configJson: { version: 1, analyzers: [{ name: 'python' }] },
+        enabledAnalyzers: [{ shortcode: 'python', name: 'Python' }],
+      });
+    });
+
+    it('should return null for unknown projects and repositories', async () => {
+      mockExecuteGraphQL.mockResolvedValue({ data: { repository: null } });
+      expect(await projectsClient.getRepositorySettings('my-project')).toBeNull();
+
+      (
+        projectsClient as unknown as { findProjectByKey: ReturnType<typeof vi.fn> }
+      ).findProjectByKey.mockResolvedValue(null);
+      expect(await projectsClient.getRepositorySettings('missing')).toBeNull();
+    });
+  });
+
+  describe('repository lifecycle mutations', () => {
+    let mockExecuteGraphQLMutation: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      mockExecuteGraphQLMutation = vi.fn();
+      (
+        projectsClient as unknown as { executeGraphQLMutation: typeof mockExecuteGraphQLMutation }
+      ).executeGraphQLMutation = mockExecuteGraphQLMutation;
+    });
+
+    it('should activate a repository', async () => {
+      mockExecuteGraphQLMutation.mockResolvedValue({ data: { activateRepository: { ok: true } } });
+
+      const result = await projectsClient.activateRepository('UmVwb3NpdG9yeTox');
+
+      expect(mockExecuteGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('activateRepository(input: $input)'),
+        { input: { repositoryId: 'UmVwb3NpdG9yeTox' } }
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should deactivate a repository', async () => {
+      mockExecuteGraphQLMutation.mockResolvedValue({
+        data: { deactivateRepository: { ok: true } },
+      });
+
+      const result = await projectsClient.deactivateRepository('UmVwb3NpdG9yeTox');
+
+      expect(mockExecuteGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('$input: DeactivateRepositoryInput!'),
+        { input: { repositoryId: 'UmVwb3NpdG9yeTox' } }
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should update the default branch', async () => {
+      mockExecuteGraphQLMutation.mockResolvedValue({
+        data: { updateRepositoryDefaultBranch: { ok: true } },
+      });
+
+      const result = await projectsClient.updateRepositoryDefaultBranch(
+        'UmVwb3NpdG9yeTox',
+        'develop'
+      );
+
+      expect(mockExecuteGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('updateRepositoryDefaultBranch(input: $input)'),
+        { input: { id: 'UmVwb3NpdG9yeTox', defaultBranchName: 'develop' } }
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should report failure when the mutation is not applied', async () => {
+      mockExecuteGraphQLMutation.mockResolvedValue({ data: { activateRepository: null } });
+
+      const result = await projectsClient.activateRepository('UmVwb3NpdG9yeTox');
+
+      expect(result).toEqual({ ok: false });
+    });
+
+    it('should rethrow mutation errors', async () => {
+      mockExecuteGraphQLMutation.mockRejectedValue(new Error('Permission denied'));
+
+      await expect(projectsClient.deactivateRepository('UmVwb3NpdG9yeTox')).rejects.toThrow(
+        'Permission denied'
+      );
+    });
+  });
 });
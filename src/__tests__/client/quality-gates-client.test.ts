@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Tests for quality gates client
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QualityGatesClient } from '../../client/quality-gates-client.js';
+
+interface MockQualityGatesClient {
+  executeGraphQL: ReturnType<typeof vi.fn>;
+  findProjectByKey: ReturnType<typeof vi.fn>;
+  executeGraphQLMutation: ReturnType<typeof vi.fn>;
+  logger: {
+    info: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    debug: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe('QualityGatesClient', () => {
+  let client: QualityGatesClient;
+  let mockedClient: MockQualityGatesClient;
+
+  beforeEach(() => {
+    client = new QualityGatesClient('test-api-key');
+    mockedClient = client as unknown as MockQualityGatesClient;
+    mockedClient.executeGraphQL = vi.fn();
+    mockedClient.findProjectByKey = vi.fn().mockResolvedValue({
+      key: 'owner/repo',
+      name: 'repo',
+      repository: {
+        url: 'owner/repo',
+        provider: 'github',
+        login: 'owner',
+        name: 'repo',
+        isPrivate: false,
+        isActivated: true,
+      },
+    });
+    mockedClient.executeGraphQLMutation = vi.fn();
+    mockedClient.logger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+    };
+  });
+
+  describe('getQualityGates', () => {
+    it('should fetch and map category and priority settings', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: {
+          repository: {
+            id: 'UmVwb3NpdG9yeTox',
+            issueCategorySettings: [
+              { category: 'SECURITY', isReported: true, canFailCheck: true },
+              { category: 'STYLE', isReported: false },
+            ],
+            issuePrioritySettings: [
+              { priorityType: 'HIGH', isReported: true, canFailCheck: false },
+            ],
+          },
+        },
+      });
+
+      const result = await client.getQualityGates('owner/repo');
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('issueCategorySettings'),
+        { login: 'owner', name: 'repo', provider: 'github' }
+      );
+      expect(result).toEqual({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        categories: [
+          { category: 'SECURITY', isReported: true, canFailCheck: true },
+          { category: 'STYLE', isReported: false, canFailCheck: false },
+        ],
+        priorities: [{ priority: 'HIGH', isReported: true, canFailCheck: false }],
+      });
+    });
+
+    it('should return null when the repository does not exist', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({ data: { repository: null } });
+
+      const result = await client.getQualityGates('owner/missing');
+
+      expect(result).toBeNull();
+    });
+
+    it('should rethrow other errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('Unauthorized'));
+
+      await expect(client.getQualityGates('owner/repo')).rejects.toThrow('Unauthorized');
+    });
+  });
+
+  describe('updateIssueCategorySetting', () => {
+    it('should send the category setting mutation', async () => {
+      mockedClient.executeGraphQLMutation.mockResolvedValue({
+        data: { updateRepositoryIssueCategorySetting: { ok: true } },
+      });
+
+      const result = await client.updateIssueCategorySetting({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        category: 'SECURITY',
+        isReported: true,
+        canFailCheck: true,
+      });
+
+      expect(mockedClient.executeGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('updateRepositoryIssueCategorySetting'),
+        {
+          input: {
+            repositoryId: 'UmVwb3NpdG9yeTox',
+            issueCategory: 'SECURITY',
+            isReported: true,
+            canFailCheck: true,
+          },
+        }
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should report failure when the mutation is not ok', async () => {
+      mockedClient.executeGraphQLMutation.mockResolvedValue({
+        data: { updateRepositoryIssueCategorySetting: { ok: false } },
+      });
+
+      const result = await client.updateIssueCategorySetting({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        category: 'STYLE',
+        isReported: false,
+        canFailCheck: false,
+      });
+
+      expect(result).toEqual({ ok: false });
+    });
+
+    it('should rethrow mutation errors', async () => {
+      mockedClient.executeGraphQLMutation.mockRejectedValue(new Error('Permission denied'));
+
+      await expect(
+        client.updateIssueCategorySetting({
+          repositoryId: 'UmVwb3NpdG9yeTox',
+          category: 'SECURITY',
+          isReported: true,
+          canFailCheck: true,
+        })
+      ).rejects.toThrow('Permission denied');
+    });
+  });
+
+  describe('updateIssuePrioritySetting', () => {
+    it('should send the priority setting mutation', async () => {
+      mockedClient.executeGraphQLMutation.mockResolvedValue({
+        data: { updateRepositoryIssuePrioritySetting: { ok: true } },
+      });
+
+      const result = await client.updateIssuePrioritySetting({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        priority: 'HIGH',
+        isReported: true,
+        canFailCheck: true,
+      });
+
+      expect(mockedClient.executeGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('updateRepositoryIssuePrioritySetting'),
+        {
+          input: {
+            repositoryId: 'UmVwb3NpdG9yeTox',
+            issuePriorityType: 'HIGH',
+            isReported: true,
+            canFailCheck: true,
+          },
+        }
+      );
+      expect(result).toEqual({ ok: true });
+    });
+  });
+});
@@ -354,6 +354,98 @@ describe('SecurityClient', () => {
     });
   });
 
+  describe('getDependencyTargets', () => {
+    const mockProject = {
+      repository: {
+        login: 'test-org',
+        name: 'test-repo',
+        provider: 'GITHUB',
+      },
+    };
+
+    it('should fetch and map dependency targets', async () => {
+      mockedClient.findProjectByKey = vi.fn().mockResolvedValue(mockProject);
+      mockedClient.executeGraphQL = vi.fn().mockResolvedValue({
+        data: {
+          repository: {
+            targets: {
+              totalCount: 2,
+              pageInfo: { hasNextPage: false, hasPreviousPage: false },
+              edges: [
+                {
+                  node: {
+                    id: 'target-1',
+                    ecosystem: 'NPM',
+                    packageManager: 'npm',
+                    manifestPath: 'packages/web/package.json',
+                    lockfilePath: 'packages/web/package-lock.json',
+                    isActivated: true,
+                  },
+                },
+                { node: { id: 'target-2', ecosystem: 'PYPI', manifestPath: 'requirements.txt' } },
+              ],
+            },
+          },
+        },
+      });
+
+      const result = await securityClient.getDependencyTargets('test-project', { first: 10 });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('targets(first: $first'),
+        expect.objectContaining({ login: 'test-org', name: 'test-repo', first: 10 })
+      );
+      expect(result.totalCount).toBe(2);
+      expect(result.items).toEqual([
+        {
+          id: 'target-1',
+          ecosystem: 'NPM',
+          packageManager: 'npm',
+          manifestPath: 'packages/web/package.json',
+          lockfilePath: 'packages/web/package-lock.json',
+          isActivated: true,
+        },
+        {
+          id: 'target-2',
+          ecosystem: 'PYPI',
+          packageManager: 'UNKNOWN',
+          manifestPath: 'requirements.txt',
+          lockfilePath: null,
+          isActivated: false,
+        },
+      ]);
+    });
+
+    it('should return an empty response when the project is not found', async () => {
+      mockedClient.findProjectByKey = vi.fn().mockResolvedValue(null);
+
+      const result = await securityClient.getDependencyTargets('missing-project');
+
+      expect(result.items).toEqual([]);
+      expect(mockedClient.executeGraphQL).not.toHaveBeenCalled();
+    });
+
+    it('should return an empty response for NoneType errors', async () => {
+      mockedClient.findProjectByKey = vi.fn().mockResolvedValue(mockProject);
+      mockedClient.executeGraphQL = vi
+        .fn()
+        .mockRejectedValue(new Error('NoneType object has no attribute'));
+
+      const result = await securityClient.getDependencyTargets('test-project');
+
+      expect(result.items).toEqual([]);
+    });
+
+    it('should rethrow other errors', async () => {
+      mockedClient.findProjectByKey = vi.fn().mockResolvedValue(mockProject);
+      mockedClient.executeGraphQL = vi.fn().mockRejectedValue(new Error('Unauthorized'));
+
+      await expect(securityClient.getDependencyTargets('test-project')).rejects.toThrow(
+        'Unauthorized'
+      );
+    });
+  });
+
   describe('buildComplianceReportQuery', () => {
     it('should build correct GraphQL query', () => {
       const query = TestableSecurityClient.testBuildComplianceReportQuery();
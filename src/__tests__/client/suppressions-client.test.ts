@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Tests for suppressions client
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SuppressionsClient } from '../../client/suppressions-client.js';
+
+interface MockSuppressionsClient {
+  executeGraphQL: ReturnType<typeof vi.fn>;
+  executeGraphQLMutation: ReturnType<typeof vi.fn>;
+  logger: {
+    info: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    debug: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+}
+
+const suppressionParams = {
+  login: 'acme',
+  vcsProvider: 'GITHUB',
+  analyzerShortcode: 'python',
+  issueShortcode: 'PYL-W0611',
+};
+
+describe('SuppressionsClient', () => {
+  let client: SuppressionsClient;
+  let mockedClient: MockSuppressionsClient;
+
+  beforeEach(() => {
+    client = new SuppressionsClient('test-api-key');
+    mockedClient = client as unknown as MockSuppressionsClient;
+    mockedClient.executeGraphQL = vi.fn();
+    mockedClient.executeGraphQLMutation = vi.fn();
+    mockedClient.logger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+      warn: vi.fn(),
+    };
+  });
+
+  describe('listTeamSuppressedIssues', () => {
+    it('should fetch and map suppressed issues', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({
+        data: {
+          account: {
+            suppressedIssues: {
+              totalCount: 2,
+              pageInfo: { hasNextPage: false, hasPreviousPage: false },
+              edges: [
+                {
+                  node: {
+                    id: 'U3VwcHJlc3Npb246MQ==',
+                    createdAt: '2026-09-01T10:00:00Z',
+                    user: { email: 'platform@acme.dev' },
+                    issue: {
+                      shortcode: 'PYL-W0611',
+                      title: 'Unused import',
+                      analyzer: { shortcode: 'python' },
+                    },
+                  },
+                },
+                { node: { id: 'U3VwcHJlc3Npb246Mg==' } },
+              ],
+            },
+          },
+        },
+      });
+
+      const result = await client.listTeamSuppressedIssues({
+        login: 'acme',
+        vcsProvider: 'GITHUB',
+        first: 10,
+      });
+
+      expect(mockedClient.executeGraphQL).toHaveBeenCalledWith(
+        expect.stringContaining('suppressedIssues('),
+        { login: 'acme', vcsProvider: 'GITHUB', first: 10 }
+      );
+      expect(result?.items).toEqual([
+        {
+          id: 'U3VwcHJlc3Npb246MQ==',
+          issue: { shortcode: 'PYL-W0611', title: 'Unused import', analyzerShortcode: 'python' },
+          suppressedAt: '2026-09-01T10:00:00Z',
+          suppressedBy: 'platform@acme.dev',
+        },
+        {
+          id: 'U3VwcHJlc3Npb246Mg==',
+          issue: { shortcode: 'UNKNOWN', title: 'Unknown Issue', analyzerShortcode: null },
+          suppressedAt: null,
+          suppressedBy: null,
+        },
+      ]);
+    });
+
+    it('should return null when the team does not exist', async () => {
+      mockedClient.executeGraphQL.mockResolvedValue({ data: { account: null } });
+
+      const result = await client.listTeamSuppressedIssues({
+        login: 'missing',
+        vcsProvider: 'GITHUB',
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('should rethrow other errors', async () => {
+      mockedClient.executeGraphQL.mockRejectedValue(new Error('Unauthorized'));
+
+      await expect(
+        client.listTeamSuppressedIssues({ login: 'acme', vcsProvider: 'GITHUB' })
+      ).rejects.toThrow('Unauthorized');
+    });
+  });
+
+  describe('suppressIssueForTeam', () => {
+    it('should send the suppress mutation with the team login', async () => {
+      mockedClient.executeGraphQLMutation.mockResolvedValue({
+        data: { suppressIssueForTeam: { ok: true } },
+      });
+
+      const result = await client.suppressIssueForTeam(suppressionParams);
+
+      expect(mockedClient.executeGraphQL).not.toHaveBeenCalled();
+      expect(mockedClient.executeGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('suppressIssueForTeam(input: $input)'),
+        {
+          input: {
+            issueShortcode: 'PYL-W0611',
+            login: 'acme',
+            vcsProvider: 'GITHUB',
+          },
+        }
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should report a failed mutation', async () => {
+      mockedClient.executeGraphQLMutation.mockResolvedValue({
+        data: { suppressIssueForTeam: null },
+      });
+
+      await expect(client.suppressIssueForTeam(suppressionParams)).resolves.toEqual({ ok: false });
+    });
+  });
+
+  describe('unsuppressIssueForTeam', () => {
+    it('should send the unsuppress mutation', async () => {
+      mockedClient.executeGraphQLMutation.mockResolvedValue({
+        data: { unsuppressIssueForTeam: { ok: true } },
+      });
+
+      const result = await client.unsuppressIssueForTeam(suppressionParams);
+
+      expect(mockedClient.executeGraphQLMutation).toHaveBeenCalledWith(
+        expect.stringContaining('UnsuppressIssueForTeamInput'),
+        expect.any(Object)
+      );
+      expect(result).toEqual({ ok: true });
+    });
+  });
+});
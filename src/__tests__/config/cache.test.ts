@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Tests for persistent cache configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getCacheStoreConfig, DEFAULT_CACHE_DIR } from '../../config/cache.js';
+
+describe('Cache Store Configuration', () => {
+  it('should disable persistence by default', () => {
+    expect(getCacheStoreConfig([], {})).toEqual({
+      persistent: false,
+      directory: DEFAULT_CACHE_DIR,
+      offline: false,
+    });
+  });
+
+  it('should read the store settings from environment variables', () => {
+    expect(getCacheStoreConfig([], { CACHE_PERSIST: 'true', CACHE_DIR: '/tmp/ds' })).toEqual({
+      persistent: true,
+      directory: '/tmp/ds',
+      offline: false,
+    });
+  });
+
+  it('should enable persistence in offline mode', () => {
+    expect(getCacheStoreConfig(['--offline'], {})).toMatchObject({
+      persistent: true,
+      offline: true,
+    });
+    expect(getCacheStoreConfig([], { DEEPSOURCE_OFFLINE: 'true' })).toMatchObject({
+      persistent: true,
+      offline: true,
+    });
+  });
+});
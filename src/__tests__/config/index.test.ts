@@ -15,6 +15,7 @@ vi.mock('../../utils/logging/logger.js', () => ({
 
 // Import after mocking
 const { getConfig, hasApiKey, getApiKey } = await import('../../config/index.js');
+const { runWithRequestContext } = await import('../../utils/request-context.js');
 
 describe('Configuration Management', () => {
   // Store original env vars
@@ -168,6 +169,16 @@ describe('Configuration Management', () => {
 
       expect(apiKey).toBe('key-with-special-chars!@#$%^&*()');
     });
+
+    it('should prefer the API key of the request context', () => {
+      delete process.env.DEEPSOURCE_API_KEY;
+
+      runWithRequestContext({ scope: 'session-1', apiKey: 'session-api-key' }, () => {
+        expect(hasApiKey()).toBe(true);
+        expect(getApiKey()).toBe('session-api-key');
+      });
+      expect(hasApiKey()).toBe(false);
+    });
   });
 
   describe('Integration tests', () => {
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Tests for tool access configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getToolAccessConfig, DEFAULT_TOOL_ACCESS_CONFIG } from '../../config/tool-access.js';
+
+describe('Tool Access Configuration', () => {
+  it('should allow every tool by default', () => {
+    expect(getToolAccessConfig([], {})).toEqual(DEFAULT_TOOL_ACCESS_CONFIG);
+  });
+
+  it('should enable read-only mode from the flag or the environment', () => {
+    expect(getToolAccessConfig(['--read-only'], {}).readOnly).toBe(true);
+    expect(getToolAccessConfig([], { DEEPSOURCE_READ_ONLY: 'true' }).readOnly).toBe(true);
+    expect(getToolAccessConfig([], { DEEPSOURCE_READ_ONLY: 'false' }).readOnly).toBe(false);
+  });
+
+  it('should read the allow and deny lists from environment variables', () => {
+    expect(
+      getToolAccessConfig([], {
+        DEEPSOURCE_TOOLS_ALLOW: 'projects, quality_metrics',
+        DEEPSOURCE_TOOLS_DENY: 'activate_repository',
+        DEEPSOURCE_TOOL_CATEGORIES_ALLOW: 'security',
+        DEEPSOURCE_TOOL_CATEGORIES_DENY: 'experimental,',
+        DEEPSOURCE_TOOL_TAGS_ALLOW: 'stable',
+        DEEPSOURCE_TOOL_TAGS_DENY: 'mutation',
+      })
+    ).toEqual({
+      readOnly: false,
+      allowTools: ['projects', 'quality_metrics'],
+      denyTools: ['activate_repository'],
+      allowCategories: ['security'],
+      denyCategories: ['experimental'],
+      allowTags: ['stable'],
+      denyTags: ['mutation'],
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Tests for transport configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTransportConfig, DEFAULT_HTTP_TRANSPORT_CONFIG } from '../../config/transport.js';
+
+describe('Transport Configuration', () => {
+  it('should default to stdio', () => {
+    expect(getTransportConfig([], {})).toEqual({
+      mode: 'stdio',
+      http: DEFAULT_HTTP_TRANSPORT_CONFIG,
+    });
+  });
+
+  it('should read the HTTP settings from environment variables', () => {
+    const config = getTransportConfig([], {
+      MCP_TRANSPORT: 'HTTP',
+      MCP_HTTP_HOST: '0.0.0.0',
+      MCP_HTTP_PORT: '8080',
+      MCP_HTTP_ENDPOINT: '/deepsource/mcp',
+      MCP_HTTP_SESSION_IDLE_TIMEOUT_MS: '0',
+      MCP_HTTP_SHUTDOWN_TIMEOUT_MS: '2500',
+      MCP_HTTP_REQUIRE_API_KEY: 'false',
+    });
+
+    expect(config).toEqual({
+      mode: 'http',
+      http: {
+        host: '0.0.0.0',
+        port: 8080,
+        endpoint: '/deepsource/mcp',
+        sessionIdleTimeoutMs: 0,
+        shutdownTimeoutMs: 2500,
+        requireApiKey: false,
+      },
+    });
+  });
+
+  it('should require a per-session API key unless explicitly disabled', () => {
+    expect(getTransportConfig([], {}).http.requireApiKey).toBe(true);
+    expect(getTransportConfig([], { MCP_HTTP_REQUIRE_API_KEY: 'true' }).http.requireApiKey).toBe(
+      true
+    );
+    expect(getTransportConfig([], { MCP_HTTP_REQUIRE_API_KEY: 'no' }).http.requireApiKey).toBe(
+      true
+    );
+  });
+
+  it('should let CLI flags override environment variables', () => {
+    const config = getTransportConfig(['--transport=http', '--port', '9000', '--host', '::'], {
+      MCP_TRANSPORT: 'stdio',
+      MCP_HTTP_PORT: '8080',
+    });
+
+    expect(config.mode).toBe('http');
+    expect(config.http).toMatchObject({ host: '::', port: 9000 });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => getTransportConfig(['--transport', 'sse'], {})).toThrow(
+      'Unsupported transport: sse'
+    );
+    expect(() => getTransportConfig(['--port', 'abc'], {})).toThrow(
+      'MCP_HTTP_PORT must be a non-negative integer'
+    );
+    expect(() => getTransportConfig([], { MCP_HTTP_PORT: '70000' })).toThrow(
+      'MCP_HTTP_PORT must be at most 65535'
+    );
+    expect(() => getTransportConfig([], { MCP_HTTP_ENDPOINT: 'mcp' })).toThrow(
+      'MCP_HTTP_ENDPOINT must start with /'
+    );
+  });
+});
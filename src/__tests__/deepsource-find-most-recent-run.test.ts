@@ -24,6 +24,7 @@ vi.mock('../utils/logger.js', () => ({
 vi.mock('axios', () => ({
   default: {
     create: vi.fn(() => ({
+      defaults: {},
       interceptors: {
         request: { use: vi.fn() },
         response: { use: vi.fn() },
@@ -64,6 +65,7 @@ describe('DeepSourceClient - findMostRecentRun', () => {
 
     // Set up mocked axios instance
     mockAxiosInstance = {
+      defaults: {},
       interceptors: {
         request: { use: vi.fn() },
         response: { use: vi.fn() },
@@ -74,7 +76,7 @@ describe('DeepSourceClient - findMostRecentRun', () => {
     mockAxios.create.mockReturnValue(mockAxiosInstance);
 
     // Create client instance
-    client = new DeepSourceClient({ apiKey: 'test-key' });
+    client = new DeepSourceClient('test-key');
 
     // Mock listProjects to return a valid project (needed by listRuns)
     vi.spyOn(client, 'listProjects').mockResolvedValue([
@@ -451,7 +451,7 @@ describe('DeepSourceClient Historical Data Processing', () => {
       // Verify the query was provided (line 2986)
       expect(postArgs[1].query).toBeDefined();
       expect(postArgs[1].query).toContain(
-        'query($login: String!, $name: String!, $provider: VCSProvider!, $first: Int, $metricItemId: ID!)'
+        'query getMetricHistory($login: String!, $name: String!, $provider: VCSProvider!, $first: Int, $metricItemId: ID!)'
       );
 
       // Verify the variables were correctly set (line 3018-3027)
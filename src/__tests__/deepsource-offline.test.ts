@@ -0,0 +1,101 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import nock from 'nock';
+import { DeepSourceClient, MetricShortcode } from '../deepsource.js';
+import { PersistentStore, trackDataAge } from '../utils/cache/persistent-store.js';
+
+const API_KEY = 'test-api-key';
+const RUN_UID = '12345678-1234-1234-1234-123456789012';
+
+const runResponse = {
+  data: {
+    run: {
+      id: 'run1',
+      runUid: RUN_UID,
+      commitOid: 'abcdef123456',
+      branchName: 'main',
+      baseOid: '654321fedcba',
+      status: 'SUCCESS',
+      createdAt: '2026-01-01T12:00:00Z',
+      updatedAt: '2026-01-01T12:30:00Z',
+      finishedAt: '2026-01-01T12:30:00Z',
+      summary: {
+        occurrencesIntroduced: 5,
+        occurrencesResolved: 2,
+        occurrencesSuppressed: 1,
+      },
+      repository: { name: 'test-repo', id: 'repo1' },
+    },
+  },
+};
+
+describe('DeepSourceClient offline mode', () => {
+  let directory: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'deepsource-offline-'));
+    process.env.CACHE_PERSIST = 'true';
+    process.env.CACHE_DIR = directory;
+    PersistentStore.resetInstance();
+    nock.cleanAll();
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    PersistentStore.resetInstance();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    nock.restore();
+  });
+
+  it('should answer run lookups from stored runs offline', async () => {
+    nock('https://api.deepsource.io').post('/graphql/').reply(200, runResponse);
+    const onlineRun = await new DeepSourceClient(API_KEY).getRun(RUN_UID);
+
+    process.env.DEEPSOURCE_OFFLINE = 'true';
+    PersistentStore.resetInstance();
+    const offlineClient = new DeepSourceClient(API_KEY);
+
+    // The run was fetched by UID, but is also stored under its commit
+    const { result, storedAt } = await trackDataAge(() => offlineClient.getRun('abcdef123456'));
+
+    expect(result).toEqual(onlineRun);
+    expect(storedAt).toBeDefined();
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should not share stored data between API keys', async () => {
+    nock('https://api.deepsource.io').post('/graphql/').reply(200, runResponse);
+    await new DeepSourceClient(API_KEY).getRun(RUN_UID);
+
+    process.env.DEEPSOURCE_OFFLINE = 'true';
+    PersistentStore.resetInstance();
+
+    await expect(new DeepSourceClient('other-api-key').getRun(RUN_UID)).rejects.toThrow(
+      'No stored data is available offline'
+    );
+  });
+
+  it('should reject metric changes offline', async () => {
+    process.env.DEEPSOURCE_OFFLINE = 'true';
+    PersistentStore.resetInstance();
+
+    await expect(
+      new DeepSourceClient(API_KEY).updateMetricSetting({
+        repositoryId: 'repo1',
+        metricShortcode: MetricShortcode.LCV,
+        isReported: true,
+        isThresholdEnforced: false,
+      })
+    ).rejects.toThrow('Changes cannot be made in offline mode');
+  });
+});
@@ -2,6 +2,7 @@ import nock from 'nock';
 // Removed unused import: import { vi as jest } from 'vitest'
 import { DeepSourceClient, MetricShortcode } from '../deepsource';
 import { MetricKey } from '../types/metrics';
+import { ResponseCache } from '../utils/cache/response-cache';
 
 describe('DeepSourceClient Quality Metrics', () => {
   const API_KEY = 'test-api-key';
@@ -683,4 +684,100 @@ describe('DeepSourceClient Quality Metrics', () => {
       );
     });
   });
+
+  describe('response cache', () => {
+    const originalFeatureCache = process.env.FEATURE_CACHE;
+    const projectsResponse = {
+      data: {
+        viewer: {
+          email: 'test@example.com',
+          accounts: {
+            edges: [
+              {
+                node: {
+                  login: 'testorg',
+                  repositories: {
+                    edges: [
+                      {
+                        node: {
+                          name: 'Test Project',
+                          defaultBranch: 'main',
+                          dsn: PROJECT_KEY,
+                          isPrivate: false,
+                          isActivated: true,
+                          vcsProvider: 'github',
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+    };
+    const metricsResponse = {
+      data: { repository: { name: 'Test Project', id: REPOSITORY_ID, metrics: [] } },
+    };
+
+    beforeEach(() => {
+      process.env.FEATURE_CACHE = 'true';
+      ResponseCache.getInstance().clear();
+    });
+
+    afterAll(() => {
+      if (originalFeatureCache === undefined) {
+        delete process.env.FEATURE_CACHE;
+      } else {
+        process.env.FEATURE_CACHE = originalFeatureCache;
+      }
+      ResponseCache.getInstance().clear();
+    });
+
+    it('should serve repeated queries from the cache', async () => {
+      const cachedClient = new DeepSourceClient(API_KEY);
+      nock('https://api.deepsource.io')
+        .post('/graphql/', (body) => body.query.includes('viewer'))
+        .once()
+        .reply(200, projectsResponse);
+      const metricsScope = nock('https://api.deepsource.io')
+        .post('/graphql/', (body) => body.query.startsWith('query getQualityMetrics'))
+        .once()
+        .reply(200, metricsResponse);
+
+      await cachedClient.getQualityMetrics(PROJECT_KEY);
+      await cachedClient.getQualityMetrics(PROJECT_KEY);
+
+      expect(metricsScope.isDone()).toBe(true);
+      expect(nock.pendingMocks()).toHaveLength(0);
+      expect(ResponseCache.getInstance().getStats().hits).toBe(2);
+    });
+
+    it('should invalidate cached metrics after a threshold change', async () => {
+      const cachedClient = new DeepSourceClient(API_KEY);
+      nock('https://api.deepsource.io')
+        .post('/graphql/', (body) => body.query.includes('viewer'))
+        .once()
+        .reply(200, projectsResponse);
+      const metricsScope = nock('https://api.deepsource.io')
+        .post('/graphql/', (body) => body.query.startsWith('query getQualityMetrics'))
+        .twice()
+        .reply(200, metricsResponse);
+      nock('https://api.deepsource.io')
+        .post('/graphql/', (body) => body.query.startsWith('mutation'))
+        .reply(200, { data: { setRepositoryMetricThreshold: { ok: true } } });
+
+      await cachedClient.getQualityMetrics(PROJECT_KEY);
+      await cachedClient.setMetricThreshold({
+        repositoryId: REPOSITORY_ID,
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+        thresholdValue: 85,
+      });
+      await cachedClient.getQualityMetrics(PROJECT_KEY);
+
+      expect(metricsScope.isDone()).toBe(true);
+    });
+  });
 });
@@ -24,6 +24,7 @@ vi.mock('../utils/logger.js', () => ({
 vi.mock('axios', () => ({
   default: {
     create: vi.fn(() => ({
+      defaults: {},
       interceptors: {
         request: { use: vi.fn() },
         response: { use: vi.fn() },
@@ -39,6 +40,7 @@ const mockAxios = axios.default as any; // skipcq: JS-0323
 
 // Import DeepSourceClient after mocking
 const { DeepSourceClient } = await import('../deepsource.js');
+const { runWithProgressReporter } = await import('../utils/progress.js');
 
 describe('DeepSourceClient - getRecentRunIssues', () => {
   let client: InstanceType<typeof DeepSourceClient>;
@@ -49,6 +51,7 @@ describe('DeepSourceClient - getRecentRunIssues', () => {
 
     // Set up mocked axios instance
     mockAxiosInstance = {
+      defaults: {},
       interceptors: {
         request: { use: vi.fn() },
         response: { use: vi.fn() },
@@ -60,7 +63,7 @@ describe('DeepSourceClient - getRecentRunIssues', () => {
     mockAxiosCreate.mockReturnValue(mockAxiosInstance);
 
     // Create client instance
-    client = new DeepSourceClient({ apiKey: 'test-key' });
+    client = new DeepSourceClient('test-key');
 
     // Mock listProjects to return test project
     vi.spyOn(client, 'listProjects').mockResolvedValue([
@@ -410,5 +413,104 @@ describe('DeepSourceClient - getRecentRunIssues', () => {
       expect(result.pageInfo.hasNextPage).toBe(false);
       expect(result.totalCount).toBe(0);
     });
+
+    it('should fetch checks in parallel, keep their order and report progress', async () => {
+      vi.spyOn(
+        client as unknown as { findMostRecentRun: ReturnType<typeof vi.fn> },
+        'findMostRecentRun'
+      ).mockResolvedValue({ id: 'run1', runUid: 'run-uid-1', branchName: 'main' });
+
+      const checkIds = ['check1', 'check2', 'check3'];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (mockAxiosInstance.post as ReturnType<typeof vi.fn>).mockImplementation(
+        async (_url: string, body: { variables: Record<string, unknown> }) => {
+          if (body.variables.runId) {
+            return {
+              data: {
+                data: {
+                  run: {
+                    checks: {
+                      edges: checkIds.map((id) => ({ node: { id, analyzer: { shortcode: id } } })),
+                      pageInfo: { hasNextPage: false, endCursor: null },
+                    },
+                  },
+                },
+              },
+            };
+          }
+
+          // The first check answers last
+          const checkId = String(body.variables.checkId);
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, checkId === 'check1' ? 20 : 5));
+          inFlight--;
+          return {
+            data: {
+              data: {
+                node: {
+                  occurrences: {
+                    edges: [{ node: { id: `${checkId}-occ`, issue: { shortcode: 'JS-0001' } } }],
+                    pageInfo: { hasNextPage: false, endCursor: null },
+                  },
+                },
+              },
+            },
+          };
+        }
+      );
+
+      const updates: Array<{ progress: number; total?: number }> = [];
+      const result = await runWithProgressReporter(
+        async (update) => {
+          updates.push(update);
+        },
+        () => client.getRecentRunIssues('test-project', 'main')
+      );
+
+      expect(result.items.map((issue) => issue.id)).toEqual([
+        'check1-occ',
+        'check2-occ',
+        'check3-occ',
+      ]);
+      expect(maxInFlight).toBeGreaterThan(1);
+      expect(updates.map(({ progress, total }) => ({ progress, total }))).toEqual([
+        { progress: 1, total: 3 },
+        { progress: 2, total: 3 },
+        { progress: 3, total: 3 },
+      ]);
+    });
+
+    it('should retry rate-limited requests after the Retry-After delay', async () => {
+      vi.spyOn(
+        client as unknown as { findMostRecentRun: ReturnType<typeof vi.fn> },
+        'findMostRecentRun'
+      ).mockResolvedValue({ id: 'run1', runUid: 'run-uid-1', branchName: 'main' });
+
+      const rateLimited = Object.assign(new Error('Request failed with status code 429'), {
+        isAxiosError: true,
+        response: { status: 429, headers: { 'retry-after': '0' } },
+      });
+      (mockAxiosInstance.post as ReturnType<typeof vi.fn>)
+        .mockRejectedValueOnce(rateLimited)
+        .mockResolvedValueOnce({
+          data: {
+            data: {
+              run: {
+                checks: {
+                  edges: [],
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                },
+              },
+            },
+          },
+        });
+
+      const result = await client.getRecentRunIssues('test-project', 'main');
+
+      expect(result.items).toEqual([]);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
   });
 });
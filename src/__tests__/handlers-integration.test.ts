@@ -32,6 +32,14 @@ vi.mock('../deepsource.js', () => ({
   },
 }));
 
+const mockGetDependencyTargets = vi.fn();
+
+vi.mock('../client/security-client.js', () => ({
+  SecurityClient: vi.fn().mockImplementation(() => ({
+    getDependencyTargets: mockGetDependencyTargets,
+  })),
+}));
+
 // Now import the handlers
 const { handleDeepsourceDependencyVulnerabilities } = await import(
   '../handlers/dependency-vulnerabilities.js'
@@ -46,6 +54,11 @@ describe('Handler Integration Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     process.env = { ...originalEnv, DEEPSOURCE_API_KEY: 'test-api-key' };
+    mockGetDependencyTargets.mockResolvedValue({
+      items: [],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      totalCount: 0,
+    });
   });
 
   afterEach(() => {
@@ -106,6 +119,248 @@ describe('Handler Integration Tests', () => {
       expect(parsedContent.totalCount).toBe(5);
     });
 
+    it('should include the files of the only target of a package ecosystem', async () => {
+      const target = (id: string, ecosystem: string, directory: string) => ({
+        id,
+        ecosystem,
+        packageManager: ecosystem === 'NPM' ? 'NPM' : 'POETRY',
+        manifestPath: `${directory}/manifest`,
+        lockfilePath: `${directory}/lockfile`,
+        isActivated: true,
+      });
+      mockGetDependencyTargets.mockResolvedValue({
+        items: [
+          target('target-1', 'NPM', 'packages/web'),
+          target('target-2', 'PYPI', 'services/api'),
+          target('target-3', 'PYPI', 'services/worker'),
+        ],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        totalCount: 3,
+      });
+      const occurrence = (id: string, ecosystem: string, name: string) => ({
+        id,
+        vulnerability: {
+          identifier: `CVE-${id}`,
+          severity: 'HIGH',
+          fixedVersions: ['2.0.0'],
+          aliases: [],
+          referenceUrls: [],
+        },
+        package: { name, ecosystem },
+        packageVersion: { version: '1.0.0' },
+      });
+      mockClient.getDependencyVulnerabilities.mockResolvedValue({
+        items: [occurrence('1', 'NPM', 'lodash'), occurrence('2', 'PYPI', 'requests')],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        totalCount: 2,
+      });
+
+      const result = await handleDeepsourceDependencyVulnerabilities({
+        projectKey: 'test-project',
+      });
+
+      const [npm, pypi] = JSON.parse(result.content[0].text).vulnerabilities;
+      expect(mockGetDependencyTargets).toHaveBeenCalledWith('test-project', { max_pages: 10 });
+      expect(npm.manifestPath).toBe('packages/web/manifest');
+      expect(npm.lockfilePath).toBe('packages/web/lockfile');
+      expect(npm.risk_assessment.remediation_advice).toBe(
+        'Update lodash to version 2.0.0 or later in packages/web/lockfile to resolve this vulnerability.'
+      );
+      // Two PYPI targets: the occurrence cannot be attributed to either
+      expect(pypi.manifestPath).toBeNull();
+      expect(pypi.lockfilePath).toBeNull();
+      expect(pypi.risk_assessment.remediation_advice).toBe(
+        'Update requests to version 2.0.0 or later to resolve this vulnerability.'
+      );
+    });
+
+    it('should report vulnerabilities without files when the targets cannot be fetched', async () => {
+      mockGetDependencyTargets.mockRejectedValue(new Error('Unauthorized'));
+      mockClient.getDependencyVulnerabilities.mockResolvedValue({
+        items: [
+          {
+            id: 'vuln-1',
+            vulnerability: {
+              identifier: 'CVE-2023-0001',
+              severity: 'LOW',
+              fixedVersions: [],
+              aliases: [],
+              referenceUrls: [],
+            },
+            package: { name: 'left-pad', ecosystem: 'NPM' },
+            packageVersion: { version: '1.0.0' },
+          },
+        ],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        totalCount: 1,
+      });
+
+      const result = await handleDeepsourceDependencyVulnerabilities({
+        projectKey: 'test-project',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0].text).vulnerabilities[0].lockfilePath).toBeNull();
+    });
+
+    describe('filters', () => {
+      const createOccurrence = (
+        id: string,
+        overrides: {
+          severity: string;
+          cvssV3BaseScore?: number | null;
+          reachability: string;
+          fixability: string;
+          ecosystem?: string;
+        }
+      ) => ({
+        id,
+        reachability: overrides.reachability,
+        fixability: overrides.fixability,
+        vulnerability: {
+          identifier: `CVE-${id}`,
+          severity: overrides.severity,
+          cvssV3BaseScore: overrides.cvssV3BaseScore ?? null,
+          fixedVersions: ['2.0.0'],
+          aliases: [],
+          referenceUrls: [],
+        },
+        package: { name: `pkg-${id}`, ecosystem: overrides.ecosystem ?? 'NPM' },
+        packageVersion: { version: '1.0.0' },
+      });
+
+      beforeEach(() => {
+        mockClient.getDependencyVulnerabilities
+          .mockResolvedValueOnce({
+            items: [
+              createOccurrence('1', {
+                severity: 'HIGH',
+                cvssV3BaseScore: 7.5,
+                reachability: 'REACHABLE',
+                fixability: 'AUTO_FIXABLE',
+              }),
+              createOccurrence('2', {
+                severity: 'LOW',
+                cvssV3BaseScore: 3.1,
+                reachability: 'REACHABLE',
+                fixability: 'AUTO_FIXABLE',
+              }),
+              createOccurrence('3', {
+                severity: 'CRITICAL',
+                cvssV3BaseScore: 9.8,
+                reachability: 'UNREACHABLE',
+                fixability: 'AUTO_FIXABLE',
+              }),
+            ],
+            pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+            totalCount: 5,
+          })
+          .mockResolvedValueOnce({
+            items: [
+              createOccurrence('4', {
+                severity: 'CRITICAL',
+                cvssV3BaseScore: 9.1,
+                reachability: 'REACHABLE',
+                fixability: 'MANUALLY_FIXABLE',
+                ecosystem: 'PYPI',
+              }),
+              createOccurrence('5', {
+                severity: 'HIGH',
+                reachability: 'REACHABLE',
+                fixability: 'UNFIXABLE',
+              }),
+            ],
+            pageInfo: { hasNextPage: false, hasPreviousPage: true },
+            totalCount: 5,
+          });
+      });
+
+      afterEach(() => {
+        // Drop any pages a test did not consume
+        mockClient.getDependencyVulnerabilities.mockReset();
+      });
+
+      it('should apply filters across all pages', async () => {
+        const result = await handleDeepsourceDependencyVulnerabilities({
+          projectKey: 'test-project',
+          reachabilityIn: ['REACHABLE'],
+          fixabilityIn: ['AUTO_FIXABLE', 'MANUALLY_FIXABLE'],
+          minSeverity: 'HIGH',
+        });
+
+        expect(mockClient.getDependencyVulnerabilities).toHaveBeenCalledTimes(2);
+        expect(mockClient.getDependencyVulnerabilities).toHaveBeenLastCalledWith('test-project', {
+          first: 50,
+          after: 'cursor-1',
+        });
+
+        const parsedContent = JSON.parse(result.content[0].text);
+        expect(parsedContent.vulnerabilities.map((v: { id: string }) => v.id)).toEqual(['1', '4']);
+        expect(parsedContent.vulnerabilities[1]).toMatchObject({
+          reachability: 'REACHABLE',
+          fixability: 'MANUALLY_FIXABLE',
+          ecosystem: 'PYPI',
+        });
+        expect(parsedContent.totalCount).toBe(2);
+        expect(parsedContent.scanned_count).toBe(5);
+        expect(parsedContent.pageInfo.hasNextPage).toBe(false);
+        expect(parsedContent.filters_applied).toEqual({
+          reachabilityIn: ['REACHABLE'],
+          fixabilityIn: ['AUTO_FIXABLE', 'MANUALLY_FIXABLE'],
+          minSeverity: 'HIGH',
+        });
+      });
+
+      it('should filter by ecosystem and minimum CVSS score and sort by CVSS', async () => {
+        const result = await handleDeepsourceDependencyVulnerabilities({
+          projectKey: 'test-project',
+          ecosystemIn: ['npm'],
+          minCvssScore: 3,
+          sortByCvss: 'desc',
+        });
+
+        const parsedContent = JSON.parse(result.content[0].text);
+        expect(parsedContent.vulnerabilities.map((v: { id: string }) => v.id)).toEqual([
+          '3',
+          '1',
+          '2',
+        ]);
+      });
+
+      it('should keep unscored vulnerabilities last when sorting', async () => {
+        const result = await handleDeepsourceDependencyVulnerabilities({
+          projectKey: 'test-project',
+          severityIn: ['HIGH', 'LOW'],
+          sortByCvss: 'asc',
+        });
+
+        const parsedContent = JSON.parse(result.content[0].text);
+        expect(parsedContent.vulnerabilities.map((v: { id: string }) => v.id)).toEqual([
+          '2',
+          '1',
+          '5',
+        ]);
+      });
+
+      it('should stop scanning at max_pages', async () => {
+        const result = await handleDeepsourceDependencyVulnerabilities({
+          projectKey: 'test-project',
+          reachabilityIn: ['REACHABLE'],
+          page_size: 3,
+          max_pages: 1,
+        });
+
+        expect(mockClient.getDependencyVulnerabilities).toHaveBeenCalledTimes(1);
+        expect(mockClient.getDependencyVulnerabilities).toHaveBeenCalledWith('test-project', {
+          first: 3,
+        });
+
+        const parsedContent = JSON.parse(result.content[0].text);
+        expect(parsedContent.vulnerabilities).toHaveLength(2);
+        expect(parsedContent.pageInfo).toMatchObject({ hasNextPage: true, endCursor: 'cursor-1' });
+      });
+    });
+
     it('should handle vulnerability with minimal data', async () => {
       const mockVulnerabilities = {
         items: [
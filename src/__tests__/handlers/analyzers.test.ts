@@ -0,0 +1,143 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+import type { DeepSourceAnalyzer } from '../../models/analyzers';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const { createAnalyzersHandler, createAnalyzerHandler } = await import('../../handlers/analyzers');
+
+const pythonAnalyzer: DeepSourceAnalyzer = {
+  id: 'QW5hbHl6ZXI6MQ==',
+  name: 'Python',
+  shortcode: 'python',
+  description: 'Finds bug risks and anti-patterns in Python code',
+  version: '1.4.0',
+  type: 'CORE',
+  numIssues: 412,
+};
+
+describe('Analyzers Handlers', () => {
+  const mockListAnalyzers = vi.fn();
+  const mockGetAnalyzerIssues = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {
+        getAnalyzersClient: vi.fn(() => ({
+          listAnalyzers: mockListAnalyzers,
+          getAnalyzerIssues: mockGetAnalyzerIssues,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  describe('createAnalyzersHandler', () => {
+    it('should list analyzers with their catalog details', async () => {
+      mockListAnalyzers.mockResolvedValue({
+        items: [pythonAnalyzer],
+        pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+        totalCount: 30,
+      });
+
+      const handler = createAnalyzersHandler(deps);
+      const result = await handler({ first: 1 });
+
+      expect(mockListAnalyzers).toHaveBeenCalledWith({ first: 1 });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.analyzers).toEqual([
+        {
+          name: 'Python',
+          shortcode: 'python',
+          description: 'Finds bug risks and anti-patterns in Python code',
+          version: '1.4.0',
+          type: 'CORE',
+          numIssues: 412,
+        },
+      ]);
+      expect(data.totalCount).toBe(30);
+      expect(data.pageInfo.endCursor).toBe('cursor-1');
+      expect(data.pagination.has_more_pages).toBe(true);
+    });
+
+    it('should pass only supplied pagination parameters', async () => {
+      mockListAnalyzers.mockResolvedValue({
+        items: [],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        totalCount: 0,
+      });
+
+      const handler = createAnalyzersHandler(deps);
+      await handler({});
+
+      expect(mockListAnalyzers).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('createAnalyzerHandler', () => {
+    it('should return the analyzer issue catalog', async () => {
+      mockGetAnalyzerIssues.mockResolvedValue({
+        analyzer: pythonAnalyzer,
+        items: [
+          {
+            id: 'SXNzdWU6MQ==',
+            shortcode: 'PYL-W0611',
+            title: 'Unused import',
+            category: 'ANTI_PATTERN',
+            severity: 'MINOR',
+            autofixAvailable: true,
+          },
+        ],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        totalCount: 1,
+      });
+
+      const handler = createAnalyzerHandler(deps);
+      const result = await handler({ shortcode: 'python', max_pages: 3 });
+
+      expect(mockGetAnalyzerIssues).toHaveBeenCalledWith('python', { max_pages: 3 });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.analyzer.shortcode).toBe('python');
+      expect(data.issues).toEqual([
+        {
+          shortcode: 'PYL-W0611',
+          title: 'Unused import',
+          category: 'ANTI_PATTERN',
+          severity: 'MINOR',
+          autofixAvailable: true,
+        },
+      ]);
+      expect(data.totalCount).toBe(1);
+    });
+
+    it('should throw a not found error for unknown analyzers', async () => {
+      mockGetAnalyzerIssues.mockResolvedValue(null);
+
+      const handler = createAnalyzerHandler(deps);
+
+      await expect(handler({ shortcode: 'cobol' })).rejects.toThrow('Resource not found: analyzer');
+    });
+  });
+});
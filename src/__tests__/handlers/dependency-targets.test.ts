@@ -0,0 +1,90 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const { createDependencyTargetsHandler } = await import('../../handlers/dependency-targets');
+
+describe('Dependency Targets Handler', () => {
+  const mockGetDependencyTargets = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {
+        getSecurityClient: vi.fn(() => ({
+          getDependencyTargets: mockGetDependencyTargets,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  it('should list dependency targets with their manifest and lockfile paths', async () => {
+    mockGetDependencyTargets.mockResolvedValue({
+      items: [
+        {
+          id: 'target-1',
+          ecosystem: 'NPM',
+          packageManager: 'npm',
+          manifestPath: 'packages/web/package.json',
+          lockfilePath: 'packages/web/package-lock.json',
+          isActivated: true,
+        },
+      ],
+      pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+      totalCount: 5,
+    });
+
+    const handler = createDependencyTargetsHandler(deps);
+    const result = await handler({ projectKey: 'my-project', first: 1, max_pages: 2 });
+
+    expect(mockGetDependencyTargets).toHaveBeenCalledWith('my-project', {
+      first: 1,
+      max_pages: 2,
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.targets).toEqual([
+      {
+        id: 'target-1',
+        ecosystem: 'NPM',
+        packageManager: 'npm',
+        manifestPath: 'packages/web/package.json',
+        lockfilePath: 'packages/web/package-lock.json',
+        isActivated: true,
+      },
+    ]);
+    expect(data.totalCount).toBe(5);
+    expect(data.pageInfo.endCursor).toBe('cursor-1');
+    expect(data.pagination.has_more_pages).toBe(true);
+  });
+
+  it('should require a project key', async () => {
+    const handler = createDependencyTargetsHandler(deps);
+
+    await expect(handler({ projectKey: '' })).rejects.toThrow(
+      'projectKey must be a non-empty string'
+    );
+    expect(mockGetDependencyTargets).not.toHaveBeenCalled();
+  });
+});
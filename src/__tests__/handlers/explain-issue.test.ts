@@ -0,0 +1,122 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+import type { IssueDefinition } from '../../models/analyzers';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const { createExplainIssueHandler } = await import('../../handlers/explain-issue');
+
+const issueDefinition: IssueDefinition = {
+  id: 'SXNzdWU6MTI1',
+  shortcode: 'JS-0125',
+  title: 'Detected the use of variables before they are defined',
+  category: 'BUG_RISK',
+  severity: 'MAJOR',
+  shortDescription: 'Variables should be defined before use',
+  description: '## Rationale\n\nUsing a variable before it is defined...',
+  tags: ['recommended'],
+  isRecommended: true,
+  autofixAvailable: true,
+  autofixAiAvailable: false,
+  analyzer: { name: 'JavaScript', shortcode: 'javascript' },
+};
+
+describe('Explain Issue Handler', () => {
+  const mockGetIssueDefinition = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {
+        getAnalyzersClient: vi.fn(() => ({
+          getIssueDefinition: mockGetIssueDefinition,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  it('should return the description, rationale and autofix flags', async () => {
+    mockGetIssueDefinition.mockResolvedValue(issueDefinition);
+
+    const handler = createExplainIssueHandler(deps);
+    const result = await handler({ analyzerShortcode: 'javascript', issueShortcode: 'JS-0125' });
+
+    expect(mockGetIssueDefinition).toHaveBeenCalledWith('javascript', 'JS-0125');
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.shortcode).toBe('JS-0125');
+    expect(data.shortDescription).toBe('Variables should be defined before use');
+    expect(data.description).toContain('## Rationale');
+    expect(data.isRecommended).toBe(true);
+    expect(data.autofixAvailable).toBe(true);
+    expect(data.autofixAiAvailable).toBe(false);
+    expect(data.fix_guidance).toContain('DeepSource Autofix can fix JS-0125');
+    expect(data.usage_examples.related_tools.occurrences).toContain('["javascript"]');
+  });
+
+  it('should describe AI autofix when only that is available', async () => {
+    mockGetIssueDefinition.mockResolvedValue({
+      ...issueDefinition,
+      autofixAvailable: false,
+      autofixAiAvailable: true,
+    });
+
+    const handler = createExplainIssueHandler(deps);
+    const result = await handler({ analyzerShortcode: 'javascript', issueShortcode: 'JS-0125' });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.fix_guidance).toContain('AI-generated Autofix');
+  });
+
+  it('should describe a manual fix when no autofix is available', async () => {
+    mockGetIssueDefinition.mockResolvedValue({
+      ...issueDefinition,
+      autofixAvailable: false,
+    });
+
+    const handler = createExplainIssueHandler(deps);
+    const result = await handler({ analyzerShortcode: 'javascript', issueShortcode: 'JS-0125' });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.fix_guidance).toContain('No Autofix is available');
+  });
+
+  it('should throw a not found error for unknown issues', async () => {
+    mockGetIssueDefinition.mockResolvedValue(null);
+
+    const handler = createExplainIssueHandler(deps);
+
+    await expect(
+      handler({ analyzerShortcode: 'javascript', issueShortcode: 'JS-9999' })
+    ).rejects.toThrow('Resource not found: issue');
+  });
+
+  it('should validate the shortcodes', async () => {
+    const handler = createExplainIssueHandler(deps);
+
+    await expect(handler({ analyzerShortcode: 'javascript', issueShortcode: ' ' })).rejects.toThrow(
+      'issueShortcode must be a non-empty string'
+    );
+    expect(mockGetIssueDefinition).not.toHaveBeenCalled();
+  });
+});
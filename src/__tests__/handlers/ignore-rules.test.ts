@@ -0,0 +1,98 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+import type { IgnoreRule } from '../../models/ignore-rules';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const { createIgnoreRulesHandler } = await import('../../handlers/ignore-rules');
+
+const patternRule: IgnoreRule = {
+  id: 'SWdub3JlUnVsZTox',
+  level: 'REPOSITORY',
+  type: 'PATTERN',
+  filePath: null,
+  globPattern: 'vendor/**',
+  issue: { shortcode: 'JS-0002', title: 'Avoid console' },
+};
+
+describe('Ignore Rules Handler', () => {
+  const mockGetIgnoreRules = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {
+        getIgnoreRulesClient: vi.fn(() => ({
+          getIgnoreRules: mockGetIgnoreRules,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  it('should list the ignore rules with pagination details', async () => {
+    mockGetIgnoreRules.mockResolvedValue({
+      items: [patternRule],
+      pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+      totalCount: 12,
+    });
+
+    const handler = createIgnoreRulesHandler(deps);
+    const result = await handler({ projectKey: 'test-project', first: 1 });
+
+    expect(mockGetIgnoreRules).toHaveBeenCalledWith('test-project', { first: 1 });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.ignoreRules).toEqual([patternRule]);
+    expect(data.totalCount).toBe(12);
+    expect(data.pageInfo.endCursor).toBe('cursor-1');
+    expect(data.pagination.has_more_pages).toBe(true);
+  });
+
+  it('should pass the type filter to the client', async () => {
+    mockGetIgnoreRules.mockResolvedValue({
+      items: [],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      totalCount: 0,
+    });
+
+    const handler = createIgnoreRulesHandler(deps);
+    const result = await handler({ projectKey: 'test-project', type: 'FOREVER', max_pages: 3 });
+
+    expect(mockGetIgnoreRules).toHaveBeenCalledWith('test-project', {
+      type: 'FOREVER',
+      max_pages: 3,
+    });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.usage_examples.filtering.type_filter_scope).toContain(
+      'totalCount counts rules of every type'
+    );
+  });
+
+  it('should propagate client errors', async () => {
+    mockGetIgnoreRules.mockRejectedValue(new Error('Unauthorized'));
+
+    const handler = createIgnoreRulesHandler(deps);
+
+    await expect(handler({ projectKey: 'test-project' })).rejects.toThrow('Unauthorized');
+  });
+});
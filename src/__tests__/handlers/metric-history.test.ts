@@ -0,0 +1,328 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import {
+  MetricDirection,
+  MetricKey,
+  MetricShortcode,
+  MetricThresholdStatus,
+} from '../../types/metrics';
+import type { MetricHistoryResponse } from '../../types/metrics';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Mock the DeepSource client
+const mockGetMetricHistory = vi.fn();
+const mockDeepSourceClient = vi.fn(() => ({
+  getMetricHistory: mockGetMetricHistory,
+}));
+
+vi.mock('../../deepsource.js', () => ({
+  DeepSourceClient: mockDeepSourceClient,
+}));
+
+// Import the modules under test AFTER mocking
+const { createMetricHistoryHandler, handleDeepsourceMetricHistory } = await import(
+  '../../handlers/metric-history'
+);
+
+/**
+ * Builds a line coverage history response for the tests
+ */
+function createHistory(
+  values: Array<{ value: number; createdAt: string; thresholdStatus?: MetricThresholdStatus }>,
+  overrides: Partial<MetricHistoryResponse> = {}
+): MetricHistoryResponse {
+  return {
+    shortcode: MetricShortcode.LCV,
+    metricKey: MetricKey.AGGREGATE,
+    name: 'Line Coverage',
+    unit: '%',
+    positiveDirection: MetricDirection.UPWARD,
+    threshold: 80,
+    isTrendingPositive: true,
+    values: values.map((entry, index) => ({
+      value: entry.value,
+      valueDisplay: `${entry.value}%`,
+      threshold: 80,
+      ...(entry.thresholdStatus ? { thresholdStatus: entry.thresholdStatus } : {}),
+      commitOid: `commit${index + 1}`,
+      createdAt: entry.createdAt,
+    })),
+    ...overrides,
+  };
+}
+
+describe('Metric History Handler', () => {
+  let originalEnv: Record<string, string | undefined>;
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.DEEPSOURCE_API_KEY = 'test-api-key';
+
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {} as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('createMetricHistoryHandler', () => {
+    it('should report a degrading trend with rate of change', async () => {
+      mockGetMetricHistory.mockResolvedValue(
+        createHistory([
+          { value: 90, createdAt: '2024-01-01T00:00:00Z' },
+          { value: 85, createdAt: '2024-01-06T00:00:00Z' },
+          { value: 80, createdAt: '2024-01-11T00:00:00Z' },
+        ])
+      );
+
+      const handler = createMetricHistoryHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+      });
+
+      expect(mockDeepSourceClient).toHaveBeenCalledWith('test-api-key');
+      expect(mockGetMetricHistory).toHaveBeenCalledWith({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.values).toHaveLength(3);
+      expect(data.trend).toEqual({
+        direction: 'DEGRADING',
+        changePercentage: -11.11,
+        periodDays: 10,
+        isTrendingPositive: false,
+        ratePerDay: -1,
+        firstValue: 90,
+        lastValue: 80,
+      });
+      expect(data.lastThresholdCrossing).toBeNull();
+      expect(data.summary).toContain('degrading');
+    });
+
+    it('should treat a falling value as improving for downward metrics', async () => {
+      mockGetMetricHistory.mockResolvedValue(
+        createHistory(
+          [
+            { value: 10, createdAt: '2024-01-01T00:00:00Z' },
+            { value: 5, createdAt: '2024-01-03T00:00:00Z' },
+          ],
+          {
+            shortcode: MetricShortcode.DDP,
+            name: 'Duplicate Code Percentage',
+            positiveDirection: MetricDirection.DOWNWARD,
+            threshold: null,
+          }
+        )
+      );
+
+      const handler = createMetricHistoryHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.DDP,
+        metricKey: MetricKey.AGGREGATE,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.trend.direction).toBe('IMPROVING');
+      expect(data.trend.isTrendingPositive).toBe(true);
+      expect(data.trend.ratePerDay).toBe(-2.5);
+    });
+
+    it('should report stable when the change is under one percent', async () => {
+      mockGetMetricHistory.mockResolvedValue(
+        createHistory([
+          { value: 85, createdAt: '2024-01-01T00:00:00Z' },
+          { value: 85.5, createdAt: '2024-01-02T00:00:00Z' },
+        ])
+      );
+
+      const handler = createMetricHistoryHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.trend.direction).toBe('STABLE');
+    });
+
+    it('should find the most recent threshold crossing', async () => {
+      mockGetMetricHistory.mockResolvedValue(
+        createHistory([
+          { value: 78, createdAt: '2024-01-01T00:00:00Z' },
+          { value: 82, createdAt: '2024-01-02T00:00:00Z' },
+          { value: 84, createdAt: '2024-01-03T00:00:00Z' },
+          {
+            value: 79,
+            createdAt: '2024-01-04T00:00:00Z',
+            thresholdStatus: MetricThresholdStatus.FAILING,
+          },
+        ])
+      );
+
+      const handler = createMetricHistoryHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.lastThresholdCrossing).toEqual({
+        crossedAt: '2024-01-04T00:00:00Z',
+        commitOid: 'commit4',
+        from: 'PASSING',
+        to: 'FAILING',
+        value: 79,
+        threshold: 80,
+      });
+      expect(data.summary).toContain('from PASSING to FAILING');
+    });
+
+    it('should restrict values to the requested date window', async () => {
+      mockGetMetricHistory.mockResolvedValue(
+        createHistory([
+          { value: 70, createdAt: '2023-12-01T00:00:00Z' },
+          { value: 80, createdAt: '2024-01-01T00:00:00Z' },
+          { value: 82, createdAt: '2024-01-15T00:00:00Z' },
+          { value: 90, createdAt: '2024-03-01T00:00:00Z' },
+        ])
+      );
+
+      const handler = createMetricHistoryHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.window).toEqual({ startDate: '2024-01-01', endDate: '2024-01-31' });
+      expect(data.values.map((v: { value: number }) => v.value)).toEqual([80, 82]);
+      expect(data.trend.firstValue).toBe(80);
+      expect(data.trend.lastValue).toBe(82);
+    });
+
+    it('should return a null trend when there are fewer than two values', async () => {
+      mockGetMetricHistory.mockResolvedValue(
+        createHistory([{ value: 80, createdAt: '2024-01-01T00:00:00Z' }])
+      );
+
+      const handler = createMetricHistoryHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.trend).toBeNull();
+      expect(data.summary).toContain('Not enough data points');
+    });
+
+    it('should reject an invalid date', async () => {
+      const handler = createMetricHistoryHandler(deps);
+
+      await expect(
+        handler({
+          projectKey: 'test-project',
+          metricShortcode: MetricShortcode.LCV,
+          metricKey: MetricKey.AGGREGATE,
+          startDate: 'not-a-date',
+        })
+      ).rejects.toThrow('startDate must be an ISO 8601 date');
+      expect(mockGetMetricHistory).not.toHaveBeenCalled();
+    });
+
+    it('should reject a window that ends before it starts', async () => {
+      const handler = createMetricHistoryHandler(deps);
+
+      await expect(
+        handler({
+          projectKey: 'test-project',
+          metricShortcode: MetricShortcode.LCV,
+          metricKey: MetricKey.AGGREGATE,
+          startDate: '2024-02-01',
+          endDate: '2024-01-01',
+        })
+      ).rejects.toThrow('startDate must be before endDate');
+    });
+
+    it('should throw when no history is found', async () => {
+      mockGetMetricHistory.mockResolvedValue(null);
+
+      const handler = createMetricHistoryHandler(deps);
+
+      await expect(
+        handler({
+          projectKey: 'missing-project',
+          metricShortcode: MetricShortcode.LCV,
+          metricKey: MetricKey.AGGREGATE,
+        })
+      ).rejects.toThrow('Resource not found: metric history');
+    });
+  });
+
+  describe('handleDeepsourceMetricHistory', () => {
+    it('should pass optional parameters through to the client', async () => {
+      mockGetMetricHistory.mockResolvedValue(createHistory([]));
+
+      await handleDeepsourceMetricHistory({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+        limit: 10,
+      });
+
+      expect(mockGetMetricHistory).toHaveBeenCalledWith({
+        projectKey: 'test-project',
+        metricShortcode: MetricShortcode.LCV,
+        metricKey: MetricKey.AGGREGATE,
+        limit: 10,
+      });
+    });
+
+    it('should throw when the API key is not set', async () => {
+      delete process.env.DEEPSOURCE_API_KEY;
+
+      await expect(
+        handleDeepsourceMetricHistory({
+          projectKey: 'test-project',
+          metricShortcode: MetricShortcode.LCV,
+          metricKey: MetricKey.AGGREGATE,
+        })
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const {
+  createQualityGatesHandler,
+  createUpdateIssueCategorySettingHandler,
+  createUpdateIssuePrioritySettingHandler,
+} = await import('../../handlers/quality-gates');
+
+describe('Quality Gates Handlers', () => {
+  const mockGetQualityGates = vi.fn();
+  const mockUpdateIssueCategorySetting = vi.fn();
+  const mockUpdateIssuePrioritySetting = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {
+        getQualityGatesClient: vi.fn(() => ({
+          getQualityGates: mockGetQualityGates,
+          updateIssueCategorySetting: mockUpdateIssueCategorySetting,
+          updateIssuePrioritySetting: mockUpdateIssuePrioritySetting,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  describe('createQualityGatesHandler', () => {
+    it('should return the settings and what currently fails checks', async () => {
+      mockGetQualityGates.mockResolvedValue({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        categories: [
+          { category: 'SECURITY', isReported: true, canFailCheck: true },
+          { category: 'STYLE', isReported: true, canFailCheck: false },
+        ],
+        priorities: [
+          { priority: 'HIGH', isReported: true, canFailCheck: true },
+          { priority: 'LOW', isReported: false, canFailCheck: false },
+        ],
+      });
+
+      const handler = createQualityGatesHandler(deps);
+      const result = await handler({ projectKey: 'test-project' });
+
+      expect(mockGetQualityGates).toHaveBeenCalledWith('test-project');
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.repositoryId).toBe('UmVwb3NpdG9yeTox');
+      expect(data.categories).toHaveLength(2);
+      expect(data.priorities).toHaveLength(2);
+      expect(data.failing_on).toEqual({ categories: ['SECURITY'], priorities: ['HIGH'] });
+    });
+
+    it('should throw a not found error for unknown projects', async () => {
+      mockGetQualityGates.mockResolvedValue(null);
+
+      const handler = createQualityGatesHandler(deps);
+
+      await expect(handler({ projectKey: 'missing' })).rejects.toThrow(
+        'Resource not found: project'
+      );
+    });
+  });
+
+  describe('createUpdateIssueCategorySettingHandler', () => {
+    it('should update the category setting', async () => {
+      mockUpdateIssueCategorySetting.mockResolvedValue({ ok: true });
+
+      const handler = createUpdateIssueCategorySettingHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        category: 'SECURITY',
+        isReported: true,
+        canFailCheck: true,
+      });
+
+      expect(mockUpdateIssueCategorySetting).toHaveBeenCalledWith({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        category: 'SECURITY',
+        isReported: true,
+        canFailCheck: true,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(true);
+      expect(data.settings).toEqual({ isReported: true, canFailCheck: true });
+      expect(data.message).toBe('Successfully updated quality gate for SECURITY issues');
+    });
+
+    it('should report a failed update', async () => {
+      mockUpdateIssueCategorySetting.mockResolvedValue({ ok: false });
+
+      const handler = createUpdateIssueCategorySettingHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        category: 'STYLE',
+        isReported: false,
+        canFailCheck: false,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(false);
+      expect(data.next_steps).toContain('Check if you have sufficient permissions');
+    });
+  });
+
+  describe('createUpdateIssuePrioritySettingHandler', () => {
+    it('should update the priority setting', async () => {
+      mockUpdateIssuePrioritySetting.mockResolvedValue({ ok: true });
+
+      const handler = createUpdateIssuePrioritySettingHandler(deps);
+      const result = await handler({
+        projectKey: 'test-project',
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        priority: 'HIGH',
+        isReported: true,
+        canFailCheck: true,
+      });
+
+      expect(mockUpdateIssuePrioritySetting).toHaveBeenCalledWith({
+        repositoryId: 'UmVwb3NpdG9yeTox',
+        priority: 'HIGH',
+        isReported: true,
+        canFailCheck: true,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(true);
+      expect(data.message).toBe('Successfully updated quality gate for HIGH priority issues');
+    });
+  });
+});
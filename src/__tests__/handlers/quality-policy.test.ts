@@ -0,0 +1,342 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+import { asGraphQLNodeId, asProjectKey } from '../../types/branded.js';
+import { QualityMetrics } from '../../domain/aggregates/quality-metrics/quality-metrics.aggregate.js';
+import { ThresholdValue } from '../../domain/value-objects/threshold-value.js';
+import { MetricKey, MetricShortcode } from '../../models/metrics.js';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+const mockFindByProject = vi.fn();
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+vi.mock('../../infrastructure/factories/repository.factory.js', () => ({
+  RepositoryFactory: vi.fn().mockImplementation(() => ({
+    createQualityMetricsRepository: () => ({ findByProject: mockFindByProject }),
+  })),
+}));
+
+// Import the modules under test AFTER mocking
+const { createPolicyPlanHandler, createPolicyApplyHandler, loadQualityPolicy, renderPolicyPlan } =
+  await import('../../handlers/quality-policy');
+
+const project = (key: string, name: string) => ({
+  key,
+  name,
+  repository: { login: 'acme', provider: 'GITHUB' },
+});
+
+const coverageMetric = (projectKey: string, threshold: number | null) =>
+  QualityMetrics.create({
+    projectKey: asProjectKey(projectKey),
+    repositoryId: asGraphQLNodeId(`repo-${projectKey}`),
+    configuration: {
+      name: 'Line Coverage',
+      description: 'Percentage of lines covered by tests',
+      shortcode: MetricShortcode.LCV,
+      metricKey: MetricKey.AGGREGATE,
+      unit: '%',
+      minAllowed: 0,
+      maxAllowed: 100,
+      positiveDirection: 'UPWARD',
+      isReported: true,
+      isThresholdEnforced: false,
+      threshold: threshold === null ? null : ThresholdValue.create(threshold, '%', 0, 100),
+    },
+  });
+
+describe('Quality Policy Handlers', () => {
+  const mockListProjects = vi.fn();
+  const mockGetQualityGates = vi.fn();
+  const mockUpdateIssueCategorySetting = vi.fn();
+  const mockSetMetricThreshold = vi.fn();
+  const mockUpdateMetricSetting = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockListProjects.mockResolvedValue([project('api', 'api'), project('web', 'web')]);
+    mockFindByProject.mockImplementation(async (projectKey: string) => [
+      coverageMetric(projectKey, projectKey === 'api' ? 80 : null),
+    ]);
+    mockGetQualityGates.mockResolvedValue({
+      repositoryId: 'repo-api',
+      categories: [{ category: 'SECURITY', isReported: true, canFailCheck: false }],
+      priorities: [],
+    });
+    mockSetMetricThreshold.mockResolvedValue({ ok: true });
+    mockUpdateMetricSetting.mockResolvedValue({ ok: true });
+    mockUpdateIssueCategorySetting.mockResolvedValue({ ok: true });
+
+    deps = {
+      clientFactory: {
+        getProjectsClient: vi.fn(() => ({ listProjects: mockListProjects })),
+        getQualityGatesClient: vi.fn(() => ({
+          getQualityGates: mockGetQualityGates,
+          updateIssueCategorySetting: mockUpdateIssueCategorySetting,
+        })),
+        getMetricsClient: vi.fn(() => ({
+          setMetricThreshold: mockSetMetricThreshold,
+          updateMetricSetting: mockUpdateMetricSetting,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  const coveragePolicy = JSON.stringify({
+    version: 1,
+    policies: [{ projects: 'acme/*', metrics: { LCV: { thresholds: { AGGREGATE: 80 } } } }],
+  });
+
+  describe('loadQualityPolicy', () => {
+    it('should require exactly one of policy and policyFile', async () => {
+      await expect(loadQualityPolicy({})).rejects.toThrow('Provide either policy or policyFile');
+      await expect(
+        loadQualityPolicy({ policy: coveragePolicy, policyFile: 'policy.json' })
+      ).rejects.toThrow('Provide either policy or policyFile');
+    });
+
+    it('should reject invalid JSON and unknown settings', async () => {
+      await expect(loadQualityPolicy({ policy: '{' })).rejects.toThrow('not valid JSON');
+      await expect(
+        loadQualityPolicy({
+          policy: JSON.stringify({ policies: [{ projects: '*', metrics: { XYZ: {} } }] }),
+        })
+      ).rejects.toThrow('The policy is not valid: policies.0.metrics.XYZ');
+    });
+
+    it('should read policy files inside the working directory only', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'policy-'));
+      const cwd = vi.spyOn(process, 'cwd').mockReturnValue(directory);
+      try {
+        await writeFile(join(directory, 'policy.json'), coveragePolicy);
+
+        const policy = await loadQualityPolicy({ policyFile: 'policy.json' });
+        expect(policy.policies).toHaveLength(1);
+
+        await expect(loadQualityPolicy({ policyFile: '../policy.json' })).rejects.toThrow(
+          'policyFile must be inside the working directory'
+        );
+      } finally {
+        cwd.mockRestore();
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createPolicyPlanHandler', () => {
+    it('should list creates and no-ops for the matching projects', async () => {
+      const handler = createPolicyPlanHandler(deps);
+      const result = await handler({ policy: coveragePolicy });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.projects).toEqual([
+        { projectKey: 'api', project: 'acme/api' },
+        { projectKey: 'web', project: 'acme/web' },
+      ]);
+      expect(data.changes.map((change: { action: string }) => change.action)).toEqual([
+        'no-op',
+        'create',
+      ]);
+      expect(data.summary).toEqual({ create: 1, update: 0, delete: 0, noop: 1 });
+      expect(data.errors).toEqual([]);
+      expect(data.planText).toBe(
+        [
+          'acme/api (api)',
+          '  = metric_threshold.LCV.AGGREGATE',
+          'acme/web (web)',
+          '  + metric_threshold.LCV.AGGREGATE: null -> 80',
+          'Plan: 1 to create, 0 to update, 0 to delete, 1 unchanged.',
+        ].join('\n')
+      );
+      expect(mockGetQualityGates).not.toHaveBeenCalled();
+    });
+
+    it('should let later rules override earlier ones', async () => {
+      const handler = createPolicyPlanHandler(deps);
+      const result = await handler({
+        policy: JSON.stringify({
+          policies: [
+            { projects: '*', metrics: { LCV: { thresholds: { AGGREGATE: 70 } } } },
+            {
+              projects: ['api'],
+              metrics: { LCV: { isThresholdEnforced: true, thresholds: { AGGREGATE: null } } },
+              issueCategories: { SECURITY: { canFailCheck: true } },
+            },
+          ],
+        }),
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.changes).toEqual([
+        expect.objectContaining({
+          projectKey: 'api',
+          action: 'update',
+          address: 'metric_setting.LCV',
+          current: { isReported: true, isThresholdEnforced: false },
+          desired: { isReported: true, isThresholdEnforced: true },
+        }),
+        expect.objectContaining({
+          projectKey: 'api',
+          action: 'delete',
+          address: 'metric_threshold.LCV.AGGREGATE',
+        }),
+        expect.objectContaining({
+          projectKey: 'api',
+          action: 'update',
+          address: 'issue_category.SECURITY',
+          desired: { isReported: true, canFailCheck: true },
+        }),
+        expect.objectContaining({
+          projectKey: 'web',
+          action: 'create',
+          desired: 70,
+        }),
+      ]);
+      expect(mockGetQualityGates).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report out-of-range thresholds and unmatched patterns', async () => {
+      const handler = createPolicyPlanHandler(deps);
+      const result = await handler({
+        policy: JSON.stringify({
+          policies: [
+            { projects: 'api', metrics: { LCV: { thresholds: { AGGREGATE: 150 } } } },
+            { projects: 'mobile-*' },
+          ],
+        }),
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.errors).toEqual([
+        'acme/api: metric_threshold.LCV.AGGREGATE: Threshold value 150 is outside allowed range [0, 100]',
+      ]);
+      expect(data.warnings).toEqual(['No project matches mobile-*']);
+      expect(data.next_steps).toEqual(['Fix the errors in the policy before applying it']);
+    });
+  });
+
+  describe('createPolicyApplyHandler', () => {
+    it('should apply only the changes', async () => {
+      const handler = createPolicyApplyHandler(deps);
+      const result = await handler({ policy: coveragePolicy });
+
+      expect(mockSetMetricThreshold).toHaveBeenCalledTimes(1);
+      expect(mockSetMetricThreshold).toHaveBeenCalledWith({
+        repositoryId: 'repo-web',
+        metricShortcode: 'LCV',
+        metricKey: 'AGGREGATE',
+        thresholdValue: 80,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(true);
+      expect(data.applied).toBe(1);
+      expect(data.results).toEqual([
+        {
+          projectKey: 'web',
+          address: 'metric_threshold.LCV.AGGREGATE',
+          action: 'create',
+          ok: true,
+        },
+      ]);
+    });
+
+    it('should record changes that fail and continue', async () => {
+      mockSetMetricThreshold.mockRejectedValueOnce(new Error('Permission denied'));
+
+      const handler = createPolicyApplyHandler(deps);
+      const result = await handler({
+        policy: JSON.stringify({
+          policies: [
+            { projects: '*', metrics: { LCV: { thresholds: { AGGREGATE: 90 } } } },
+            { projects: 'api', issueCategories: { SECURITY: { canFailCheck: true } } },
+          ],
+        }),
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(false);
+      expect(data.failed).toBe(1);
+      expect(data.results[0]).toEqual(
+        expect.objectContaining({ projectKey: 'api', ok: false, error: 'Permission denied' })
+      );
+      expect(mockUpdateIssueCategorySetting).toHaveBeenCalledWith({
+        repositoryId: 'repo-api',
+        category: 'SECURITY',
+        isReported: true,
+        canFailCheck: true,
+      });
+      expect(mockSetMetricThreshold).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse policies with errors', async () => {
+      mockGetQualityGates.mockResolvedValue(null);
+
+      const handler = createPolicyApplyHandler(deps);
+      await expect(
+        handler({
+          policy: JSON.stringify({
+            policies: [{ projects: 'api', issueCategories: { SECURITY: { canFailCheck: true } } }],
+          }),
+        })
+      ).rejects.toThrow('the quality gate of SECURITY issues is not available');
+      expect(mockUpdateIssueCategorySetting).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderPolicyPlan', () => {
+    it('should mark updates and deletes', () => {
+      const text = renderPolicyPlan({
+        projects: [{ projectKey: 'api', project: 'acme/api' }],
+        changes: [
+          {
+            action: 'update',
+            projectKey: 'api',
+            project: 'acme/api',
+            resource: 'metric_threshold',
+            address: 'metric_threshold.LCV.AGGREGATE',
+            current: 70,
+            desired: 80,
+          },
+          {
+            action: 'delete',
+            projectKey: 'api',
+            project: 'acme/api',
+            resource: 'metric_threshold',
+            address: 'metric_threshold.BCV.AGGREGATE',
+            current: 50,
+            desired: null,
+          },
+        ],
+        summary: { create: 0, update: 1, delete: 1, noop: 0 },
+        errors: [],
+        warnings: [],
+      });
+
+      expect(text).toContain('  ~ metric_threshold.LCV.AGGREGATE: 70 -> 80');
+      expect(text).toContain('  - metric_threshold.BCV.AGGREGATE: 50 -> null');
+      expect(text).toContain('Plan: 0 to create, 1 to update, 1 to delete, 0 unchanged.');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import { asProjectKey } from '../../types/branded';
+import { Project } from '../../domain/aggregates/project/project.aggregate';
+import type { IProjectRepository } from '../../domain/aggregates/project/project.repository';
+import type { Logger } from '../../utils/logging/logger';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const {
+  createActivateRepositoryHandler,
+  createDeactivateRepositoryHandler,
+  createUpdateDefaultBranchHandler,
+} = await import('../../handlers/repository-lifecycle');
+
+function createProject(isActivated: boolean): Project {
+  return Project.fromPersistence({
+    key: asProjectKey('my-project'),
+    name: 'My Project',
+    repository: {
+      url: 'https://github.com/acme/my-project',
+      provider: 'GITHUB',
+      login: 'acme',
+      isPrivate: false,
+      id: 'UmVwb3NpdG9yeTox',
+      defaultBranch: 'master',
+    },
+    configuration: {
+      isActivated,
+      autoFix: false,
+      pullRequestIntegration: true,
+      issueReporting: true,
+    },
+    status: isActivated ? 'ACTIVE' : 'INACTIVE',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe('Repository Lifecycle Handlers', () => {
+  const mockFindByKey = vi.fn();
+  const mockSave = vi.fn();
+  let deps: { projectRepository: IProjectRepository; logger: Logger };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSave.mockResolvedValue(undefined);
+
+    deps = {
+      projectRepository: {
+        findByKey: mockFindByKey,
+        save: mockSave,
+      } as unknown as IProjectRepository,
+      logger: mockLogger as unknown as Logger,
+    };
+  });
+
+  describe('createActivateRepositoryHandler', () => {
+    it('should activate the project and report the triggered analysis', async () => {
+      const project = createProject(false);
+      mockFindByKey.mockResolvedValue(project);
+
+      const handler = createActivateRepositoryHandler(deps);
+      const result = await handler({ projectKey: 'my-project' });
+
+      expect(mockSave).toHaveBeenCalledWith(project);
+      expect(mockSave.mock.calls[0][0].domainEvents[0].eventType).toBe('ProjectActivated');
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(true);
+      expect(data.status).toBe('ACTIVE');
+      expect(data.isActivated).toBe(true);
+      expect(data.changed).toBe(true);
+      expect(data.reanalysis).toEqual({ triggered: true, branch: 'master' });
+      expect(data.next_steps[0]).toContain('runs');
+    });
+
+    it('should report when the project is already activated', async () => {
+      mockFindByKey.mockResolvedValue(createProject(true));
+
+      const handler = createActivateRepositoryHandler(deps);
+      const result = await handler({ projectKey: 'my-project' });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.changed).toBe(false);
+      expect(data.reanalysis.triggered).toBe(false);
+      expect(data.message).toBe('My Project is already activated');
+    });
+
+    it('should return an error response for unknown projects', async () => {
+      mockFindByKey.mockResolvedValue(null);
+
+      const handler = createActivateRepositoryHandler(deps);
+      const result = await handler({ projectKey: 'missing' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Resource not found: project');
+      expect(mockSave).not.toHaveBeenCalled();
+    });
+
+    it('should return an error response when saving fails', async () => {
+      mockFindByKey.mockResolvedValue(createProject(false));
+      mockSave.mockRejectedValue(new Error('DeepSource rejected the ProjectActivated change'));
+
+      const handler = createActivateRepositoryHandler(deps);
+      const result = await handler({ projectKey: 'my-project' });
+
+      expect(result.isError).toBe(true);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Error in activate-repository',
+        expect.objectContaining({ errorMessage: 'DeepSource rejected the ProjectActivated change' })
+      );
+    });
+  });
+
+  describe('createDeactivateRepositoryHandler', () => {
+    it('should deactivate the project without a re-analysis', async () => {
+      mockFindByKey.mockResolvedValue(createProject(true));
+
+      const handler = createDeactivateRepositoryHandler(deps);
+      const result = await handler({ projectKey: 'my-project' });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.status).toBe('INACTIVE');
+      expect(data.isActivated).toBe(false);
+      expect(data.reanalysis).toEqual({ triggered: false, branch: null });
+    });
+  });
+
+  describe('createUpdateDefaultBranchHandler', () => {
+    it('should change the default branch and report the analysis of the new branch', async () => {
+      mockFindByKey.mockResolvedValue(createProject(true));
+
+      const handler = createUpdateDefaultBranchHandler(deps);
+      const result = await handler({ projectKey: 'my-project', defaultBranch: 'main' });
+
+      expect(mockSave.mock.calls[0][0].domainEvents[0]).toMatchObject({
+        eventType: 'ProjectDefaultBranchChanged',
+        payload: { previousBranch: 'master', defaultBranch: 'main' },
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.repository.defaultBranch).toBe('main');
+      expect(data.reanalysis).toEqual({ triggered: true, branch: 'main' });
+    });
+
+    it('should not report an analysis when the repository is not activated', async () => {
+      mockFindByKey.mockResolvedValue(createProject(false));
+
+      const handler = createUpdateDefaultBranchHandler(deps);
+      const result = await handler({ projectKey: 'my-project', defaultBranch: 'main' });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.changed).toBe(true);
+      expect(data.repository.defaultBranch).toBe('main');
+      expect(data.reanalysis).toEqual({ triggered: false, branch: null });
+      expect(data.message).not.toContain('queued an analysis');
+      expect(data.next_steps[0]).toContain('projects');
+    });
+
+    it('should require a default branch', async () => {
+      const handler = createUpdateDefaultBranchHandler(deps);
+      const result = await handler({ projectKey: 'my-project', defaultBranch: '' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('defaultBranch must be a non-empty string');
+      expect(mockFindByKey).not.toHaveBeenCalled();
+    });
+  });
+});
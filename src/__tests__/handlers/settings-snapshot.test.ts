@@ -0,0 +1,334 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+import type { SettingsSnapshot } from '../../handlers/settings-snapshot';
+import { asGraphQLNodeId, asProjectKey } from '../../types/branded.js';
+import { QualityMetrics } from '../../domain/aggregates/quality-metrics/quality-metrics.aggregate.js';
+import { ThresholdValue } from '../../domain/value-objects/threshold-value.js';
+import { MetricKey, MetricShortcode } from '../../models/metrics.js';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+const mockFindByProject = vi.fn();
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+vi.mock('../../infrastructure/factories/repository.factory.js', () => ({
+  RepositoryFactory: vi.fn().mockImplementation(() => ({
+    createQualityMetricsRepository: () => ({ findByProject: mockFindByProject }),
+  })),
+}));
+
+// Import the modules under test AFTER mocking
+const { createSettingsSnapshotHandler, createSettingsDiffHandler, diffSettingsSnapshots } =
+  await import('../../handlers/settings-snapshot');
+
+const coverageMetric = (threshold: number | null) =>
+  QualityMetrics.create({
+    projectKey: asProjectKey('my-project'),
+    repositoryId: asGraphQLNodeId('UmVwb3NpdG9yeTox'),
+    configuration: {
+      name: 'Line Coverage',
+      description: 'Percentage of lines covered by tests',
+      shortcode: MetricShortcode.LCV,
+      metricKey: MetricKey.AGGREGATE,
+      unit: '%',
+      minAllowed: 0,
+      maxAllowed: 100,
+      positiveDirection: 'UPWARD',
+      isReported: true,
+      isThresholdEnforced: true,
+      threshold: threshold === null ? null : ThresholdValue.create(threshold, '%', 0, 100),
+    },
+  });
+
+const baseline: SettingsSnapshot = {
+  schemaVersion: 1,
+  capturedAt: '2026-10-01T00:00:00.000Z',
+  project: { key: 'my-project', name: 'my-project', login: 'acme', provider: 'GITHUB' },
+  defaultBranch: 'main',
+  metrics: [
+    {
+      shortcode: 'DDP',
+      metricKey: 'AGGREGATE',
+      positiveDirection: 'DOWNWARD',
+      isReported: true,
+      isThresholdEnforced: true,
+      threshold: 5,
+    },
+    {
+      shortcode: 'LCV',
+      metricKey: 'AGGREGATE',
+      positiveDirection: 'UPWARD',
+      isReported: true,
+      isThresholdEnforced: true,
+      threshold: 80,
+    },
+  ],
+  issueCategories: [{ category: 'SECURITY', isReported: true, canFailCheck: true }],
+  issuePriorities: [{ priority: 'HIGH', isReported: true, canFailCheck: false }],
+  ignoreRules: [],
+  analyzers: [
+    { shortcode: 'javascript', name: 'JavaScript' },
+    { shortcode: 'secrets', name: 'Secrets' },
+  ],
+  configJson: { version: 1, exclude_patterns: ['dist/**'] },
+};
+
+describe('Settings Snapshot Handlers', () => {
+  const mockListProjects = vi.fn();
+  const mockGetRepositorySettings = vi.fn();
+  const mockGetQualityGates = vi.fn();
+  const mockGetIgnoreRules = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockListProjects.mockResolvedValue([
+      {
+        key: 'my-project',
+        name: 'my-project',
+        repository: { login: 'acme', provider: 'GITHUB', defaultBranch: 'main' },
+      },
+    ]);
+    mockGetRepositorySettings.mockResolvedValue({
+      repositoryId: 'UmVwb3NpdG9yeTox',
+      defaultBranch: 'main',
+      configJson: { version: 1 },
+      enabledAnalyzers: [
+        { shortcode: 'secrets', name: 'Secrets' },
+        { shortcode: 'javascript', name: 'JavaScript' },
+      ],
+    });
+    mockFindByProject.mockResolvedValue([coverageMetric(70)]);
+    mockGetQualityGates.mockResolvedValue({
+      repositoryId: 'UmVwb3NpdG9yeTox',
+      categories: [{ category: 'SECURITY', isReported: true, canFailCheck: false }],
+      priorities: [{ priority: 'HIGH', isReported: true, canFailCheck: false }],
+    });
+    mockGetIgnoreRules.mockResolvedValue({
+      items: [
+        {
+          id: 'rule-1',
+          level: 'REPOSITORY',
+          type: 'PATTERN',
+          filePath: null,
+          globPattern: 'legacy/**',
+          issue: { shortcode: 'JS-0002', title: 'Avoid console' },
+        },
+      ],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      totalCount: 1,
+    });
+
+    deps = {
+      clientFactory: {
+        getProjectsClient: vi.fn(() => ({
+          listProjects: mockListProjects,
+          getRepositorySettings: mockGetRepositorySettings,
+        })),
+        getQualityGatesClient: vi.fn(() => ({ getQualityGates: mockGetQualityGates })),
+        getIgnoreRulesClient: vi.fn(() => ({ getIgnoreRules: mockGetIgnoreRules })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  describe('createSettingsSnapshotHandler', () => {
+    it('should capture every setting of the project in a stable order', async () => {
+      const handler = createSettingsSnapshotHandler(deps);
+      const result = await handler({ projectKey: 'my-project' });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.warnings).toEqual([]);
+      expect(data.snapshot).toEqual({
+        schemaVersion: 1,
+        capturedAt: expect.any(String),
+        project: { key: 'my-project', name: 'my-project', login: 'acme', provider: 'GITHUB' },
+        defaultBranch: 'main',
+        metrics: [
+          {
+            shortcode: 'LCV',
+            metricKey: 'AGGREGATE',
+            positiveDirection: 'UPWARD',
+            isReported: true,
+            isThresholdEnforced: true,
+            threshold: 70,
+          },
+        ],
+        issueCategories: [{ category: 'SECURITY', isReported: true, canFailCheck: false }],
+        issuePriorities: [{ priority: 'HIGH', isReported: true, canFailCheck: false }],
+        ignoreRules: [
+          {
+            type: 'PATTERN',
+            level: 'REPOSITORY',
+            issue: 'JS-0002',
+            filePath: null,
+            globPattern: 'legacy/**',
+          },
+        ],
+        analyzers: [
+          { shortcode: 'javascript', name: 'JavaScript' },
+          { shortcode: 'secrets', name: 'Secrets' },
+        ],
+        configJson: { version: 1 },
+      });
+      expect(mockGetIgnoreRules).toHaveBeenCalledWith('my-project', { max_pages: 20 });
+    });
+
+    it('should warn about settings that could not be captured', async () => {
+      mockGetQualityGates.mockResolvedValue(null);
+      mockGetIgnoreRules.mockResolvedValue({
+        items: [],
+        pageInfo: { hasNextPage: true, hasPreviousPage: false },
+        totalCount: 500,
+      });
+
+      const handler = createSettingsSnapshotHandler(deps);
+      const result = await handler({ projectKey: 'my-project' });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.warnings).toEqual([
+        'The quality gates of the project are not available',
+        'Only the first 20 pages of ignore rules were captured',
+      ]);
+      expect(data.snapshot.issueCategories).toEqual([]);
+    });
+
+    it('should throw a not found error for unknown projects', async () => {
+      const handler = createSettingsSnapshotHandler(deps);
+      await expect(handler({ projectKey: 'missing' })).rejects.toThrow(
+        'Resource not found: project'
+      );
+    });
+  });
+
+  describe('diffSettingsSnapshots', () => {
+    it('should report no drift for identical snapshots', () => {
+      expect(diffSettingsSnapshots(baseline, structuredClone(baseline))).toEqual([]);
+    });
+
+    it('should classify loosened and tightened settings', () => {
+      const after = structuredClone(baseline);
+      after.metrics[0].threshold = 10;
+      after.metrics[1].threshold = 60;
+      after.issueCategories[0].canFailCheck = false;
+      after.issuePriorities[0].canFailCheck = true;
+      after.ignoreRules.push({
+        type: 'FOREVER',
+        level: 'REPOSITORY',
+        issue: 'JS-0002',
+        filePath: null,
+        globPattern: null,
+      });
+      after.analyzers = [{ shortcode: 'javascript', name: 'JavaScript' }];
+      after.configJson = { version: 1, exclude_patterns: ['dist/**', 'src/**'] };
+
+      const drift = diffSettingsSnapshots(baseline, after);
+
+      expect(drift.map(({ path, direction }) => [path, direction])).toEqual([
+        ['metrics.DDP.AGGREGATE.threshold', 'loosened'],
+        ['metrics.LCV.AGGREGATE.threshold', 'loosened'],
+        ['issueCategories.SECURITY.canFailCheck', 'loosened'],
+        ['issuePriorities.HIGH.canFailCheck', 'tightened'],
+        ['ignoreRules.JS-0002:FOREVER:*', 'loosened'],
+        ['analyzers.secrets', 'loosened'],
+        ['configJson.exclude_patterns', 'changed'],
+      ]);
+      expect(drift[1]).toEqual({
+        path: 'metrics.LCV.AGGREGATE.threshold',
+        change: 'changed',
+        before: 80,
+        after: 60,
+        direction: 'loosened',
+      });
+      expect(drift[5]).toMatchObject({ change: 'removed', after: null });
+    });
+
+    it('should treat removed thresholds as loosened and new ones as tightened', () => {
+      const after = structuredClone(baseline);
+      after.metrics[0].threshold = null;
+      after.metrics[1].threshold = 90;
+
+      const drift = diffSettingsSnapshots(after, baseline);
+
+      expect(drift.map(({ path, direction }) => [path, direction])).toEqual([
+        ['metrics.DDP.AGGREGATE.threshold', 'tightened'],
+        ['metrics.LCV.AGGREGATE.threshold', 'loosened'],
+      ]);
+    });
+  });
+
+  describe('createSettingsDiffHandler', () => {
+    it('should compare a snapshot with the live settings', async () => {
+      const handler = createSettingsDiffHandler(deps);
+      const result = await handler({ before: JSON.stringify(baseline) });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.after).toEqual({
+        projectKey: 'my-project',
+        capturedAt: expect.any(String),
+        live: true,
+      });
+      expect(data.summary).toEqual({ changes: 5, loosened: 3, tightened: 0 });
+      expect(data.drift.map((entry: { path: string }) => entry.path)).toEqual([
+        'metrics.DDP.AGGREGATE',
+        'metrics.LCV.AGGREGATE.threshold',
+        'issueCategories.SECURITY.canFailCheck',
+        'ignoreRules.JS-0002:PATTERN:legacy/**',
+        'configJson.exclude_patterns',
+      ]);
+      expect(data.message).toContain('loosen the checks: ');
+    });
+
+    it('should compare two snapshots without fetching live settings', async () => {
+      const after = structuredClone(baseline);
+      after.defaultBranch = 'develop';
+
+      const handler = createSettingsDiffHandler(deps);
+      const result = await handler({
+        before: JSON.stringify(baseline),
+        after: JSON.stringify(after),
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.drift).toEqual([
+        {
+          path: 'defaultBranch',
+          change: 'changed',
+          before: 'main',
+          after: 'develop',
+          direction: 'changed',
+        },
+      ]);
+      expect(data.after.live).toBe(false);
+      expect(mockListProjects).not.toHaveBeenCalled();
+    });
+
+    it('should reject missing and invalid snapshots', async () => {
+      const handler = createSettingsDiffHandler(deps);
+
+      await expect(handler({})).rejects.toThrow('Provide the before snapshot or beforeFile');
+      await expect(handler({ before: '{}', beforeFile: 'before.json' })).rejects.toThrow(
+        'Provide either before or beforeFile'
+      );
+      await expect(
+        handler({ before: JSON.stringify({ ...baseline, schemaVersion: 2 }) })
+      ).rejects.toThrow('The before snapshot is not valid: schemaVersion');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+// Import the modules under test AFTER mocking
+const {
+  createTeamSuppressedIssuesHandler,
+  createSuppressIssueForTeamHandler,
+  createUnsuppressIssueForTeamHandler,
+} = await import('../../handlers/team-suppressions');
+
+const suppressionParams = {
+  login: 'acme',
+  vcsProvider: 'GITHUB',
+  analyzerShortcode: 'python',
+  issueShortcode: 'PYL-W0611',
+  reason: 'Noisy in generated code',
+  confirm: true,
+};
+
+describe('Team Suppressions Handlers', () => {
+  const mockListTeamSuppressedIssues = vi.fn();
+  const mockSuppressIssueForTeam = vi.fn();
+  const mockUnsuppressIssueForTeam = vi.fn();
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      clientFactory: {
+        getSuppressionsClient: vi.fn(() => ({
+          listTeamSuppressedIssues: mockListTeamSuppressedIssues,
+          suppressIssueForTeam: mockSuppressIssueForTeam,
+          unsuppressIssueForTeam: mockUnsuppressIssueForTeam,
+        })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  describe('createTeamSuppressedIssuesHandler', () => {
+    it('should list the team suppressions', async () => {
+      mockListTeamSuppressedIssues.mockResolvedValue({
+        items: [
+          {
+            id: 'U3VwcHJlc3Npb246MQ==',
+            issue: { shortcode: 'PYL-W0611', title: 'Unused import', analyzerShortcode: 'python' },
+            suppressedAt: '2026-09-01T10:00:00Z',
+            suppressedBy: 'platform@acme.dev',
+          },
+        ],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        totalCount: 1,
+      });
+
+      const handler = createTeamSuppressedIssuesHandler(deps);
+      const result = await handler({ login: 'acme', vcsProvider: 'GITHUB', max_pages: 2 });
+
+      expect(mockListTeamSuppressedIssues).toHaveBeenCalledWith({
+        login: 'acme',
+        vcsProvider: 'GITHUB',
+        max_pages: 2,
+      });
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.team).toEqual({ login: 'acme', vcsProvider: 'GITHUB' });
+      expect(data.suppressedIssues).toHaveLength(1);
+      expect(data.totalCount).toBe(1);
+    });
+
+    it('should throw a not found error for unknown teams', async () => {
+      mockListTeamSuppressedIssues.mockResolvedValue(null);
+
+      const handler = createTeamSuppressedIssuesHandler(deps);
+
+      await expect(handler({ login: 'missing', vcsProvider: 'GITHUB' })).rejects.toThrow(
+        'Resource not found: team'
+      );
+    });
+  });
+
+  describe('createSuppressIssueForTeamHandler', () => {
+    it('should suppress the issue and record the reason', async () => {
+      mockSuppressIssueForTeam.mockResolvedValue({ ok: true });
+
+      const handler = createSuppressIssueForTeamHandler(deps);
+      const result = await handler(suppressionParams);
+
+      expect(mockSuppressIssueForTeam).toHaveBeenCalledWith({
+        login: 'acme',
+        vcsProvider: 'GITHUB',
+        analyzerShortcode: 'python',
+        issueShortcode: 'PYL-W0611',
+      });
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Suppressing issue for team',
+        expect.objectContaining({ reason: 'Noisy in generated code' })
+      );
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(true);
+      expect(data.reason).toBe('Noisy in generated code');
+      expect(data.message).toBe('Suppressed PYL-W0611 in every repository of acme');
+    });
+
+    it('should refuse to run without confirmation', async () => {
+      const handler = createSuppressIssueForTeamHandler(deps);
+
+      await expect(handler({ ...suppressionParams, confirm: false })).rejects.toThrow(
+        'confirm must be true to suppress PYL-W0611 in every repository of acme'
+      );
+      expect(mockSuppressIssueForTeam).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason', async () => {
+      const handler = createSuppressIssueForTeamHandler(deps);
+
+      await expect(handler({ ...suppressionParams, reason: '' })).rejects.toThrow(
+        'reason must be a non-empty string'
+      );
+      expect(mockSuppressIssueForTeam).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createUnsuppressIssueForTeamHandler', () => {
+    it('should unsuppress the issue', async () => {
+      mockUnsuppressIssueForTeam.mockResolvedValue({ ok: true });
+
+      const handler = createUnsuppressIssueForTeamHandler(deps);
+      const result = await handler(suppressionParams);
+
+      const data = JSON.parse(result.content[0].text);
+      expect(data.ok).toBe(true);
+      expect(data.message).toBe('PYL-W0611 is reported again in every repository of acme');
+    });
+
+    it('should refuse to run without confirmation', async () => {
+      const handler = createUnsuppressIssueForTeamHandler(deps);
+
+      await expect(handler({ ...suppressionParams, confirm: false })).rejects.toThrow(
+        'confirm must be true to unsuppress'
+      );
+      expect(mockUnsuppressIssueForTeam).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * @vitest-environment node
+ */
+
+import { vi } from 'vitest';
+import type { BaseHandlerDeps } from '../../handlers/base/handler.interface';
+
+// Create mock logger
+const mockLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+const mockGetDependencyVulnerabilities = vi.fn();
+const mockGetDependencyTargets = vi.fn();
+
+// Mock modules before importing the implementation
+vi.mock('../../utils/logging/logger', () => ({
+  createLogger: vi.fn(() => mockLogger),
+}));
+
+vi.mock('../../deepsource', () => ({
+  DeepSourceClient: vi.fn().mockImplementation(() => ({
+    getDependencyVulnerabilities: mockGetDependencyVulnerabilities,
+  })),
+}));
+
+// Import the modules under test AFTER mocking
+const { createVulnerabilityUpgradePlanHandler } = await import(
+  '../../handlers/vulnerability-upgrade-plan'
+);
+
+function createOccurrence(
+  identifier: string,
+  packageName: string,
+  version: string,
+  vulnerability: { severity: string; cvssV3BaseScore?: number; fixedVersions: string[] }
+) {
+  return {
+    id: `${identifier}-${packageName}-${version}`,
+    reachability: 'REACHABLE',
+    fixability: 'AUTO_FIXABLE',
+    package: { id: packageName, ecosystem: 'NPM', name: packageName },
+    packageVersion: { id: version, version },
+    vulnerability: {
+      id: identifier,
+      identifier,
+      aliases: [],
+      referenceUrls: [],
+      ...vulnerability,
+    },
+  };
+}
+
+describe('Vulnerability Upgrade Plan Handler', () => {
+  let deps: BaseHandlerDeps;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockGetDependencyTargets.mockResolvedValue({
+      items: [
+        {
+          id: 'target-1',
+          ecosystem: 'NPM',
+          packageManager: 'NPM',
+          manifestPath: 'web/package.json',
+          lockfilePath: 'web/package-lock.json',
+          isActivated: true,
+        },
+      ],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      totalCount: 1,
+    });
+
+    deps = {
+      clientFactory: {
+        getSecurityClient: vi.fn(() => ({ getDependencyTargets: mockGetDependencyTargets })),
+      } as unknown as BaseHandlerDeps['clientFactory'],
+      logger: mockLogger as unknown as BaseHandlerDeps['logger'],
+      getApiKey: vi.fn(() => 'test-api-key'),
+    };
+  });
+
+  it('should group advisories per package and pick the version resolving all of them', async () => {
+    mockGetDependencyVulnerabilities
+      .mockResolvedValueOnce({
+        items: [
+          createOccurrence('CVE-2021-23337', 'lodash', '4.17.15', {
+            severity: 'HIGH',
+            cvssV3BaseScore: 7.2,
+            fixedVersions: ['4.17.21'],
+          }),
+          createOccurrence('CVE-2020-8203', 'lodash', '4.17.15', {
+            severity: 'HIGH',
+            cvssV3BaseScore: 7.4,
+            fixedVersions: ['3.10.2', '4.17.19'],
+          }),
+          createOccurrence('CVE-2022-0001', 'minimist', '1.2.5', {
+            severity: 'CRITICAL',
+            cvssV3BaseScore: 9.8,
+            fixedVersions: ['1.2.6', '0.2.4'],
+          }),
+        ],
+        pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+        totalCount: 5,
+      })
+      .mockResolvedValueOnce({
+        items: [
+          createOccurrence('CVE-2021-23337', 'lodash', '4.17.10', {
+            severity: 'HIGH',
+            cvssV3BaseScore: 7.2,
+            fixedVersions: ['4.17.21'],
+          }),
+          createOccurrence('CVE-2023-9999', 'left-pad', '1.0.0', {
+            severity: 'MEDIUM',
+            fixedVersions: [],
+          }),
+        ],
+        pageInfo: { hasNextPage: false, hasPreviousPage: true },
+        totalCount: 5,
+      });
+
+    const handler = createVulnerabilityUpgradePlanHandler(deps);
+    const result = await handler({ projectKey: 'my-project' });
+
+    expect(mockGetDependencyVulnerabilities).toHaveBeenCalledTimes(2);
+    expect(mockGetDependencyVulnerabilities).toHaveBeenLastCalledWith('my-project', {
+      first: 50,
+      after: 'cursor-1',
+    });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.summary).toEqual({
+      occurrencesScanned: 5,
+      packagesAffected: 3,
+      upgrades: 2,
+      packagesWithoutFix: 1,
+      scanComplete: true,
+    });
+
+    // The CRITICAL minimist upgrade comes first
+    expect(data.upgrades[0]).toMatchObject({
+      step: 1,
+      packageName: 'minimist',
+      targetVersion: '1.2.6',
+      riskRemoved: { highestSeverity: 'CRITICAL', cvssTotal: 9.8 },
+    });
+    expect(data.upgrades[1]).toEqual({
+      step: 2,
+      ecosystem: 'NPM',
+      packageName: 'lodash',
+      currentVersions: ['4.17.10', '4.17.15'],
+      targetVersion: '4.17.21',
+      files: ['web/package-lock.json'],
+      resolvesAdvisories: ['CVE-2021-23337', 'CVE-2020-8203'],
+      unresolvedAdvisories: [],
+      riskRemoved: {
+        advisories: 2,
+        occurrences: 3,
+        highestSeverity: 'HIGH',
+        cvssTotal: 14.6,
+        bySeverity: { HIGH: 2 },
+      },
+    });
+
+    expect(data.packagesWithoutFix).toHaveLength(1);
+    expect(data.packagesWithoutFix[0]).toMatchObject({
+      packageName: 'left-pad',
+      advisories: ['CVE-2023-9999'],
+      risk: { highestSeverity: 'MEDIUM' },
+    });
+    expect(data.packagesWithoutFix[0].advice).toContain('No fixed version of left-pad');
+  });
+
+  it('should compare versions numerically and report advisories without a fix', async () => {
+    mockGetDependencyVulnerabilities.mockResolvedValue({
+      items: [
+        createOccurrence('GHSA-1', 'express', '4.9.0', {
+          severity: 'MEDIUM',
+          fixedVersions: ['4.10.0-rc.1', '4.10.0'],
+        }),
+        createOccurrence('GHSA-2', 'express', '4.9.0', {
+          severity: 'LOW',
+          fixedVersions: ['4.9.10'],
+        }),
+        createOccurrence('GHSA-3', 'express', '4.9.0', {
+          severity: 'HIGH',
+          fixedVersions: [],
+        }),
+      ],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      totalCount: 3,
+    });
+
+    const handler = createVulnerabilityUpgradePlanHandler(deps);
+    const result = await handler({ projectKey: 'my-project' });
+
+    const [step] = JSON.parse(result.content[0].text).upgrades;
+    expect(step.targetVersion).toBe('4.10.0-rc.1');
+    expect(step.resolvesAdvisories).toEqual(['GHSA-1', 'GHSA-2']);
+    expect(step.unresolvedAdvisories).toEqual(['GHSA-3']);
+    expect(step.riskRemoved.highestSeverity).toBe('MEDIUM');
+  });
+
+  it('should not count fixes at or below the installed versions', async () => {
+    mockGetDependencyVulnerabilities.mockResolvedValue({
+      items: [
+        createOccurrence('GHSA-4', 'axios', '1.6.0', {
+          severity: 'HIGH',
+          cvssV3BaseScore: 7.5,
+          fixedVersions: ['0.28.0', '1.6.0'],
+        }),
+        createOccurrence('GHSA-5', 'axios', '1.6.0', {
+          severity: 'MEDIUM',
+          fixedVersions: ['1.5.1'],
+        }),
+      ],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      totalCount: 2,
+    });
+
+    const handler = createVulnerabilityUpgradePlanHandler(deps);
+    const result = await handler({ projectKey: 'my-project' });
+
+    const data = JSON.parse(result.content[0].text);
+    expect(data.upgrades).toEqual([]);
+    expect(data.packagesWithoutFix).toHaveLength(1);
+    expect(data.packagesWithoutFix[0]).toMatchObject({
+      packageName: 'axios',
+      currentVersions: ['1.6.0'],
+      advisories: ['GHSA-4', 'GHSA-5'],
+      risk: { highestSeverity: 'HIGH' },
+    });
+    expect(data.packagesWithoutFix[0].advice).toContain(
+      'No fixed version of axios newer than the installed versions'
+    );
+  });
+
+  it('should report an incomplete scan when max_pages is reached', async () => {
+    mockGetDependencyVulnerabilities.mockResolvedValue({
+      items: [],
+      pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: 'cursor-1' },
+      totalCount: 100,
+    });
+
+    const handler = createVulnerabilityUpgradePlanHandler(deps);
+    const result = await handler({ projectKey: 'my-project', page_size: 20, max_pages: 1 });
+
+    expect(mockGetDependencyVulnerabilities).toHaveBeenCalledTimes(1);
+    expect(mockGetDependencyVulnerabilities).toHaveBeenCalledWith('my-project', { first: 20 });
+    expect(JSON.parse(result.content[0].text).summary.scanComplete).toBe(false);
+  });
+
+  it('should require a project key', async () => {
+    const handler = createVulnerabilityUpgradePlanHandler(deps);
+    await expect(handler({ projectKey: '' })).rejects.toThrow(
+      'projectKey must be a non-empty string'
+    );
+    expect(mockGetDependencyVulnerabilities).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Tests for starting the transports from the entry point
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { DEFAULT_HTTP_TRANSPORT_CONFIG } from '../config/transport.js';
+
+vi.mock('../utils/logging/logger.js', () => ({
+  createLogger: vi.fn(() => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  })),
+}));
+
+const { startTransport } = await import('../index.js');
+
+describe('startTransport', () => {
+  const originalApiKey = process.env.DEEPSOURCE_API_KEY;
+
+  beforeEach(() => {
+    delete process.env.DEEPSOURCE_API_KEY;
+  });
+
+  afterEach(() => {
+    if (originalApiKey === undefined) {
+      delete process.env.DEEPSOURCE_API_KEY;
+    } else {
+      process.env.DEEPSOURCE_API_KEY = originalApiKey;
+    }
+  });
+
+  it('should start HTTP mode without DEEPSOURCE_API_KEY', async () => {
+    const { close, address } = await startTransport({
+      mode: 'http',
+      http: { ...DEFAULT_HTTP_TRANSPORT_CONFIG, port: 0, sessionIdleTimeoutMs: 0 },
+    });
+
+    try {
+      const url = new URL(`http://127.0.0.1:${address?.port}/mcp`);
+
+      const anonymous = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-06-18',
+            capabilities: {},
+            clientInfo: { name: 'test-client', version: '1.0.0' },
+          },
+        }),
+      });
+      expect(anonymous.status).toBe(401);
+
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(url, {
+          requestInit: { headers: { Authorization: 'Bearer session-api-key' } },
+        })
+      );
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).toContain('projects');
+      await client.close();
+    } finally {
+      await close();
+    }
+  });
+
+  it('should not let HTTP sessions without a key use DEEPSOURCE_API_KEY by default', async () => {
+    process.env.DEEPSOURCE_API_KEY = 'process-api-key';
+    const { close, address } = await startTransport({
+      mode: 'http',
+      http: { ...DEFAULT_HTTP_TRANSPORT_CONFIG, port: 0, sessionIdleTimeoutMs: 0 },
+    });
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${address?.port}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-06-18',
+            capabilities: {},
+            clientInfo: { name: 'test-client', version: '1.0.0' },
+          },
+        }),
+      });
+      expect(response.status).toBe(401);
+    } finally {
+      await close();
+    }
+  });
+});
@@ -11,6 +11,8 @@ import {
   mergeResponses,
   createPaginationIterator,
 } from '../utils/pagination/manager';
+import { runWithAbortSignal } from '../utils/cancellation';
+import { runWithProgressReporter, ProgressUpdate } from '../utils/progress';
 import { PaginatedResponse } from '../utils/pagination/types';
 
 describe('PaginationManager', () => {
@@ -179,6 +181,51 @@ describe('PaginationManager', () => {
     });
   });
 
+  describe('fetchMultiplePages progress and cancellation', () => {
+    const page = (cursor: number) => ({
+      items: [`item${cursor}`],
+      pageInfo: { hasNextPage: true, hasPreviousPage: false, endCursor: `cursor${cursor}` },
+      totalCount: 5,
+    });
+
+    it('should report every fetched page as progress of the tool call', async () => {
+      let cursor = 0;
+      const fetcher = vi.fn(async () => page(++cursor));
+      const updates: ProgressUpdate[] = [];
+
+      await runWithProgressReporter(
+        async (update) => {
+          updates.push(update);
+        },
+        () => fetchMultiplePages(fetcher, { maxPages: 3, pageSize: 1 })
+      );
+
+      expect(updates).toEqual([
+        { progress: 1, total: 3, message: 'Fetched page 1 (1 items so far)' },
+        { progress: 2, total: 3, message: 'Fetched page 2 (2 items so far)' },
+        { progress: 3, total: 3, message: 'Fetched page 3 (3 items so far)' },
+      ]);
+    });
+
+    it('should stop fetching pages once the tool call is cancelled', async () => {
+      const controller = new AbortController();
+      let cursor = 0;
+      const fetcher = vi.fn(async () => {
+        if (++cursor === 2) {
+          controller.abort();
+        }
+        return page(cursor);
+      });
+
+      await expect(
+        runWithAbortSignal(controller.signal, () =>
+          fetchMultiplePages(fetcher, { maxPages: 5, pageSize: 1 })
+        )
+      ).rejects.toThrow('The request was cancelled');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('addPaginationMetadata', () => {
     it('should add user-friendly metadata to response', () => {
       const response: PaginatedResponse<string> = {
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Tests for argument completion
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+const textResponse = (payload: unknown) => ({
+  content: [{ type: 'text' as const, text: JSON.stringify(payload) }],
+});
+
+// Mock the handlers the completions are looked up from
+vi.mock('../../handlers/index.js', () => ({
+  handleProjects: vi.fn(),
+  handleDeepsourceProjectRuns: vi.fn(),
+  handleDeepsourceAnalyzers: vi.fn(),
+}));
+
+// Mock the client the enabled analyzers are looked up from
+const mockGetRepositorySettings = vi.fn();
+vi.mock('../../client/projects-client.js', () => ({
+  ProjectsClient: vi.fn().mockImplementation(() => ({
+    getRepositorySettings: mockGetRepositorySettings,
+  })),
+}));
+
+vi.mock('../../config/index.js', () => ({
+  getApiKey: vi.fn(() => 'test-api-key'),
+}));
+
+const handlers = await import('../../handlers/index.js');
+const {
+  rankCompletions,
+  completeFrom,
+  completeProjectKey,
+  completeBranchName,
+  completeAnalyzerShortcode,
+  completeReportType,
+  completersFor,
+} = await import('../../server/argument-completion.js');
+
+describe('Argument Completion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('rankCompletions', () => {
+    it('should put prefix matches before substring matches, ignoring case', () => {
+      expect(rankCompletions(['api-gateway', 'web-api', 'Api', 'docs'], 'API')).toEqual([
+        'Api',
+        'api-gateway',
+        'web-api',
+      ]);
+    });
+
+    it('should drop duplicates and return every value for an empty input', () => {
+      expect(rankCompletions(['main', 'develop', 'main'], '')).toEqual(['develop', 'main']);
+    });
+  });
+
+  it('should complete from a fixed list', async () => {
+    await expect(completeFrom(['LCV', 'BCV', 'CMP'])('c')).resolves.toEqual(['CMP', 'BCV', 'LCV']);
+    await expect(completeReportType('trend')).resolves.toEqual(['CODE_HEALTH_TREND']);
+  });
+
+  it('should complete project keys from the visible projects', async () => {
+    vi.mocked(handlers.handleProjects).mockResolvedValue(
+      textResponse([
+        { key: 'gh/acme/web', name: 'Web' },
+        { key: 'gh/acme/api', name: 'API' },
+      ])
+    );
+
+    await expect(completeProjectKey('web')).resolves.toEqual(['gh/acme/web']);
+  });
+
+  it('should return no suggestions when the lookup fails', async () => {
+    vi.mocked(handlers.handleProjects).mockRejectedValue(new Error('API key missing'));
+
+    await expect(completeProjectKey('web')).resolves.toEqual([]);
+  });
+
+  it('should complete branches only once a project key is known', async () => {
+    vi.mocked(handlers.handleDeepsourceProjectRuns).mockResolvedValue(
+      textResponse({ runs: [{ branchName: 'main' }, { branchName: 'release' }, {}] })
+    );
+
+    await expect(completeBranchName('')).resolves.toEqual([]);
+    expect(handlers.handleDeepsourceProjectRuns).not.toHaveBeenCalled();
+
+    await expect(completeBranchName('', { arguments: { projectKey: 'web' } })).resolves.toEqual([
+      'main',
+      'release',
+    ]);
+  });
+
+  it('should complete the analyzers enabled for the project', async () => {
+    mockGetRepositorySettings.mockResolvedValue({
+      repositoryId: 'repo-1',
+      defaultBranch: 'main',
+      configJson: null,
+      enabledAnalyzers: [
+        { shortcode: 'python', name: 'Python' },
+        { shortcode: 'docker', name: 'Docker' },
+      ],
+    });
+
+    await expect(
+      completeAnalyzerShortcode('', { arguments: { projectKey: 'web' } })
+    ).resolves.toEqual(['docker', 'python']);
+    expect(mockGetRepositorySettings).toHaveBeenCalledWith('web');
+    expect(handlers.handleDeepsourceAnalyzers).not.toHaveBeenCalled();
+  });
+
+  it('should suggest no analyzers for an unknown project', async () => {
+    mockGetRepositorySettings.mockResolvedValue(null);
+
+    await expect(
+      completeAnalyzerShortcode('py', { arguments: { projectKey: 'missing' } })
+    ).resolves.toEqual([]);
+    expect(handlers.handleDeepsourceAnalyzers).not.toHaveBeenCalled();
+  });
+
+  it('should complete only the last analyzer of a list', async () => {
+    mockGetRepositorySettings.mockResolvedValue({
+      repositoryId: 'repo-1',
+      defaultBranch: 'main',
+      configJson: null,
+      enabledAnalyzers: [
+        { shortcode: 'python', name: 'Python' },
+        { shortcode: 'docker', name: 'Docker' },
+        { shortcode: 'javascript', name: 'JavaScript' },
+      ],
+    });
+
+    await expect(
+      completeAnalyzerShortcode('python,', { arguments: { projectKey: 'web' } })
+    ).resolves.toEqual(['python,docker', 'python,javascript']);
+    await expect(
+      completeAnalyzerShortcode('python,docker,j', { arguments: { projectKey: 'web' } })
+    ).resolves.toEqual(['python,docker,javascript']);
+  });
+
+  it('should fall back to the analyzer catalog without a project', async () => {
+    vi.mocked(handlers.handleDeepsourceAnalyzers).mockResolvedValue(
+      textResponse({ analyzers: [{ shortcode: 'javascript' }, { shortcode: 'java' }] })
+    );
+
+    await expect(completeAnalyzerShortcode('java')).resolves.toEqual(['java', 'javascript']);
+  });
+
+  it('should pick completers by argument name', () => {
+    expect(Object.keys(completersFor(['projectKey', 'runUid', 'reportType']))).toEqual([
+      'projectKey',
+      'reportType',
+    ]);
+  });
+});
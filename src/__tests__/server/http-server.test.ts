@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Tests for the Streamable HTTP server
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { getApiKey } from '../../config/index.js';
+import { BaseDeepSourceClient } from '../../client/base-client.js';
+import { DeepSourceHttpServer, HttpServerOptions } from '../../server/http-server.js';
+import { DeepSourceMCPServer } from '../../server/mcp-server.js';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const jsonHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+describe('DeepSourceHttpServer', () => {
+  let httpServer: DeepSourceHttpServer;
+  let baseUrl: string;
+  let clients: Client[];
+  let sessionApiKeys: string[];
+  const createServer = vi.fn(async () => {
+    sessionApiKeys.push(getApiKey());
+    const server = await DeepSourceMCPServer.create({
+      autoRegisterTools: false,
+      autoRegisterResources: false,
+    });
+    server
+      .getMcpServer()
+      .registerTool('whoami', { description: 'Returns the API key in use' }, async () => ({
+        content: [{ type: 'text', text: getApiKey() }],
+      }));
+    return server;
+  });
+
+  const startServer = async (options: Partial<HttpServerOptions> = {}) => {
+    httpServer = new DeepSourceHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      endpoint: '/mcp',
+      sessionIdleTimeoutMs: 0,
+      shutdownTimeoutMs: 1000,
+      requireApiKey: false,
+      createServer,
+      ...options,
+    });
+    const address = await httpServer.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  };
+
+  const connectClient = async (apiKey?: string) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      ...(apiKey && { requestInit: { headers: { Authorization: `Bearer ${apiKey}` } } }),
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  const originalApiKey = process.env.DEEPSOURCE_API_KEY;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.DEEPSOURCE_API_KEY = 'test-api-key';
+    clients = [];
+    sessionApiKeys = [];
+    await startServer();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await httpServer.close();
+    if (originalApiKey === undefined) {
+      delete process.env.DEEPSOURCE_API_KEY;
+    } else {
+      process.env.DEEPSOURCE_API_KEY = originalApiKey;
+    }
+  });
+
+  it('should report its health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      status: 'ok',
+      transport: 'streamable-http',
+      sessions: 0,
+    });
+  });
+
+  it('should create a server per session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    const { prompts } = await first.client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toContain('triage-branch-issues');
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(createServer).toHaveBeenCalledTimes(2);
+    expect(httpServer.getSessionCount()).toBe(2);
+  });
+
+  it('should close a session when the client terminates it', async () => {
+    const { transport } = await connectClient();
+
+    await transport.terminateSession();
+
+    expect(httpServer.getSessionCount()).toBe(0);
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const request = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/list',
+      params: {},
+    };
+    const missing = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: jsonHeaders,
+      body: JSON.stringify(request),
+    });
+    const unknown = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...jsonHeaders, 'mcp-session-id': 'unknown' },
+      body: JSON.stringify(request),
+    });
+
+    expect(missing.status).toBe(400);
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error.message).toBe('Session not found');
+  });
+
+  it('should run each session with the API key it brings', async () => {
+    const tenantA = await connectClient('tenant-a-key');
+    const tenantB = await connectClient('tenant-b-key');
+    const shared = await connectClient();
+
+    expect(sessionApiKeys).toEqual(['tenant-a-key', 'tenant-b-key', 'test-api-key']);
+    const whoami = async ({ client }: { client: Client }) => {
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+      return (result.content as Array<{ text: string }>)[0]?.text;
+    };
+    expect(await whoami(tenantA)).toBe('tenant-a-key');
+    expect(await whoami(tenantB)).toBe('tenant-b-key');
+    expect(await whoami(shared)).toBe('test-api-key');
+  });
+
+  it('should drop the project loaders of an API key when its last session closes', async () => {
+    const removeProjectLoaders = vi.spyOn(BaseDeepSourceClient, 'removeProjectLoaders');
+    try {
+      const first = await connectClient('tenant-a-key');
+      const second = await connectClient('tenant-a-key');
+      const shared = await connectClient();
+
+      await first.transport.terminateSession();
+      expect(removeProjectLoaders).not.toHaveBeenCalled();
+
+      await second.transport.terminateSession();
+      await shared.transport.terminateSession();
+      expect(removeProjectLoaders).toHaveBeenCalledTimes(1);
+      expect(removeProjectLoaders).toHaveBeenCalledWith('tenant-a-key');
+    } finally {
+      removeProjectLoaders.mockRestore();
+    }
+  });
+
+  it('should reject requests whose API key does not match the session', async () => {
+    const { transport } = await connectClient('tenant-a-key');
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        ...jsonHeaders,
+        Authorization: 'Bearer tenant-b-key',
+        'mcp-session-id': transport.sessionId as string,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should require an API key when configured or when none is set', async () => {
+    const initialize = () =>
+      fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify(initializeRequest),
+      });
+
+    await httpServer.close();
+    await startServer({ requireApiKey: true });
+    const required = await initialize();
+
+    delete process.env.DEEPSOURCE_API_KEY;
+    await httpServer.close();
+    await startServer();
+    const missing = await initialize();
+
+    expect(required.status).toBe(401);
+    expect(required.headers.get('www-authenticate')).toContain('Bearer');
+    expect(missing.status).toBe(401);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid JSON and unknown paths', async () => {
+    const invalid = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{',
+    });
+    const notFound = await fetch(`${baseUrl}/other`);
+
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.code).toBe(-32700);
+    expect(notFound.status).toBe(404);
+  });
+
+  it('should close idle sessions', async () => {
+    await httpServer.close();
+    vi.useFakeTimers({ toFake: ['setInterval', 'Date'] });
+    try {
+      await startServer({ sessionIdleTimeoutMs: 1000 });
+      // Initialize without a client so that no SSE stream keeps the session active
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify(initializeRequest),
+      });
+      await response.text();
+      expect(response.headers.get('mcp-session-id')).toBeTruthy();
+      expect(httpServer.getSessionCount()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      vi.useRealTimers();
+
+      await vi.waitFor(() => expect(httpServer.getSessionCount()).toBe(0));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should close every session and stop listening on shutdown', async () => {
+    await connectClient();
+
+    await httpServer.close();
+
+    expect(httpServer.getSessionCount()).toBe(0);
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+  });
+});
@@ -30,10 +30,21 @@ vi.mock('../../server/tool-registration.js', () => ({
   registerDeepSourceTools: vi.fn(),
 }));
 
+vi.mock('../../server/resource-registration.js', () => ({
+  registerDeepSourceResources: vi.fn(() => ['project', 'project-run']),
+}));
+
+vi.mock('../../server/prompt-registration.js', () => ({
+  registerDeepSourcePrompts: vi.fn(() => ['triage-branch-issues', 'security-review']),
+}));
+
 vi.mock('@modelcontextprotocol/sdk/server/mcp.js', () => ({
   McpServer: vi.fn().mockImplementation(() => ({
     connect: vi.fn().mockResolvedValue(undefined),
     registerTool: vi.fn(),
+    registerResource: vi.fn(),
+    registerPrompt: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
     tool: vi.fn(),
   })),
 }));
@@ -94,6 +105,38 @@ describe('DeepSourceMCPServer', () => {
     });
   });
 
+  describe('tool access', () => {
+    const mutatingTool = {
+      name: 'update_setting',
+      description: 'Changes a setting',
+      handler: vi.fn(),
+      annotations: { readOnlyHint: false },
+    };
+
+    afterEach(() => {
+      delete process.env.DEEPSOURCE_READ_ONLY;
+    });
+
+    it('should apply the read-only mode from the environment', () => {
+      process.env.DEEPSOURCE_READ_ONLY = 'true';
+      server = new DeepSourceMCPServer({ autoRegisterTools: false });
+
+      expect(server.getToolRegistry().isToolAllowed(mutatingTool)).toBe(false);
+    });
+
+    it('should let the server configuration override the environment', () => {
+      process.env.DEEPSOURCE_READ_ONLY = 'true';
+      server = new DeepSourceMCPServer({
+        autoRegisterTools: false,
+        toolAccess: { readOnly: false, denyTools: ['projects'] },
+      });
+      const registry = server.getToolRegistry();
+
+      expect(registry.isToolAllowed(mutatingTool)).toBe(true);
+      expect(registry.isToolAllowed({ ...mutatingTool, name: 'projects' })).toBe(false);
+    });
+  });
+
   describe('getMcpServer', () => {
     it('should return the MCP server instance', () => {
       server = new DeepSourceMCPServer();
@@ -172,6 +215,26 @@ describe('DeepSourceMCPServer', () => {
     });
   });
 
+  describe('close', () => {
+    it('should close the MCP server once connected', async () => {
+      server = new DeepSourceMCPServer();
+      await server.connect();
+
+      await server.close();
+
+      expect(server.getMcpServer().close).toHaveBeenCalledTimes(1);
+      expect(server.isServerConnected()).toBe(false);
+    });
+
+    it('should do nothing when not connected', async () => {
+      server = new DeepSourceMCPServer();
+
+      await server.close();
+
+      expect(server.getMcpServer().close).not.toHaveBeenCalled();
+    });
+  });
+
   describe('isServerConnected', () => {
     it('should return false before connection', () => {
       server = new DeepSourceMCPServer();
@@ -208,6 +271,36 @@ describe('DeepSourceMCPServer', () => {
     });
   });
 
+  describe('getRegisteredResources', () => {
+    it('should return the registered resource names', () => {
+      server = new DeepSourceMCPServer({ autoRegisterTools: false });
+      expect(server.getRegisteredResources()).toEqual(['project', 'project-run']);
+    });
+
+    it('should not register resources when disabled', () => {
+      server = new DeepSourceMCPServer({
+        autoRegisterTools: false,
+        autoRegisterResources: false,
+      });
+      expect(server.getRegisteredResources()).toEqual([]);
+    });
+  });
+
+  describe('getRegisteredPrompts', () => {
+    it('should return the registered prompt names', () => {
+      server = new DeepSourceMCPServer({ autoRegisterTools: false });
+      expect(server.getRegisteredPrompts()).toEqual(['triage-branch-issues', 'security-review']);
+    });
+
+    it('should not register prompts when disabled', () => {
+      server = new DeepSourceMCPServer({
+        autoRegisterTools: false,
+        autoRegisterPrompts: false,
+      });
+      expect(server.getRegisteredPrompts()).toEqual([]);
+    });
+  });
+
   describe('static create', () => {
     it('should create server without auto-start', async () => {
       const server = await DeepSourceMCPServer.create();
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Tests for the confirmation of mutating tools
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  ConfirmationTokenStore,
+  confirmMutation,
+  formatMutationPreview,
+} from '../../server/mutation-confirmation.js';
+import { runWithRequestContext } from '../../utils/request-context.js';
+
+const preview = vi.fn(async () => ({
+  summary: 'Change the LCV threshold',
+  current: { threshold: 80 },
+  proposed: { threshold: 90 },
+}));
+
+describe('Mutation Confirmation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ConfirmationTokenStore.getInstance().clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('ConfirmationTokenStore', () => {
+    it('should redeem a token once for the call it was issued for', () => {
+      const store = new ConfirmationTokenStore(60000);
+      const { token } = store.issue('update_metric_threshold', { projectKey: 'p', value: 1 });
+
+      expect(store.consume(token, 'update_metric_threshold', { projectKey: 'p', value: 2 })).toBe(
+        false
+      );
+      expect(store.consume(token, 'update_metric_setting', { projectKey: 'p', value: 1 })).toBe(
+        false
+      );
+      // Argument order and the token argument itself do not matter
+      expect(
+        store.consume(token, 'update_metric_threshold', {
+          value: 1,
+          projectKey: 'p',
+          confirmationToken: token,
+        })
+      ).toBe(true);
+      expect(store.consume(token, 'update_metric_threshold', { projectKey: 'p', value: 1 })).toBe(
+        false
+      );
+    });
+
+    it('should reject expired tokens', () => {
+      vi.useFakeTimers();
+      const store = new ConfirmationTokenStore(1000);
+      const { token, expiresAt } = store.issue('deactivate_repository', { projectKey: 'p' });
+
+      expect(expiresAt.getTime()).toBe(Date.now() + 1000);
+      vi.advanceTimersByTime(1000);
+      expect(store.consume(token, 'deactivate_repository', { projectKey: 'p' })).toBe(false);
+    });
+
+    it('should only accept tokens in the request scope they were issued in', () => {
+      const store = new ConfirmationTokenStore(60000);
+      const { token } = runWithRequestContext({ scope: 'session-a' }, () =>
+        store.issue('deactivate_repository', { projectKey: 'p' })
+      );
+
+      expect(
+        runWithRequestContext({ scope: 'session-b' }, () =>
+          store.consume(token, 'deactivate_repository', { projectKey: 'p' })
+        )
+      ).toBe(false);
+      expect(
+        runWithRequestContext({ scope: 'session-a' }, () =>
+          store.consume(token, 'deactivate_repository', { projectKey: 'p' })
+        )
+      ).toBe(true);
+    });
+  });
+
+  it('should format each setting with its current and proposed value', () => {
+    expect(
+      formatMutationPreview({
+        summary: 'Change the LCV settings',
+        current: { isReported: true },
+        proposed: { isReported: false, isThresholdEnforced: true },
+      })
+    ).toBe(
+      'Change the LCV settings\n- isReported: true -> false\n- isThresholdEnforced: unknown -> true'
+    );
+  });
+
+  it('should issue a token with the preview when the client cannot elicit', async () => {
+    const result = await confirmMutation({
+      toolName: 'update_metric_threshold',
+      params: { projectKey: 'p', thresholdValue: 90 },
+      preview,
+    });
+
+    expect(result.confirmed).toBe(false);
+    if (result.confirmed) return;
+    expect(result.response).toMatchObject({
+      confirmationRequired: true,
+      confirmationToken: expect.any(String),
+      current: { threshold: 80 },
+      proposed: { threshold: 90 },
+    });
+    expect(preview).toHaveBeenCalledWith({ projectKey: 'p', thresholdValue: 90 });
+
+    const confirmed = await confirmMutation({
+      toolName: 'update_metric_threshold',
+      params: {
+        projectKey: 'p',
+        thresholdValue: 90,
+        confirmationToken: result.response.confirmationToken,
+      },
+      preview,
+    });
+    expect(confirmed).toEqual({ confirmed: true });
+    expect(preview).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ask the user when the client can elicit', async () => {
+    const elicit = vi
+      .fn()
+      .mockResolvedValueOnce({ action: 'accept', content: { confirm: false } })
+      .mockResolvedValueOnce({ action: 'accept', content: { confirm: true } });
+    const options = {
+      toolName: 'update_metric_threshold',
+      params: { projectKey: 'p', thresholdValue: 90 },
+      preview,
+      elicit,
+    };
+
+    const declined = await confirmMutation(options);
+    expect(declined.confirmed).toBe(false);
+    expect(elicit).toHaveBeenCalledWith({
+      message: 'Change the LCV threshold\n- threshold: 80 -> 90\n\nApply this change?',
+      requestedSchema: expect.objectContaining({ required: ['confirm'] }),
+    });
+
+    await expect(confirmMutation(options)).resolves.toEqual({ confirmed: true });
+  });
+
+  it('should ask the user instead of accepting tokens when the client can elicit', async () => {
+    const elicit = vi.fn().mockResolvedValue({ action: 'decline' });
+    const params = { projectKey: 'p', thresholdValue: 90 };
+    const { token } = ConfirmationTokenStore.getInstance().issue('update_metric_threshold', params);
+
+    for (const confirmationToken of ['bogus-token', token]) {
+      const result = await confirmMutation({
+        toolName: 'update_metric_threshold',
+        params: { ...params, confirmationToken },
+        preview,
+        elicit,
+      });
+
+      expect(result.confirmed).toBe(false);
+      if (result.confirmed) return;
+      expect(result.response).not.toHaveProperty('confirmationToken');
+      expect(result.response.message).toContain('the user did not confirm it');
+    }
+    expect(elicit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse changes whose preview reports errors', async () => {
+    const elicit = vi.fn();
+
+    const result = await confirmMutation({
+      toolName: 'update_metric_threshold',
+      params: { projectKey: 'p', thresholdValue: 150 },
+      preview: async () => ({
+        summary: 'Change the LCV threshold',
+        current: { threshold: 80 },
+        proposed: { threshold: 150 },
+        errors: ['Threshold value 150 is outside allowed range [0, 100]'],
+      }),
+      elicit,
+    });
+
+    expect(result.confirmed).toBe(false);
+    if (result.confirmed) return;
+    expect(result.response).toMatchObject({
+      errors: ['Threshold value 150 is outside allowed range [0, 100]'],
+    });
+    expect(result.response).not.toHaveProperty('confirmationToken');
+    expect(elicit).not.toHaveBeenCalled();
+  });
+});
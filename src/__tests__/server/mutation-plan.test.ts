@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Tests for the dry runs of mutating tools
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planMutation } from '../../server/mutation-plan.js';
+
+describe('Mutation Plan', () => {
+  it('should list the settings the change would modify', () => {
+    const result = planMutation('update_metric_setting', {
+      summary: 'Change the LCV settings in my-project',
+      current: { isReported: true, isThresholdEnforced: false },
+      proposed: { isReported: true, isThresholdEnforced: true },
+    });
+
+    expect(result).toEqual({
+      dryRun: true,
+      message:
+        'Dry run: Change the LCV settings in my-project would change isThresholdEnforced. Nothing has been changed; call update_metric_setting without dryRun to apply it.',
+      plan: {
+        tool: 'update_metric_setting',
+        summary: 'Change the LCV settings in my-project',
+        valid: true,
+        errors: [],
+        changes: [{ setting: 'isThresholdEnforced', current: false, proposed: true }],
+        unchanged: ['isReported'],
+      },
+    });
+  });
+
+  it('should count settings with an unknown current value as changes', () => {
+    const { plan } = planMutation('suppress_issue_for_team', {
+      summary: 'Suppress PYL-W0611',
+      current: { suppressed: false },
+      proposed: { suppressed: true, reason: 'Noise' },
+    });
+
+    expect(plan.changes).toEqual([
+      { setting: 'suppressed', current: false, proposed: true },
+      { setting: 'reason', proposed: 'Noise' },
+    ]);
+  });
+
+  it('should say when the settings already have the requested values', () => {
+    const result = planMutation('update_default_branch', {
+      summary: 'Change the default branch of My Project',
+      current: { defaultBranch: 'main' },
+      proposed: { defaultBranch: 'main' },
+    });
+
+    expect(result.plan.changes).toEqual([]);
+    expect(result.message).toContain('would not change anything');
+  });
+
+  it('should mark changes with errors as invalid', () => {
+    const result = planMutation('update_metric_threshold', {
+      summary: 'Change the LCV threshold',
+      current: { threshold: 80 },
+      proposed: { threshold: 150 },
+      errors: ['Threshold value 150 is outside allowed range [0, 100]'],
+    });
+
+    expect(result.plan.valid).toBe(false);
+    expect(result.plan.errors).toEqual(['Threshold value 150 is outside allowed range [0, 100]']);
+    expect(result.message).toContain('cannot be applied');
+  });
+});
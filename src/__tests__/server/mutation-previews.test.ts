@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Tests for the previews of mutating tools
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { asGraphQLNodeId, asProjectKey } from '../../types/branded.js';
+import { Project } from '../../domain/aggregates/project/project.aggregate.js';
+import { QualityMetrics } from '../../domain/aggregates/quality-metrics/quality-metrics.aggregate.js';
+import { ThresholdValue } from '../../domain/value-objects/threshold-value.js';
+import { MetricKey, MetricShortcode } from '../../models/metrics.js';
+
+const textResponse = (payload: unknown) => ({
+  content: [{ type: 'text' as const, text: JSON.stringify(payload) }],
+});
+
+const mockFindByKey = vi.fn();
+const mockFindByProjectAndMetric = vi.fn();
+const mockFindByProjectWithFilter = vi.fn();
+
+// Mock the handlers and the repositories the previews read from
+vi.mock('../../handlers/index.js', () => ({
+  handleDeepsourcePolicyPlan: vi.fn(),
+  handleDeepsourceQualityGates: vi.fn(),
+  handleDeepsourceTeamSuppressedIssues: vi.fn(),
+}));
+
+vi.mock('../../infrastructure/factories/repository.factory.js', () => ({
+  RepositoryFactory: vi.fn().mockImplementation(() => ({
+    createProjectRepository: () => ({ findByKey: mockFindByKey }),
+    createQualityMetricsRepository: () => ({
+      findByProjectAndMetric: mockFindByProjectAndMetric,
+      findByProjectWithFilter: mockFindByProjectWithFilter,
+    }),
+  })),
+}));
+
+vi.mock('../../config/index.js', () => ({
+  getApiKey: vi.fn(() => 'test-api-key'),
+}));
+
+const coverageMetric = (threshold: number | null) =>
+  QualityMetrics.create({
+    projectKey: asProjectKey('my-project'),
+    repositoryId: asGraphQLNodeId('UmVwb3NpdG9yeTox'),
+    configuration: {
+      name: 'Line Coverage',
+      description: 'Percentage of lines covered by tests',
+      shortcode: MetricShortcode.LCV,
+      metricKey: MetricKey.AGGREGATE,
+      unit: '%',
+      minAllowed: 0,
+      maxAllowed: 100,
+      positiveDirection: 'UPWARD',
+      isReported: true,
+      isThresholdEnforced: false,
+      threshold: threshold === null ? null : ThresholdValue.create(threshold, '%', 0, 100),
+    },
+  });
+
+const handlers = await import('../../handlers/index.js');
+const { MUTATION_PREVIEWS } = await import('../../server/mutation-previews.js');
+
+describe('Mutation Previews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should preview every tool that changes settings', () => {
+    expect(Object.keys(MUTATION_PREVIEWS).sort()).toEqual([
+      'activate_repository',
+      'deactivate_repository',
+      'policy_apply',
+      'suppress_issue_for_team',
+      'unsuppress_issue_for_team',
+      'update_default_branch',
+      'update_issue_category_setting',
+      'update_issue_priority_setting',
+      'update_metric_setting',
+      'update_metric_threshold',
+    ]);
+  });
+
+  it('should show the current and proposed metric threshold', async () => {
+    mockFindByProjectAndMetric.mockResolvedValue(coverageMetric(80));
+
+    const preview = await MUTATION_PREVIEWS.update_metric_threshold({
+      projectKey: 'my-project',
+      metricShortcode: 'LCV',
+      metricKey: 'AGGREGATE',
+      thresholdValue: 90,
+    });
+
+    expect(mockFindByProjectAndMetric).toHaveBeenCalledWith('my-project', 'LCV', 'AGGREGATE');
+    expect(preview).toEqual({
+      summary: 'Change the LCV threshold for AGGREGATE in my-project',
+      current: { threshold: 80 },
+      proposed: { threshold: 90 },
+      errors: [],
+    });
+  });
+
+  it('should report thresholds outside the range the metric allows', async () => {
+    mockFindByProjectAndMetric.mockResolvedValue(coverageMetric(null));
+
+    const preview = await MUTATION_PREVIEWS.update_metric_threshold({
+      projectKey: 'my-project',
+      metricShortcode: 'LCV',
+      metricKey: 'AGGREGATE',
+      thresholdValue: 150,
+    });
+
+    expect(preview.current).toEqual({ threshold: null });
+    expect(preview.errors).toEqual(['Threshold value 150 is outside allowed range [0, 100]']);
+  });
+
+  it('should show the current metric settings', async () => {
+    mockFindByProjectWithFilter.mockResolvedValue([coverageMetric(80)]);
+
+    const preview = await MUTATION_PREVIEWS.update_metric_setting({
+      projectKey: 'my-project',
+      metricShortcode: 'LCV',
+      isReported: true,
+      isThresholdEnforced: true,
+    });
+
+    expect(mockFindByProjectWithFilter).toHaveBeenCalledWith('my-project', ['LCV']);
+    expect(preview.current).toEqual({ isReported: true, isThresholdEnforced: false });
+    expect(preview.proposed).toEqual({ isReported: true, isThresholdEnforced: true });
+  });
+
+  it('should show the settings a quality policy changes', async () => {
+    vi.mocked(handlers.handleDeepsourcePolicyPlan).mockResolvedValue(
+      textResponse({
+        projects: [{ projectKey: 'my-project', project: 'acme/my-project' }],
+        changes: [
+          {
+            action: 'update',
+            projectKey: 'my-project',
+            project: 'acme/my-project',
+            resource: 'metric_threshold',
+            address: 'metric_threshold.LCV.AGGREGATE',
+            current: 70,
+            desired: 80,
+          },
+          {
+            action: 'no-op',
+            projectKey: 'my-project',
+            project: 'acme/my-project',
+            resource: 'issue_category',
+            address: 'issue_category.SECURITY',
+            current: { isReported: true, canFailCheck: true },
+            desired: { isReported: true, canFailCheck: true },
+          },
+        ],
+        errors: [],
+      })
+    );
+
+    const preview = await MUTATION_PREVIEWS.policy_apply({ policyFile: 'policy.json' });
+
+    expect(handlers.handleDeepsourcePolicyPlan).toHaveBeenCalledWith({ policyFile: 'policy.json' });
+    expect(preview).toEqual({
+      summary: 'Apply the quality policy to 1 projects',
+      current: { 'my-project.metric_threshold.LCV.AGGREGATE': 70 },
+      proposed: { 'my-project.metric_threshold.LCV.AGGREGATE': 80 },
+      errors: [],
+    });
+  });
+
+  it('should show the current quality gate of an issue category', async () => {
+    vi.mocked(handlers.handleDeepsourceQualityGates).mockResolvedValue(
+      textResponse({
+        categories: [{ category: 'SECURITY', isReported: true, canFailCheck: false }],
+        priorities: [],
+      })
+    );
+
+    const preview = await MUTATION_PREVIEWS.update_issue_category_setting({
+      projectKey: 'my-project',
+      category: 'SECURITY',
+      isReported: true,
+      canFailCheck: true,
+    });
+
+    expect(preview.current).toEqual({ isReported: true, canFailCheck: false });
+    expect(preview.proposed).toEqual({ isReported: true, canFailCheck: true });
+  });
+
+  it('should show whether an issue is already suppressed for the team', async () => {
+    vi.mocked(handlers.handleDeepsourceTeamSuppressedIssues).mockResolvedValue(
+      textResponse({
+        suppressedIssues: [{ issue: { shortcode: 'PYL-W0611', analyzerShortcode: 'python' } }],
+      })
+    );
+    const params = {
+      login: 'acme',
+      vcsProvider: 'GITHUB',
+      analyzerShortcode: 'python',
+      issueShortcode: 'PYL-W0611',
+      reason: 'Noise',
+    };
+
+    const preview = await MUTATION_PREVIEWS.unsuppress_issue_for_team(params);
+
+    expect(preview).toMatchObject({
+      current: { suppressed: true },
+      proposed: { suppressed: false, reason: 'Noise' },
+    });
+  });
+
+  it('should show the current default branch of a repository', async () => {
+    mockFindByKey.mockResolvedValue(
+      Project.fromPersistence({
+        key: asProjectKey('my-project'),
+        name: 'My Project',
+        repository: {
+          url: 'https://github.com/acme/my-project',
+          provider: 'GITHUB',
+          login: 'acme',
+          isPrivate: false,
+          id: 'UmVwb3NpdG9yeTox',
+          defaultBranch: 'master',
+        },
+        configuration: {
+          isActivated: true,
+          autoFix: false,
+          pullRequestIntegration: true,
+          issueReporting: true,
+        },
+        status: 'ACTIVE',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+    );
+
+    const preview = await MUTATION_PREVIEWS.update_default_branch({
+      projectKey: 'my-project',
+      defaultBranch: 'main',
+    });
+
+    expect(preview).toEqual({
+      summary: 'Change the default branch of My Project and analyze the new branch',
+      current: { defaultBranch: 'master' },
+      proposed: { defaultBranch: 'main' },
+    });
+  });
+
+  it('should not promise an analysis of the new branch of an inactive repository', async () => {
+    mockFindByKey.mockResolvedValue(
+      Project.fromPersistence({
+        key: asProjectKey('my-project'),
+        name: 'My Project',
+        repository: {
+          url: 'https://github.com/acme/my-project',
+          provider: 'GITHUB',
+          login: 'acme',
+          isPrivate: false,
+          id: 'UmVwb3NpdG9yeTox',
+          defaultBranch: 'master',
+        },
+        configuration: {
+          isActivated: false,
+          autoFix: false,
+          pullRequestIntegration: true,
+          issueReporting: true,
+        },
+        status: 'INACTIVE',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+    );
+
+    const preview = await MUTATION_PREVIEWS.update_default_branch({
+      projectKey: 'my-project',
+      defaultBranch: 'main',
+    });
+
+    expect(preview.summary).toBe(
+      'Change the default branch of My Project, which is not analyzed until the repository is activated'
+    );
+  });
+
+  it('should fail for unknown projects', async () => {
+    mockFindByKey.mockResolvedValue(null);
+
+    await expect(
+      MUTATION_PREVIEWS.deactivate_repository({ projectKey: 'missing' })
+    ).rejects.toThrow('Resource not found: project');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Tests for prompt registration
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+const textResponse = (payload: unknown) => ({
+  content: [{ type: 'text' as const, text: JSON.stringify(payload) }],
+});
+
+// Mock the handlers the prompts gather their context from
+vi.mock('../../handlers/index.js', () => ({
+  handleDeepsourceRecentRunIssues: vi.fn(),
+  handleDeepsourceComplianceReport: vi.fn(),
+  handleDeepsourceDependencyVulnerabilities: vi.fn(),
+  handleDeepsourceRun: vi.fn(),
+  handleDeepsourceQualityMetrics: vi.fn(),
+  handleProjects: vi.fn(),
+  handleDeepsourceProjectRuns: vi.fn(),
+  handleDeepsourceAnalyzers: vi.fn(),
+}));
+
+const handlers = await import('../../handlers/index.js');
+const { registerDeepSourcePrompts } = await import('../../server/prompt-registration.js');
+
+describe('Prompt Registration', () => {
+  let server: McpServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerDeepSourcePrompts(server);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  const getPromptText = async (name: string, args: Record<string, string>) => {
+    const result = await client.getPrompt({ name, arguments: args });
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    return (result.messages[0].content as { type: 'text'; text: string }).text;
+  };
+
+  it('should list the prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'triage-branch-issues',
+      'security-review',
+      'explain-quality-gate-failure',
+    ]);
+    expect(prompts[1].arguments).toEqual([
+      expect.objectContaining({ name: 'projectKey', required: true }),
+      expect.objectContaining({ name: 'reportType', required: false }),
+    ]);
+  });
+
+  it('should complete prompt arguments', async () => {
+    vi.mocked(handlers.handleProjects).mockResolvedValue(
+      textResponse([{ key: 'web-app' }, { key: 'api' }])
+    );
+    vi.mocked(handlers.handleDeepsourceProjectRuns).mockResolvedValue(
+      textResponse({ runs: [{ branchName: 'main' }, { branchName: 'feature/main-nav' }] })
+    );
+
+    const projectKeys = await client.complete({
+      ref: { type: 'ref/prompt', name: 'triage-branch-issues' },
+      argument: { name: 'projectKey', value: 'WEB' },
+    });
+    const branches = await client.complete({
+      ref: { type: 'ref/prompt', name: 'triage-branch-issues' },
+      argument: { name: 'branchName', value: 'main' },
+      context: { arguments: { projectKey: 'web-app' } },
+    });
+    const reportTypes = await client.complete({
+      ref: { type: 'ref/prompt', name: 'security-review' },
+      argument: { name: 'reportType', value: 's' },
+    });
+
+    expect(projectKeys.completion.values).toEqual(['web-app']);
+    expect(branches.completion.values).toEqual(['main', 'feature/main-nav']);
+    expect(handlers.handleDeepsourceProjectRuns).toHaveBeenCalledWith({
+      projectKey: 'web-app',
+      first: 50,
+    });
+    expect(reportTypes.completion.values).toEqual(['SANS_TOP_25', 'MISRA_C', 'OWASP_TOP_10']);
+  });
+
+  it('should triage the issues of the most recent run on a branch', async () => {
+    vi.mocked(handlers.handleDeepsourceRecentRunIssues).mockResolvedValue(
+      textResponse({ run: { runUid: 'run-1' }, issues: [{ issueCode: 'JS-0002' }] })
+    );
+
+    const text = await getPromptText('triage-branch-issues', {
+      projectKey: 'my-project',
+      branchName: 'feature/login',
+    });
+
+    expect(handlers.handleDeepsourceRecentRunIssues).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      branchName: 'feature/login',
+    });
+    expect(text).toContain('branch `feature/login` of project `my-project`');
+    expect(text).toContain('"issueCode": "JS-0002"');
+  });
+
+  it('should default the security review to the OWASP Top 10 report', async () => {
+    vi.mocked(handlers.handleDeepsourceComplianceReport).mockResolvedValue(
+      textResponse({ key: 'OWASP_TOP_10', status: 'FAILING' })
+    );
+    vi.mocked(handlers.handleDeepsourceDependencyVulnerabilities).mockResolvedValue(
+      textResponse({ vulnerabilities: [{ identifier: 'CVE-2021-23337' }] })
+    );
+
+    const text = await getPromptText('security-review', { projectKey: 'my-project' });
+
+    expect(handlers.handleDeepsourceComplianceReport).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      reportType: 'OWASP_TOP_10',
+    });
+    expect(handlers.handleDeepsourceDependencyVulnerabilities).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      minSeverity: 'HIGH',
+      sortByCvss: 'desc',
+    });
+    expect(text).toContain('## OWASP_TOP_10 compliance report');
+    expect(text).toContain('"status": "FAILING"');
+    expect(text).toContain('CVE-2021-23337');
+  });
+
+  it('should reject report types that are not compliance reports', async () => {
+    await expect(
+      client.getPrompt({
+        name: 'security-review',
+        arguments: { projectKey: 'my-project', reportType: 'CODE_COVERAGE' },
+      })
+    ).rejects.toThrow('Invalid arguments for prompt security-review');
+    expect(handlers.handleDeepsourceComplianceReport).not.toHaveBeenCalled();
+  });
+
+  it('should explain a quality gate failure from the run and metric thresholds', async () => {
+    vi.mocked(handlers.handleDeepsourceRun).mockResolvedValue(
+      textResponse({ runUid: 'run-1', status: 'FAILURE' })
+    );
+    vi.mocked(handlers.handleDeepsourceQualityMetrics).mockResolvedValue(
+      textResponse({ metrics: [{ shortcode: 'LCV', threshold: 80 }] })
+    );
+
+    const text = await getPromptText('explain-quality-gate-failure', {
+      projectKey: 'my-project',
+      runIdentifier: 'run-1',
+    });
+
+    expect(handlers.handleDeepsourceRun).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      runIdentifier: 'run-1',
+    });
+    expect(handlers.handleDeepsourceQualityMetrics).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+    });
+    expect(text).toContain('## Analysis run');
+    expect(text).toContain('"threshold": 80');
+  });
+
+  it('should surface handler error responses as prompt errors', async () => {
+    vi.mocked(handlers.handleDeepsourceRun).mockResolvedValue({
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            error: 'Resource not found: run',
+            code: -32001,
+            category: 'resource_error',
+          }),
+        },
+      ],
+    });
+
+    await expect(
+      client.getPrompt({
+        name: 'explain-quality-gate-failure',
+        arguments: { projectKey: 'my-project', runIdentifier: 'missing' },
+      })
+    ).rejects.toMatchObject({ code: -32001 });
+    expect(handlers.handleDeepsourceQualityMetrics).not.toHaveBeenCalled();
+  });
+});
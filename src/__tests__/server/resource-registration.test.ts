@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Tests for resource registration
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+const textResponse = (payload: unknown) => ({
+  content: [{ type: 'text' as const, text: JSON.stringify(payload) }],
+});
+
+// Mock the handlers backing the resources
+vi.mock('../../handlers/index.js', () => ({
+  handleProjects: vi.fn(),
+  handleDeepsourceQualityMetrics: vi.fn(),
+  handleDeepsourceRun: vi.fn(),
+  handleDeepsourceProjectIssues: vi.fn(),
+  handleDeepsourceComplianceReport: vi.fn(),
+  handleDeepsourceSettingsSnapshot: vi.fn(),
+  handleDeepsourceProjectRuns: vi.fn(),
+  handleDeepsourceAnalyzers: vi.fn(),
+}));
+
+const handlers = await import('../../handlers/index.js');
+const { registerDeepSourceResources, RESOURCE_DEFINITIONS } = await import(
+  '../../server/resource-registration.js'
+);
+
+describe('Resource Registration', () => {
+  let server: McpServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(handlers.handleProjects).mockResolvedValue(
+      textResponse([
+        { key: 'my-project', name: 'My Project' },
+        { key: 'other/project', name: 'Other Project' },
+      ])
+    );
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerDeepSourceResources(server);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should register a template for projects, runs, issues, reports and settings', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'deepsource://projects/{projectKey}',
+      'deepsource://projects/{projectKey}/runs/{runUid}',
+      'deepsource://projects/{projectKey}/issues',
+      'deepsource://projects/{projectKey}/issues{?path}',
+      'deepsource://projects/{projectKey}/issues{?analyzerIn}',
+      'deepsource://projects/{projectKey}/metrics/{metricShortcode}',
+      'deepsource://projects/{projectKey}/reports/{reportType}',
+      'deepsource://projects/{projectKey}/settings',
+    ]);
+    expect(RESOURCE_DEFINITIONS).toHaveLength(8);
+  });
+
+  it('should list a project and an issues resource per project', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      'deepsource://projects/my-project',
+      'deepsource://projects/other%2Fproject',
+      'deepsource://projects/my-project/issues',
+      'deepsource://projects/other%2Fproject/issues',
+    ]);
+    expect(resources[0]).toMatchObject({ name: 'My Project', mimeType: 'application/json' });
+  });
+
+  it('should read a project with its quality metrics', async () => {
+    vi.mocked(handlers.handleDeepsourceQualityMetrics).mockResolvedValue(
+      textResponse({ metrics: [{ shortcode: 'LCV' }] })
+    );
+
+    const result = await client.readResource({ uri: 'deepsource://projects/other%2Fproject' });
+
+    expect(handlers.handleDeepsourceQualityMetrics).toHaveBeenCalledWith({
+      projectKey: 'other/project',
+    });
+    expect(result.contents[0]).toMatchObject({
+      uri: 'deepsource://projects/other%2Fproject',
+      mimeType: 'application/json',
+    });
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({
+      key: 'other/project',
+      name: 'Other Project',
+      qualityMetrics: { metrics: [{ shortcode: 'LCV' }] },
+    });
+  });
+
+  it('should return an error for unknown projects', async () => {
+    await expect(
+      client.readResource({ uri: 'deepsource://projects/missing-project' })
+    ).rejects.toThrow('Resource not found: project');
+  });
+
+  it('should read a run through the run handler', async () => {
+    vi.mocked(handlers.handleDeepsourceRun).mockResolvedValue(textResponse({ runUid: 'abc' }));
+
+    const result = await client.readResource({
+      uri: 'deepsource://projects/my-project/runs/abc',
+    });
+
+    expect(handlers.handleDeepsourceRun).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      runIdentifier: 'abc',
+    });
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({ runUid: 'abc' });
+  });
+
+  it('should pass the decoded path filter to the issues handler', async () => {
+    vi.mocked(handlers.handleDeepsourceProjectIssues).mockResolvedValue(
+      textResponse({ issues: [] })
+    );
+
+    await client.readResource({
+      uri: 'deepsource://projects/my-project/issues?path=src%2Findex.ts',
+    });
+    await client.readResource({ uri: 'deepsource://projects/my-project/issues' });
+
+    expect(handlers.handleDeepsourceProjectIssues).toHaveBeenNthCalledWith(1, {
+      projectKey: 'my-project',
+      path: 'src/index.ts',
+    });
+    expect(handlers.handleDeepsourceProjectIssues).toHaveBeenNthCalledWith(2, {
+      projectKey: 'my-project',
+    });
+  });
+
+  it('should pass the analyzer filter to the issues handler', async () => {
+    vi.mocked(handlers.handleDeepsourceProjectIssues).mockResolvedValue(
+      textResponse({ issues: [] })
+    );
+
+    await client.readResource({
+      uri: 'deepsource://projects/my-project/issues?analyzerIn=python,javascript',
+    });
+
+    expect(handlers.handleDeepsourceProjectIssues).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      analyzerIn: ['python', 'javascript'],
+    });
+  });
+
+  it('should read a metric and reject unknown metric shortcodes', async () => {
+    vi.mocked(handlers.handleDeepsourceQualityMetrics).mockResolvedValue(
+      textResponse({ metrics: [{ shortcode: 'LCV' }] })
+    );
+
+    await client.readResource({ uri: 'deepsource://projects/my-project/metrics/LCV' });
+
+    expect(handlers.handleDeepsourceQualityMetrics).toHaveBeenCalledWith({
+      projectKey: 'my-project',
+      shortcodeIn: ['LCV'],
+    });
+    await expect(
+      client.readResource({ uri: 'deepsource://projects/my-project/metrics/XYZ' })
+    ).rejects.toThrow('Unknown metric shortcode: XYZ');
+  });
+
+  it('should complete project keys and template variables', async () => {
+    const projectKeys = await client.complete({
+      ref: { type: 'ref/resource', uri: 'deepsource://projects/{projectKey}/runs/{runUid}' },
+      argument: { name: 'projectKey', value: 'proj' },
+    });
+    const metricShortcodes = await client.complete({
+      ref: {
+        type: 'ref/resource',
+        uri: 'deepsource://projects/{projectKey}/metrics/{metricShortcode}',
+      },
+      argument: { name: 'metricShortcode', value: 'cv' },
+    });
+    const runUids = await client.complete({
+      ref: { type: 'ref/resource', uri: 'deepsource://projects/{projectKey}/runs/{runUid}' },
+      argument: { name: 'runUid', value: '' },
+    });
+
+    expect(projectKeys.completion.values).toEqual(['my-project', 'other/project']);
+    expect(metricShortcodes.completion.values).toEqual(['BCV', 'DCV', 'LCV', 'SCV', 'TCV']);
+    expect(runUids.completion.values).toEqual([]);
+  });
+
+  it('should read reports and reject unknown report types', async () => {
+    vi.mocked(handlers.handleDeepsourceComplianceReport).mockResolvedValue(
+      textResponse({ key: 'OWASP_TOP_10', status: 'PASSING' })
+    );
+
+    const result = await client.readResource({
+      uri: 'deepsource://projects/my-project/reports/OWASP_TOP_10',
+    });
+
+    expect(JSON.parse(result.contents[0].text as string).status).toBe('PASSING');
+    await expect(
+      client.readResource({ uri: 'deepsource://projects/my-project/reports/UNKNOWN' })
+    ).rejects.toThrow('Unknown report type: UNKNOWN');
+  });
+
+  it('should read the settings snapshot of a project', async () => {
+    vi.mocked(handlers.handleDeepsourceSettingsSnapshot).mockResolvedValue(
+      textResponse({ snapshot: { schemaVersion: 1 } })
+    );
+
+    const result = await client.readResource({
+      uri: 'deepsource://projects/other%2Fproject/settings',
+    });
+
+    expect(handlers.handleDeepsourceSettingsSnapshot).toHaveBeenCalledWith({
+      projectKey: 'other/project',
+    });
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({
+      snapshot: { schemaVersion: 1 },
+    });
+  });
+
+  it('should surface handler error responses as resource errors', async () => {
+    vi.mocked(handlers.handleDeepsourceRun).mockResolvedValue({
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify({
+            error: 'Resource not found: run',
+            code: -32001,
+            category: 'resource_error',
+          }),
+        },
+      ],
+    });
+
+    await expect(
+      client.readResource({ uri: 'deepsource://projects/my-project/runs/missing' })
+    ).rejects.toMatchObject({ code: -32001, message: expect.stringContaining('run') });
+  });
+});
@@ -14,6 +14,26 @@ import {
   runToolSchema,
   recentRunIssuesToolSchema,
   dependencyVulnerabilitiesToolSchema,
+  metricHistoryToolSchema,
+  analyzersToolSchema,
+  analyzerToolSchema,
+  explainIssueToolSchema,
+  ignoreRulesToolSchema,
+  qualityGatesToolSchema,
+  updateIssueCategorySettingToolSchema,
+  updateIssuePrioritySettingToolSchema,
+  teamSuppressedIssuesToolSchema,
+  suppressIssueForTeamToolSchema,
+  unsuppressIssueForTeamToolSchema,
+  activateRepositoryToolSchema,
+  deactivateRepositoryToolSchema,
+  updateDefaultBranchToolSchema,
+  dependencyTargetsToolSchema,
+  vulnerabilityUpgradePlanToolSchema,
+  policyPlanToolSchema,
+  policyApplyToolSchema,
+  settingsSnapshotToolSchema,
+  settingsDiffToolSchema,
   toolSchemas,
 } from '../../server/tool-definitions.js';
 
@@ -379,6 +399,33 @@ describe('Tool Definitions', () => {
       expect(result?.success).toBe(true);
     });
 
+    it('should validate input with filters', () => {
+      const result = parseInput(dependencyVulnerabilitiesToolSchema, {
+        projectKey: 'test-project',
+        reachabilityIn: ['REACHABLE'],
+        fixabilityIn: ['AUTO_FIXABLE'],
+        minSeverity: 'HIGH',
+        minCvssScore: 7,
+        sortByCvss: 'desc',
+      });
+      expect(result?.success).toBe(true);
+    });
+
+    it('should reject out-of-range CVSS cutoffs and unknown severities', () => {
+      expect(
+        parseInput(dependencyVulnerabilitiesToolSchema, {
+          projectKey: 'test-project',
+          minCvssScore: 11,
+        })?.success
+      ).toBe(false);
+      expect(
+        parseInput(dependencyVulnerabilitiesToolSchema, {
+          projectKey: 'test-project',
+          minSeverity: 'SEVERE',
+        })?.success
+      ).toBe(false);
+    });
+
     it('should validate input with only projectKey', () => {
       const validInput = {
         projectKey: 'test-project',
@@ -389,9 +436,260 @@ describe('Tool Definitions', () => {
     });
   });
 
+  describe('metricHistoryToolSchema', () => {
+    it('should have correct name and description', () => {
+      expect(metricHistoryToolSchema.name).toBe('metric_history');
+      expect(metricHistoryToolSchema.description).toContain('history');
+    });
+
+    it('should validate input with a date window', () => {
+      const validInput = {
+        projectKey: 'test-project',
+        metricShortcode: 'LCV',
+        metricKey: 'AGGREGATE',
+        startDate: '2024-01-01',
+        endDate: '2024-03-31',
+      };
+
+      const result = parseInput(metricHistoryToolSchema, validInput);
+      expect(result?.success).toBe(true);
+    });
+
+    it('should reject an unknown metric key', () => {
+      const invalidInput = {
+        projectKey: 'test-project',
+        metricShortcode: 'LCV',
+        metricKey: 'COBOL',
+      };
+
+      const result = parseInput(metricHistoryToolSchema, invalidInput);
+      expect(result?.success).toBe(false);
+    });
+  });
+
+  describe('analyzersToolSchema', () => {
+    it('should have correct name and description', () => {
+      expect(analyzersToolSchema.name).toBe('analyzers');
+      expect(analyzersToolSchema.description).toContain('analyzers');
+    });
+
+    it('should validate input without parameters', () => {
+      const result = parseInput(analyzersToolSchema, {});
+      expect(result?.success).toBe(true);
+    });
+  });
+
+  describe('analyzerToolSchema', () => {
+    it('should have correct name and description', () => {
+      expect(analyzerToolSchema.name).toBe('analyzer');
+      expect(analyzerToolSchema.description).toContain('issue catalog');
+    });
+
+    it('should validate input with pagination', () => {
+      const result = parseInput(analyzerToolSchema, { shortcode: 'python', max_pages: 2 });
+      expect(result?.success).toBe(true);
+    });
+
+    it('should require a shortcode', () => {
+      const result = parseInput(analyzerToolSchema, { first: 10 });
+      expect(result?.success).toBe(false);
+    });
+  });
+
+  describe('explainIssueToolSchema', () => {
+    it('should have correct name and description', () => {
+      expect(explainIssueToolSchema.name).toBe('explain_issue');
+      expect(explainIssueToolSchema.description).toContain('Explain');
+    });
+
+    it('should require both shortcodes', () => {
+      expect(
+        parseInput(explainIssueToolSchema, {
+          analyzerShortcode: 'javascript',
+          issueShortcode: 'JS-0125',
+        })?.success
+      ).toBe(true);
+      expect(parseInput(explainIssueToolSchema, { issueShortcode: 'JS-0125' })?.success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('ignoreRulesToolSchema', () => {
+    it('should have correct name and description', () => {
+      expect(ignoreRulesToolSchema.name).toBe('ignore_rules');
+      expect(ignoreRulesToolSchema.description).toContain('ignore rules');
+    });
+
+    it('should accept the supported rule types', () => {
+      expect(
+        parseInput(ignoreRulesToolSchema, { projectKey: 'test-project', type: 'TEST_PATTERN' })
+          ?.success
+      ).toBe(true);
+      expect(
+        parseInput(ignoreRulesToolSchema, { projectKey: 'test-project', type: 'SOMETIMES' })
+          ?.success
+      ).toBe(false);
+    });
+  });
+
+  describe('qualityGatesToolSchema', () => {
+    it('should have correct name and require a project key', () => {
+      expect(qualityGatesToolSchema.name).toBe('quality_gates');
+      expect(parseInput(qualityGatesToolSchema, {})?.success).toBe(false);
+      expect(parseInput(qualityGatesToolSchema, { projectKey: 'test-project' })?.success).toBe(
+        true
+      );
+    });
+  });
+
+  describe('updateIssueCategorySettingToolSchema', () => {
+    it('should validate the category', () => {
+      const input = {
+        projectKey: 'test-project',
+        repositoryId: 'repo-id',
+        category: 'SECURITY',
+        isReported: true,
+        canFailCheck: true,
+      };
+
+      expect(updateIssueCategorySettingToolSchema.name).toBe('update_issue_category_setting');
+      expect(parseInput(updateIssueCategorySettingToolSchema, input)?.success).toBe(true);
+      expect(
+        parseInput(updateIssueCategorySettingToolSchema, { ...input, category: 'LINT' })?.success
+      ).toBe(false);
+    });
+  });
+
+  describe('updateIssuePrioritySettingToolSchema', () => {
+    it('should validate the priority', () => {
+      const input = {
+        projectKey: 'test-project',
+        repositoryId: 'repo-id',
+        priority: 'HIGH',
+        isReported: true,
+        canFailCheck: false,
+      };
+
+      expect(updateIssuePrioritySettingToolSchema.name).toBe('update_issue_priority_setting');
+      expect(parseInput(updateIssuePrioritySettingToolSchema, input)?.success).toBe(true);
+      expect(
+        parseInput(updateIssuePrioritySettingToolSchema, { ...input, priority: 'URGENT' })?.success
+      ).toBe(false);
+    });
+  });
+
+  describe('teamSuppressedIssuesToolSchema', () => {
+    it('should require a team login and provider', () => {
+      expect(teamSuppressedIssuesToolSchema.name).toBe('team_suppressed_issues');
+      expect(
+        parseInput(teamSuppressedIssuesToolSchema, { login: 'acme', vcsProvider: 'GITHUB' })
+          ?.success
+      ).toBe(true);
+      expect(parseInput(teamSuppressedIssuesToolSchema, { login: 'acme' })?.success).toBe(false);
+    });
+  });
+
+  describe('team suppression mutation schemas', () => {
+    const input = {
+      login: 'acme',
+      vcsProvider: 'GITHUB',
+      analyzerShortcode: 'python',
+      issueShortcode: 'PYL-W0611',
+      reason: 'Noisy in generated code',
+      confirm: true,
+    };
+
+    it('should require a reason and confirmation', () => {
+      for (const schema of [suppressIssueForTeamToolSchema, unsuppressIssueForTeamToolSchema]) {
+        expect(schema.description).toContain('confirm: true');
+        expect(parseInput(schema, input)?.success).toBe(true);
+
+        const { reason: _reason, ...withoutReason } = input;
+        expect(parseInput(schema, withoutReason)?.success).toBe(false);
+
+        const { confirm: _confirm, ...withoutConfirm } = input;
+        expect(parseInput(schema, withoutConfirm)?.success).toBe(false);
+      }
+    });
+  });
+
+  describe('repository lifecycle schemas', () => {
+    it('should require a project key', () => {
+      for (const schema of [activateRepositoryToolSchema, deactivateRepositoryToolSchema]) {
+        expect(parseInput(schema, { projectKey: 'my-project' })?.success).toBe(true);
+        expect(parseInput(schema, {})?.success).toBe(false);
+      }
+    });
+
+    it('should require the new default branch', () => {
+      expect(updateDefaultBranchToolSchema.name).toBe('update_default_branch');
+      expect(
+        parseInput(updateDefaultBranchToolSchema, {
+          projectKey: 'my-project',
+          defaultBranch: 'main',
+        })?.success
+      ).toBe(true);
+      expect(parseInput(updateDefaultBranchToolSchema, { projectKey: 'my-project' })?.success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('dependencyTargetsToolSchema', () => {
+    it('should require a project key and accept pagination', () => {
+      expect(dependencyTargetsToolSchema.name).toBe('dependency_targets');
+      expect(
+        parseInput(dependencyTargetsToolSchema, { projectKey: 'my-project', max_pages: 2 })?.success
+      ).toBe(true);
+      expect(parseInput(dependencyTargetsToolSchema, {})?.success).toBe(false);
+    });
+  });
+
+  describe('vulnerabilityUpgradePlanToolSchema', () => {
+    it('should require a project key and accept a scan bound', () => {
+      expect(vulnerabilityUpgradePlanToolSchema.name).toBe('vulnerability_upgrade_plan');
+      expect(
+        parseInput(vulnerabilityUpgradePlanToolSchema, { projectKey: 'my-project', max_pages: 5 })
+          ?.success
+      ).toBe(true);
+      expect(parseInput(vulnerabilityUpgradePlanToolSchema, {})?.success).toBe(false);
+    });
+  });
+
+  describe('quality policy schemas', () => {
+    it('should accept an inline policy or a policy file', () => {
+      for (const schema of [policyPlanToolSchema, policyApplyToolSchema]) {
+        expect(parseInput(schema, { policy: '{"policies":[]}' })?.success).toBe(true);
+        expect(parseInput(schema, { policyFile: 'deepsource-policy.json' })?.success).toBe(true);
+        expect(parseInput(schema, { policy: 42 })?.success).toBe(false);
+      }
+      expect(policyPlanToolSchema.annotations.readOnlyHint).toBe(true);
+      expect(policyApplyToolSchema.annotations.readOnlyHint).toBe(false);
+    });
+  });
+
+  describe('settings snapshot schemas', () => {
+    it('should require a project key for snapshots', () => {
+      expect(settingsSnapshotToolSchema.name).toBe('settings_snapshot');
+      expect(parseInput(settingsSnapshotToolSchema, { projectKey: 'my-project' })?.success).toBe(
+        true
+      );
+      expect(parseInput(settingsSnapshotToolSchema, {})?.success).toBe(false);
+    });
+
+    it('should accept snapshots inline or as files', () => {
+      expect(settingsDiffToolSchema.name).toBe('settings_diff');
+      expect(
+        parseInput(settingsDiffToolSchema, { beforeFile: 'before.json', after: '{}' })?.success
+      ).toBe(true);
+      expect(parseInput(settingsDiffToolSchema, { before: 1 })?.success).toBe(false);
+    });
+  });
+
   describe('toolSchemas array', () => {
-    it('should contain all 10 tool schemas', () => {
-      expect(toolSchemas).toHaveLength(10);
+    it('should contain all 30 tool schemas', () => {
+      expect(toolSchemas).toHaveLength(30);
     });
 
     it('should contain all defined schemas', () => {
@@ -407,6 +705,26 @@ describe('Tool Definitions', () => {
       expect(toolNames).toContain('run');
       expect(toolNames).toContain('recent_run_issues');
       expect(toolNames).toContain('dependency_vulnerabilities');
+      expect(toolNames).toContain('metric_history');
+      expect(toolNames).toContain('analyzers');
+      expect(toolNames).toContain('analyzer');
+      expect(toolNames).toContain('explain_issue');
+      expect(toolNames).toContain('ignore_rules');
+      expect(toolNames).toContain('quality_gates');
+      expect(toolNames).toContain('update_issue_category_setting');
+      expect(toolNames).toContain('update_issue_priority_setting');
+      expect(toolNames).toContain('team_suppressed_issues');
+      expect(toolNames).toContain('suppress_issue_for_team');
+      expect(toolNames).toContain('unsuppress_issue_for_team');
+      expect(toolNames).toContain('activate_repository');
+      expect(toolNames).toContain('deactivate_repository');
+      expect(toolNames).toContain('update_default_branch');
+      expect(toolNames).toContain('dependency_targets');
+      expect(toolNames).toContain('vulnerability_upgrade_plan');
+      expect(toolNames).toContain('policy_plan');
+      expect(toolNames).toContain('policy_apply');
+      expect(toolNames).toContain('settings_snapshot');
+      expect(toolNames).toContain('settings_diff');
     });
 
     it('should have valid schemas for all tools', () => {
@@ -36,6 +36,28 @@ vi.mock('../../handlers/index.js', () => ({
   handleDeepsourceDependencyVulnerabilities: vi
     .fn()
     .mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceMetricHistory: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceAnalyzers: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceAnalyzer: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceExplainIssue: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceIgnoreRules: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceQualityGates: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceUpdateIssueCategorySetting: vi
+    .fn()
+    .mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceUpdateIssuePrioritySetting: vi
+    .fn()
+    .mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceTeamSuppressedIssues: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceSuppressIssueForTeam: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceUnsuppressIssueForTeam: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceActivateRepository: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceDeactivateRepository: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceUpdateDefaultBranch: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceDependencyTargets: vi.fn().mockResolvedValue({ content: [{ text: '{}' }] }),
+  handleDeepsourceVulnerabilityUpgradePlan: vi
+    .fn()
+    .mockResolvedValue({ content: [{ text: '{}' }] }),
 }));
 
 describe('Tool Registration', () => {
@@ -50,7 +72,7 @@ describe('Tool Registration', () => {
       expect(mockRegistry.registerTools).toHaveBeenCalledTimes(1);
       const mockRegisterTools = mockRegistry.registerTools as ReturnType<typeof vi.fn>;
       const registeredTools = mockRegisterTools.mock.calls[0][0];
-      expect(registeredTools).toHaveLength(10); // 10 DeepSource tools
+      expect(registeredTools).toHaveLength(30); // 30 DeepSource tools
       expect(registeredTools.map((t: { name: string }) => t.name)).toEqual([
         'projects',
         'quality_metrics',
@@ -62,6 +84,26 @@ describe('Tool Registration', () => {
         'run',
         'recent_run_issues',
         'dependency_vulnerabilities',
+        'metric_history',
+        'analyzers',
+        'analyzer',
+        'explain_issue',
+        'ignore_rules',
+        'quality_gates',
+        'update_issue_category_setting',
+        'update_issue_priority_setting',
+        'team_suppressed_issues',
+        'suppress_issue_for_team',
+        'unsuppress_issue_for_team',
+        'activate_repository',
+        'deactivate_repository',
+        'update_default_branch',
+        'dependency_targets',
+        'vulnerability_upgrade_plan',
+        'policy_plan',
+        'policy_apply',
+        'settings_snapshot',
+        'settings_diff',
       ]);
     });
 
@@ -99,6 +141,26 @@ describe('Tool Registration', () => {
         'run',
         'recent_run_issues',
         'dependency_vulnerabilities',
+        'metric_history',
+        'analyzers',
+        'analyzer',
+        'explain_issue',
+        'ignore_rules',
+        'quality_gates',
+        'update_issue_category_setting',
+        'update_issue_priority_setting',
+        'team_suppressed_issues',
+        'suppress_issue_for_team',
+        'unsuppress_issue_for_team',
+        'activate_repository',
+        'deactivate_repository',
+        'update_default_branch',
+        'dependency_targets',
+        'vulnerability_upgrade_plan',
+        'policy_plan',
+        'policy_apply',
+        'settings_snapshot',
+        'settings_diff',
       ];
 
       expectedTools.forEach((toolName) => {
@@ -115,7 +177,12 @@ describe('Tool Registration', () => {
   describe('getToolsByCategory', () => {
     it('should return tools for project management category', () => {
       const tools = getToolsByCategory(ToolCategory.PROJECT_MANAGEMENT);
-      expect(tools).toEqual(['projects']);
+      expect(tools).toEqual([
+        'projects',
+        'activate_repository',
+        'deactivate_repository',
+        'update_default_branch',
+      ]);
     });
 
     it('should return tools for code quality category', () => {
@@ -124,6 +191,12 @@ describe('Tool Registration', () => {
       expect(tools).toContain('update_metric_threshold');
       expect(tools).toContain('update_metric_setting');
       expect(tools).toContain('project_issues');
+      expect(tools).toContain('metric_history');
+      expect(tools).toContain('explain_issue');
+      expect(tools).toContain('ignore_rules');
+      expect(tools).toContain('quality_gates');
+      expect(tools).toContain('policy_plan');
+      expect(tools).toContain('policy_apply');
     });
 
     it('should return tools for security category', () => {
@@ -136,11 +209,17 @@ describe('Tool Registration', () => {
       expect(tools).toContain('runs');
       expect(tools).toContain('run');
       expect(tools).toContain('recent_run_issues');
+      expect(tools).toContain('analyzers');
+      expect(tools).toContain('analyzer');
     });
 
     it('should return tools for dependencies category', () => {
       const tools = getToolsByCategory(ToolCategory.DEPENDENCIES);
-      expect(tools).toEqual(['dependency_vulnerabilities']);
+      expect(tools).toEqual([
+        'dependency_vulnerabilities',
+        'dependency_targets',
+        'vulnerability_upgrade_plan',
+      ]);
     });
   });
 
@@ -150,6 +229,7 @@ describe('Tool Registration', () => {
       expect(tools).toContain('quality_metrics');
       expect(tools).toContain('update_metric_threshold');
       expect(tools).toContain('update_metric_setting');
+      expect(tools).toContain('metric_history');
     });
 
     it('should return tools with security tag', () => {
@@ -164,12 +244,22 @@ describe('Tool Registration', () => {
       expect(tools).toContain('project_issues');
       expect(tools).toContain('runs');
       expect(tools).toContain('dependency_vulnerabilities');
+      expect(tools).toContain('ignore_rules');
     });
 
     it('should return tools with mutation tag', () => {
       const tools = getToolsByTag('mutation');
       expect(tools).toContain('update_metric_threshold');
       expect(tools).toContain('update_metric_setting');
+      expect(tools).toContain('update_issue_category_setting');
+      expect(tools).toContain('update_issue_priority_setting');
+      expect(tools).toContain('suppress_issue_for_team');
+      expect(tools).toContain('unsuppress_issue_for_team');
+      expect(tools).toContain('activate_repository');
+      expect(tools).toContain('deactivate_repository');
+      expect(tools).toContain('update_default_branch');
+      expect(tools).toContain('policy_apply');
+      expect(tools).not.toContain('policy_plan');
     });
   });
 
@@ -180,6 +270,11 @@ describe('Tool Registration', () => {
       expect(tools).toContain('runs');
       expect(tools).toContain('recent_run_issues');
       expect(tools).toContain('dependency_vulnerabilities');
+      expect(tools).toContain('analyzers');
+      expect(tools).toContain('analyzer');
+      expect(tools).toContain('ignore_rules');
+      expect(tools).toContain('team_suppressed_issues');
+      expect(tools).toContain('dependency_targets');
       expect(tools).not.toContain('projects');
       expect(tools).not.toContain('quality_metrics');
       expect(tools).not.toContain('compliance_report');
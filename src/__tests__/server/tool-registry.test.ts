@@ -5,10 +5,14 @@
 import { vi, MockedFunction } from 'vitest';
 import { z } from 'zod';
 import { ToolRegistry, ToolDefinition } from '../../server/tool-registry.js';
+import { DEFAULT_TOOL_ACCESS_CONFIG, type ToolAccessConfig } from '../../config/tool-access.js';
 import { BaseHandlerDeps } from '../../handlers/base/handler.interface.js';
 import { ApiResponse } from '../../models/common.js';
 import { DeepSourceClientFactory } from '../../client/factory.js';
 import { Logger } from '../../utils/logging/logger.js';
+import { recordDataAge } from '../../utils/cache/persistent-store.js';
+import { reportProgress } from '../../utils/progress.js';
+import { getAbortSignal } from '../../utils/cancellation.js';
 
 // Mock the MCP server
 vi.mock('@modelcontextprotocol/sdk/server/mcp.js');
@@ -51,6 +55,7 @@ vi.mock('../../utils/error-handling/mcp-error-formatter.js', () => ({
 describe('ToolRegistry', () => {
   let mockServer: {
     registerTool: MockedFunction<(tool: unknown) => void>;
+    server?: { getClientCapabilities: () => Record<string, unknown> | undefined };
   };
   let registry: ToolRegistry;
   let mockDeps: BaseHandlerDeps;
@@ -148,6 +153,35 @@ describe('ToolRegistry', () => {
       );
     });
 
+    it('should pass annotations and accept a dry run and confirmation token for mutating tools', () => {
+      const tool: ToolDefinition = {
+        name: 'mutating_tool',
+        description: 'Changes a setting',
+        inputSchema: { value: z.number() },
+        outputSchema: { ok: z.boolean() },
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+        previewChange: async () => ({ summary: 'Change', current: {}, proposed: {} }),
+        handler: async () => ({ content: [{ type: 'text', text: '{}' }] }),
+      };
+
+      registry.registerTool(tool);
+
+      const config = mockServer.registerTool.mock.calls[0][1] as Record<string, unknown>;
+      expect(config.annotations).toEqual({
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      });
+      expect(Object.keys(config.inputSchema as object)).toEqual([
+        'value',
+        'dryRun',
+        'confirmationToken',
+      ]);
+      const outputSchema = z.object(config.outputSchema as z.ZodRawShape);
+      expect(outputSchema.safeParse({ ok: true }).success).toBe(true);
+      expect(outputSchema.safeParse({ dryRun: true, message: 'Plan' }).success).toBe(true);
+    });
+
     it('should warn when overwriting an existing tool', () => {
       const tool1: ToolDefinition = {
         name: 'duplicate_tool',
@@ -201,6 +235,195 @@ describe('ToolRegistry', () => {
       expect(mockHandler).toHaveBeenCalledWith({ message: 'Hello' });
     });
 
+    it('should state the age of stored data served offline', async () => {
+      const tool: ToolDefinition = {
+        name: 'offline_tool',
+        description: 'Answers from stored data',
+        handler: async () => {
+          recordDataAge('2026-01-02T00:00:00.000Z');
+          recordDataAge('2026-01-01T00:00:00.000Z');
+          return { content: [{ type: 'text', text: '{"ok":true}' }] };
+        },
+      };
+
+      registry.registerTool(tool);
+
+      const registeredHandler = mockServer.registerTool.mock.calls[0][2];
+      const result = await registeredHandler({}, {});
+
+      expect(result.structuredContent).toEqual({ ok: true });
+      expect(result.content[1].text).toContain(
+        'Offline mode: answered from data stored at 2026-01-01T00:00:00.000Z'
+      );
+    });
+
+    it('should send progress notifications when the client asks for them', async () => {
+      const tool: ToolDefinition = {
+        name: 'progress_tool',
+        description: 'Reports progress',
+        handler: async () => {
+          await reportProgress({ progress: 1, total: 2, message: 'half way' });
+          await reportProgress({ progress: 1, total: 2 });
+          await reportProgress({ progress: 2, total: 2 });
+          return { content: [{ type: 'text', text: '{"ok":true}' }] };
+        },
+      };
+
+      registry.registerTool(tool);
+
+      const registeredHandler = mockServer.registerTool.mock.calls[0][2];
+      const sendNotification = vi.fn().mockResolvedValue(undefined);
+      await registeredHandler({}, { _meta: { progressToken: 'token-1' }, sendNotification });
+      await registeredHandler({}, { sendNotification });
+
+      // Progress that does not increase is not sent, and calls without a token get none
+      expect(sendNotification.mock.calls).toEqual([
+        [
+          {
+            method: 'notifications/progress',
+            params: { progressToken: 'token-1', progress: 1, total: 2, message: 'half way' },
+          },
+        ],
+        [
+          {
+            method: 'notifications/progress',
+            params: { progressToken: 'token-1', progress: 2, total: 2 },
+          },
+        ],
+      ]);
+    });
+
+    it('should run handlers with the abort signal of the call', async () => {
+      let handlerSignal: AbortSignal | undefined;
+      const tool: ToolDefinition = {
+        name: 'cancellable_tool',
+        description: 'Can be cancelled',
+        handler: async () => {
+          handlerSignal = getAbortSignal();
+          return { content: [{ type: 'text', text: '{"ok":true}' }] };
+        },
+      };
+
+      registry.registerTool(tool);
+
+      const registeredHandler = mockServer.registerTool.mock.calls[0][2];
+      const controller = new AbortController();
+      await registeredHandler({}, { signal: controller.signal });
+
+      expect(handlerSignal).toBe(controller.signal);
+    });
+
+    it('should only run a mutating tool with the token issued for the same call', async () => {
+      const handler = vi
+        .fn()
+        .mockResolvedValue({ content: [{ type: 'text', text: '{"ok":true}' }] });
+      const previewChange = vi.fn().mockResolvedValue({
+        summary: 'Change the threshold',
+        current: { threshold: 80 },
+        proposed: { threshold: 90 },
+      });
+      registry.registerTool({
+        name: 'update_threshold',
+        description: 'Updates a threshold',
+        inputSchema: { threshold: z.number() },
+        previewChange,
+        handler,
+      });
+      const registeredHandler = mockServer.registerTool.mock.calls[0][2];
+
+      const pending = await registeredHandler({ threshold: 90 }, {});
+      expect(handler).not.toHaveBeenCalled();
+      expect(pending.isError).toBe(true);
+      expect(pending.structuredContent).toMatchObject({
+        confirmationRequired: true,
+        current: { threshold: 80 },
+        proposed: { threshold: 90 },
+      });
+      expect(pending.structuredContent.message).toContain('- threshold: 80 -> 90');
+      const { confirmationToken } = pending.structuredContent;
+
+      // A token only applies to the call it was issued for
+      const mismatched = await registeredHandler({ threshold: 95, confirmationToken }, {});
+      expect(mismatched.structuredContent.message).toContain('invalid or has expired');
+      expect(handler).not.toHaveBeenCalled();
+
+      const applied = await registeredHandler({ threshold: 90, confirmationToken }, {});
+      expect(applied.isError).toBe(false);
+      expect(handler).toHaveBeenCalledWith({ threshold: 90 });
+
+      // Tokens are single-use
+      const reused = await registeredHandler({ threshold: 90, confirmationToken }, {});
+      expect(reused.structuredContent.confirmationRequired).toBe(true);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the plan of a dry run without confirming or applying the change', async () => {
+      const handler = vi.fn();
+      const previewChange = vi.fn().mockResolvedValue({
+        summary: 'Change the threshold',
+        current: { threshold: 80 },
+        proposed: { threshold: 90 },
+      });
+      registry.registerTool({
+        name: 'update_threshold',
+        description: 'Updates a threshold',
+        inputSchema: { threshold: z.number() },
+        previewChange,
+        handler,
+      });
+      const registeredHandler = mockServer.registerTool.mock.calls[0][2];
+
+      const result = await registeredHandler({ threshold: 90, dryRun: true }, {});
+
+      expect(result.isError).toBe(false);
+      expect(previewChange).toHaveBeenCalledWith({ threshold: 90 });
+      expect(result.structuredContent).toMatchObject({
+        dryRun: true,
+        plan: {
+          tool: 'update_threshold',
+          valid: true,
+          changes: [{ setting: 'threshold', current: 80, proposed: 90 }],
+        },
+      });
+      expect(result.structuredContent).not.toHaveProperty('confirmationToken');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should confirm mutating tools through elicitation when the client supports it', async () => {
+      mockServer.server = { getClientCapabilities: () => ({ elicitation: {} }) };
+      const handler = vi
+        .fn()
+        .mockResolvedValue({ content: [{ type: 'text', text: '{"ok":true}' }] });
+      registry.registerTool({
+        name: 'update_branch',
+        description: 'Updates a branch',
+        inputSchema: { branch: z.string() },
+        previewChange: async () => ({
+          summary: 'Change the default branch',
+          current: { defaultBranch: 'main' },
+          proposed: { defaultBranch: 'develop' },
+        }),
+        handler,
+      });
+      const registeredHandler = mockServer.registerTool.mock.calls[0][2];
+      const sendRequest = vi
+        .fn()
+        .mockResolvedValueOnce({ action: 'decline' })
+        .mockResolvedValueOnce({ action: 'accept', content: { confirm: true } });
+
+      const declined = await registeredHandler({ branch: 'develop' }, { sendRequest });
+      expect(declined.isError).toBe(true);
+      expect(declined.structuredContent.message).toContain('not applied');
+      expect(handler).not.toHaveBeenCalled();
+      expect(sendRequest.mock.calls[0][0]).toMatchObject({
+        method: 'elicitation/create',
+        params: { message: expect.stringContaining('- defaultBranch: "main" -> "develop"') },
+      });
+
+      await registeredHandler({ branch: 'develop' }, { sendRequest });
+      expect(handler).toHaveBeenCalledWith({ branch: 'develop' });
+    });
+
     it('should handle input validation errors', async () => {
       const inputSchema = z.object({
         age: z.number().min(0).max(120),
@@ -372,6 +595,79 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('tool access', () => {
+    const handler = async () => ({ content: [{ type: 'text' as const, text: 'ok' }] });
+    const readTool: ToolDefinition = {
+      name: 'read_tool',
+      description: 'Reads data',
+      handler,
+      annotations: { readOnlyHint: true },
+      metadata: { category: 'code_quality', tags: ['metrics'] },
+    };
+    const writeTool: ToolDefinition = {
+      name: 'write_tool',
+      description: 'Changes settings',
+      handler,
+      annotations: { readOnlyHint: false },
+      metadata: { category: 'code_quality', tags: ['metrics', 'mutation'] },
+    };
+    const pluginTool: ToolDefinition = {
+      name: 'plugin_tool',
+      description: 'A discovered tool without annotations',
+      handler,
+    };
+
+    const createRegistry = (toolAccess: Partial<ToolAccessConfig>) =>
+      new ToolRegistry(mockServer, mockDeps, { ...DEFAULT_TOOL_ACCESS_CONFIG, ...toolAccess });
+
+    it('should allow every tool by default', () => {
+      expect([readTool, writeTool, pluginTool].every((tool) => registry.isToolAllowed(tool))).toBe(
+        true
+      );
+    });
+
+    it('should only allow tools annotated as read-only in read-only mode', () => {
+      const readOnlyRegistry = createRegistry({ readOnly: true });
+
+      readOnlyRegistry.registerTools([readTool, writeTool, pluginTool]);
+
+      expect(readOnlyRegistry.getToolNames()).toEqual(['read_tool']);
+      expect(mockServer.registerTool).toHaveBeenCalledTimes(1);
+      expect(mockServer.registerTool).toHaveBeenCalledWith(
+        'read_tool',
+        expect.any(Object),
+        expect.any(Function)
+      );
+    });
+
+    it('should refuse tools matching a deny list by name, category or tag', () => {
+      expect(createRegistry({ denyTools: ['read_tool'] }).isToolAllowed(readTool)).toBe(false);
+      expect(createRegistry({ denyCategories: ['code_quality'] }).isToolAllowed(readTool)).toBe(
+        false
+      );
+      expect(createRegistry({ denyTags: ['mutation'] }).isToolAllowed(writeTool)).toBe(false);
+      expect(createRegistry({ denyTags: ['mutation'] }).isToolAllowed(readTool)).toBe(true);
+    });
+
+    it('should only allow tools matching an allow list by name, category or tag', () => {
+      const allowRegistry = createRegistry({ allowTools: ['plugin_tool'], allowTags: ['metrics'] });
+
+      expect(allowRegistry.isToolAllowed(readTool)).toBe(true);
+      expect(allowRegistry.isToolAllowed(pluginTool)).toBe(true);
+      expect(createRegistry({ allowCategories: ['security'] }).isToolAllowed(readTool)).toBe(false);
+    });
+
+    it('should let a deny list win over an allow list', () => {
+      const accessRegistry = createRegistry({
+        allowCategories: ['code_quality'],
+        denyTags: ['mutation'],
+      });
+
+      expect(accessRegistry.isToolAllowed(readTool)).toBe(true);
+      expect(accessRegistry.isToolAllowed(writeTool)).toBe(false);
+    });
+  });
+
   describe('getTool', () => {
     it('should return registered tool', () => {
       const tool: ToolDefinition = {
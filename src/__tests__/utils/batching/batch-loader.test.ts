@@ -0,0 +1,67 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { BatchLoader } from '../../../utils/batching/batch-loader.js';
+
+const double = async (keys: number[]) => new Map(keys.map((key) => [key, key * 2]));
+
+describe('BatchLoader', () => {
+  it('should resolve the keys loaded together with one batch call', async () => {
+    const batchFn = vi.fn(double);
+    const loader = new BatchLoader(batchFn);
+
+    const values = await Promise.all([loader.load(1), loader.load(2), loader.load(1)]);
+
+    expect(values).toEqual([2, 4, 2]);
+    expect(batchFn).toHaveBeenCalledTimes(1);
+    expect(batchFn).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it('should resolve keys the batch function does not return to undefined', async () => {
+    const loader = new BatchLoader(async (keys: number[]) => new Map([[keys[0], 'first']]));
+
+    expect(await loader.loadMany([1, 2])).toEqual(['first', undefined]);
+  });
+
+  it('should split batches at the maximum batch size', async () => {
+    const batchFn = vi.fn(double);
+    const loader = new BatchLoader(batchFn, { maxBatchSize: 2 });
+
+    await loader.loadMany([1, 2, 3]);
+
+    expect(batchFn.mock.calls).toEqual([[[1, 2]], [[3]]]);
+  });
+
+  it('should cache loaded values unless caching is disabled', async () => {
+    const cachedFn = vi.fn(double);
+    const cached = new BatchLoader(cachedFn);
+    await cached.load(1);
+    await cached.load(1);
+    expect(cachedFn).toHaveBeenCalledTimes(1);
+
+    cached.clear(1);
+    await cached.load(1);
+    expect(cachedFn).toHaveBeenCalledTimes(2);
+
+    const uncachedFn = vi.fn(double);
+    const uncached = new BatchLoader(uncachedFn, { cache: false });
+    await uncached.load(1);
+    await uncached.load(1);
+    expect(uncachedFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every load of a failed batch and not cache the failure', async () => {
+    const batchFn = vi
+      .fn<(keys: number[]) => Promise<Map<number, number>>>()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockImplementation(double);
+    const loader = new BatchLoader(batchFn);
+
+    const results = await Promise.allSettled([loader.load(1), loader.load(2)]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(await loader.load(1)).toBe(2);
+  });
+});
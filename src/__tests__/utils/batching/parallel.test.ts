@@ -0,0 +1,44 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mapWithConcurrency } from '../../../utils/batching/parallel.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should keep the order of the items and respect the concurrency cap', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([30, 5, 10, 1, 15], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should stop starting items after a failure and reject with the first error', async () => {
+    const fn = vi.fn(async (item: number) => {
+      if (item === 1) {
+        throw new Error('boom');
+      }
+      await delay(5);
+      return item;
+    });
+
+    await expect(mapWithConcurrency([1, 2, 3, 4], 1, fn)).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should handle empty lists and invalid caps', async () => {
+    expect(await mapWithConcurrency([], 4, async (item) => item)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], Number.NaN, async (item) => item + 1)).toEqual([2, 3]);
+  });
+});
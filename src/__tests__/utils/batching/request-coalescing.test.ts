@@ -0,0 +1,111 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import axios from 'axios';
+import nock from 'nock';
+import {
+  attachRequestCoalescing,
+  getInFlightRequestCount,
+} from '../../../utils/batching/request-coalescing.js';
+
+const API_URL = 'https://api.deepsource.io';
+const QUERY = { query: 'query { viewer { email } }' };
+
+const createClient = (apiKey = 'test-api-key') => {
+  const client = axios.create({
+    baseURL: `${API_URL}/graphql/`,
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+  attachRequestCoalescing(client);
+  return client;
+};
+
+describe('attachRequestCoalescing', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore();
+  });
+
+  it('should share one request between identical concurrent queries', async () => {
+    const scope = nock(API_URL)
+      .post('/graphql/')
+      .once()
+      .delay(20)
+      .reply(200, { data: { viewer: { email: 'a@example.com' } } });
+    const client = createClient();
+
+    const [first, second] = await Promise.all([client.post('', QUERY), client.post('', QUERY)]);
+
+    expect(first.data).toEqual(second.data);
+    expect(first).not.toBe(second);
+    expect(scope.isDone()).toBe(true);
+    expect(getInFlightRequestCount()).toBe(0);
+  });
+
+  it('should not share requests made with different API keys', async () => {
+    const scope = nock(API_URL)
+      .post('/graphql/')
+      .twice()
+      .delay(20)
+      .reply(200, { data: { viewer: { email: 'a@example.com' } } });
+
+    await Promise.all([
+      createClient('key-1').post('', QUERY),
+      createClient('key-2').post('', QUERY),
+    ]);
+
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('should never share mutations', async () => {
+    const mutation = { query: 'mutation { activateRepository(input: {}) { ok } }' };
+    const scope = nock(API_URL)
+      .post('/graphql/')
+      .twice()
+      .delay(20)
+      .reply(200, { data: { activateRepository: { ok: true } } });
+    const client = createClient();
+
+    await Promise.all([client.post('', mutation), client.post('', mutation)]);
+
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('should let callers stop waiting and abort the request once none waits', async () => {
+    const scope = nock(API_URL)
+      .post('/graphql/')
+      .delay(50)
+      .reply(200, { data: { viewer: { email: 'a@example.com' } } });
+    const client = createClient();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstCall = client.post('', QUERY, { signal: first.signal });
+    const secondCall = client.post('', QUERY, { signal: second.signal });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    first.abort();
+    await expect(firstCall).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(getInFlightRequestCount()).toBe(1);
+
+    second.abort();
+    await expect(secondCall).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(getInFlightRequestCount()).toBe(0);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('should pass failures to every caller and forget the request', async () => {
+    nock(API_URL).post('/graphql/').delay(20).reply(500, 'Internal Server Error');
+    const client = createClient();
+
+    const results = await Promise.allSettled([client.post('', QUERY), client.post('', QUERY)]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(getInFlightRequestCount()).toBe(0);
+  });
+});
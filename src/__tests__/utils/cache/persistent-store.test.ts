@@ -0,0 +1,150 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios from 'axios';
+import nock from 'nock';
+import {
+  PersistentStore,
+  attachPersistentStore,
+  describeDataAge,
+  trackDataAge,
+} from '../../../utils/cache/persistent-store.js';
+
+const API_URL = 'https://api.deepsource.io';
+const QUERY = 'query getRepositoryRuns($name: String!) { repository(name: $name) { id } }';
+
+describe('PersistentStore', () => {
+  let directory: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'deepsource-store-'));
+    nock.cleanAll();
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    PersistentStore.resetInstance();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    nock.restore();
+  });
+
+  describe('records', () => {
+    it('should keep responses across store instances', async () => {
+      await new PersistentStore({ directory, offline: false }).putResponse('ns', 'abc', { a: 1 });
+
+      const record = await new PersistentStore({ directory, offline: true }).getResponse(
+        'ns',
+        'abc'
+      );
+
+      expect(record?.value).toEqual({ a: 1 });
+      expect(Date.parse(record?.storedAt ?? '')).not.toBeNaN();
+    });
+
+    it('should store entities under each of their identifiers', async () => {
+      const store = new PersistentStore({ directory, offline: false });
+      await store.putEntities('ns', 'runs', [{ runUid: 'run-1', commitOid: 'abc/123' }], (run) => [
+        run.runUid,
+        run.commitOid,
+      ]);
+
+      expect((await store.getEntity('ns', 'runs', 'abc/123'))?.value).toEqual({
+        runUid: 'run-1',
+        commitOid: 'abc/123',
+      });
+      expect(await store.listEntities('ns', 'runs')).toHaveLength(2);
+      expect(await store.getEntity('other', 'runs', 'run-1')).toBeNull();
+      expect(await store.listEntities('ns', 'projects')).toEqual([]);
+    });
+  });
+
+  describe('getInstance', () => {
+    it('should return null unless persistence is enabled', () => {
+      delete process.env.CACHE_PERSIST;
+      delete process.env.DEEPSOURCE_OFFLINE;
+      expect(PersistentStore.getInstance()).toBeNull();
+
+      PersistentStore.resetInstance();
+      process.env.CACHE_PERSIST = 'true';
+      process.env.CACHE_DIR = directory;
+      expect(PersistentStore.getInstance()?.directory).toBe(directory);
+    });
+  });
+
+  describe('attachPersistentStore', () => {
+    const createClient = () => {
+      const client = axios.create({ baseURL: `${API_URL}/graphql/` });
+      attachPersistentStore(client, 'ns');
+      return client;
+    };
+
+    it('should store responses online and answer from them offline', async () => {
+      process.env.CACHE_PERSIST = 'true';
+      process.env.CACHE_DIR = directory;
+      nock(API_URL)
+        .post('/graphql/')
+        .reply(200, { data: { repository: { id: '1' } } });
+
+      await createClient().post('', { query: QUERY, variables: { name: 'repo' } });
+
+      PersistentStore.resetInstance();
+      process.env.DEEPSOURCE_OFFLINE = 'true';
+      const { result, storedAt } = await trackDataAge(() =>
+        createClient().post('', { query: QUERY, variables: { name: 'repo' } })
+      );
+
+      expect(result.data).toEqual({ data: { repository: { id: '1' } } });
+      expect(storedAt).toBeDefined();
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should reject unknown queries and mutations offline', async () => {
+      process.env.DEEPSOURCE_OFFLINE = 'true';
+      process.env.CACHE_DIR = directory;
+      const client = createClient();
+
+      await expect(client.post('', { query: QUERY, variables: { name: 'x' } })).rejects.toThrow(
+        'No stored data is available offline'
+      );
+      await expect(client.post('', { query: 'mutation { activateRepository }' })).rejects.toThrow(
+        'Changes cannot be made in offline mode'
+      );
+    });
+
+    it('should not store responses with errors', async () => {
+      process.env.CACHE_PERSIST = 'true';
+      process.env.CACHE_DIR = directory;
+      nock(API_URL)
+        .post('/graphql/')
+        .reply(200, { errors: [{ message: 'boom' }] });
+
+      await createClient().post('', { query: QUERY });
+
+      PersistentStore.resetInstance();
+      process.env.DEEPSOURCE_OFFLINE = 'true';
+      await expect(createClient().post('', { query: QUERY })).rejects.toThrow(
+        'No stored data is available offline'
+      );
+    });
+  });
+});
+
+describe('describeDataAge', () => {
+  it('should state when the data was stored and how old it is', () => {
+    const now = Date.parse('2026-01-03T12:00:00.000Z');
+    expect(describeDataAge('2026-01-03T11:59:00.000Z', now)).toBe(
+      'Offline mode: answered from data stored at 2026-01-03T11:59:00.000Z (1 minute old).'
+    );
+    expect(describeDataAge('2026-01-03T00:00:00.000Z', now)).toContain('(12 hours old)');
+    expect(describeDataAge('2026-01-01T00:00:00.000Z', now)).toContain('(2 days old)');
+  });
+});
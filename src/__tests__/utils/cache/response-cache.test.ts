@@ -0,0 +1,186 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ResponseCache,
+  classifyQuery,
+  normalizeQuery,
+} from '../../../utils/cache/response-cache.js';
+import { runWithRequestContext } from '../../../utils/request-context.js';
+
+const RUN_QUERY = 'query getRunByUid($runUid: UUID!) { run(runUid: $runUid) { status } }';
+const ISSUES_QUERY = 'query getRepositoryIssues($name: String!) { repository(name: $name) { id } }';
+const METRICS_QUERY = 'query getQualityMetrics($name: String!) { repository(name: $name) { id } }';
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createKey', () => {
+    it('should ignore formatting and variable order', () => {
+      const compact = ResponseCache.createKey('ns', 'query { a(x: 1) { b } }', { a: 1, b: 2 });
+      const spaced = ResponseCache.createKey('ns', '\n  query {\n a( x : 1 ) {\n b\n }\n}', {
+        b: 2,
+        a: 1,
+      });
+      expect(compact).toBe(spaced);
+    });
+
+    it('should separate namespaces, variables and request scopes', () => {
+      const key = ResponseCache.createKey('ns', ISSUES_QUERY, { name: 'a' });
+      expect(ResponseCache.createKey('other', ISSUES_QUERY, { name: 'a' })).not.toBe(key);
+      expect(ResponseCache.createKey('ns', ISSUES_QUERY, { name: 'b' })).not.toBe(key);
+
+      const scoped = runWithRequestContext({ scope: 'session-1' }, () =>
+        ResponseCache.createKey('ns', ISSUES_QUERY, { name: 'a' })
+      );
+      expect(scoped).toBe(`session-1:${key}`);
+    });
+  });
+
+  describe('get and set', () => {
+    it('should return a copy of cached responses until they expire', () => {
+      const cache = new ResponseCache({ ttlMs: { issues: 1000 } });
+      const response = { data: { repository: { id: '1' } } };
+
+      cache.set('key', ISSUES_QUERY, response);
+      const cached = cache.get<typeof response>('key');
+      expect(cached).toEqual(response);
+      expect(cached).not.toBe(response);
+
+      vi.advanceTimersByTime(1001);
+      expect(cache.get('key')).toBeUndefined();
+      expect(cache.getStats()).toMatchObject({ size: 0, hits: 1, misses: 1 });
+    });
+
+    it('should use per-entity time-to-live values', () => {
+      const cache = new ResponseCache();
+
+      cache.set('issues', ISSUES_QUERY, { data: {} });
+      cache.set('metrics', METRICS_QUERY, { data: {} });
+
+      vi.advanceTimersByTime(2 * 60 * 1000);
+      expect(cache.get('issues')).toBeUndefined();
+      expect(cache.get('metrics')).toBeDefined();
+    });
+
+    it('should keep finished runs and expire running ones', () => {
+      const cache = new ResponseCache();
+
+      cache.set('finished', RUN_QUERY, { data: { run: { status: 'SUCCESS' } } });
+      cache.set('running', RUN_QUERY, { data: { run: { status: 'RUNNING' } } });
+
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+      expect(cache.get('finished')).toEqual({ data: { run: { status: 'SUCCESS' } } });
+      expect(cache.get('running')).toBeUndefined();
+    });
+
+    it('should evict the least recently used entry when full', () => {
+      const cache = new ResponseCache({ maxEntries: 2 });
+
+      cache.set('a', ISSUES_QUERY, 1);
+      cache.set('b', ISSUES_QUERY, 2);
+      cache.get('a');
+      cache.set('c', ISSUES_QUERY, 3);
+
+      expect(cache.get('a')).toBe(1);
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('c')).toBe(3);
+      expect(cache.getStats().evictions).toBe(1);
+    });
+  });
+
+  describe('configuration', () => {
+    const originalMaxEntries = process.env.CACHE_MAX_ENTRIES;
+
+    afterEach(() => {
+      if (originalMaxEntries === undefined) {
+        delete process.env.CACHE_MAX_ENTRIES;
+      } else {
+        process.env.CACHE_MAX_ENTRIES = originalMaxEntries;
+      }
+      vi.resetModules();
+    });
+
+    it('should fall back to the default size bound when CACHE_MAX_ENTRIES is not a number', async () => {
+      process.env.CACHE_MAX_ENTRIES = 'many';
+      vi.resetModules();
+      const { ResponseCache: FreshResponseCache } = await import(
+        '../../../utils/cache/response-cache.js'
+      );
+      const cache = new FreshResponseCache();
+
+      for (let index = 0; index <= 500; index++) {
+        cache.set(`key-${index}`, ISSUES_QUERY, index);
+      }
+
+      expect(cache.getStats()).toMatchObject({ size: 500, evictions: 1 });
+    });
+  });
+
+  describe('invalidation', () => {
+    it('should invalidate the entities a mutation makes stale', () => {
+      const cache = new ResponseCache();
+      cache.set('issues', ISSUES_QUERY, 1);
+      cache.set('metrics', METRICS_QUERY, 2);
+
+      cache.invalidateForMutation(
+        'mutation updateMetricThreshold($id: ID!) { updateMetricThreshold(repositoryId: $id) { success } }'
+      );
+
+      expect(cache.get('metrics')).toBeUndefined();
+      expect(cache.get('issues')).toBe(1);
+    });
+
+    it('should invalidate issues when a team suppression changes', () => {
+      const cache = new ResponseCache();
+      cache.set('issues', ISSUES_QUERY, 1);
+      cache.set('metrics', METRICS_QUERY, 2);
+
+      cache.invalidateForMutation(
+        'mutation unsuppressIssueForTeam($input: UnsuppressIssueForTeamInput!) { unsuppressIssueForTeam(input: $input) { ok } }'
+      );
+
+      expect(cache.get('issues')).toBeUndefined();
+      expect(cache.get('metrics')).toBe(2);
+    });
+
+    it('should remove the entries of a request scope', () => {
+      const cache = new ResponseCache();
+      cache.set('session-1:key', ISSUES_QUERY, 1);
+      cache.set('session-2:key', ISSUES_QUERY, 2);
+
+      cache.removeScope('session-1');
+
+      expect(cache.get('session-1:key')).toBeUndefined();
+      expect(cache.get('session-2:key')).toBe(2);
+    });
+  });
+});
+
+describe('classifyQuery', () => {
+  it('should classify queries by operation name', () => {
+    expect(classifyQuery('query getRepositoryRuns { x }')).toBe('runs');
+    expect(classifyQuery('query getRunByCommit { x }')).toBe('runs');
+    expect(classifyQuery('query getRun { x }')).toBe('runs');
+    expect(classifyQuery('query getRunChecks { x }')).toBe('runs');
+    expect(classifyQuery('query getRunOccurrences { x }')).toBe('issues');
+    expect(classifyQuery('query getRepositoryIgnoreRules { x }')).toBe('issues');
+    expect(classifyQuery('query getRepositoryQualityGates { x }')).toBe('metrics');
+    expect(classifyQuery('query { viewer { accounts { repositories { x } } } }')).toBe('projects');
+    expect(classifyQuery('query getAnalyzers { x }')).toBe('default');
+  });
+});
+
+describe('normalizeQuery', () => {
+  it('should collapse insignificant whitespace', () => {
+    expect(normalizeQuery('\n  query {\n    a ( x : $x ) { b }\n  }\n')).toBe('query{a(x:$x){b}}');
+  });
+});
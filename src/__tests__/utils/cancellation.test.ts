@@ -0,0 +1,54 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import axios from 'axios';
+import nock from 'nock';
+import {
+  attachAbortSignal,
+  getAbortSignal,
+  runWithAbortSignal,
+  throwIfAborted,
+} from '../../utils/cancellation.js';
+
+const API_URL = 'https://api.deepsource.io';
+
+describe('cancellation', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.restore();
+  });
+
+  it('should expose the signal of the current tool call only', () => {
+    const controller = new AbortController();
+
+    expect(runWithAbortSignal(controller.signal, () => getAbortSignal())).toBe(controller.signal);
+    expect(getAbortSignal()).toBeUndefined();
+  });
+
+  it('should throw a classified error once the signal is aborted', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow(
+      expect.objectContaining({ category: 'CLIENT', message: 'The request was cancelled' })
+    );
+  });
+
+  it('should abort the API requests of a cancelled tool call', async () => {
+    nock(API_URL).post('/graphql/').delay(1000).reply(200, { data: {} });
+    const client = axios.create({ baseURL: `${API_URL}/graphql/` });
+    attachAbortSignal(client);
+    const controller = new AbortController();
+
+    const request = runWithAbortSignal(controller.signal, () => client.post('', { query: '{}' }));
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(request).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createProgressReporter,
+  reportProgress,
+  runWithProgressReporter,
+} from '../../utils/progress.js';
+
+describe('progress', () => {
+  it('should report to the reporter of the current call only', async () => {
+    const updates: number[] = [];
+
+    await runWithProgressReporter(
+      async (update) => {
+        updates.push(update.progress);
+      },
+      () => reportProgress({ progress: 1 })
+    );
+    await reportProgress({ progress: 2 });
+
+    expect(updates).toEqual([1]);
+  });
+
+  it('should not fail the call when a notification cannot be sent', async () => {
+    const sendNotification = vi.fn().mockRejectedValue(new Error('Connection closed'));
+    const reporter = createProgressReporter(42, sendNotification);
+
+    await expect(reporter({ progress: 1 })).resolves.toBeUndefined();
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 42, progress: 1 },
+    });
+  });
+});
@@ -276,6 +276,16 @@ describe('CircuitBreakerManager', () => {
       }
       expect(breaker.getState()).toBe(CircuitState.CLOSED);
     });
+
+    it('should remove the breakers of a scope', () => {
+      manager.getBreaker('session-a:endpoint1');
+      manager.getBreaker('session-b:endpoint1');
+      manager.getBreaker('endpoint1');
+
+      manager.removeScope('session-a');
+
+      expect([...manager.getAllStats().keys()]).toEqual(['session-b:endpoint1', 'endpoint1']);
+    });
   });
 
   describe('Global operations', () => {
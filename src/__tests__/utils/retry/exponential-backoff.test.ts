@@ -170,6 +170,19 @@ describe('Exponential Backoff', () => {
     });
   });
 
+  describe('sleep with an abort signal', () => {
+    it('should reject when the signal is aborted during the sleep', async () => {
+      const controller = new AbortController();
+      const sleeping = sleep(10000, controller.signal);
+      controller.abort();
+      await expect(sleeping).rejects.toThrow('The request was cancelled');
+    });
+
+    it('should reject right away when the signal is already aborted', async () => {
+      await expect(sleep(0, AbortSignal.abort())).rejects.toThrow('The request was cancelled');
+    });
+  });
+
   describe('calculateMaxTotalDelay', () => {
     it('should calculate total maximum delay correctly', () => {
       const noJitterPolicy = { ...testPolicy, jitterFactor: 0, maxAttempts: 3 };
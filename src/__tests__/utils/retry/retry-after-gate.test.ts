@@ -0,0 +1,57 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RetryAfterGate } from '../../../utils/retry/retry-after-gate.js';
+
+describe('RetryAfterGate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hold back waiting requests for the Retry-After delay', async () => {
+    const gate = new RetryAfterGate();
+    expect(gate.pause('2')).toBe('2');
+
+    let released = false;
+    const waiting = gate.wait().then(() => {
+      released = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(released).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(released).toBe(true);
+  });
+
+  it('should keep the longest pause and ignore missing or invalid headers', async () => {
+    const gate = new RetryAfterGate();
+    gate.pause('3');
+    gate.pause('1');
+    expect(gate.pause(undefined)).toBeUndefined();
+    expect(gate.pause('soon')).toBe('soon');
+
+    let released = false;
+    const waiting = gate.wait().then(() => {
+      released = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(released).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await waiting;
+    expect(released).toBe(true);
+  });
+
+  it('should not wait when no pause is in effect', async () => {
+    await expect(new RetryAfterGate().wait()).resolves.toBeUndefined();
+  });
+});
@@ -150,6 +150,17 @@ describe('RetryBudgetManager', () => {
     });
   });
 
+  describe('removeScope', () => {
+    it('should remove the budgets of a scope only', () => {
+      manager.getBudget('session-a:endpoint1');
+      manager.getBudget('session-b:endpoint1');
+
+      manager.removeScope('session-a');
+
+      expect([...manager.getAllStats().keys()]).toEqual(['global', 'session-b:endpoint1']);
+    });
+  });
+
   describe('getGlobalBudget', () => {
     it('should return the global budget', () => {
       const global1 = manager.getGlobalBudget();
@@ -8,6 +8,8 @@ import { CircuitBreakerManager } from '../../../utils/retry/circuit-breaker.js';
 import { RetryBudgetManager } from '../../../utils/retry/retry-budget.js';
 import { ErrorCategory } from '../../../utils/errors/categories.js';
 import { createClassifiedError } from '../../../utils/errors/factory.js';
+import { runWithRequestContext } from '../../../utils/request-context.js';
+import { runWithAbortSignal } from '../../../utils/cancellation.js';
 
 describe('Retry Executor', () => {
   let circuitBreakerManager: CircuitBreakerManager;
@@ -26,6 +28,22 @@ describe('Retry Executor', () => {
   });
 
   describe('executeWithRetry', () => {
+    it('should keep circuit breakers separate per request scope', async () => {
+      vi.useRealTimers();
+      const fn = vi.fn().mockResolvedValue('success');
+
+      await runWithRequestContext({ scope: 'session-a' }, () =>
+        executeWithRetry(fn, { endpoint: 'projects' })
+      );
+      await executeWithRetry(fn, { endpoint: 'projects' });
+
+      expect([...circuitBreakerManager.getAllStats().keys()]).toEqual([
+        'session-a:projects',
+        'projects',
+      ]);
+      vi.useFakeTimers();
+    });
+
     it('should succeed on first attempt', async () => {
       vi.useRealTimers(); // Use real timers for synchronous success
       const fn = vi.fn().mockResolvedValue('success');
@@ -68,6 +86,36 @@ describe('Retry Executor', () => {
       expect(fn).toHaveBeenCalledTimes(3);
     });
 
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fn = vi
+        .fn()
+        .mockRejectedValue(createClassifiedError('Server error', ErrorCategory.SERVER));
+
+      const promise = executeWithRetry(fn, { endpoint: 'test', signal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      const result = await promise;
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.error).toMatchObject({ message: 'The request was cancelled' });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start when the signal of the tool call is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const fn = vi.fn().mockResolvedValue('success');
+
+      const result = await runWithAbortSignal(controller.signal, () => executeWithRetry(fn));
+
+      expect(result.cancelled).toBe(true);
+      expect(result.attempts).toBe(0);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
     it('should not retry non-retriable errors', async () => {
       const nonRetriableError = createClassifiedError(
         'Not found',
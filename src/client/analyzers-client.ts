@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Analyzers client for the DeepSource API
+ * This module provides functionality for browsing DeepSource analyzers and their issue catalogs.
+ */
+
+import { BaseDeepSourceClient } from './base-client.js';
+import {
+  DeepSourceAnalyzer,
+  AnalyzerIssue,
+  AnalyzerIssuesParams,
+  AnalyzerIssuesResponse,
+  IssueDefinition,
+} from '../models/analyzers.js';
+import { PaginatedResponse, PaginationParams, PageInfo } from '../utils/pagination/types.js';
+import { isErrorWithMessage } from '../utils/errors/handlers.js';
+
+/**
+ * Shape of a connection returned by the analyzer queries
+ * @private
+ */
+interface AnalyzerConnection {
+  totalCount?: number;
+  pageInfo?: PageInfo;
+  edges?: Array<{ node?: Record<string, unknown> }>;
+}
+
+/**
+ * Client for interacting with the DeepSource analyzers API
+ * @class
+ * @extends BaseDeepSourceClient
+ * @public
+ */
+export class AnalyzersClient extends BaseDeepSourceClient {
+  /**
+   * Fetches the analyzers available on DeepSource
+   * @param params Optional pagination parameters
+   * @returns Promise that resolves to a paginated list of analyzers
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async listAnalyzers(
+    params: PaginationParams = {}
+  ): Promise<PaginatedResponse<DeepSourceAnalyzer>> {
+    try {
+      this.logger.info('Fetching analyzers from DeepSource API', {
+        maxPages: params.max_pages,
+      });
+
+      const singlePageFetcher = async (
+        pageParams: PaginationParams
+      ): Promise<PaginatedResponse<DeepSourceAnalyzer>> => {
+        const normalizedParams = BaseDeepSourceClient.normalizePaginationParams(pageParams);
+        const response = await this.executeGraphQL<{ analyzers?: AnalyzerConnection }>(
+          AnalyzersClient.buildAnalyzersQuery(),
+          { ...normalizedParams }
+        );
+
+        const connection = response.data?.analyzers;
+        if (!connection) {
+          return BaseDeepSourceClient.createEmptyPaginatedResponse<DeepSourceAnalyzer>();
+        }
+
+        const analyzers = (connection.edges ?? [])
+          .filter((edge) => edge?.node)
+          .map((edge) => AnalyzersClient.mapAnalyzer(edge.node as Record<string, unknown>));
+
+        return {
+          items: analyzers,
+          pageInfo: connection.pageInfo || { hasNextPage: false, hasPreviousPage: false },
+          totalCount: connection.totalCount ?? analyzers.length,
+        };
+      };
+
+      const result = await this.fetchWithPagination(singlePageFetcher, params);
+
+      this.logger.info('Successfully fetched analyzers', {
+        count: result.items.length,
+        totalCount: result.totalCount,
+      });
+
+      return result;
+    } catch (error) {
+      return this.handleAnalyzersError(error);
+    }
+  }
+
+  /**
+   * Fetches an analyzer together with a page of its issue catalog
+   * @param shortcode The analyzer shortcode (e.g., 'python')
+   * @param params Optional pagination parameters for the issue catalog
+   * @returns Promise that resolves to the analyzer and its issues, or null if not found
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async getAnalyzerIssues(
+    shortcode: string,
+    params: AnalyzerIssuesParams = {}
+  ): Promise<AnalyzerIssuesResponse | null> {
+    try {
+      this.logger.info('Fetching analyzer issue catalog from DeepSource API', {
+        shortcode,
+        maxPages: params.max_pages,
+      });
+
+      // Captured from the pages as they are fetched
+      let analyzer = null as DeepSourceAnalyzer | null;
+
+      const singlePageFetcher = async (
+        pageParams: PaginationParams
+      ): Promise<PaginatedResponse<AnalyzerIssue>> => {
+        const normalizedParams = BaseDeepSourceClient.normalizePaginationParams(pageParams);
+        const response = await this.executeGraphQL<{
+          analyzer?: (Record<string, unknown> & { issues?: AnalyzerConnection }) | null;
+        }>(AnalyzersClient.buildAnalyzerIssuesQuery(), { shortcode, ...normalizedParams });
+
+        const analyzerNode = response.data?.analyzer;
+        if (!analyzerNode) {
+          return BaseDeepSourceClient.createEmptyPaginatedResponse<AnalyzerIssue>();
+        }
+
+        analyzer = AnalyzersClient.mapAnalyzer(analyzerNode);
+
+        const connection = analyzerNode.issues ?? {};
+        const issues = (connection.edges ?? [])
+          .filter((edge) => edge?.node)
+          .map((edge) => AnalyzersClient.mapIssue(edge.node as Record<string, unknown>));
+
+        return {
+          items: issues,
+          pageInfo: connection.pageInfo || { hasNextPage: false, hasPreviousPage: false },
+          totalCount: connection.totalCount ?? issues.length,
+        };
+      };
+
+      const result = await this.fetchWithPagination(singlePageFetcher, params);
+
+      if (!analyzer) {
+        this.logger.info('Analyzer not found', { shortcode });
+        return null;
+      }
+
+      this.logger.info('Successfully fetched analyzer issue catalog', {
+        shortcode,
+        count: result.items.length,
+        totalCount: result.totalCount,
+      });
+
+      return { ...result, analyzer };
+    } catch (error) {
+      if (isErrorWithMessage(error, 'NoneType') || isErrorWithMessage(error, 'not found')) {
+        this.logger.info('Analyzer not found', { shortcode });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the full definition of a single issue type
+   * @param analyzerShortcode The analyzer shortcode (e.g., 'javascript')
+   * @param issueShortcode The issue shortcode (e.g., 'JS-0125')
+   * @returns Promise that resolves to the issue definition, or null if not found
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async getIssueDefinition(
+    analyzerShortcode: string,
+    issueShortcode: string
+  ): Promise<IssueDefinition | null> {
+    try {
+      this.logger.info('Fetching issue definition from DeepSource API', {
+        analyzerShortcode,
+        issueShortcode,
+      });
+
+      const response = await this.executeGraphQL<{
+        analyzer?: (Record<string, unknown> & { issue?: Record<string, unknown> | null }) | null;
+      }>(AnalyzersClient.buildIssueDefinitionQuery(), {
+        analyzerShortcode,
+        issueShortcode,
+      });
+
+      const analyzerNode = response.data?.analyzer;
+      const issueNode = analyzerNode?.issue;
+      if (!analyzerNode || !issueNode) {
+        this.logger.info('Issue definition not found', { analyzerShortcode, issueShortcode });
+        return null;
+      }
+
+      return {
+        ...AnalyzersClient.mapIssue(issueNode),
+        shortDescription: String(issueNode.shortDescription ?? ''),
+        description: String(issueNode.description ?? ''),
+        tags: Array.isArray(issueNode.tags) ? (issueNode.tags as string[]) : [],
+        isRecommended: issueNode.isRecommended === true,
+        autofixAiAvailable: issueNode.autofixAiAvailable === true,
+        analyzer: {
+          name: String(analyzerNode.name ?? 'Unknown Analyzer'),
+          shortcode: String(analyzerNode.shortcode ?? analyzerShortcode),
+        },
+      };
+    } catch (error) {
+      if (isErrorWithMessage(error, 'NoneType') || isErrorWithMessage(error, 'not found')) {
+        this.logger.info('Issue definition not found', { analyzerShortcode, issueShortcode });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a GraphQL analyzer node to a DeepSourceAnalyzer
+   * @private
+   */
+  private static mapAnalyzer(node: Record<string, unknown>): DeepSourceAnalyzer {
+    return {
+      id: String(node.id ?? ''),
+      name: String(node.name ?? 'Unknown Analyzer'),
+      shortcode: String(node.shortcode ?? ''),
+      description: String(node.description ?? ''),
+      version: typeof node.version === 'string' ? node.version : null,
+      type: typeof node.type === 'string' ? node.type : null,
+      numIssues: Number(node.numIssues ?? 0),
+    };
+  }
+
+  /**
+   * Maps a GraphQL issue node to an AnalyzerIssue
+   * @private
+   */
+  private static mapIssue(node: Record<string, unknown>): AnalyzerIssue {
+    return {
+      id: String(node.id ?? ''),
+      shortcode: String(node.shortcode ?? 'UNKNOWN'),
+      title: String(node.title ?? 'Unknown Issue'),
+      category: String(node.category ?? 'UNKNOWN'),
+      severity: String(node.severity ?? 'UNKNOWN'),
+      autofixAvailable: node.autofixAvailable === true,
+    };
+  }
+
+  /**
+   * Builds the GraphQL query for listing analyzers
+   * @private
+   */
+  private static buildAnalyzersQuery(): string {
+    return `
+      query getAnalyzers($first: Int, $after: String, $last: Int, $before: String) {
+        analyzers(first: $first, after: $after, last: $last, before: $before) {
+          totalCount
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            startCursor
+            endCursor
+          }
+          edges {
+            node {
+              id
+              name
+              shortcode
+              description
+              version
+              type
+              numIssues
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Builds the GraphQL query for an analyzer's issue catalog
+   * @private
+   */
+  private static buildAnalyzerIssuesQuery(): string {
+    return `
+      query getAnalyzerIssues(
+        $shortcode: String!
+        $first: Int
+        $after: String
+        $last: Int
+        $before: String
+      ) {
+        analyzer(shortcode: $shortcode) {
+          id
+          name
+          shortcode
+          description
+          version
+          type
+          numIssues
+          issues(first: $first, after: $after, last: $last, before: $before) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              startCursor
+              endCursor
+            }
+            edges {
+              node {
+                id
+                shortcode
+                title
+                category
+                severity
+                autofixAvailable
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Builds the GraphQL query for a single issue definition
+   * @private
+   */
+  private static buildIssueDefinitionQuery(): string {
+    return `
+      query getIssueDefinition($analyzerShortcode: String!, $issueShortcode: String!) {
+        analyzer(shortcode: $analyzerShortcode) {
+          name
+          shortcode
+          issue(shortcode: $issueShortcode) {
+            id
+            shortcode
+            title
+            category
+            severity
+            shortDescription
+            description
+            tags
+            isRecommended
+            autofixAvailable
+            autofixAiAvailable
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Handles errors during analyzer listing
+   * @private
+   */
+  private handleAnalyzersError(error: unknown): PaginatedResponse<DeepSourceAnalyzer> {
+    this.logger.error('Error in listAnalyzers', {
+      errorType: typeof error,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+
+    if (isErrorWithMessage(error, 'NoneType')) {
+      return BaseDeepSourceClient.createEmptyPaginatedResponse<DeepSourceAnalyzer>();
+    }
+
+    throw error;
+  }
+}
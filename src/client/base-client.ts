@@ -6,7 +6,13 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import { createLogger } from '../utils/logging/logger.js';
 import { handleApiError } from '../utils/errors/handlers.js';
-import { GraphQLResponse } from '../types/graphql-responses.js';
+import {
+  GraphQLAccountNode,
+  GraphQLEdge,
+  GraphQLRepositoryNode,
+  GraphQLResponse,
+  ViewerProjectsResponse,
+} from '../types/graphql-responses.js';
 import { DeepSourceProject } from '../models/projects.js';
 import {
   PaginatedResponse,
@@ -18,6 +24,12 @@ import { fetchMultiplePages, PageFetcher } from '../utils/pagination/manager.js'
 import { handlePageSizeAlias, shouldFetchMultiplePages } from '../utils/pagination/helpers.js';
 import { asProjectKey } from '../types/branded.js';
 import { executeWithRetry, RetryExecutorOptions } from '../utils/retry/retry-executor.js';
+import { attachResponseCache, createCacheNamespace } from '../utils/cache/response-cache.js';
+import { attachPersistentStore } from '../utils/cache/persistent-store.js';
+import { BatchLoader } from '../utils/batching/batch-loader.js';
+import { attachRequestCoalescing } from '../utils/batching/request-coalescing.js';
+import { attachAbortSignal } from '../utils/cancellation.js';
+import { VIEWER_PROJECTS_QUERY } from '../utils/graphql/queries.js';
 
 /**
  * Configuration options for the DeepSource client
@@ -59,6 +71,18 @@ export class BaseDeepSourceClient {
    */
   protected logger = createLogger('DeepSourceClient');
 
+  /**
+   * Separates cached responses of different API keys
+   * @private
+   */
+  private readonly cacheNamespace: string;
+
+  /**
+   * Project lookup batchers shared by the clients of each API key and endpoint
+   * @private
+   */
+  private static projectLoaders = new Map<string, BatchLoader<string, DeepSourceProject>>();
+
   /**
    * Creates a new BaseDeepSourceClient instance
    * @param apiKey - The DeepSource API key for authentication
@@ -84,10 +108,20 @@ export class BaseDeepSourceClient {
     };
 
     this.client = axios.create(mergedConfig);
+    this.cacheNamespace = createCacheNamespace(apiKey);
+    attachAbortSignal(this.client);
+    attachRequestCoalescing(this.client);
+    attachPersistentStore(this.client, this.cacheNamespace);
+    attachResponseCache(this.client, this.cacheNamespace);
   }
 
   /**
    * Execute a GraphQL query with variables against the DeepSource API
+   *
+   * When the cache feature is enabled, the client serves query responses from
+   * the response cache until they expire, and successful mutations invalidate
+   * the cached responses they make stale.
+   *
    * @param query The GraphQL query to execute
    * @param variables The variables for the query
    * @returns The query response data
@@ -270,35 +304,111 @@ export class BaseDeepSourceClient {
   }
 
   /**
-   * Finds a project by its key using a simplified projects query
+   * Finds a project by its key
+   *
+   * Lookups made at the same time by any client with the same API key are
+   * batched, so resolving many project keys costs one projects query.
+   *
    * @param projectKey The project key to find
    * @returns The project if found, null otherwise
    * @protected
    */
   protected async findProjectByKey(projectKey: string): Promise<DeepSourceProject | null> {
     try {
-      const brandedKey = asProjectKey(projectKey);
-      // Simple cache or fetch implementation
-      // For now, we'll use a simplified approach and assume the project exists
-      // In a real implementation, this could cache results or use a dedicated query
-      return {
-        key: brandedKey,
-        name: 'Project', // Simplified
-        repository: {
-          url: projectKey,
-          provider: 'github', // Default assumption
-          login: projectKey.split('/')[0] || 'unknown',
-          name: projectKey.split('/')[1] || 'unknown',
-          isPrivate: false,
-          isActivated: true,
-        },
-      };
+      const project = await this.getProjectLoader().load(projectKey);
+      return project ?? null;
     } catch (error) {
       this.logger.error('Error finding project by key', { projectKey, error });
       return null;
     }
   }
 
+  /**
+   * Gets the project lookup batcher of this client's API key and endpoint
+   * @returns The shared batcher
+   * @private
+   */
+  private getProjectLoader(): BatchLoader<string, DeepSourceProject> {
+    const loaderKey = `${this.cacheNamespace}:${this.client.defaults.baseURL}`;
+    let loader = BaseDeepSourceClient.projectLoaders.get(loaderKey);
+    if (!loader) {
+      // Values are not kept: the response cache decides how long projects stay fresh
+      loader = new BatchLoader((keys) => this.fetchProjectsByKey(keys), { cache: false });
+      BaseDeepSourceClient.projectLoaders.set(loaderKey, loader);
+    }
+    return loader;
+  }
+
+  /**
+   * Drops the project lookup batchers of an API key
+   * @param apiKey - The API key whose batchers to drop
+   * @public
+   */
+  static removeProjectLoaders(apiKey: string): void {
+    const prefix = `${createCacheNamespace(apiKey)}:`;
+    for (const loaderKey of BaseDeepSourceClient.projectLoaders.keys()) {
+      if (loaderKey.startsWith(prefix)) {
+        BaseDeepSourceClient.projectLoaders.delete(loaderKey);
+      }
+    }
+  }
+
+  /**
+   * Fetches the projects of the given keys with a single projects query
+   * @param projectKeys The project keys to resolve
+   * @returns The projects found, by key
+   * @private
+   */
+  private async fetchProjectsByKey(projectKeys: string[]): Promise<Map<string, DeepSourceProject>> {
+    this.logger.debug('Resolving project keys', { count: projectKeys.length });
+    const response = await this.executeGraphQL<ViewerProjectsResponse>(VIEWER_PROJECTS_QUERY);
+    const wanted = new Set(projectKeys);
+    const projects = new Map<string, DeepSourceProject>();
+
+    for (const accountEdge of response.data?.viewer?.accounts?.edges ?? []) {
+      for (const repoEdge of accountEdge?.node?.repositories?.edges ?? []) {
+        const project = BaseDeepSourceClient.toDeepSourceProject(repoEdge, accountEdge.node);
+        if (project && wanted.has(project.key)) {
+          projects.set(project.key, project);
+        }
+      }
+    }
+    return projects;
+  }
+
+  /**
+   * Converts a repository from the projects query to a DeepSource project
+   * @param repoEdge The repository edge
+   * @param account The account that owns the repository
+   * @returns The project, or null if the repository has no DSN
+   * @protected
+   */
+  protected static toDeepSourceProject(
+    repoEdge: GraphQLEdge<GraphQLRepositoryNode> | undefined,
+    account: GraphQLAccountNode
+  ): DeepSourceProject | null {
+    const repo = repoEdge?.node;
+    if (!repo?.dsn) {
+      return null;
+    }
+
+    const project: DeepSourceProject = {
+      key: asProjectKey(repo.dsn),
+      name: repo.name ?? 'Unnamed Repository',
+      repository: {
+        url: repo.dsn,
+        provider: repo.vcsProvider ?? 'N/A',
+        login: account?.login,
+        name: repo.name ?? 'Unnamed Repository',
+        isPrivate: repo.isPrivate ?? false,
+        isActivated: repo.isActivated ?? false,
+      },
+    };
+    if (repo.id) project.repository.id = repo.id;
+    if (repo.defaultBranch) project.repository.defaultBranch = repo.defaultBranch;
+    return project;
+  }
+
   /**
    * Normalizes pagination parameters to ensure they're valid
    * @param params The pagination parameters to normalize
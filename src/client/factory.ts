@@ -9,6 +9,10 @@ import { IssuesClient } from './issues-client.js';
 import { RunsClient } from './runs-client.js';
 import { MetricsClient } from './metrics-client.js';
 import { SecurityClient } from './security-client.js';
+import { AnalyzersClient } from './analyzers-client.js';
+import { IgnoreRulesClient } from './ignore-rules-client.js';
+import { QualityGatesClient } from './quality-gates-client.js';
+import { SuppressionsClient } from './suppressions-client.js';
 import { createLogger } from '../utils/logging/logger.js';
 
 // Logger for the client factory
@@ -29,6 +33,10 @@ export class DeepSourceClientFactory {
   private runsClient?: RunsClient;
   private metricsClient?: MetricsClient;
   private securityClient?: SecurityClient;
+  private analyzersClient?: AnalyzersClient;
+  private ignoreRulesClient?: IgnoreRulesClient;
+  private qualityGatesClient?: QualityGatesClient;
+  private suppressionsClient?: SuppressionsClient;
 
   /**
    * Creates a new DeepSourceClientFactory instance
@@ -128,6 +136,62 @@ export class DeepSourceClientFactory {
     return this.securityClient;
   }
 
+  /**
+   * Gets or creates an AnalyzersClient instance
+   * @returns An AnalyzersClient instance
+   * @public
+   */
+  getAnalyzersClient(): AnalyzersClient {
+    if (!this.analyzersClient) {
+      logger.debug('Creating new AnalyzersClient instance');
+      this.analyzersClient = new AnalyzersClient(this.apiKey, this.config);
+    }
+
+    return this.analyzersClient;
+  }
+
+  /**
+   * Gets or creates an IgnoreRulesClient instance
+   * @returns An IgnoreRulesClient instance
+   * @public
+   */
+  getIgnoreRulesClient(): IgnoreRulesClient {
+    if (!this.ignoreRulesClient) {
+      logger.debug('Creating new IgnoreRulesClient instance');
+      this.ignoreRulesClient = new IgnoreRulesClient(this.apiKey, this.config);
+    }
+
+    return this.ignoreRulesClient;
+  }
+
+  /**
+   * Gets or creates a QualityGatesClient instance
+   * @returns A QualityGatesClient instance
+   * @public
+   */
+  getQualityGatesClient(): QualityGatesClient {
+    if (!this.qualityGatesClient) {
+      logger.debug('Creating new QualityGatesClient instance');
+      this.qualityGatesClient = new QualityGatesClient(this.apiKey, this.config);
+    }
+
+    return this.qualityGatesClient;
+  }
+
+  /**
+   * Gets or creates a SuppressionsClient instance
+   * @returns A SuppressionsClient instance
+   * @public
+   */
+  getSuppressionsClient(): SuppressionsClient {
+    if (!this.suppressionsClient) {
+      logger.debug('Creating new SuppressionsClient instance');
+      this.suppressionsClient = new SuppressionsClient(this.apiKey, this.config);
+    }
+
+    return this.suppressionsClient;
+  }
+
   /**
    * Helper method to test connectivity to the DeepSource API
    * @returns True if connection was successful, false otherwise
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Ignore rules client for the DeepSource API
+ * This module provides functionality for auditing the rules that silence issues in a repository.
+ */
+
+import { BaseDeepSourceClient } from './base-client.js';
+import { IgnoreRule, IgnoreRuleType, IgnoreRulesParams } from '../models/ignore-rules.js';
+import { PaginatedResponse, PageInfo } from '../utils/pagination/types.js';
+import { isErrorWithMessage } from '../utils/errors/handlers.js';
+
+/**
+ * Client for interacting with the DeepSource ignore rules API
+ * @class
+ * @extends BaseDeepSourceClient
+ * @public
+ */
+export class IgnoreRulesClient extends BaseDeepSourceClient {
+  /**
+   * Fetches the ignore rules configured for a DeepSource project
+   * Supports multi-page fetching when max_pages is specified
+   * @param projectKey The project key to fetch ignore rules for
+   * @param params Optional rule type filter and pagination parameters
+   * @returns Promise that resolves to a paginated list of ignore rules, whose totalCount ignores the type filter
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async getIgnoreRules(
+    projectKey: string,
+    params: IgnoreRulesParams = {}
+  ): Promise<PaginatedResponse<IgnoreRule>> {
+    try {
+      this.logger.info('Fetching ignore rules from DeepSource API', {
+        projectKey,
+        type: params.type,
+        maxPages: params.max_pages,
+      });
+
+      const project = await this.findProjectByKey(projectKey);
+      if (!project) {
+        return BaseDeepSourceClient.createEmptyPaginatedResponse<IgnoreRule>();
+      }
+
+      const singlePageFetcher = async (
+        pageParams: IgnoreRulesParams
+      ): Promise<PaginatedResponse<IgnoreRule>> => {
+        const normalizedParams = BaseDeepSourceClient.normalizePaginationParams(pageParams);
+        const response = await this.executeGraphQL<{
+          repository?: {
+            ignoreRules?: {
+              totalCount?: number;
+              pageInfo?: PageInfo;
+              edges?: Array<{ node?: Record<string, unknown> }>;
+            };
+          };
+        }>(IgnoreRulesClient.buildIgnoreRulesQuery(), {
+          login: project.repository.login,
+          name: project.repository.name,
+          provider: project.repository.provider,
+          ...normalizedParams,
+        });
+
+        const connection = response.data?.repository?.ignoreRules;
+        if (!connection) {
+          return BaseDeepSourceClient.createEmptyPaginatedResponse<IgnoreRule>();
+        }
+
+        // The API does not filter by type, so rules are filtered page by page
+        const rules = (connection.edges ?? [])
+          .filter((edge) => edge?.node)
+          .map((edge) => IgnoreRulesClient.mapIgnoreRule(edge.node as Record<string, unknown>))
+          .filter((rule) => !params.type || rule.type === params.type);
+
+        this.logger.debug('Fetched ignore rules page', {
+          count: rules.length,
+          hasNextPage: connection.pageInfo?.hasNextPage,
+        });
+
+        return {
+          items: rules,
+          pageInfo: connection.pageInfo || { hasNextPage: false, hasPreviousPage: false },
+          totalCount: connection.totalCount ?? rules.length,
+        };
+      };
+
+      const result = await this.fetchWithPagination(singlePageFetcher, params);
+
+      this.logger.info('Successfully fetched ignore rules', {
+        count: result.items.length,
+        totalCount: result.totalCount,
+      });
+
+      return result;
+    } catch (error) {
+      return this.handleIgnoreRulesError(error);
+    }
+  }
+
+  /**
+   * Maps a GraphQL ignore rule node to an IgnoreRule
+   * @private
+   */
+  private static mapIgnoreRule(node: Record<string, unknown>): IgnoreRule {
+    const issue = node.issue as Record<string, unknown> | null | undefined;
+    return {
+      id: String(node.id ?? ''),
+      level: String(node.level ?? 'UNKNOWN'),
+      type: String(node.type ?? 'UNKNOWN') as IgnoreRuleType,
+      filePath: typeof node.filePath === 'string' ? node.filePath : null,
+      globPattern: typeof node.globPattern === 'string' ? node.globPattern : null,
+      issue: issue
+        ? {
+            shortcode: String(issue.shortcode ?? 'UNKNOWN'),
+            title: String(issue.title ?? 'Unknown Issue'),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Builds the GraphQL query for a repository's ignore rules
+   * @private
+   */
+  private static buildIgnoreRulesQuery(): string {
+    return `
+      query getRepositoryIgnoreRules(
+        $login: String!
+        $name: String!
+        $provider: VCSProvider!
+        $first: Int
+        $after: String
+        $last: Int
+        $before: String
+      ) {
+        repository(login: $login, name: $name, vcsProvider: $provider) {
+          ignoreRules(first: $first, after: $after, last: $last, before: $before) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              startCursor
+              endCursor
+            }
+            edges {
+              node {
+                id
+                level
+                type
+                filePath
+                globPattern
+                issue {
+                  shortcode
+                  title
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Handles errors during ignore rule fetching
+   * @private
+   */
+  private handleIgnoreRulesError(error: unknown): PaginatedResponse<IgnoreRule> {
+    this.logger.error('Error in getIgnoreRules', {
+      errorType: typeof error,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+
+    // Handle special case where the repository has no ignore rules
+    if (isErrorWithMessage(error, 'NoneType')) {
+      return BaseDeepSourceClient.createEmptyPaginatedResponse<IgnoreRule>();
+    }
+
+    throw error;
+  }
+}
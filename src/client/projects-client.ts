@@ -4,10 +4,14 @@
  */
 
 import { BaseDeepSourceClient } from './base-client.js';
-import { DeepSourceProject } from '../models/projects.js';
+import {
+  DeepSourceProject,
+  RepositoryLifecycleResponse,
+  RepositorySettings,
+} from '../models/projects.js';
 import { VIEWER_PROJECTS_QUERY } from '../utils/graphql/queries.js';
 import { isErrorWithMessage } from '../utils/errors/handlers.js';
-import { ProjectKey, asProjectKey } from '../types/branded.js';
+import { ProjectKey } from '../types/branded.js';
 import {
   GraphQLEdge,
   GraphQLAccountNode,
@@ -15,6 +19,14 @@ import {
   ViewerProjectsResponse,
 } from '../types/graphql-responses.js';
 
+/**
+ * Mutations that change whether and how a repository is analyzed
+ */
+type RepositoryLifecycleMutation =
+  | 'activateRepository'
+  | 'deactivateRepository'
+  | 'updateRepositoryDefaultBranch';
+
 /**
  * Client for interacting with DeepSource projects API
  * @class
@@ -189,25 +201,7 @@ export class ProjectsClient extends BaseDeepSourceClient {
     });
 
     try {
-      // Convert DSN string to project key
-      const projectKey = asProjectKey(repo.dsn);
-      this.logger.debug('Created branded ProjectKey:', {
-        original: repo.dsn,
-        branded: projectKey,
-      });
-
-      return {
-        key: projectKey,
-        name: repo.name ?? 'Unnamed Repository',
-        repository: {
-          url: repo.dsn,
-          provider: repo.vcsProvider ?? 'N/A',
-          login: account?.login,
-          name: repo.name ?? 'Unnamed Repository',
-          isPrivate: repo.isPrivate ?? false,
-          isActivated: repo.isActivated ?? false,
-        },
-      };
+      return BaseDeepSourceClient.toDeepSourceProject(repoEdge, account);
     } catch (error) {
       // Handle any error during project key conversion or object creation
       this.logger.error('Error processing repository', {
@@ -282,4 +276,181 @@ export class ProjectsClient extends BaseDeepSourceClient {
       return false;
     }
   }
+
+  /**
+   * Fetches the default branch, analysis configuration and enabled analyzers of a project
+   * @param projectKey The project key to fetch settings for
+   * @returns Promise that resolves to the settings, or null if the project is not found
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async getRepositorySettings(projectKey: string): Promise<RepositorySettings | null> {
+    try {
+      this.logger.info('Fetching repository settings from DeepSource API', { projectKey });
+
+      const project = await this.findProjectByKey(projectKey);
+      if (!project) {
+        return null;
+      }
+
+      const response = await this.executeGraphQL<{
+        repository?: {
+          id?: string;
+          defaultBranch?: string | null;
+          configJson?: unknown;
+          enabledAnalyzers?: { edges?: Array<{ node?: Record<string, unknown> }> };
+        } | null;
+      }>(ProjectsClient.buildRepositorySettingsQuery(), {
+        login: project.repository.login,
+        name: project.repository.name,
+        provider: project.repository.provider,
+      });
+
+      const repository = response.data?.repository;
+      if (!repository) {
+        this.logger.info('Repository not found', { projectKey });
+        return null;
+      }
+
+      const settings: RepositorySettings = {
+        repositoryId: String(repository.id ?? ''),
+        defaultBranch: repository.defaultBranch ?? null,
+        configJson: ProjectsClient.parseConfigJson(repository.configJson),
+        enabledAnalyzers: (repository.enabledAnalyzers?.edges ?? [])
+          .filter((edge) => edge?.node)
+          .map(({ node }) => ({
+            shortcode: String(node?.shortcode ?? 'UNKNOWN'),
+            name: String(node?.name ?? 'Unknown Analyzer'),
+          })),
+      };
+
+      this.logger.info('Successfully fetched repository settings', {
+        projectKey,
+        analyzerCount: settings.enabledAnalyzers.length,
+      });
+
+      return settings;
+    } catch (error) {
+      if (isErrorWithMessage(error, 'NoneType') || isErrorWithMessage(error, 'not found')) {
+        this.logger.info('Repository not found', { projectKey });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Activates a repository so that DeepSource starts analyzing it
+   * @param repositoryId The repository GraphQL ID
+   * @returns Promise that resolves to the mutation result
+   * @public
+   */
+  async activateRepository(repositoryId: string): Promise<RepositoryLifecycleResponse> {
+    return this.executeLifecycleMutation('activateRepository', { repositoryId });
+  }
+
+  /**
+   * Deactivates a repository so that DeepSource stops analyzing it
+   * @param repositoryId The repository GraphQL ID
+   * @returns Promise that resolves to the mutation result
+   * @public
+   */
+  async deactivateRepository(repositoryId: string): Promise<RepositoryLifecycleResponse> {
+    return this.executeLifecycleMutation('deactivateRepository', { repositoryId });
+  }
+
+  /**
+   * Changes the default branch DeepSource analyzes for a repository
+   * @param repositoryId The repository GraphQL ID
+   * @param defaultBranch The new default branch name
+   * @returns Promise that resolves to the mutation result
+   * @public
+   */
+  async updateRepositoryDefaultBranch(
+    repositoryId: string,
+    defaultBranch: string
+  ): Promise<RepositoryLifecycleResponse> {
+    return this.executeLifecycleMutation('updateRepositoryDefaultBranch', {
+      id: repositoryId,
+      defaultBranchName: defaultBranch,
+    });
+  }
+
+  /**
+   * Executes one of the repository lifecycle mutations
+   * @private
+   */
+  private async executeLifecycleMutation(
+    mutationName: RepositoryLifecycleMutation,
+    input: Record<string, unknown>
+  ): Promise<RepositoryLifecycleResponse> {
+    try {
+      this.logger.info('Executing repository lifecycle mutation', { mutationName, input });
+
+      const response = await this.executeGraphQLMutation<{
+        data?: Partial<Record<RepositoryLifecycleMutation, { ok?: boolean }>>;
+      }>(ProjectsClient.buildLifecycleMutation(mutationName), { input });
+
+      const ok = response.data?.[mutationName]?.ok === true;
+      this.logger.info('Repository lifecycle mutation result', { mutationName, ok });
+      return { ok };
+    } catch (error) {
+      this.logger.error('Error executing repository lifecycle mutation', { mutationName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Parses the analysis configuration, which the API returns as a JSON string
+   * @private
+   */
+  private static parseConfigJson(configJson: unknown): unknown {
+    if (typeof configJson !== 'string') {
+      return configJson ?? null;
+    }
+    try {
+      return JSON.parse(configJson);
+    } catch {
+      return configJson;
+    }
+  }
+
+  /**
+   * Builds the GraphQL query for a repository's settings
+   * @private
+   */
+  private static buildRepositorySettingsQuery(): string {
+    return `
+      query getRepositorySettings($login: String!, $name: String!, $provider: VCSProvider!) {
+        repository(login: $login, name: $name, vcsProvider: $provider) {
+          id
+          defaultBranch
+          configJson
+          enabledAnalyzers {
+            edges {
+              node {
+                shortcode
+                name
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Builds the GraphQL mutation for a repository lifecycle change
+   * @private
+   */
+  private static buildLifecycleMutation(mutationName: RepositoryLifecycleMutation): string {
+    const inputType = `${mutationName.charAt(0).toUpperCase()}${mutationName.slice(1)}Input`;
+    return `
+      mutation ${mutationName}($input: ${inputType}!) {
+        ${mutationName}(input: $input) {
+          ok
+        }
+      }
+    `;
+  }
 }
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Quality gates client for the DeepSource API
+ * This module provides functionality for reading and updating the issue category
+ * and priority settings of a repository.
+ */
+
+import { BaseDeepSourceClient } from './base-client.js';
+import {
+  IssueCategory,
+  IssuePriority,
+  QualityGates,
+  QualityGateUpdateResponse,
+  UpdateIssueCategorySettingParams,
+  UpdateIssuePrioritySettingParams,
+} from '../models/quality-gates.js';
+import { isErrorWithMessage } from '../utils/errors/handlers.js';
+
+/**
+ * Client for interacting with the DeepSource quality gates API
+ * @class
+ * @extends BaseDeepSourceClient
+ * @public
+ */
+export class QualityGatesClient extends BaseDeepSourceClient {
+  /**
+   * Fetches the issue category and priority settings of a project
+   * @param projectKey The project key to fetch quality gates for
+   * @returns Promise that resolves to the quality gates, or null if the project is not found
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async getQualityGates(projectKey: string): Promise<QualityGates | null> {
+    try {
+      this.logger.info('Fetching quality gates from DeepSource API', { projectKey });
+
+      const project = await this.findProjectByKey(projectKey);
+      if (!project) {
+        return null;
+      }
+
+      const response = await this.executeGraphQL<{
+        repository?: {
+          id?: string;
+          issueCategorySettings?: Array<Record<string, unknown>>;
+          issuePrioritySettings?: Array<Record<string, unknown>>;
+        } | null;
+      }>(QualityGatesClient.buildQualityGatesQuery(), {
+        login: project.repository.login,
+        name: project.repository.name,
+        provider: project.repository.provider,
+      });
+
+      const repository = response.data?.repository;
+      if (!repository) {
+        this.logger.info('Repository not found', { projectKey });
+        return null;
+      }
+
+      const qualityGates: QualityGates = {
+        repositoryId: String(repository.id ?? ''),
+        categories: (repository.issueCategorySettings ?? []).map((setting) => ({
+          category: String(setting.category ?? 'UNKNOWN') as IssueCategory,
+          isReported: setting.isReported === true,
+          canFailCheck: setting.canFailCheck === true,
+        })),
+        priorities: (repository.issuePrioritySettings ?? []).map((setting) => ({
+          priority: String(setting.priorityType ?? 'UNKNOWN') as IssuePriority,
+          isReported: setting.isReported === true,
+          canFailCheck: setting.canFailCheck === true,
+        })),
+      };
+
+      this.logger.info('Successfully fetched quality gates', {
+        projectKey,
+        categoryCount: qualityGates.categories.length,
+        priorityCount: qualityGates.priorities.length,
+      });
+
+      return qualityGates;
+    } catch (error) {
+      if (isErrorWithMessage(error, 'NoneType') || isErrorWithMessage(error, 'not found')) {
+        this.logger.info('Repository not found', { projectKey });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates whether an issue category is reported and can fail checks
+   * @param params Category setting update parameters
+   * @returns Promise that resolves to update response
+   * @public
+   */
+  async updateIssueCategorySetting(
+    params: UpdateIssueCategorySettingParams
+  ): Promise<QualityGateUpdateResponse> {
+    try {
+      this.logger.info('Updating issue category setting', {
+        repositoryId: params.repositoryId,
+        category: params.category,
+      });
+
+      const response = await this.executeGraphQLMutation<{
+        data?: { updateRepositoryIssueCategorySetting?: { ok?: boolean } };
+      }>(QualityGatesClient.buildUpdateCategorySettingMutation(), {
+        input: {
+          repositoryId: params.repositoryId,
+          issueCategory: params.category,
+          isReported: params.isReported,
+          canFailCheck: params.canFailCheck,
+        },
+      });
+
+      const ok = response.data?.updateRepositoryIssueCategorySetting?.ok === true;
+      this.logger.info('Issue category setting update result', { ok });
+      return { ok };
+    } catch (error) {
+      this.logger.error('Error updating issue category setting', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates whether an issue priority is reported and can fail checks
+   * @param params Priority setting update parameters
+   * @returns Promise that resolves to update response
+   * @public
+   */
+  async updateIssuePrioritySetting(
+    params: UpdateIssuePrioritySettingParams
+  ): Promise<QualityGateUpdateResponse> {
+    try {
+      this.logger.info('Updating issue priority setting', {
+        repositoryId: params.repositoryId,
+        priority: params.priority,
+      });
+
+      const response = await this.executeGraphQLMutation<{
+        data?: { updateRepositoryIssuePrioritySetting?: { ok?: boolean } };
+      }>(QualityGatesClient.buildUpdatePrioritySettingMutation(), {
+        input: {
+          repositoryId: params.repositoryId,
+          issuePriorityType: params.priority,
+          isReported: params.isReported,
+          canFailCheck: params.canFailCheck,
+        },
+      });
+
+      const ok = response.data?.updateRepositoryIssuePrioritySetting?.ok === true;
+      this.logger.info('Issue priority setting update result', { ok });
+      return { ok };
+    } catch (error) {
+      this.logger.error('Error updating issue priority setting', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the GraphQL query for a repository's quality gates
+   * @private
+   */
+  private static buildQualityGatesQuery(): string {
+    return `
+      query getRepositoryQualityGates($login: String!, $name: String!, $provider: VCSProvider!) {
+        repository(login: $login, name: $name, vcsProvider: $provider) {
+          id
+          issueCategorySettings {
+            category
+            isReported
+            canFailCheck
+          }
+          issuePrioritySettings {
+            priorityType
+            isReported
+            canFailCheck
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Builds the GraphQL mutation for updating an issue category setting
+   * @private
+   */
+  private static buildUpdateCategorySettingMutation(): string {
+    return `
+      mutation updateRepositoryIssueCategorySetting(
+        $input: UpdateRepositoryIssueCategorySettingInput!
+      ) {
+        updateRepositoryIssueCategorySetting(input: $input) {
+          ok
+        }
+      }
+    `;
+  }
+
+  /**
+   * Builds the GraphQL mutation for updating an issue priority setting
+   * @private
+   */
+  private static buildUpdatePrioritySettingMutation(): string {
+    return `
+      mutation updateRepositoryIssuePrioritySetting(
+        $input: UpdateRepositoryIssuePrioritySettingInput!
+      ) {
+        updateRepositoryIssuePrioritySetting(input: $input) {
+          ok
+        }
+      }
+    `;
+  }
+}
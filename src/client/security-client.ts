@@ -8,8 +8,10 @@ import {
   VulnerabilityOccurrence,
   VulnerabilitySeverity,
   Vulnerability,
+  RepositoryTarget,
+  DependencyTargetsParams,
 } from '../models/security.js';
-import { PaginatedResponse, PaginationParams } from '../utils/pagination/types.js';
+import { PaginatedResponse, PaginationParams, PageInfo } from '../utils/pagination/types.js';
 import { isErrorWithMessage } from '../utils/errors/handlers.js';
 import { ReportType } from '../deepsource.js';
 
@@ -105,6 +107,87 @@ export class SecurityClient extends BaseDeepSourceClient {
     }
   }
 
+  /**
+   * Fetches the dependency targets DeepSource scans in a project
+   * Supports multi-page fetching when max_pages is specified
+   * @param projectKey The project key to fetch targets for
+   * @param params Optional pagination parameters
+   * @returns Promise that resolves to a paginated list of dependency targets
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async getDependencyTargets(
+    projectKey: string,
+    params: DependencyTargetsParams = {}
+  ): Promise<PaginatedResponse<RepositoryTarget>> {
+    try {
+      this.logger.info('Fetching dependency targets from DeepSource API', {
+        projectKey,
+        maxPages: params.max_pages,
+      });
+
+      const project = await this.findProjectByKey(projectKey);
+      if (!project) {
+        return BaseDeepSourceClient.createEmptyPaginatedResponse<RepositoryTarget>();
+      }
+
+      const singlePageFetcher = async (
+        pageParams: DependencyTargetsParams
+      ): Promise<PaginatedResponse<RepositoryTarget>> => {
+        const normalizedParams = BaseDeepSourceClient.normalizePaginationParams(pageParams);
+        const response = await this.executeGraphQL<{
+          repository?: {
+            targets?: {
+              totalCount?: number;
+              pageInfo?: PageInfo;
+              edges?: Array<{ node?: Record<string, unknown> }>;
+            };
+          };
+        }>(SecurityClient.buildTargetsQuery(), {
+          login: project.repository.login,
+          name: project.repository.name,
+          provider: project.repository.provider,
+          ...normalizedParams,
+        });
+
+        const connection = response.data?.repository?.targets;
+        if (!connection) {
+          return BaseDeepSourceClient.createEmptyPaginatedResponse<RepositoryTarget>();
+        }
+
+        const targets = (connection.edges ?? [])
+          .filter((edge) => edge?.node)
+          .map((edge) => SecurityClient.mapRepositoryTarget(edge.node as Record<string, unknown>));
+
+        return {
+          items: targets,
+          pageInfo: connection.pageInfo || { hasNextPage: false, hasPreviousPage: false },
+          totalCount: connection.totalCount ?? targets.length,
+        };
+      };
+
+      const result = await this.fetchWithPagination(singlePageFetcher, params);
+
+      this.logger.info('Successfully fetched dependency targets', {
+        count: result.items.length,
+        totalCount: result.totalCount,
+      });
+
+      return result;
+    } catch (error) {
+      this.logger.error('Error in getDependencyTargets', {
+        errorType: typeof error,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+
+      // Handle special case where the repository has no dependency targets
+      if (isErrorWithMessage(error, 'NoneType')) {
+        return BaseDeepSourceClient.createEmptyPaginatedResponse<RepositoryTarget>();
+      }
+      throw error;
+    }
+  }
+
   /**
    * Fetches a compliance report for a specific report type
    * @param projectKey The project key
@@ -225,6 +308,46 @@ export class SecurityClient extends BaseDeepSourceClient {
     `;
   }
 
+  /**
+   * Builds GraphQL query for a repository's dependency targets
+   * @private
+   */
+  private static buildTargetsQuery(): string {
+    return `
+      query getRepositoryTargets(
+        $login: String!
+        $name: String!
+        $provider: VCSProvider!
+        $first: Int
+        $after: String
+        $last: Int
+        $before: String
+      ) {
+        repository(login: $login, name: $name, vcsProvider: $provider) {
+          targets(first: $first, after: $after, last: $last, before: $before) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              startCursor
+              endCursor
+            }
+            edges {
+              node {
+                id
+                ecosystem
+                packageManager
+                manifestPath
+                lockfilePath
+                isActivated
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
   /**
    * Builds GraphQL query for compliance reports
    * @private
@@ -379,6 +502,21 @@ export class SecurityClient extends BaseDeepSourceClient {
     };
   }
 
+  /**
+   * Maps a GraphQL target node to a RepositoryTarget
+   * @private
+   */
+  private static mapRepositoryTarget(node: Record<string, unknown>): RepositoryTarget {
+    return {
+      id: String(node.id ?? ''),
+      ecosystem: String(node.ecosystem ?? 'UNKNOWN'),
+      packageManager: String(node.packageManager ?? 'UNKNOWN'),
+      manifestPath: typeof node.manifestPath === 'string' ? node.manifestPath : null,
+      lockfilePath: typeof node.lockfilePath === 'string' ? node.lockfilePath : null,
+      isActivated: node.isActivated === true,
+    };
+  }
+
   /**
    * Extracts compliance report from GraphQL response
    * @private
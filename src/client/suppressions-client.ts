@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Suppressions client for the DeepSource API
+ * This module provides functionality for listing and managing issues suppressed
+ * across every repository of a team.
+ */
+
+import { BaseDeepSourceClient } from './base-client.js';
+import {
+  SuppressedIssue,
+  TeamIssueSuppressionParams,
+  TeamIssueSuppressionResponse,
+  TeamSuppressedIssuesParams,
+} from '../models/suppressions.js';
+import { PaginatedResponse, PaginationParams, PageInfo } from '../utils/pagination/types.js';
+import { isErrorWithMessage } from '../utils/errors/handlers.js';
+
+/**
+ * Client for interacting with the DeepSource team suppression API
+ * @class
+ * @extends BaseDeepSourceClient
+ * @public
+ */
+export class SuppressionsClient extends BaseDeepSourceClient {
+  /**
+   * Fetches the issues suppressed for a team
+   * Supports multi-page fetching when max_pages is specified
+   * @param params The team identifier and pagination parameters
+   * @returns Promise that resolves to a paginated list of suppressed issues, or null if the team is not found
+   * @throws {ClassifiedError} When the API request fails
+   * @public
+   */
+  async listTeamSuppressedIssues(
+    params: TeamSuppressedIssuesParams
+  ): Promise<PaginatedResponse<SuppressedIssue> | null> {
+    const { login, vcsProvider } = params;
+
+    try {
+      this.logger.info('Fetching team suppressed issues from DeepSource API', {
+        login,
+        vcsProvider,
+        maxPages: params.max_pages,
+      });
+
+      // Set once any page confirms that the account exists
+      let accountFound = false;
+
+      const singlePageFetcher = async (
+        pageParams: PaginationParams
+      ): Promise<PaginatedResponse<SuppressedIssue>> => {
+        const normalizedParams = BaseDeepSourceClient.normalizePaginationParams(pageParams);
+        const response = await this.executeGraphQL<{
+          account?: {
+            suppressedIssues?: {
+              totalCount?: number;
+              pageInfo?: PageInfo;
+              edges?: Array<{ node?: Record<string, unknown> }>;
+            };
+          } | null;
+        }>(SuppressionsClient.buildSuppressedIssuesQuery(), {
+          login,
+          vcsProvider,
+          ...normalizedParams,
+        });
+
+        const account = response.data?.account;
+        if (!account) {
+          return BaseDeepSourceClient.createEmptyPaginatedResponse<SuppressedIssue>();
+        }
+
+        accountFound = true;
+
+        const connection = account.suppressedIssues ?? {};
+        const suppressions = (connection.edges ?? [])
+          .filter((edge) => edge?.node)
+          .map((edge) =>
+            SuppressionsClient.mapSuppressedIssue(edge.node as Record<string, unknown>)
+          );
+
+        return {
+          items: suppressions,
+          pageInfo: connection.pageInfo || { hasNextPage: false, hasPreviousPage: false },
+          totalCount: connection.totalCount ?? suppressions.length,
+        };
+      };
+
+      const result = await this.fetchWithPagination(singlePageFetcher, params);
+
+      if (!accountFound) {
+        this.logger.info('Team not found', { login, vcsProvider });
+        return null;
+      }
+
+      this.logger.info('Successfully fetched team suppressed issues', {
+        count: result.items.length,
+        totalCount: result.totalCount,
+      });
+
+      return result;
+    } catch (error) {
+      if (isErrorWithMessage(error, 'NoneType') || isErrorWithMessage(error, 'not found')) {
+        this.logger.info('Team not found', { login, vcsProvider });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Suppresses an issue in every repository of a team
+   * @param params The team, analyzer and issue to suppress
+   * @returns Promise that resolves to the mutation result
+   * @throws {Error} When the mutation fails
+   * @public
+   */
+  async suppressIssueForTeam(
+    params: TeamIssueSuppressionParams
+  ): Promise<TeamIssueSuppressionResponse> {
+    return this.updateTeamSuppression('suppressIssueForTeam', params);
+  }
+
+  /**
+   * Removes a team-wide suppression of an issue
+   * @param params The team, analyzer and issue to unsuppress
+   * @returns Promise that resolves to the mutation result
+   * @throws {Error} When the mutation fails
+   * @public
+   */
+  async unsuppressIssueForTeam(
+    params: TeamIssueSuppressionParams
+  ): Promise<TeamIssueSuppressionResponse> {
+    return this.updateTeamSuppression('unsuppressIssueForTeam', params);
+  }
+
+  /**
+   * Runs one of the team suppression mutations
+   * @private
+   */
+  private async updateTeamSuppression(
+    mutationName: 'suppressIssueForTeam' | 'unsuppressIssueForTeam',
+    params: TeamIssueSuppressionParams
+  ): Promise<TeamIssueSuppressionResponse> {
+    try {
+      this.logger.info('Updating team issue suppression', {
+        mutationName,
+        login: params.login,
+        analyzerShortcode: params.analyzerShortcode,
+        issueShortcode: params.issueShortcode,
+      });
+
+      const response = await this.executeGraphQLMutation<{
+        data?: Record<string, { ok?: boolean } | undefined>;
+      }>(SuppressionsClient.buildSuppressionMutation(mutationName), {
+        input: {
+          issueShortcode: params.issueShortcode,
+          login: params.login,
+          vcsProvider: params.vcsProvider,
+        },
+      });
+
+      const ok = response.data?.[mutationName]?.ok === true;
+      this.logger.info('Team issue suppression update result', { mutationName, ok });
+      return { ok };
+    } catch (error) {
+      this.logger.error('Error updating team issue suppression', { mutationName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a GraphQL suppressed issue node to a SuppressedIssue
+   * @private
+   */
+  private static mapSuppressedIssue(node: Record<string, unknown>): SuppressedIssue {
+    const issue = (node.issue ?? {}) as Record<string, unknown>;
+    const analyzer = issue.analyzer as Record<string, unknown> | null | undefined;
+    const user = node.user as Record<string, unknown> | null | undefined;
+
+    return {
+      id: String(node.id ?? ''),
+      issue: {
+        shortcode: String(issue.shortcode ?? 'UNKNOWN'),
+        title: String(issue.title ?? 'Unknown Issue'),
+        analyzerShortcode: typeof analyzer?.shortcode === 'string' ? analyzer.shortcode : null,
+      },
+      suppressedAt: typeof node.createdAt === 'string' ? node.createdAt : null,
+      suppressedBy: typeof user?.email === 'string' ? user.email : null,
+    };
+  }
+
+  /**
+   * Builds the GraphQL query for a team's suppressed issues
+   * @private
+   */
+  private static buildSuppressedIssuesQuery(): string {
+    return `
+      query getTeamSuppressedIssues(
+        $login: String!
+        $vcsProvider: VCSProvider!
+        $first: Int
+        $after: String
+        $last: Int
+        $before: String
+      ) {
+        account(login: $login, vcsProvider: $vcsProvider) {
+          suppressedIssues(first: $first, after: $after, last: $last, before: $before) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              startCursor
+              endCursor
+            }
+            edges {
+              node {
+                id
+                createdAt
+                user {
+                  email
+                }
+                issue {
+                  shortcode
+                  title
+                  analyzer {
+                    shortcode
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Builds the GraphQL mutation for suppressing or unsuppressing an issue for a team
+   * @private
+   */
+  private static buildSuppressionMutation(
+    mutationName: 'suppressIssueForTeam' | 'unsuppressIssueForTeam'
+  ): string {
+    const inputType =
+      mutationName === 'suppressIssueForTeam'
+        ? 'SuppressIssueForTeamInput'
+        : 'UnsuppressIssueForTeamInput';
+
+    return `
+      mutation ${mutationName}($input: ${inputType}!) {
+        ${mutationName}(input: $input) {
+          ok
+        }
+      }
+    `;
+  }
+}
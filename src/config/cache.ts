@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Persistent cache configuration for the DeepSource MCP server
+ *
+ * API responses can be kept in an on-disk store that survives restarts. In
+ * offline mode the server never contacts DeepSource and answers every tool
+ * call from that store instead. Offline mode is selected with the `--offline`
+ * CLI flag or an environment variable, and always enables the store.
+ *
+ * @packageDocumentation
+ */
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Persistent cache configuration
+ */
+export interface CacheStoreConfig {
+  /** Whether API responses are kept in the on-disk store */
+  persistent: boolean;
+  /** Directory of the on-disk store */
+  directory: string;
+  /** Whether every request is answered from the store without contacting DeepSource */
+  offline: boolean;
+}
+
+/**
+ * Default directory of the on-disk store
+ */
+export const DEFAULT_CACHE_DIR = join(homedir(), '.cache', 'deepsource-mcp-server');
+
+/**
+ * Gets the persistent cache configuration from CLI arguments and environment variables
+ *
+ * CLI flags: `--offline`.
+ * Environment variables: `CACHE_PERSIST`, `CACHE_DIR` and `DEEPSOURCE_OFFLINE`.
+ *
+ * @param args - CLI arguments (defaults to the process arguments)
+ * @param env - Environment variables (defaults to the process environment)
+ * @returns The persistent cache configuration
+ *
+ * @example
+ * ```typescript
+ * const { offline, directory } = getCacheStoreConfig(['--offline']);
+ * ```
+ */
+export function getCacheStoreConfig(
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): CacheStoreConfig {
+  const offline = args.includes('--offline') || env.DEEPSOURCE_OFFLINE === 'true';
+
+  return {
+    persistent: offline || env.CACHE_PERSIST === 'true',
+    directory: env.CACHE_DIR || DEFAULT_CACHE_DIR,
+    offline,
+  };
+}
+
+/**
+ * Checks whether the server runs in offline mode
+ * @returns True if requests are answered from the on-disk store only
+ */
+export function isOfflineMode(): boolean {
+  return getCacheStoreConfig().offline;
+}
@@ -18,7 +18,7 @@ export interface FeatureFlags {
   enhancedLogging: boolean;
   /** Enable metrics collection and reporting */
   metrics: boolean;
-  /** Enable caching layer for API responses (future) */
+  /** Enable caching layer for API responses */
   cache: boolean;
 }
 
@@ -5,6 +5,7 @@
 
 import { createLogger } from '../utils/logging/logger.js';
 import { MCPErrorFactory } from '../utils/error-handling/index.js';
+import { getRequestContext } from '../utils/request-context.js';
 
 const logger = createLogger('DeepSourceMCP:Config');
 
@@ -115,18 +116,27 @@ export function getConfig(): DeepSourceConfig {
 
 /**
  * Checks if the API key is configured
- * @returns True if API key is set
+ * @returns True if the current request brings its own API key or one is set in the environment
  */
 export function hasApiKey(): boolean {
-  return Boolean(process.env.DEEPSOURCE_API_KEY);
+  return Boolean(getRequestContext()?.apiKey || process.env.DEEPSOURCE_API_KEY);
 }
 
 /**
  * Gets the API key from configuration
+ *
+ * The API key of the current request context, if any, takes precedence over
+ * the `DEEPSOURCE_API_KEY` environment variable.
+ *
  * @returns The API key
  * @throws MCPError if API key is not set
  */
 export function getApiKey(): string {
+  const requestApiKey = getRequestContext()?.apiKey;
+  if (requestApiKey) {
+    return requestApiKey;
+  }
+
   logger.debug('getApiKey() called', {
     hasEnvVar: Boolean(process.env.DEEPSOURCE_API_KEY),
     envVarLength: process.env.DEEPSOURCE_API_KEY?.length,
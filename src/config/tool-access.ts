@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Tool access configuration for the DeepSource MCP server
+ *
+ * Deployments can restrict which tools the server exposes: a read-only mode
+ * that only registers tools which do not change DeepSource settings, plus
+ * allow and deny lists by tool name, category and tag. The lists accept the
+ * `ToolCategory` and `ToolTag` values from `config/default.ts` as well as the
+ * categories and tags of the built-in tools.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Tool access configuration
+ */
+export interface ToolAccessConfig {
+  /** Whether only tools annotated as read-only are registered */
+  readOnly: boolean;
+  /** Tool names to allow */
+  allowTools: string[];
+  /** Tool names to deny */
+  denyTools: string[];
+  /** Tool categories to allow, such as `ToolCategory` values */
+  allowCategories: string[];
+  /** Tool categories to deny, such as `ToolCategory` values */
+  denyCategories: string[];
+  /** Tool tags to allow, such as `ToolTag` values */
+  allowTags: string[];
+  /** Tool tags to deny, such as `ToolTag` values */
+  denyTags: string[];
+}
+
+/**
+ * Default tool access configuration, which allows every tool
+ */
+export const DEFAULT_TOOL_ACCESS_CONFIG: ToolAccessConfig = {
+  readOnly: false,
+  allowTools: [],
+  denyTools: [],
+  allowCategories: [],
+  denyCategories: [],
+  allowTags: [],
+  denyTags: [],
+};
+
+/**
+ * Parses a comma-separated list setting
+ * @param value - The raw setting value
+ * @returns The trimmed, non-empty entries
+ * @private
+ */
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Gets the tool access configuration from CLI arguments and environment variables
+ *
+ * CLI flags: `--read-only`.
+ * Environment variables: `DEEPSOURCE_READ_ONLY`, and the comma-separated
+ * lists `DEEPSOURCE_TOOLS_ALLOW`, `DEEPSOURCE_TOOLS_DENY`,
+ * `DEEPSOURCE_TOOL_CATEGORIES_ALLOW`, `DEEPSOURCE_TOOL_CATEGORIES_DENY`,
+ * `DEEPSOURCE_TOOL_TAGS_ALLOW` and `DEEPSOURCE_TOOL_TAGS_DENY`.
+ *
+ * @param args - CLI arguments (defaults to the process arguments)
+ * @param env - Environment variables (defaults to the process environment)
+ * @returns The tool access configuration
+ *
+ * @example
+ * ```typescript
+ * const { readOnly } = getToolAccessConfig(['--read-only']);
+ * ```
+ */
+export function getToolAccessConfig(
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ToolAccessConfig {
+  return {
+    readOnly: args.includes('--read-only') || env.DEEPSOURCE_READ_ONLY === 'true',
+    allowTools: parseList(env.DEEPSOURCE_TOOLS_ALLOW),
+    denyTools: parseList(env.DEEPSOURCE_TOOLS_DENY),
+    allowCategories: parseList(env.DEEPSOURCE_TOOL_CATEGORIES_ALLOW),
+    denyCategories: parseList(env.DEEPSOURCE_TOOL_CATEGORIES_DENY),
+    allowTags: parseList(env.DEEPSOURCE_TOOL_TAGS_ALLOW),
+    denyTags: parseList(env.DEEPSOURCE_TOOL_TAGS_DENY),
+  };
+}
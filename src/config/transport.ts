@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Transport configuration for the DeepSource MCP server
+ *
+ * The server speaks MCP over stdio by default. It can instead serve the
+ * Streamable HTTP transport so that one shared instance can be used by
+ * many clients. The transport is selected with CLI flags, which take
+ * precedence over environment variables.
+ *
+ * @packageDocumentation
+ */
+
+import { MCPErrorFactory } from '../utils/error-handling/index.js';
+
+/**
+ * Supported transport modes
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Streamable HTTP transport configuration
+ */
+export interface HttpTransportConfig {
+  /** Host or interface to bind to */
+  host: string;
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Path of the MCP endpoint */
+  endpoint: string;
+  /** Idle time after which a session is closed, in milliseconds (0 disables) */
+  sessionIdleTimeoutMs: number;
+  /** Time to wait for open connections on shutdown, in milliseconds */
+  shutdownTimeoutMs: number;
+  /**
+   * Whether every session must bring its own API key in the Authorization
+   * header. When false, sessions without a key use `DEEPSOURCE_API_KEY`.
+   */
+  requireApiKey: boolean;
+}
+
+/**
+ * Transport configuration
+ */
+export interface TransportConfig {
+  /** Transport mode */
+  mode: TransportMode;
+  /** Streamable HTTP settings, used when mode is 'http' */
+  http: HttpTransportConfig;
+}
+
+/**
+ * Default Streamable HTTP transport configuration
+ */
+export const DEFAULT_HTTP_TRANSPORT_CONFIG: HttpTransportConfig = {
+  host: '127.0.0.1',
+  port: 3000,
+  endpoint: '/mcp',
+  sessionIdleTimeoutMs: 30 * 60 * 1000,
+  shutdownTimeoutMs: 10000,
+  requireApiKey: true,
+};
+
+/**
+ * Reads the value of a CLI flag given as `--flag value` or `--flag=value`
+ * @param args - The CLI arguments
+ * @param flag - The flag name including the leading dashes
+ * @returns The flag value, if present
+ * @private
+ */
+function getFlagValue(args: string[], flag: string): string | undefined {
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === flag) {
+      return args[index + 1];
+    }
+    if (arg?.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a non-negative integer setting
+ * @param value - The raw value
+ * @param name - The flag or environment variable the value came from
+ * @param fallback - The value to use when unset
+ * @returns The parsed integer
+ * @throws MCPError if the value is not a non-negative integer
+ * @private
+ */
+function parseInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw MCPErrorFactory.configuration(`${name} must be a non-negative integer`, {
+      provided: value,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Gets the transport configuration from CLI arguments and environment variables
+ *
+ * CLI flags: `--transport <stdio|http>`, `--host <host>`, `--port <port>`.
+ * Environment variables: `MCP_TRANSPORT`, `MCP_HTTP_HOST`, `MCP_HTTP_PORT`,
+ * `MCP_HTTP_ENDPOINT`, `MCP_HTTP_SESSION_IDLE_TIMEOUT_MS`,
+ * `MCP_HTTP_SHUTDOWN_TIMEOUT_MS` and `MCP_HTTP_REQUIRE_API_KEY`.
+ *
+ * @param args - CLI arguments (defaults to the process arguments)
+ * @param env - Environment variables (defaults to the process environment)
+ * @returns The transport configuration
+ * @throws MCPError if a setting is invalid
+ *
+ * @example
+ * ```typescript
+ * const { mode, http } = getTransportConfig(['--transport', 'http', '--port', '8080']);
+ * ```
+ */
+export function getTransportConfig(
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const mode = (getFlagValue(args, '--transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw MCPErrorFactory.configuration(`Unsupported transport: ${mode}`, {
+      supportedTransports: ['stdio', 'http'],
+      environmentVariable: 'MCP_TRANSPORT',
+    });
+  }
+
+  const endpoint = env.MCP_HTTP_ENDPOINT || DEFAULT_HTTP_TRANSPORT_CONFIG.endpoint;
+  if (!endpoint.startsWith('/')) {
+    throw MCPErrorFactory.configuration('MCP_HTTP_ENDPOINT must start with /', {
+      provided: endpoint,
+    });
+  }
+
+  const port = parseInteger(
+    getFlagValue(args, '--port') ?? env.MCP_HTTP_PORT,
+    'MCP_HTTP_PORT',
+    DEFAULT_HTTP_TRANSPORT_CONFIG.port
+  );
+  if (port > 65535) {
+    throw MCPErrorFactory.configuration('MCP_HTTP_PORT must be at most 65535', {
+      provided: port,
+    });
+  }
+
+  return {
+    mode,
+    http: {
+      host: getFlagValue(args, '--host') ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_TRANSPORT_CONFIG.host,
+      port,
+      endpoint,
+      sessionIdleTimeoutMs: parseInteger(
+        env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS,
+        'MCP_HTTP_SESSION_IDLE_TIMEOUT_MS',
+        DEFAULT_HTTP_TRANSPORT_CONFIG.sessionIdleTimeoutMs
+      ),
+      shutdownTimeoutMs: parseInteger(
+        env.MCP_HTTP_SHUTDOWN_TIMEOUT_MS,
+        'MCP_HTTP_SHUTDOWN_TIMEOUT_MS',
+        DEFAULT_HTTP_TRANSPORT_CONFIG.shutdownTimeoutMs
+      ),
+      // Sessions only share the process API key when explicitly allowed
+      requireApiKey: env.MCP_HTTP_REQUIRE_API_KEY !== 'false',
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, AxiosResponse } from 'axios';
 import { createLogger } from './utils/logger.js';
 import { ErrorCategory, createClassifiedError, classifyGraphQLError } from './utils/errors.js';
 import { RunChecksProcessor } from './utils/graphql/processors/run-checks-processor.js';
@@ -30,6 +30,22 @@ import {
   BranchName,
   AnalyzerShortcode,
 } from './types/branded.js';
+import type { RepositoryTarget } from './models/security.js';
+import { attachResponseCache, createCacheNamespace } from './utils/cache/response-cache.js';
+import { BatchLoader } from './utils/batching/batch-loader.js';
+import { attachRequestCoalescing } from './utils/batching/request-coalescing.js';
+import { attachAbortSignal } from './utils/cancellation.js';
+import { mapWithConcurrency } from './utils/batching/parallel.js';
+import { executeWithRetry } from './utils/retry/retry-executor.js';
+import { RetryAfterGate } from './utils/retry/retry-after-gate.js';
+import { extractRetryAfterHeader } from './utils/errors/handlers.js';
+import { reportProgress } from './utils/progress.js';
+import {
+  PersistentStore,
+  StoredEntityKind,
+  attachPersistentStore,
+  recordDataAge,
+} from './utils/cache/persistent-store.js';
 
 /**
  * @fileoverview DeepSource API client for interacting with the DeepSource service.
@@ -53,6 +69,7 @@ export type {
   MetricHistoryParams,
   MetricHistoryResponse,
   MetricHistoryValue,
+  RepositoryTarget,
 };
 
 /**
@@ -408,6 +425,8 @@ export interface VulnerabilityOccurrence {
   reachability: VulnerabilityReachability;
   /** Whether and how the vulnerability can be fixed */
   fixability: VulnerabilityFixability;
+  /** The dependency target (manifest and lockfile) matched to the package's ecosystem, if any */
+  target?: RepositoryTarget;
 }
 
 /**
@@ -493,12 +512,50 @@ export class DeepSourceClient {
    */
   private logger = createLogger('DeepSourceClient');
 
+  /**
+   * Separates the cached and stored data of different API keys
+   * @private
+   */
+  private readonly cacheNamespace: string;
+
+  /**
+   * On-disk store of API data, or null if persistence is disabled
+   * @private
+   */
+  private readonly store = PersistentStore.getInstance();
+
+  /**
+   * Resolves project keys with one project list fetch per batch. Projects are
+   * not kept, as clients may live long enough for the project list to change.
+   * @private
+   */
+  private readonly projectLoader = new BatchLoader<string, DeepSourceProject>(
+    async (keys) => {
+      const projects = await this.listProjects();
+      return new Map(
+        projects
+          .filter((project) => keys.includes(project.key))
+          .map((project) => [project.key, project])
+      );
+    },
+    { cache: false }
+  );
+
   /**
    * Static logger for static methods
    * @private
    */
   private static logger = createLogger('DeepSourceClient:static');
 
+  /**
+   * Maximum number of checks whose occurrences are fetched at the same time
+   * @private
+   */
+  private static readonly occurrenceFetchConcurrency = parseInt(
+    process.env.RUN_ISSUES_CONCURRENCY || '4',
+    10
+  );
+
   /**
    * Creates a new DeepSourceClient instance
    * @param apiKey - The DeepSource API key for authentication
@@ -518,6 +575,76 @@ export class DeepSourceClient {
         Authorization: `Bearer ${apiKey}`,
       },
     });
+    this.cacheNamespace = createCacheNamespace(apiKey);
+    attachAbortSignal(this.client);
+    attachRequestCoalescing(this.client);
+    attachPersistentStore(this.client, this.cacheNamespace);
+    attachResponseCache(this.client, this.cacheNamespace);
+  }
+
+  /**
+   * Finds a project by its key
+   *
+   * Lookups made at the same time share one project list fetch, so that
+   * validating several projects costs a single round trip.
+   *
+   * @param projectKey - The project key to find
+   * @returns The project, or undefined if the key is unknown
+   * @private
+   */
+  private async findProject(projectKey: string): Promise<DeepSourceProject | undefined> {
+    return this.projectLoader.load(projectKey);
+  }
+
+  /**
+   * Keeps normalized entities in the persistent store while online
+   * @param kind - The kind of entity
+   * @param entities - The entities to keep
+   * @param getIds - Returns the identifiers an entity can be looked up by
+   * @private
+   */
+  private async storeEntities<T>(
+    kind: StoredEntityKind,
+    entities: T[],
+    getIds: (entity: T) => string[]
+  ): Promise<void> {
+    if (this.store && !this.store.offline) {
+      await this.store.putEntities(this.cacheNamespace, kind, entities, getIds);
+    }
+  }
+
+  /**
+   * Looks up a stored entity in offline mode
+   * @param kind - The kind of entity
+   * @param id - The entity identifier
+   * @returns The stored entity, or null when online or if it is not stored
+   * @private
+   */
+  private async findStoredEntity<T>(kind: StoredEntityKind, id: string): Promise<T | null> {
+    if (!this.store?.offline) {
+      return null;
+    }
+    const record = await this.store.getEntity<T>(this.cacheNamespace, kind, id);
+    if (!record) {
+      return null;
+    }
+    recordDataAge(record.storedAt);
+    return record.value;
+  }
+
+  /**
+   * Lists the stored entities of a kind in offline mode
+   * @param kind - The kind of entity
+   * @returns The stored entities, or an empty array when online
+   * @private
+   */
+  private async listStoredEntities<T>(kind: StoredEntityKind): Promise<T[]> {
+    if (!this.store?.offline) {
+      return [];
+    }
+    const records = await this.store.listEntities<T>(this.cacheNamespace, kind);
+    records.forEach((record) => recordDataAge(record.storedAt));
+    return records.map((record) => record.value);
   }
 
   /**
@@ -920,11 +1047,16 @@ export class DeepSourceClient {
         }
       }
 
+      await this.storeEntities('projects', allRepos, (project) => [project.key]);
       return allRepos;
     } catch (error) {
       if (DeepSourceClient.isErrorWithMessage(error, 'NoneType')) {
         return [];
       }
+      const storedProjects = await this.listStoredEntities<DeepSourceProject>('projects');
+      if (storedProjects.length > 0) {
+        return storedProjects;
+      }
       return DeepSourceClient.handleGraphQLError(error);
     }
   }
@@ -957,8 +1089,7 @@ export class DeepSourceClient {
     params: IssueFilterParams = {}
   ): Promise<PaginatedResponse<DeepSourceIssue>> {
     try {
-      const projects = await this.listProjects();
-      const project = projects.find((p) => p.key === projectKey);
+      const project = await this.findProject(projectKey);
 
       if (!project) {
         return DeepSourceClient.createEmptyPaginatedResponse<DeepSourceIssue>();
@@ -971,7 +1102,7 @@ export class DeepSourceClient {
       // with complex GraphQL query structure. The benefits of converting to string
       // concatenation would be outweighed by reduced readability
       const repoQuery =
-        'query($login: String!, $name: String!, $provider: VCSProvider!, $offset: Int, $first: Int, $after: String, $before: String, $last: Int, $path: String, $analyzerIn: [String], $tags: [String]) {\n          repository(login: $login, name: $name, vcsProvider: $provider) {\n            name\n            defaultBranch\n            dsn\n            isPrivate\n            issues(offset: $offset, first: $first, after: $after, before: $before, last: $last, path: $path, analyzerIn: $analyzerIn, tags: $tags) {\n              pageInfo {\n                hasNextPage\n                hasPreviousPage\n                startCursor\n                endCursor\n              }\n              totalCount\n              edges {\n                node {\n                  id\n                  issue {\n                    shortcode\n                    title\n                    category\n                    severity\n                    description\n                    tags\n                  }\n                  occurrences(first: 100) {\n                    edges {\n                      node {\n                        id\n                        path\n                        beginLine\n                        endLine\n                        beginColumn\n                        endColumn\n                        title\n                      }\n                    }\n                  }\n                }\n              }\n            }\n          }\n        }\n';
+        'query getRepositoryIssues($login: String!, $name: String!, $provider: VCSProvider!, $offset: Int, $first: Int, $after: String, $before: String, $last: Int, $path: String, $analyzerIn: [String], $tags: [String]) {\n          repository(login: $login, name: $name, vcsProvider: $provider) {\n            name\n            defaultBranch\n            dsn\n            isPrivate\n            issues(offset: $offset, first: $first, after: $after, before: $before, last: $last, path: $path, analyzerIn: $analyzerIn, tags: $tags) {\n              pageInfo {\n                hasNextPage\n                hasPreviousPage\n                startCursor\n                endCursor\n              }\n              totalCount\n              edges {\n                node {\n                  id\n                  issue {\n                    shortcode\n                    title\n                    category\n                    severity\n                    description\n                    tags\n                  }\n                  occurrences(first: 100) {\n                    edges {\n                      node {\n                        id\n                        path\n                        beginLine\n                        endLine\n                        beginColumn\n                        endColumn\n                        title\n                      }\n                    }\n                  }\n                }\n              }\n            }\n          }\n        }\n';
 
       const response = await this.client.post('', {
         query: repoQuery.trim(),
@@ -1021,6 +1152,8 @@ export class DeepSourceClient {
         }
       }
 
+      await this.storeEntities('issues', issues, (issue) => [`${projectKey}:${issue.id}`]);
+
       return {
         items: issues,
         pageInfo: {
@@ -1056,6 +1189,14 @@ export class DeepSourceClient {
    */
   async getIssue(projectKey: string, issueId: string): Promise<DeepSourceIssue | null> {
     try {
+      const storedIssue = await this.findStoredEntity<DeepSourceIssue>(
+        'issues',
+        `${projectKey}:${issueId}`
+      );
+      if (storedIssue) {
+        return storedIssue;
+      }
+
       const result = await this.getIssues(projectKey);
       const issue = result.items.find((issue) => issue.id === issueId);
       return issue || null;
@@ -1081,8 +1222,7 @@ export class DeepSourceClient {
     params: RunFilterParams = {}
   ): Promise<PaginatedResponse<DeepSourceRun>> {
     try {
-      const projects = await this.listProjects();
-      const project = projects.find((p) => p.key === projectKey);
+      const project = await this.findProject(projectKey);
 
       if (!project) {
         return DeepSourceClient.createEmptyPaginatedResponse<DeepSourceRun>();
@@ -1092,7 +1232,7 @@ export class DeepSourceClient {
       const normalizedParams = DeepSourceClient.normalizePaginationParams(params);
 
       const repoQuery =
-        'query($login: String!, $name: String!, $provider: VCSProvider!, $offset: Int, $first: Int, $after: String, $before: String, $last: Int, $analyzerIn: [String]) {\n          repository(login: $login, name: $name, vcsProvider: $provider) {\n            name\n            id\n            analysisRuns(offset: $offset, first: $first, after: $after, before: $before, last: $last) {\n              pageInfo {\n                hasNextPage\n                hasPreviousPage\n                startCursor\n                endCursor\n              }\n              totalCount\n              edges {\n                node {\n                  id\n                  runUid\n                  commitOid\n                  branchName\n                  baseOid\n                  status\n                  createdAt\n                  updatedAt\n                  finishedAt\n                  summary {\n                    occurrencesIntroduced\n                    occurrencesResolved\n                    occurrencesSuppressed\n                    occurrenceDistributionByAnalyzer {\n                      analyzerShortcode\n                      introduced\n                    }\n                    occurrenceDistributionByCategory {\n                      category\n                      introduced\n                    }\n                  }\n                  repository {\n                    name\n                    id\n                  }\n                  checks(analyzerIn: $analyzerIn) {\n                    edges {\n                      node {\n                        analyzer {\n                          shortcode\n                        }\n                      }\n                    }\n                  }\n                }\n              }\n            }\n          }\n        }\n';
+        'query getRepositoryRuns($login: String!, $name: String!, $provider: VCSProvider!, $offset: Int, $first: Int, $after: String, $before: String, $last: Int, $analyzerIn: [String]) {\n          repository(login: $login, name: $name, vcsProvider: $provider) {\n            name\n            id\n            analysisRuns(offset: $offset, first: $first, after: $after, before: $before, last: $last) {\n              pageInfo {\n                hasNextPage\n                hasPreviousPage\n                startCursor\n                endCursor\n              }\n              totalCount\n              edges {\n                node {\n                  id\n                  runUid\n                  commitOid\n                  branchName\n                  baseOid\n                  status\n                  createdAt\n                  updatedAt\n                  finishedAt\n                  summary {\n                    occurrencesIntroduced\n                    occurrencesResolved\n                    occurrencesSuppressed\n                    occurrenceDistributionByAnalyzer {\n                      analyzerShortcode\n                      introduced\n                    }\n                    occurrenceDistributionByCategory {\n                      category\n                      introduced\n                    }\n                  }\n                  repository {\n                    name\n                    id\n                  }\n                  checks(analyzerIn: $analyzerIn) {\n                    edges {\n                      node {\n                        analyzer {\n                          shortcode\n                        }\n                      }\n                    }\n                  }\n                }\n              }\n            }\n          }\n        }\n';
 
       const response = await this.client.post('', {
         query: repoQuery.trim(),
@@ -1153,6 +1293,8 @@ export class DeepSourceClient {
         });
       }
 
+      await this.storeEntities('runs', runs, (run) => [run.runUid, run.commitOid]);
+
       return {
         items: runs,
         pageInfo: {
@@ -1188,13 +1330,18 @@ export class DeepSourceClient {
    */
   async getRun(runIdentifier: string): Promise<DeepSourceRun | null> {
     try {
+      const storedRun = await this.findStoredEntity<DeepSourceRun>('runs', runIdentifier);
+      if (storedRun) {
+        return storedRun;
+      }
+
       // Determine if the identifier is a UUID or a commit hash
       const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
         runIdentifier
       );
 
       const runQuery =
-        'query($runUid: UUID, $commitOid: String) {\n          run(runUid: $runUid, commitOid: $commitOid) {\n            id\n            runUid\n            commitOid\n            branchName\n            baseOid\n            status\n            createdAt\n            updatedAt\n            finishedAt\n            summary {\n              occurrencesIntroduced\n              occurrencesResolved\n              occurrencesSuppressed\n              occurrenceDistributionByAnalyzer {\n                analyzerShortcode\n                introduced\n              }\n              occurrenceDistributionByCategory {\n                category\n                introduced\n              }\n            }\n            repository {\n              name\n              id\n            }\n          }\n        }\n';
+        'query getRun($runUid: UUID, $commitOid: String) {\n          run(runUid: $runUid, commitOid: $commitOid) {\n            id\n            runUid\n            commitOid\n            branchName\n            baseOid\n            status\n            createdAt\n            updatedAt\n            finishedAt\n            summary {\n              occurrencesIntroduced\n              occurrencesResolved\n              occurrencesSuppressed\n              occurrenceDistributionByAnalyzer {\n                analyzerShortcode\n                introduced\n              }\n              occurrenceDistributionByCategory {\n                category\n                introduced\n              }\n            }\n            repository {\n              name\n              id\n            }\n          }\n        }\n';
 
       const response = await this.client.post('', {
         query: runQuery.trim(),
@@ -1224,7 +1371,7 @@ export class DeepSourceClient {
         return null;
       }
 
-      return {
+      const result: DeepSourceRun = {
         id: asGraphQLNodeId(run.id),
         runUid: asRunId(run.runUid),
         commitOid: asCommitOid(run.commitOid),
@@ -1250,6 +1397,12 @@ export class DeepSourceClient {
           id: asGraphQLNodeId(run.repository?.id ?? ''),
         },
       };
+
+      await this.storeEntities('runs', [result], (storedRun) => [
+        storedRun.runUid,
+        storedRun.commitOid,
+      ]);
+      return result;
     } catch (error) {
       if (
         DeepSourceClient.isError(error) &&
@@ -1306,8 +1459,7 @@ export class DeepSourceClient {
    * @private
    */
   private async validateProject(projectKey: string): Promise<void> {
-    const projects = await this.listProjects();
-    const project = projects.find((p) => p.key === projectKey);
+    const project = await this.findProject(projectKey);
 
     if (!project) {
       this.logger.error(`Project with key ${projectKey} not found`);
@@ -1320,7 +1472,7 @@ export class DeepSourceClient {
    * @private
    */
   private static getChecksQuery = `
-    query($runId: UUID!, $first: Int, $after: String) {
+    query getRunChecks($runId: UUID!, $first: Int, $after: String) {
       run(runUid: $runId) {
         checks(first: $first, after: $after) {
           pageInfo {
@@ -1345,7 +1497,7 @@ export class DeepSourceClient {
    * @private
    */
   private static getOccurrencesQuery = `
-    query($checkId: ID!, $first: Int, $after: String) {
+    query getCheckOccurrences($checkId: ID!, $first: Int, $after: String) {
       node(id: $checkId) {
         ... on Check {
           id
@@ -1376,12 +1528,45 @@ export class DeepSourceClient {
     }
   `;
 
+  /**
+   * Posts a query of the run issues path, retrying transient failures
+   *
+   * Retries draw on the shared retry budget. A Retry-After answer to any of
+   * the requests made in parallel pauses all of them through the gate.
+   *
+   * @param body - The GraphQL request body
+   * @param gate - The gate shared by the parallel requests
+   * @returns The response
+   * @private
+   */
+  private async postWithRetry(
+    body: { query: string; variables: Record<string, unknown> },
+    gate: RetryAfterGate
+  ): Promise<AxiosResponse> {
+    const result = await executeWithRetry(
+      async () => {
+        await gate.wait();
+        return this.client.post('', body);
+      },
+      {
+        endpoint: 'recent_run_issues',
+        extractRetryAfter: (error) => gate.pause(extractRetryAfterHeader(error)),
+      }
+    );
+
+    if (result.success && result.data) {
+      return result.data;
+    }
+    throw result.error ?? new Error('Unknown error after retries');
+  }
+
   /**
    * Fetches all checks for a run
    * @private
    */
   private async fetchAllChecks(
-    runId: string
+    runId: string,
+    gate: RetryAfterGate
   ): Promise<Array<{ id: string; analyzerShortcode: string }>> {
     const allChecks: Array<{ id: string; analyzerShortcode: string }> = [];
     const checksPerPage = 50;
@@ -1389,14 +1574,17 @@ export class DeepSourceClient {
     let hasMoreChecks = true;
 
     while (hasMoreChecks) {
-      const checksResponse = await this.client.post('', {
-        query: DeepSourceClient.getChecksQuery.trim(),
-        variables: {
-          runId,
-          first: checksPerPage,
-          after: checksCursor,
+      const checksResponse = await this.postWithRetry(
+        {
+          query: DeepSourceClient.getChecksQuery.trim(),
+          variables: {
+            runId,
+            first: checksPerPage,
+            after: checksCursor,
+          },
         },
-      });
+        gate
+      );
 
       if (checksResponse.data.errors) {
         const errorMessage = DeepSourceClient.extractErrorMessages(checksResponse.data.errors);
@@ -1448,21 +1636,27 @@ export class DeepSourceClient {
    * Fetches all occurrences for a single check
    * @private
    */
-  private async fetchOccurrencesForCheck(checkId: string): Promise<DeepSourceIssue[]> {
+  private async fetchOccurrencesForCheck(
+    checkId: string,
+    gate: RetryAfterGate
+  ): Promise<DeepSourceIssue[]> {
     const issues: DeepSourceIssue[] = [];
     const occurrencesPerPage = 100;
     let occurrencesCursor: string | undefined;
     let hasMoreOccurrences = true;
 
     while (hasMoreOccurrences) {
-      const occurrencesResponse = await this.client.post('', {
-        query: DeepSourceClient.getOccurrencesQuery.trim(),
-        variables: {
-          checkId,
-          first: occurrencesPerPage,
-          after: occurrencesCursor,
+      const occurrencesResponse = await this.postWithRetry(
+        {
+          query: DeepSourceClient.getOccurrencesQuery.trim(),
+          variables: {
+            checkId,
+            first: occurrencesPerPage,
+            after: occurrencesCursor,
+          },
         },
-      });
+        gate
+      );
 
       if (occurrencesResponse.data.errors) {
         const errorMessage = DeepSourceClient.extractErrorMessages(occurrencesResponse.data.errors);
@@ -1521,15 +1715,29 @@ export class DeepSourceClient {
       this.logger.debug(`Found most recent run: ${mostRecentRun.runUid} for branch: ${branchName}`);
 
       // Fetch all checks for the run
-      const allChecks = await this.fetchAllChecks(mostRecentRun.runUid);
+      const gate = new RetryAfterGate();
+      const allChecks = await this.fetchAllChecks(mostRecentRun.runUid, gate);
       this.logger.debug(`Found ${allChecks.length} checks for run ${mostRecentRun.runUid}`);
 
-      // Fetch all issues from all checks
-      const allIssues: DeepSourceIssue[] = [];
-      for (const check of allChecks) {
-        const checkIssues = await this.fetchOccurrencesForCheck(check.id);
-        allIssues.push(...checkIssues);
-      }
+      // Fetch the issues of the checks in parallel, reporting each finished check
+      let completedChecks = 0;
+      let fetchedIssues = 0;
+      const issuesByCheck = await mapWithConcurrency(
+        allChecks,
+        DeepSourceClient.occurrenceFetchConcurrency,
+        async (check) => {
+          const checkIssues = await this.fetchOccurrencesForCheck(check.id, gate);
+          completedChecks++;
+          fetchedIssues += checkIssues.length;
+          await reportProgress({
+            progress: completedChecks,
+            total: allChecks.length,
+            message: `Fetched ${checkIssues.length} issues from ${check.analyzerShortcode} (${fetchedIssues} issues so far)`,
+          });
+          return checkIssues;
+        }
+      );
+      const allIssues = issuesByCheck.flat();
 
       this.logger.debug(
         `Retrieved ${allIssues.length} total issues from run ${mostRecentRun.runUid}`
@@ -2311,7 +2519,7 @@ export class DeepSourceClient {
    * @private
    */
   private static buildVulnerabilityQuery(): string {
-    return 'query($login: String!, $name: String!, $provider: VCSProvider!, $offset: Int, $first: Int, $after: String, $before: String, $last: Int) {\n        repository(login: $login, name: $name, vcsProvider: $provider) {\n          name\n          id\n          dependencyVulnerabilityOccurrences(offset: $offset, first: $first, after: $after, before: $before, last: $last) {\n            pageInfo {\n              hasNextPage\n              hasPreviousPage\n              startCursor\n              endCursor\n            }\n            totalCount\n            edges {\n              node {\n                id\n                reachability\n                fixability\n                package {\n                  id\n                  ecosystem\n                  name\n                  purl\n                }\n                packageVersion {\n                  id\n                  version\n                  versionType\n                }\n                vulnerability {\n                  id\n                  identifier\n                  aliases\n                  summary\n                  details\n                  publishedAt\n                  updatedAt\n                  withdrawnAt\n                  severity\n                  cvssV2Vector\n                  cvssV2BaseScore\n                  cvssV2Severity\n                  cvssV3Vector\n                  cvssV3BaseScore\n                  cvssV3Severity\n                  cvssV4Vector\n                  cvssV4BaseScore\n                  cvssV4Severity\n                  epssScore\n                  epssPercentile\n                  introducedVersions\n                  fixedVersions\n                  referenceUrls\n                }\n              }\n            }\n          }\n        }\n      }\n'.trim();
+    return 'query getDependencyVulnerabilities($login: String!, $name: String!, $provider: VCSProvider!, $offset: Int, $first: Int, $after: String, $before: String, $last: Int) {\n        repository(login: $login, name: $name, vcsProvider: $provider) {\n          name\n          id\n          dependencyVulnerabilityOccurrences(offset: $offset, first: $first, after: $after, before: $before, last: $last) {\n            pageInfo {\n              hasNextPage\n              hasPreviousPage\n              startCursor\n              endCursor\n            }\n            totalCount\n            edges {\n              node {\n                id\n                reachability\n                fixability\n                package {\n                  id\n                  ecosystem\n                  name\n                  purl\n                }\n                packageVersion {\n                  id\n                  version\n                  versionType\n                }\n                vulnerability {\n                  id\n                  identifier\n                  aliases\n                  summary\n                  details\n                  publishedAt\n                  updatedAt\n                  withdrawnAt\n                  severity\n                  cvssV2Vector\n                  cvssV2BaseScore\n                  cvssV2Severity\n                  cvssV3Vector\n                  cvssV3BaseScore\n                  cvssV3Severity\n                  cvssV4Vector\n                  cvssV4BaseScore\n                  cvssV4Severity\n                  epssScore\n                  epssPercentile\n                  introducedVersions\n                  fixedVersions\n                  referenceUrls\n                }\n              }\n            }\n          }\n        }\n      }\n'.trim();
   }
 
   /**
@@ -2444,13 +2652,11 @@ export class DeepSourceClient {
       DeepSourceClient.validateProjectKey(projectKey);
 
       // Use Promise.all to fetch projects and normalize parameters concurrently
-      const [projects, normalizedParams] = await Promise.all([
-        this.listProjects(),
+      const [project, normalizedParams] = await Promise.all([
+        this.findProject(projectKey),
         Promise.resolve(DeepSourceClient.normalizePaginationParams(params)),
       ]);
 
-      const project = projects.find((p) => p.key === projectKey);
-
       if (!project) {
         return DeepSourceClient.createEmptyPaginatedResponse<VulnerabilityOccurrence>();
       }
@@ -2552,8 +2758,7 @@ export class DeepSourceClient {
       DeepSourceClient.validateProjectKey(projectKey);
 
       // Fetch project information
-      const projects = await this.listProjects();
-      const project = projects.find((p) => p.key === projectKey);
+      const project = await this.findProject(projectKey);
 
       if (!project) {
         return [];
@@ -2564,7 +2769,7 @@ export class DeepSourceClient {
 
       // Build the metrics query
       const metricsQuery =
-        'query($login: String!, $name: String!, $provider: VCSProvider!, $shortcodeIn: [MetricShortcode]) {\n          repository(login: $login, name: $name, vcsProvider: $provider) {\n            name\n            id\n            metrics(shortcodeIn: $shortcodeIn) {\n              name\n              shortcode\n              description\n              positiveDirection\n              unit\n              minValueAllowed\n              maxValueAllowed\n              isReported\n              isThresholdEnforced\n              items {\n                id\n                key\n                threshold\n                latestValue\n                latestValueDisplay\n                thresholdStatus\n              }\n            }\n          }\n        }\n';
+        'query getQualityMetrics($login: String!, $name: String!, $provider: VCSProvider!, $shortcodeIn: [MetricShortcode]) {\n          repository(login: $login, name: $name, vcsProvider: $provider) {\n            name\n            id\n            metrics(shortcodeIn: $shortcodeIn) {\n              name\n              shortcode\n              description\n              positiveDirection\n              unit\n              minValueAllowed\n              maxValueAllowed\n              isReported\n              isThresholdEnforced\n              items {\n                id\n                key\n                threshold\n                latestValue\n                latestValueDisplay\n                thresholdStatus\n              }\n            }\n          }\n        }\n';
 
       // Execute the query
       const response = await this.client.post('', {
@@ -2732,8 +2937,7 @@ export class DeepSourceClient {
       }
 
       // Fetch project information
-      const projects = await this.listProjects();
-      const project = projects.find((p) => p.key === projectKey);
+      const project = await this.findProject(projectKey);
 
       if (!project) {
         return null;
@@ -2746,7 +2950,7 @@ export class DeepSourceClient {
       // Only use template literal for the dynamic field name
       const fieldName = DeepSourceClient.getReportField(reportType);
       const reportQuery = `
-        query($login: String!, $name: String!, $provider: VCSProvider!) {
+        query getComplianceReport($login: String!, $name: String!, $provider: VCSProvider!) {
           repository(login: $login, name: $name, vcsProvider: $provider) {
             name
             id
@@ -3102,8 +3306,7 @@ export class DeepSourceClient {
     }
 
     // Fetch project information
-    const projects = await this.listProjects();
-    const project = projects.find((p) => p.key === params.projectKey);
+    const project = await this.findProject(params.projectKey);
 
     if (!project) {
       throw new Error(`Project with key ${params.projectKey} not found`);
@@ -3158,7 +3361,7 @@ export class DeepSourceClient {
   ): Promise<MetricHistoryValue[]> {
     // Build the historical metric values query
     const historyQuery = `
-      query($login: String!, $name: String!, $provider: VCSProvider!, $first: Int, $metricItemId: ID!) {
+      query getMetricHistory($login: String!, $name: String!, $provider: VCSProvider!, $first: Int, $metricItemId: ID!) {
         repository(login: $login, name: $name, vcsProvider: $provider) {
           metrics {
             shortcode
@@ -279,6 +279,59 @@ describe('Project Aggregate', () => {
     });
   });
 
+  describe('changeDefaultBranch', () => {
+    it('should change the default branch and emit an event', () => {
+      const project = Project.create({
+        ...validParams,
+        repository: { ...validParams.repository, defaultBranch: 'master' },
+      });
+      project.clearEvents();
+
+      project.changeDefaultBranch(' main ');
+
+      expect(project.repository.defaultBranch).toBe('main');
+      expect(project.domainEvents).toHaveLength(2);
+      expect(project.domainEvents[0].eventType).toBe('ProjectDefaultBranchChanged');
+      expect(project.domainEvents[0].payload).toEqual({
+        previousBranch: 'master',
+        defaultBranch: 'main',
+      });
+      expect(project.domainEvents[1].eventType).toBe('AggregateModified');
+    });
+
+    it('should not emit events when the branch is unchanged', () => {
+      const project = Project.create({
+        ...validParams,
+        repository: { ...validParams.repository, defaultBranch: 'main' },
+      });
+      project.clearEvents();
+
+      project.changeDefaultBranch('main');
+
+      expect(project.domainEvents).toHaveLength(0);
+    });
+
+    it('should reject an empty branch name', () => {
+      const project = Project.create(validParams);
+
+      expect(() => project.changeDefaultBranch('  ')).toThrow('Default branch cannot be empty');
+    });
+
+    it('should not change the default branch of an archived project', () => {
+      const project = Project.fromPersistence({
+        ...validParams,
+        configuration: { ...validParams.configuration, isActivated: false },
+        status: 'ARCHIVED',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(() => project.changeDefaultBranch('main')).toThrow(
+        'Cannot change the default branch of an archived project'
+      );
+    });
+  });
+
   describe('archive', () => {
     it('should archive an active project', () => {
       const persistenceData = {
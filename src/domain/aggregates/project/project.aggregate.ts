@@ -238,6 +238,40 @@ export class Project extends AggregateRoot<ProjectKey> {
     this.markAsModified();
   }
 
+  /**
+   * Changes the branch DeepSource analyzes by default
+   *
+   * @param branch - The new default branch name
+   * @throws Error if the project is archived or the branch name is empty
+   */
+  changeDefaultBranch(branch: string): void {
+    if (this._status === 'ARCHIVED') {
+      throw new Error('Cannot change the default branch of an archived project');
+    }
+
+    const trimmedBranch = branch.trim();
+    if (trimmedBranch.length === 0) {
+      throw new Error('Default branch cannot be empty');
+    }
+
+    if (trimmedBranch === this._repository.defaultBranch) {
+      return; // Already the default branch
+    }
+
+    const previousBranch = this._repository.defaultBranch ?? null;
+    this._repository = { ...this._repository, defaultBranch: trimmedBranch };
+    this._updatedAt = new Date();
+
+    this.addDomainEvent({
+      aggregateId: this._id,
+      eventType: 'ProjectDefaultBranchChanged',
+      occurredAt: this._updatedAt,
+      payload: { previousBranch, defaultBranch: trimmedBranch },
+    });
+
+    this.markAsModified();
+  }
+
   /**
    * Archives the project
    *
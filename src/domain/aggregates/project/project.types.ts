@@ -24,6 +24,10 @@ export interface ProjectRepository {
   provider: VcsProvider;
   login: string;
   isPrivate: boolean;
+  /** Repository GraphQL ID, needed to persist lifecycle changes */
+  id?: string;
+  /** Branch DeepSource analyzes by default */
+  defaultBranch?: string;
 }
 
 /**
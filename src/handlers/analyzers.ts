@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Analyzer catalog handlers for the DeepSource MCP server
+ * This module provides MCP tool handlers for listing analyzers and browsing
+ * the issue catalog of a single analyzer.
+ */
+
+import { ApiResponse } from '../models/common.js';
+import { DeepSourceAnalyzer, AnalyzerIssue } from '../models/analyzers.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { PaginationParams } from '../utils/pagination/types.js';
+import { createPaginationMetadata } from '../utils/pagination/helpers.js';
+import { MCPErrorFactory } from '../utils/error-handling/index.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the analyzers handlers
+const logger = createLogger('AnalyzersHandler');
+
+/**
+ * Interface for parameters for listing analyzers
+ * @public
+ */
+export type DeepsourceAnalyzersParams = PaginationParams;
+
+/**
+ * Interface for parameters for browsing an analyzer's issue catalog
+ * @public
+ */
+export interface DeepsourceAnalyzerParams extends PaginationParams {
+  /** Shortcode of the analyzer (e.g., 'python', 'javascript') */
+  shortcode: string;
+}
+
+/**
+ * Copies the pagination parameters that were actually supplied
+ * @param params - The incoming handler parameters
+ * @returns Pagination parameters without undefined values
+ * @private
+ */
+function pickPaginationParams(params: PaginationParams): PaginationParams {
+  const pagination: PaginationParams = {};
+  if (params.first !== undefined) pagination.first = params.first;
+  if (params.after !== undefined) pagination.after = params.after;
+  if (params.last !== undefined) pagination.last = params.last;
+  if (params.before !== undefined) pagination.before = params.before;
+  if (params.page_size !== undefined) pagination.page_size = params.page_size;
+  if (params.max_pages !== undefined) pagination.max_pages = params.max_pages;
+  return pagination;
+}
+
+/**
+ * Maps an analyzer to its tool response shape
+ * @param analyzer - The analyzer to map
+ * @returns The analyzer fields exposed by the tools
+ * @private
+ */
+function formatAnalyzer(analyzer: DeepSourceAnalyzer) {
+  return {
+    name: analyzer.name,
+    shortcode: analyzer.shortcode,
+    description: analyzer.description,
+    version: analyzer.version,
+    type: analyzer.type,
+    numIssues: analyzer.numIssues,
+  };
+}
+
+/**
+ * Creates an analyzers handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createAnalyzersHandler = createBaseHandlerFactory(
+  'analyzers',
+  async (deps: BaseHandlerDeps, params: DeepsourceAnalyzersParams = {}) => {
+    const client = deps.clientFactory.getAnalyzersClient();
+
+    deps.logger.info('Fetching analyzers', { maxPages: params.max_pages });
+
+    const analyzers = await client.listAnalyzers(pickPaginationParams(params));
+
+    deps.logger.info('Successfully fetched analyzers', {
+      count: analyzers.items.length,
+      totalCount: analyzers.totalCount,
+    });
+
+    const analyzersData = {
+      analyzers: analyzers.items.map(formatAnalyzer),
+      pageInfo: {
+        hasNextPage: analyzers.pageInfo?.hasNextPage || false,
+        hasPreviousPage: analyzers.pageInfo?.hasPreviousPage || false,
+        startCursor: analyzers.pageInfo?.startCursor || null,
+        endCursor: analyzers.pageInfo?.endCursor || null,
+      },
+      pagination: createPaginationMetadata(analyzers),
+      totalCount: analyzers.totalCount,
+      // Provide helpful information and guidance
+      usage_examples: {
+        pagination: {
+          next_page: 'For forward pagination, use first and after parameters',
+          multi_page: 'Use max_pages to automatically fetch multiple pages (e.g., max_pages: 5)',
+        },
+        related_tools: {
+          analyzer: 'Use the analyzer tool with a shortcode to browse its issue catalog',
+          runs: 'Use the runs tool with analyzerIn to see runs for specific analyzers',
+        },
+      },
+    };
+
+    return wrapInApiResponse(analyzersData);
+  }
+);
+
+/**
+ * Fetches and returns the analyzers available on DeepSource
+ * @param params - Optional pagination parameters
+ * @returns A response containing the analyzers
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceAnalyzers(
+  params: DeepsourceAnalyzersParams = {}
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createAnalyzersHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates an analyzer issue catalog handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createAnalyzerHandler = createBaseHandlerFactory(
+  'analyzer',
+  async (deps: BaseHandlerDeps, params: DeepsourceAnalyzerParams) => {
+    const { shortcode } = params;
+    const client = deps.clientFactory.getAnalyzersClient();
+
+    deps.logger.info('Fetching analyzer issue catalog', {
+      shortcode,
+      maxPages: params.max_pages,
+    });
+
+    const result = await client.getAnalyzerIssues(shortcode, pickPaginationParams(params));
+    if (!result) {
+      throw MCPErrorFactory.resourceNotFound('analyzer', { shortcode });
+    }
+
+    deps.logger.info('Successfully fetched analyzer issue catalog', {
+      shortcode,
+      count: result.items.length,
+      totalCount: result.totalCount,
+    });
+
+    const analyzerData = {
+      analyzer: formatAnalyzer(result.analyzer),
+      issues: result.items.map((issue: AnalyzerIssue) => ({
+        shortcode: issue.shortcode,
+        title: issue.title,
+        category: issue.category,
+        severity: issue.severity,
+        autofixAvailable: issue.autofixAvailable,
+      })),
+      pageInfo: {
+        hasNextPage: result.pageInfo?.hasNextPage || false,
+        hasPreviousPage: result.pageInfo?.hasPreviousPage || false,
+        startCursor: result.pageInfo?.startCursor || null,
+        endCursor: result.pageInfo?.endCursor || null,
+      },
+      pagination: createPaginationMetadata(result),
+      totalCount: result.totalCount,
+      // Provide helpful information and guidance
+      usage_examples: {
+        pagination: {
+          next_page: 'For forward pagination, use first and after parameters',
+          multi_page: 'Use max_pages to automatically fetch multiple pages (e.g., max_pages: 5)',
+        },
+        related_tools: {
+          analyzers: 'Use the analyzers tool to list all available analyzers',
+          issues: 'Use the project_issues tool with analyzerIn to see these issues in a project',
+        },
+      },
+    };
+
+    return wrapInApiResponse(analyzerData);
+  }
+);
+
+/**
+ * Fetches an analyzer and a page of its issue catalog
+ * @param params - Parameters including the analyzer shortcode and pagination
+ * @returns A response containing the analyzer and its issues
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceAnalyzer(
+  params: DeepsourceAnalyzerParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createAnalyzerHandler(deps);
+  return handler(params);
+}
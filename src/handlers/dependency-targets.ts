@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Dependency targets handler for the DeepSource MCP server
+ * This module provides an MCP tool handler that lists the manifests and
+ * lockfiles DeepSource scans for dependencies in a project.
+ */
+
+import { ApiResponse } from '../models/common.js';
+import { RepositoryTarget } from '../models/security.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { PaginationParams } from '../utils/pagination/types.js';
+import { createPaginationMetadata } from '../utils/pagination/helpers.js';
+import { validateNonEmptyString } from '../utils/error-handling/index.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the dependency targets handler
+const logger = createLogger('DependencyTargetsHandler');
+
+/**
+ * Interface for parameters for listing dependency targets
+ * @public
+ */
+export interface DeepsourceDependencyTargetsParams extends PaginationParams {
+  /** DeepSource project key to list dependency targets for */
+  projectKey: string;
+}
+
+/**
+ * Creates a dependency targets handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createDependencyTargetsHandler = createBaseHandlerFactory(
+  'dependency_targets',
+  async (deps: BaseHandlerDeps, { projectKey, ...params }: DeepsourceDependencyTargetsParams) => {
+    const key = validateNonEmptyString(projectKey, 'projectKey');
+    const client = deps.clientFactory.getSecurityClient();
+
+    deps.logger.info('Fetching dependency targets', {
+      projectKey: key,
+      maxPages: params.max_pages,
+    });
+
+    const pagination: PaginationParams = {};
+    if (params.first !== undefined) pagination.first = params.first;
+    if (params.after !== undefined) pagination.after = params.after;
+    if (params.last !== undefined) pagination.last = params.last;
+    if (params.before !== undefined) pagination.before = params.before;
+    if (params.page_size !== undefined) pagination.page_size = params.page_size;
+    if (params.max_pages !== undefined) pagination.max_pages = params.max_pages;
+
+    const targets = await client.getDependencyTargets(key, pagination);
+
+    deps.logger.info('Successfully fetched dependency targets', {
+      projectKey: key,
+      count: targets.items.length,
+      totalCount: targets.totalCount,
+    });
+
+    const targetsData = {
+      targets: targets.items.map((target: RepositoryTarget) => ({
+        id: target.id,
+        ecosystem: target.ecosystem,
+        packageManager: target.packageManager,
+        manifestPath: target.manifestPath,
+        lockfilePath: target.lockfilePath,
+        isActivated: target.isActivated,
+      })),
+      pageInfo: {
+        hasNextPage: targets.pageInfo?.hasNextPage || false,
+        hasPreviousPage: targets.pageInfo?.hasPreviousPage || false,
+        startCursor: targets.pageInfo?.startCursor || null,
+        endCursor: targets.pageInfo?.endCursor || null,
+      },
+      pagination: createPaginationMetadata(targets),
+      totalCount: targets.totalCount,
+      // Provide helpful information and guidance
+      usage_examples: {
+        pagination: {
+          next_page: 'For forward pagination, use first and after parameters',
+          multi_page: 'Use max_pages to automatically fetch multiple pages (e.g., max_pages: 5)',
+        },
+        related_tools: {
+          vulnerabilities:
+            'Use the dependency_vulnerabilities tool to see which packages in these targets are vulnerable',
+        },
+      },
+    };
+
+    return wrapInApiResponse(targetsData);
+  }
+);
+
+/**
+ * Fetches and returns the dependency targets of a DeepSource project
+ * @param params - Parameters including the project key and pagination
+ * @returns A response containing the ecosystem, package manager and file paths of each target
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceDependencyTargets(
+  params: DeepsourceDependencyTargetsParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createDependencyTargetsHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Matches vulnerability occurrences to the dependency target of their package's ecosystem
+ *
+ * The API does not link an occurrence to the target it was resolved from, so an
+ * occurrence is only matched when the project has a single activated target for
+ * its ecosystem. Occurrences are returned unchanged when the targets cannot be fetched.
+ *
+ * @param deps - The handler dependencies
+ * @param projectKey - The project the occurrences belong to
+ * @param occurrences - The vulnerability occurrences
+ * @returns The occurrences, with the matched target set where there is one
+ * @public
+ */
+export async function attachDependencyTargets<
+  T extends { package: { ecosystem: string }; target?: RepositoryTarget },
+>(deps: BaseHandlerDeps, projectKey: string, occurrences: T[]): Promise<T[]> {
+  if (occurrences.length === 0) {
+    return occurrences;
+  }
+
+  let targets: RepositoryTarget[];
+  try {
+    const result = await deps.clientFactory
+      .getSecurityClient()
+      .getDependencyTargets(projectKey, { max_pages: 10 });
+    targets = result.items;
+  } catch (error) {
+    deps.logger.warn('Could not fetch dependency targets', { projectKey, error });
+    return occurrences;
+  }
+
+  const targetsByEcosystem = new Map<string, RepositoryTarget[]>();
+  for (const target of targets.filter((candidate) => candidate.isActivated)) {
+    const ecosystem = target.ecosystem.toUpperCase();
+    targetsByEcosystem.set(ecosystem, [...(targetsByEcosystem.get(ecosystem) ?? []), target]);
+  }
+
+  return occurrences.map((occurrence) => {
+    const matches = targetsByEcosystem.get(occurrence.package.ecosystem?.toUpperCase());
+    return matches?.length === 1 ? { ...occurrence, target: matches[0] } : occurrence;
+  });
+}
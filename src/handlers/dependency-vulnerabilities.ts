@@ -5,15 +5,23 @@
 
 import { DeepSourceClient } from '../deepsource.js';
 import { ApiResponse } from '../models/common.js';
-import { VulnerabilityOccurrence } from '../models/security.js';
+import {
+  VULNERABILITY_SEVERITY_ORDER,
+  VulnerabilityOccurrence,
+  VulnerabilityFixability,
+  VulnerabilityReachability,
+  VulnerabilitySeverity,
+} from '../models/security.js';
 import { createLogger } from '../utils/logging/logger.js';
-import { PaginationParams } from '../utils/pagination/types.js';
+import { fetchMultiplePages, PageFetcher } from '../utils/pagination/manager.js';
+import { PaginatedResponse, PaginationParams } from '../utils/pagination/types.js';
 import { BaseHandlerDeps } from './base/handler.interface.js';
 import {
   createBaseHandlerFactory,
   wrapInApiResponse,
   createDefaultHandlerDeps,
 } from './base/handler.factory.js';
+import { attachDependencyTargets } from './dependency-targets.js';
 
 // Logger for the dependency vulnerabilities handler
 const logger = createLogger('DependencyVulnerabilitiesHandler');
@@ -25,8 +33,31 @@ const logger = createLogger('DependencyVulnerabilitiesHandler');
 export interface DeepsourceDependencyVulnerabilitiesParams extends PaginationParams {
   /** DeepSource project key to fetch vulnerabilities for */
   projectKey: string;
+  /** Only include occurrences with one of these reachability values */
+  reachabilityIn?: VulnerabilityReachability[];
+  /** Only include occurrences with one of these fixability values */
+  fixabilityIn?: VulnerabilityFixability[];
+  /** Only include vulnerabilities with one of these severities */
+  severityIn?: VulnerabilitySeverity[];
+  /** Only include packages from one of these ecosystems (e.g., 'NPM', 'PYPI') */
+  ecosystemIn?: string[];
+  /** Only include vulnerabilities at or above this severity */
+  minSeverity?: VulnerabilitySeverity;
+  /** Only include vulnerabilities with a CVSS score at or above this value */
+  minCvssScore?: number;
+  /** Sort the vulnerabilities by CVSS score */
+  sortByCvss?: 'asc' | 'desc';
 }
 
+/**
+ * Filter and sort options applied to the fetched vulnerability occurrences
+ * @private
+ */
+type VulnerabilityFilters = Omit<
+  DeepsourceDependencyVulnerabilitiesParams,
+  keyof PaginationParams | 'projectKey'
+>;
+
 /**
  * Creates a dependency vulnerabilities handler with injected dependencies
  * @param deps - The dependencies for the handler
@@ -34,10 +65,8 @@ export interface DeepsourceDependencyVulnerabilitiesParams extends PaginationPar
  */
 export const createDependencyVulnerabilitiesHandler = createBaseHandlerFactory(
   'dependency_vulnerabilities',
-  async (
-    deps: BaseHandlerDeps,
-    { projectKey, first, after, last, before }: DeepsourceDependencyVulnerabilitiesParams
-  ) => {
+  async (deps: BaseHandlerDeps, params: DeepsourceDependencyVulnerabilitiesParams) => {
+    const { projectKey } = params;
     const apiKey = deps.getApiKey();
     deps.logger.debug('API key retrieved from config', {
       length: apiKey.length,
@@ -45,22 +74,60 @@ export const createDependencyVulnerabilitiesHandler = createBaseHandlerFactory(
     });
 
     const client = new DeepSourceClient(apiKey);
+    const filters = getActiveFilters(params);
 
     deps.logger.info('Fetching dependency vulnerabilities', {
       projectKey,
+      filters,
     });
 
-    const params: { first?: number; after?: string; last?: number; before?: string } = {};
-    if (first !== undefined) params.first = first;
-    if (after !== undefined) params.after = after;
-    if (last !== undefined) params.last = last;
-    if (before !== undefined) params.before = before;
+    const pageParams: PaginationParams = {};
+    if (params.first !== undefined) pageParams.first = params.first;
+    if (params.after !== undefined) pageParams.after = params.after;
+    if (params.last !== undefined) pageParams.last = params.last;
+    if (params.before !== undefined) pageParams.before = params.before;
 
-    const vulnerabilities = await client.getDependencyVulnerabilities(projectKey, params);
+    let vulnerabilities: PaginatedResponse<VulnerabilityOccurrence>;
+    let scannedCount: number | undefined;
+
+    if (filters || params.max_pages !== undefined) {
+      // Filters are applied client-side, so walk every page before filtering
+      const pageFetcher: PageFetcher<VulnerabilityOccurrence> = (cursor, pageSize) => {
+        const fetchParams: PaginationParams = { first: pageSize ?? 50 };
+        if (cursor) fetchParams.after = cursor;
+        return client.getDependencyVulnerabilities(projectKey, fetchParams);
+      };
+
+      const result = await fetchMultiplePages(pageFetcher, {
+        pageSize: params.page_size ?? params.first ?? 50,
+        fetchAll: params.max_pages === undefined,
+        ...(params.max_pages !== undefined && { maxPages: params.max_pages }),
+      });
+
+      const items = filters ? applyVulnerabilityFilters(result.items, filters) : result.items;
+      scannedCount = result.items.length;
+      vulnerabilities = {
+        items,
+        pageInfo: {
+          hasNextPage: result.hasMore,
+          hasPreviousPage: false,
+          ...(result.lastCursor && { endCursor: result.lastCursor }),
+        },
+        totalCount: filters ? items.length : (result.totalCount ?? items.length),
+      };
+    } else {
+      vulnerabilities = await client.getDependencyVulnerabilities(projectKey, pageParams);
+    }
+
+    vulnerabilities = {
+      ...vulnerabilities,
+      items: await attachDependencyTargets(deps, projectKey, vulnerabilities.items),
+    };
 
     deps.logger.info('Successfully fetched dependency vulnerabilities', {
       count: vulnerabilities.items.length,
       totalCount: vulnerabilities.totalCount,
+      scannedCount,
       hasNextPage: vulnerabilities.pageInfo?.hasNextPage,
       hasPreviousPage: vulnerabilities.pageInfo?.hasPreviousPage,
     });
@@ -70,11 +137,15 @@ export const createDependencyVulnerabilitiesHandler = createBaseHandlerFactory(
         id: vulnerability.id,
         title: vulnerability.vulnerability.summary || vulnerability.vulnerability.identifier,
         severity: vulnerability.vulnerability.severity,
-        cvssScore:
-          vulnerability.vulnerability.cvssV3BaseScore ||
-          vulnerability.vulnerability.cvssV2BaseScore,
+        cvssScore: getCvssScore(vulnerability),
+        reachability: vulnerability.reachability,
+        fixability: vulnerability.fixability,
+        ecosystem: vulnerability.package.ecosystem,
         packageName: vulnerability.package.name,
         packageVersion: vulnerability.packageVersion.version,
+        // Only known when the project has a single target for the package's ecosystem
+        manifestPath: vulnerability.target?.manifestPath ?? null,
+        lockfilePath: vulnerability.target?.lockfilePath ?? null,
         fixedIn:
           vulnerability.vulnerability.fixedVersions.length > 0
             ? vulnerability.vulnerability.fixedVersions[0]
@@ -89,11 +160,7 @@ export const createDependencyVulnerabilitiesHandler = createBaseHandlerFactory(
         // Add metadata to help with risk assessment
         risk_assessment: {
           severity_level: getSeverityLevel(vulnerability.vulnerability.severity),
-          cvss_description: describeCvssScore(
-            vulnerability.vulnerability.cvssV3BaseScore ||
-              vulnerability.vulnerability.cvssV2BaseScore ||
-              null
-          ),
+          cvss_description: describeCvssScore(getCvssScore(vulnerability)),
           fixed_version_available: vulnerability.vulnerability.fixedVersions.length > 0,
           remediation_advice: getRemediationAdvice(vulnerability),
         },
@@ -105,15 +172,22 @@ export const createDependencyVulnerabilitiesHandler = createBaseHandlerFactory(
         endCursor: vulnerabilities.pageInfo?.endCursor || null,
       },
       totalCount: vulnerabilities.totalCount,
+      // Echo the filters so the caller knows the list is not the full inventory
+      ...(filters && { filters_applied: filters }),
+      ...(scannedCount !== undefined && { scanned_count: scannedCount }),
       // Provide helpful information and guidance
       usage_examples: {
         pagination: {
           next_page: 'For forward pagination, use first and after parameters',
           previous_page: 'For backward pagination, use last and before parameters',
+          filtering:
+            'Filters (reachabilityIn, fixabilityIn, severityIn, ecosystemIn, minSeverity, minCvssScore) are applied across all pages; use max_pages to bound the scan',
         },
         related_tools: {
           issues: 'Use the project_issues tool to get code issues in the project',
           compliance: 'Use the compliance_report tool to get security compliance reports',
+          targets:
+            'Use the dependency_targets tool to list the manifests and lockfiles DeepSource scans',
         },
       },
     };
@@ -124,7 +198,7 @@ export const createDependencyVulnerabilitiesHandler = createBaseHandlerFactory(
 
 /**
  * Fetches and returns dependency vulnerabilities from a DeepSource project
- * @param params - Parameters for fetching vulnerabilities, including project key and pagination
+ * @param params - Parameters for fetching vulnerabilities, including project key, pagination and filters
  * @returns A response containing the vulnerabilities data
  * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
  * @public
@@ -137,6 +211,98 @@ export async function handleDeepsourceDependencyVulnerabilities(
   return handler(params);
 }
 
+/**
+ * Collects the filter and sort options that were supplied
+ * @param params The tool parameters
+ * @returns The active filters, or null when none were supplied
+ * @private
+ */
+function getActiveFilters(
+  params: DeepsourceDependencyVulnerabilitiesParams
+): VulnerabilityFilters | null {
+  const filters: VulnerabilityFilters = {};
+  if (params.reachabilityIn?.length) filters.reachabilityIn = params.reachabilityIn;
+  if (params.fixabilityIn?.length) filters.fixabilityIn = params.fixabilityIn;
+  if (params.severityIn?.length) filters.severityIn = params.severityIn;
+  if (params.ecosystemIn?.length) filters.ecosystemIn = params.ecosystemIn;
+  if (params.minSeverity !== undefined) filters.minSeverity = params.minSeverity;
+  if (params.minCvssScore !== undefined) filters.minCvssScore = params.minCvssScore;
+  if (params.sortByCvss !== undefined) filters.sortByCvss = params.sortByCvss;
+
+  return Object.keys(filters).length > 0 ? filters : null;
+}
+
+/**
+ * Filters and sorts vulnerability occurrences
+ * @param occurrences The occurrences fetched from DeepSource
+ * @param filters The filter and sort options to apply
+ * @returns The matching occurrences, sorted by CVSS score when requested
+ * @private
+ */
+function applyVulnerabilityFilters(
+  occurrences: VulnerabilityOccurrence[],
+  filters: VulnerabilityFilters
+): VulnerabilityOccurrence[] {
+  const ecosystems = filters.ecosystemIn?.map((ecosystem) => ecosystem.toUpperCase());
+  const minSeverityRank =
+    filters.minSeverity !== undefined
+      ? VULNERABILITY_SEVERITY_ORDER.indexOf(filters.minSeverity)
+      : -1;
+
+  const matching = occurrences.filter((occurrence) => {
+    const { vulnerability } = occurrence;
+    if (filters.reachabilityIn && !filters.reachabilityIn.includes(occurrence.reachability)) {
+      return false;
+    }
+    if (filters.fixabilityIn && !filters.fixabilityIn.includes(occurrence.fixability)) {
+      return false;
+    }
+    if (filters.severityIn && !filters.severityIn.includes(vulnerability.severity)) {
+      return false;
+    }
+    if (ecosystems && !ecosystems.includes(occurrence.package.ecosystem?.toUpperCase())) {
+      return false;
+    }
+    if (VULNERABILITY_SEVERITY_ORDER.indexOf(vulnerability.severity) < minSeverityRank) {
+      return false;
+    }
+    if (filters.minCvssScore !== undefined) {
+      const score = getCvssScore(occurrence);
+      if (score === null || score < filters.minCvssScore) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  if (filters.sortByCvss) {
+    const direction = filters.sortByCvss === 'asc' ? 1 : -1;
+    // Occurrences without a score always go last
+    matching.sort((a, b) => {
+      const scoreA = getCvssScore(a);
+      const scoreB = getCvssScore(b);
+      if (scoreA === null || scoreB === null) {
+        return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+      }
+      return (scoreA - scoreB) * direction;
+    });
+  }
+
+  return matching;
+}
+
+/**
+ * Helper function to get the CVSS score of a vulnerability occurrence
+ * @param occurrence The vulnerability occurrence
+ * @returns The CVSS v3 score, falling back to v2, or null when neither is set
+ * @private
+ */
+function getCvssScore(occurrence: VulnerabilityOccurrence): number | null {
+  return (
+    occurrence.vulnerability.cvssV3BaseScore || occurrence.vulnerability.cvssV2BaseScore || null
+  );
+}
+
 /**
  * Helper function to get human-readable severity level
  * @param severity The raw severity value
@@ -189,9 +355,11 @@ function describeCvssScore(cvssScore: number | null): string {
 function getRemediationAdvice(vulnerability: VulnerabilityOccurrence): string {
   const fixedVersions = vulnerability.vulnerability.fixedVersions;
   const packageName = vulnerability.package.name;
+  const sourceFile = vulnerability.target?.lockfilePath ?? vulnerability.target?.manifestPath;
 
   if (fixedVersions && fixedVersions.length > 0) {
-    return `Update ${packageName} to version ${fixedVersions[0]} or later to resolve this vulnerability.`;
+    const location = sourceFile ? ` in ${sourceFile}` : '';
+    return `Update ${packageName} to version ${fixedVersions[0]} or later${location} to resolve this vulnerability.`;
   } else if (packageName) {
     return `Consider replacing ${packageName} with a secure alternative, as no fixed version is currently available.`;
   } else {
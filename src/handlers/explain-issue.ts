@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Explain issue handler for the DeepSource MCP server
+ * This module provides an MCP tool handler that returns the full definition
+ * of an issue type so that findings can be explained and fixed.
+ */
+
+import { ApiResponse } from '../models/common.js';
+import { IssueDefinition } from '../models/analyzers.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { MCPErrorFactory, validateNonEmptyString } from '../utils/error-handling/index.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the explain issue handler
+const logger = createLogger('ExplainIssueHandler');
+
+/**
+ * Interface for parameters for explaining an issue
+ * @public
+ */
+export interface DeepsourceExplainIssueParams {
+  /** Shortcode of the analyzer that reports the issue (e.g., 'javascript') */
+  analyzerShortcode: string;
+  /** Shortcode of the issue (e.g., 'JS-0125') */
+  issueShortcode: string;
+}
+
+/**
+ * Creates an explain issue handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createExplainIssueHandler = createBaseHandlerFactory(
+  'explain_issue',
+  async (deps: BaseHandlerDeps, params: DeepsourceExplainIssueParams) => {
+    const analyzerShortcode = validateNonEmptyString(params.analyzerShortcode, 'analyzerShortcode');
+    const issueShortcode = validateNonEmptyString(params.issueShortcode, 'issueShortcode');
+
+    const client = deps.clientFactory.getAnalyzersClient();
+
+    deps.logger.info('Fetching issue definition', { analyzerShortcode, issueShortcode });
+
+    const issue = await client.getIssueDefinition(analyzerShortcode, issueShortcode);
+    if (!issue) {
+      throw MCPErrorFactory.resourceNotFound('issue', { analyzerShortcode, issueShortcode });
+    }
+
+    deps.logger.info('Successfully fetched issue definition', {
+      analyzerShortcode,
+      issueShortcode,
+      autofixAvailable: issue.autofixAvailable,
+    });
+
+    const issueData = {
+      shortcode: issue.shortcode,
+      title: issue.title,
+      category: issue.category,
+      severity: issue.severity,
+      tags: issue.tags,
+      analyzer: issue.analyzer,
+      shortDescription: issue.shortDescription,
+      description: issue.description,
+      isRecommended: issue.isRecommended,
+      autofixAvailable: issue.autofixAvailable,
+      autofixAiAvailable: issue.autofixAiAvailable,
+      fix_guidance: getFixGuidance(issue),
+      // Provide helpful information and guidance
+      usage_examples: {
+        related_tools: {
+          occurrences: `Use the project_issues tool with analyzerIn: ["${issue.analyzer.shortcode}"] to find occurrences of this issue`,
+          catalog: 'Use the analyzer tool to browse other issues reported by this analyzer',
+        },
+      },
+    };
+
+    return wrapInApiResponse(issueData);
+  }
+);
+
+/**
+ * Fetches the full definition of an issue type
+ * @param params - Parameters identifying the analyzer and issue shortcodes
+ * @returns A response containing the description, rationale and autofix flags
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceExplainIssue(
+  params: DeepsourceExplainIssueParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createExplainIssueHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Describes how an occurrence of the issue can be fixed
+ * @param issue - The issue definition
+ * @returns A short piece of fix guidance
+ * @private
+ */
+function getFixGuidance(issue: IssueDefinition): string {
+  if (issue.autofixAvailable) {
+    return `DeepSource Autofix can fix ${issue.shortcode} automatically. Trigger it from the issue page or apply the same change manually following the description.`;
+  }
+  if (issue.autofixAiAvailable) {
+    return `An AI-generated Autofix is available for ${issue.shortcode}. Review the suggested patch before merging, or fix it manually following the description.`;
+  }
+  return `No Autofix is available for ${issue.shortcode}. Fix it manually following the description and examples.`;
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Ignore rules handler for the DeepSource MCP server
+ * This module provides an MCP tool handler for auditing the rules that
+ * silence issues in a repository.
+ */
+
+import { ApiResponse } from '../models/common.js';
+import { IgnoreRule, IgnoreRulesParams } from '../models/ignore-rules.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { createPaginationMetadata } from '../utils/pagination/helpers.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the ignore rules handler
+const logger = createLogger('IgnoreRulesHandler');
+
+/**
+ * Interface for parameters for listing a project's ignore rules
+ * @public
+ */
+export interface DeepsourceIgnoreRulesParams extends IgnoreRulesParams {
+  /** DeepSource project key to fetch ignore rules for */
+  projectKey: string;
+}
+
+/**
+ * Creates an ignore rules handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createIgnoreRulesHandler = createBaseHandlerFactory(
+  'ignore_rules',
+  async (
+    deps: BaseHandlerDeps,
+    {
+      projectKey,
+      type,
+      first,
+      after,
+      last,
+      before,
+      page_size,
+      max_pages,
+    }: DeepsourceIgnoreRulesParams
+  ) => {
+    const client = deps.clientFactory.getIgnoreRulesClient();
+
+    deps.logger.info('Fetching ignore rules', {
+      projectKey,
+      type,
+      maxPages: max_pages,
+    });
+
+    const params: IgnoreRulesParams = {};
+    if (type !== undefined) params.type = type;
+    if (first !== undefined) params.first = first;
+    if (after !== undefined) params.after = after;
+    if (last !== undefined) params.last = last;
+    if (before !== undefined) params.before = before;
+    if (page_size !== undefined) params.page_size = page_size;
+    if (max_pages !== undefined) params.max_pages = max_pages;
+
+    const rules = await client.getIgnoreRules(projectKey, params);
+
+    deps.logger.info('Successfully fetched ignore rules', {
+      count: rules.items.length,
+      totalCount: rules.totalCount,
+      hasNextPage: rules.pageInfo?.hasNextPage,
+    });
+
+    const rulesData = {
+      ignoreRules: rules.items.map((rule: IgnoreRule) => ({
+        id: rule.id,
+        level: rule.level,
+        type: rule.type,
+        filePath: rule.filePath,
+        globPattern: rule.globPattern,
+        issue: rule.issue,
+      })),
+      pageInfo: {
+        hasNextPage: rules.pageInfo?.hasNextPage || false,
+        hasPreviousPage: rules.pageInfo?.hasPreviousPage || false,
+        startCursor: rules.pageInfo?.startCursor || null,
+        endCursor: rules.pageInfo?.endCursor || null,
+      },
+      pagination: createPaginationMetadata(rules),
+      // totalCount counts every rule in the repository, before the type filter
+      totalCount: rules.totalCount,
+      // Provide helpful information and guidance
+      usage_examples: {
+        filtering: {
+          by_type:
+            'Use the type parameter (FOREVER, PATTERN or TEST_PATTERN) to audit one kind of rule',
+          type_filter_scope:
+            'The type filter applies to fetched pages only: totalCount counts rules of every type, and a filtered page can be empty while hasNextPage is true',
+        },
+        pagination: {
+          next_page: 'For forward pagination, use first and after parameters',
+          multi_page: 'Use max_pages to automatically fetch multiple pages (e.g., max_pages: 5)',
+        },
+        related_tools: {
+          explain_issue: 'Use the explain_issue tool to see what a silenced issue detects',
+        },
+      },
+    };
+
+    return wrapInApiResponse(rulesData);
+  }
+);
+
+/**
+ * Fetches and returns the ignore rules configured for a DeepSource project
+ * @param params - Parameters including the project key, rule type filter and pagination
+ * @returns A response containing the ignore rules
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceIgnoreRules(
+  params: DeepsourceIgnoreRulesParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createIgnoreRulesHandler(deps);
+  return handler(params);
+}
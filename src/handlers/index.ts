@@ -35,9 +35,63 @@ export {
   createDependencyVulnerabilitiesHandler,
   handleDeepsourceDependencyVulnerabilities,
 } from './dependency-vulnerabilities.js';
+export { createMetricHistoryHandler, handleDeepsourceMetricHistory } from './metric-history.js';
+export {
+  createAnalyzersHandler,
+  createAnalyzerHandler,
+  handleDeepsourceAnalyzers,
+  handleDeepsourceAnalyzer,
+} from './analyzers.js';
+export { createExplainIssueHandler, handleDeepsourceExplainIssue } from './explain-issue.js';
+export { createIgnoreRulesHandler, handleDeepsourceIgnoreRules } from './ignore-rules.js';
+export {
+  createQualityGatesHandler,
+  handleDeepsourceQualityGates,
+  createUpdateIssueCategorySettingHandler,
+  handleDeepsourceUpdateIssueCategorySetting,
+  createUpdateIssuePrioritySettingHandler,
+  handleDeepsourceUpdateIssuePrioritySetting,
+} from './quality-gates.js';
+export {
+  createTeamSuppressedIssuesHandler,
+  handleDeepsourceTeamSuppressedIssues,
+  createSuppressIssueForTeamHandler,
+  handleDeepsourceSuppressIssueForTeam,
+  createUnsuppressIssueForTeamHandler,
+  handleDeepsourceUnsuppressIssueForTeam,
+} from './team-suppressions.js';
+export {
+  createActivateRepositoryHandler,
+  handleDeepsourceActivateRepository,
+  createDeactivateRepositoryHandler,
+  handleDeepsourceDeactivateRepository,
+  createUpdateDefaultBranchHandler,
+  handleDeepsourceUpdateDefaultBranch,
+} from './repository-lifecycle.js';
+export {
+  createDependencyTargetsHandler,
+  handleDeepsourceDependencyTargets,
+} from './dependency-targets.js';
+export {
+  createVulnerabilityUpgradePlanHandler,
+  handleDeepsourceVulnerabilityUpgradePlan,
+} from './vulnerability-upgrade-plan.js';
+export {
+  createPolicyPlanHandler,
+  handleDeepsourcePolicyPlan,
+  createPolicyApplyHandler,
+  handleDeepsourcePolicyApply,
+} from './quality-policy.js';
+export {
+  createSettingsSnapshotHandler,
+  handleDeepsourceSettingsSnapshot,
+  createSettingsDiffHandler,
+  handleDeepsourceSettingsDiff,
+} from './settings-snapshot.js';
 
 // Export handler types
 export type { ProjectsHandlerDeps } from './projects.js';
+export type { RepositoryLifecycleHandlerDeps } from './repository-lifecycle.js';
 
 // Export handler parameter types
 export type { DeepsourceComplianceReportParams } from './compliance-reports.js';
@@ -51,3 +105,27 @@ export type { DeepsourceProjectRunsParams } from './project-runs.js';
 export type { DeepsourceRunParams } from './run.js';
 export type { DeepsourceRecentRunIssuesParams } from './recent-run-issues.js';
 export type { DeepsourceDependencyVulnerabilitiesParams } from './dependency-vulnerabilities.js';
+export type { DeepsourceMetricHistoryParams } from './metric-history.js';
+export type { DeepsourceAnalyzersParams, DeepsourceAnalyzerParams } from './analyzers.js';
+export type { DeepsourceExplainIssueParams } from './explain-issue.js';
+export type { DeepsourceIgnoreRulesParams } from './ignore-rules.js';
+export type {
+  DeepsourceQualityGatesParams,
+  DeepsourceUpdateIssueCategorySettingParams,
+  DeepsourceUpdateIssuePrioritySettingParams,
+} from './quality-gates.js';
+export type {
+  DeepsourceTeamSuppressedIssuesParams,
+  DeepsourceTeamIssueSuppressionParams,
+} from './team-suppressions.js';
+export type {
+  DeepsourceRepositoryLifecycleParams,
+  DeepsourceUpdateDefaultBranchParams,
+} from './repository-lifecycle.js';
+export type { DeepsourceDependencyTargetsParams } from './dependency-targets.js';
+export type { DeepsourceVulnerabilityUpgradePlanParams } from './vulnerability-upgrade-plan.js';
+export type { DeepsourceQualityPolicyParams } from './quality-policy.js';
+export type {
+  DeepsourceSettingsSnapshotParams,
+  DeepsourceSettingsDiffParams,
+} from './settings-snapshot.js';
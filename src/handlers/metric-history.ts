@@ -0,0 +1,393 @@
+/**
+ * @fileoverview Metric history handler for the DeepSource MCP server
+ * This module provides MCP tool handlers for fetching historical metric values
+ * and analyzing how a metric has moved over time.
+ */
+
+import { DeepSourceClient } from '../deepsource.js';
+import { ApiResponse } from '../models/common.js';
+import {
+  MetricShortcode,
+  MetricKey,
+  MetricDirection,
+  MetricThresholdStatus,
+  MetricHistoryParams,
+  MetricHistoryValue,
+} from '../types/metrics.js';
+import { MetricTrend } from '../domain/aggregates/quality-metrics/quality-metrics.types.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { MCPErrorFactory } from '../utils/error-handling/index.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the metric history handler
+const logger = createLogger('MetricHistoryHandler');
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Interface for parameters for fetching metric history
+ * @public
+ */
+export interface DeepsourceMetricHistoryParams {
+  /** DeepSource project key to fetch metric history for */
+  projectKey: string;
+  /** Code for the metric to fetch history for */
+  metricShortcode: MetricShortcode;
+  /** Context key for the metric (language or aggregate) */
+  metricKey: MetricKey;
+  /** Only include values recorded on or after this date (ISO 8601) */
+  startDate?: string;
+  /** Only include values recorded on or before this date (ISO 8601) */
+  endDate?: string;
+  /** Maximum number of historical values to fetch */
+  limit?: number;
+}
+
+/**
+ * Trend analysis over a metric history window
+ * @public
+ */
+export interface MetricHistoryTrend extends MetricTrend {
+  /** Whether the metric is moving in its positive direction */
+  isTrendingPositive: boolean;
+  /** Average change in metric units per day across the window */
+  ratePerDay: number;
+  /** First value in the window */
+  firstValue: number;
+  /** Last value in the window */
+  lastValue: number;
+}
+
+/**
+ * The most recent point at which a metric crossed its threshold
+ * @public
+ */
+export interface MetricThresholdCrossing {
+  /** When the value on the other side of the threshold was recorded */
+  crossedAt: string;
+  /** Commit that produced the crossing value */
+  commitOid: string;
+  /** Threshold status before the crossing */
+  from: MetricThresholdStatus;
+  /** Threshold status after the crossing */
+  to: MetricThresholdStatus;
+  /** The metric value at the crossing */
+  value: number;
+  /** The threshold in effect at the crossing */
+  threshold: number;
+}
+
+/**
+ * Creates a metric history handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createMetricHistoryHandler = createBaseHandlerFactory(
+  'metric_history',
+  async (
+    deps: BaseHandlerDeps,
+    {
+      projectKey,
+      metricShortcode,
+      metricKey,
+      startDate,
+      endDate,
+      limit,
+    }: DeepsourceMetricHistoryParams
+  ) => {
+    const apiKey = deps.getApiKey();
+    deps.logger.debug('API key retrieved from config', {
+      length: apiKey.length,
+      prefix: `${apiKey.substring(0, 5)}...`,
+    });
+
+    const windowStart = parseWindowDate(startDate, 'startDate');
+    const windowEnd = parseWindowDate(endDate, 'endDate');
+    if (windowStart && windowEnd && windowStart > windowEnd) {
+      throw MCPErrorFactory.validation('startDate must be before endDate', {
+        startDate,
+        endDate,
+      });
+    }
+
+    const client = new DeepSourceClient(apiKey);
+    deps.logger.info('Fetching metric history', {
+      projectKey,
+      metricShortcode,
+      metricKey,
+      startDate,
+      endDate,
+    });
+
+    const params: MetricHistoryParams = { projectKey, metricShortcode, metricKey };
+    if (startDate !== undefined) params.startDate = startDate;
+    if (endDate !== undefined) params.endDate = endDate;
+    if (limit !== undefined) params.limit = limit;
+
+    const history = await client.getMetricHistory(params);
+    if (!history) {
+      throw MCPErrorFactory.resourceNotFound('metric history', {
+        projectKey,
+        metricShortcode,
+        metricKey,
+      });
+    }
+
+    // The API has no date filter, so the window is applied to the returned series
+    const values = history.values
+      .filter((entry) => {
+        const recordedAt = new Date(entry.createdAt);
+        if (windowStart && recordedAt < windowStart) return false;
+        if (windowEnd && recordedAt > windowEnd) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    const trend = analyzeTrend(values, history.positiveDirection);
+    const lastThresholdCrossing = findLastThresholdCrossing(
+      values,
+      history.threshold,
+      history.positiveDirection
+    );
+
+    deps.logger.info('Successfully fetched metric history', {
+      projectKey,
+      metricShortcode,
+      metricKey,
+      valuesCount: values.length,
+      direction: trend?.direction ?? null,
+    });
+
+    const historyData = {
+      metric: {
+        shortcode: history.shortcode,
+        metricKey: history.metricKey,
+        name: history.name,
+        unit: history.unit,
+        positiveDirection: history.positiveDirection,
+        threshold: history.threshold,
+      },
+      window: {
+        startDate: startDate ?? null,
+        endDate: endDate ?? null,
+      },
+      values: values.map((entry) => ({
+        value: entry.value,
+        valueDisplay: entry.valueDisplay,
+        threshold: entry.threshold ?? null,
+        thresholdStatus: entry.thresholdStatus ?? null,
+        commitOid: entry.commitOid,
+        createdAt: entry.createdAt,
+      })),
+      trend,
+      lastThresholdCrossing,
+      summary: describeHistory(history.name, values.length, trend, lastThresholdCrossing),
+      // Provide helpful information and guidance
+      usage_examples: {
+        date_window:
+          'Use startDate and endDate (ISO 8601, e.g. "2024-01-01") to restrict the analysis window',
+        related_tools: {
+          current_values: 'Use the quality_metrics tool to see the latest value and threshold',
+          thresholds: 'Use the update_metric_threshold tool to change the threshold',
+        },
+      },
+    };
+
+    return wrapInApiResponse(historyData);
+  }
+);
+
+/**
+ * Fetches the history of a quality metric and analyzes its trend
+ * @param params - Parameters identifying the metric and the optional date window
+ * @returns A response containing the time series, trend and threshold crossing
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceMetricHistory(
+  params: DeepsourceMetricHistoryParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createMetricHistoryHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Parses an optional date window boundary
+ * @param value - The date string supplied by the caller
+ * @param fieldName - The parameter name for error reporting
+ * @returns The parsed date, or undefined when no value was given
+ * @private
+ */
+function parseWindowDate(value: string | undefined, fieldName: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw MCPErrorFactory.validation(`${fieldName} must be an ISO 8601 date`, {
+      [fieldName]: value,
+    });
+  }
+  return date;
+}
+
+/**
+ * Analyzes the trend of a chronologically sorted series of values.
+ * Direction follows the same rules as QualityMetrics.getTrend: changes under 1% are stable.
+ * @param values - Historical values sorted oldest to newest
+ * @param positiveDirection - The direction considered an improvement for this metric
+ * @returns The trend, or null when fewer than two values are available
+ * @private
+ */
+function analyzeTrend(
+  values: MetricHistoryValue[],
+  positiveDirection: MetricDirection
+): MetricHistoryTrend | null {
+  const first = values[0];
+  const last = values[values.length - 1];
+  if (values.length < 2 || !first || !last) {
+    return null;
+  }
+
+  const change = last.value - first.value;
+  const elapsedDays =
+    (new Date(last.createdAt).getTime() - new Date(first.createdAt).getTime()) / MS_PER_DAY;
+
+  let changePercentage: number;
+  if (first.value !== 0) {
+    changePercentage = (change / Math.abs(first.value)) * 100;
+  } else {
+    changePercentage = change === 0 ? 0 : Math.sign(change) * 100;
+  }
+
+  const improving =
+    (positiveDirection === MetricDirection.UPWARD && change > 0) ||
+    (positiveDirection === MetricDirection.DOWNWARD && change < 0);
+
+  let direction: MetricTrend['direction'];
+  if (Math.abs(changePercentage) < 1) {
+    direction = 'STABLE';
+  } else {
+    direction = improving ? 'IMPROVING' : 'DEGRADING';
+  }
+
+  return {
+    direction,
+    changePercentage: round(changePercentage),
+    periodDays: round(elapsedDays),
+    isTrendingPositive: direction !== 'DEGRADING',
+    ratePerDay: elapsedDays > 0 ? round(change / elapsedDays) : 0,
+    firstValue: first.value,
+    lastValue: last.value,
+  };
+}
+
+/**
+ * Finds the most recent point where a metric moved across its threshold
+ * @param values - Historical values sorted oldest to newest
+ * @param currentThreshold - The metric's current threshold, used when a value has none
+ * @param positiveDirection - The direction considered an improvement for this metric
+ * @returns The latest crossing, or null if the metric never crossed its threshold
+ * @private
+ */
+function findLastThresholdCrossing(
+  values: MetricHistoryValue[],
+  currentThreshold: number | null,
+  positiveDirection: MetricDirection
+): MetricThresholdCrossing | null {
+  let previousStatus: MetricThresholdStatus | null = null;
+  let lastCrossing: MetricThresholdCrossing | null = null;
+
+  for (const entry of values) {
+    const threshold = entry.threshold ?? currentThreshold;
+    if (threshold === null || threshold === undefined) {
+      continue;
+    }
+
+    const status = getThresholdStatus(entry, threshold, positiveDirection);
+    if (previousStatus !== null && status !== previousStatus) {
+      lastCrossing = {
+        crossedAt: entry.createdAt,
+        commitOid: entry.commitOid,
+        from: previousStatus,
+        to: status,
+        value: entry.value,
+        threshold,
+      };
+    }
+    previousStatus = status;
+  }
+
+  return lastCrossing;
+}
+
+/**
+ * Determines whether a historical value was passing its threshold
+ * @param entry - The historical value
+ * @param threshold - The threshold in effect for the value
+ * @param positiveDirection - The direction considered an improvement for this metric
+ * @returns PASSING or FAILING
+ * @private
+ */
+function getThresholdStatus(
+  entry: MetricHistoryValue,
+  threshold: number,
+  positiveDirection: MetricDirection
+): MetricThresholdStatus {
+  if (
+    entry.thresholdStatus === MetricThresholdStatus.PASSING ||
+    entry.thresholdStatus === MetricThresholdStatus.FAILING
+  ) {
+    return entry.thresholdStatus;
+  }
+
+  const passing =
+    positiveDirection === MetricDirection.UPWARD
+      ? entry.value >= threshold
+      : entry.value <= threshold;
+  return passing ? MetricThresholdStatus.PASSING : MetricThresholdStatus.FAILING;
+}
+
+/**
+ * Builds a one-line, human-readable summary of the history analysis
+ * @param name - The metric name
+ * @param count - Number of values in the window
+ * @param trend - The computed trend
+ * @param crossing - The last threshold crossing
+ * @returns A summary sentence
+ * @private
+ */
+function describeHistory(
+  name: string,
+  count: number,
+  trend: MetricHistoryTrend | null,
+  crossing: MetricThresholdCrossing | null
+): string {
+  if (!trend) {
+    return `Not enough data points (${count}) to determine a trend for ${name}.`;
+  }
+
+  const sign = trend.changePercentage > 0 ? '+' : '';
+  let summary = `${name} is ${trend.direction.toLowerCase()} (${sign}${trend.changePercentage}% over ${trend.periodDays} days, ${trend.ratePerDay} per day).`;
+  if (crossing) {
+    summary += ` It last went from ${crossing.from} to ${crossing.to} on ${crossing.crossedAt}.`;
+  }
+  return summary;
+}
+
+/**
+ * Rounds a number to two decimal places
+ * @param value - The value to round
+ * @returns The rounded value
+ * @private
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
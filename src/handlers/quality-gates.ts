@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Quality gate handlers for the DeepSource MCP server
+ * This module provides MCP tool handlers for reading and updating the issue
+ * category and priority settings that decide which issues can fail a check.
+ */
+
+import { ApiResponse } from '../models/common.js';
+import { IssueCategory, IssuePriority } from '../models/quality-gates.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { MCPErrorFactory } from '../utils/error-handling/index.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the quality gates handlers
+const logger = createLogger('QualityGatesHandler');
+
+/**
+ * Interface for parameters for fetching quality gates
+ * @public
+ */
+export interface DeepsourceQualityGatesParams {
+  /** DeepSource project key to fetch quality gates for */
+  projectKey: string;
+}
+
+/**
+ * Interface for parameters for updating an issue category setting
+ * @public
+ */
+export interface DeepsourceUpdateIssueCategorySettingParams {
+  /** DeepSource project key to identify the project */
+  projectKey: string;
+  /** Repository GraphQL ID */
+  repositoryId: string;
+  /** The issue category to update */
+  category: IssueCategory;
+  /** Whether issues in this category should be reported */
+  isReported: boolean;
+  /** Whether issues in this category should be able to fail a check */
+  canFailCheck: boolean;
+}
+
+/**
+ * Interface for parameters for updating an issue priority setting
+ * @public
+ */
+export interface DeepsourceUpdateIssuePrioritySettingParams {
+  /** DeepSource project key to identify the project */
+  projectKey: string;
+  /** Repository GraphQL ID */
+  repositoryId: string;
+  /** The issue priority to update */
+  priority: IssuePriority;
+  /** Whether issues with this priority should be reported */
+  isReported: boolean;
+  /** Whether issues with this priority should be able to fail a check */
+  canFailCheck: boolean;
+}
+
+/**
+ * Creates a quality gates handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createQualityGatesHandler = createBaseHandlerFactory(
+  'quality_gates',
+  async (deps: BaseHandlerDeps, { projectKey }: DeepsourceQualityGatesParams) => {
+    const client = deps.clientFactory.getQualityGatesClient();
+
+    deps.logger.info('Fetching quality gates', { projectKey });
+
+    const qualityGates = await client.getQualityGates(projectKey);
+    if (!qualityGates) {
+      throw MCPErrorFactory.resourceNotFound('project', { projectKey });
+    }
+
+    deps.logger.info('Successfully fetched quality gates', {
+      projectKey,
+      categoryCount: qualityGates.categories.length,
+      priorityCount: qualityGates.priorities.length,
+    });
+
+    const qualityGatesData = {
+      projectKey,
+      repositoryId: qualityGates.repositoryId,
+      categories: qualityGates.categories,
+      priorities: qualityGates.priorities,
+      // Categories and priorities that currently fail checks
+      failing_on: {
+        categories: qualityGates.categories
+          .filter((setting) => setting.canFailCheck)
+          .map((setting) => setting.category),
+        priorities: qualityGates.priorities
+          .filter((setting) => setting.canFailCheck)
+          .map((setting) => setting.priority),
+      },
+      // Provide helpful information and guidance
+      usage_examples: {
+        related_tools: {
+          update_category:
+            'Use update_issue_category_setting with this repositoryId to change a category (e.g., canFailCheck: true for SECURITY)',
+          update_priority:
+            'Use update_issue_priority_setting with this repositoryId to change a priority',
+        },
+      },
+    };
+
+    return wrapInApiResponse(qualityGatesData);
+  }
+);
+
+/**
+ * Fetches the issue category and priority settings of a project
+ * @param params - Parameters including the project key
+ * @returns A response containing the quality gates
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceQualityGates(
+  params: DeepsourceQualityGatesParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createQualityGatesHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates an update issue category setting handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createUpdateIssueCategorySettingHandler = createBaseHandlerFactory(
+  'update_issue_category_setting',
+  async (
+    deps: BaseHandlerDeps,
+    {
+      projectKey,
+      repositoryId,
+      category,
+      isReported,
+      canFailCheck,
+    }: DeepsourceUpdateIssueCategorySettingParams
+  ) => {
+    const client = deps.clientFactory.getQualityGatesClient();
+
+    deps.logger.info('Updating issue category setting', {
+      projectKey,
+      repositoryId,
+      category,
+      isReported,
+      canFailCheck,
+    });
+
+    const result = await client.updateIssueCategorySetting({
+      repositoryId,
+      category,
+      isReported,
+      canFailCheck,
+    });
+
+    deps.logger.info('Issue category setting update result', {
+      success: result.ok,
+      projectKey,
+      category,
+    });
+
+    const updateResult = {
+      ok: result.ok,
+      projectKey, // Echo back the project key for context
+      category,
+      settings: {
+        isReported,
+        canFailCheck,
+      },
+      message: result.ok
+        ? `Successfully updated quality gate for ${category} issues`
+        : `Failed to update quality gate for ${category} issues`,
+      next_steps: result.ok
+        ? ['Use quality_gates to view the updated settings']
+        : ['Check if you have sufficient permissions', 'Verify the repository ID is correct'],
+    };
+
+    return wrapInApiResponse(updateResult);
+  }
+);
+
+/**
+ * Updates whether an issue category is reported and can fail checks
+ * @param params - Parameters for updating the category setting
+ * @returns A response indicating whether the update was successful
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceUpdateIssueCategorySetting(
+  params: DeepsourceUpdateIssueCategorySettingParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createUpdateIssueCategorySettingHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates an update issue priority setting handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createUpdateIssuePrioritySettingHandler = createBaseHandlerFactory(
+  'update_issue_priority_setting',
+  async (
+    deps: BaseHandlerDeps,
+    {
+      projectKey,
+      repositoryId,
+      priority,
+      isReported,
+      canFailCheck,
+    }: DeepsourceUpdateIssuePrioritySettingParams
+  ) => {
+    const client = deps.clientFactory.getQualityGatesClient();
+
+    deps.logger.info('Updating issue priority setting', {
+      projectKey,
+      repositoryId,
+      priority,
+      isReported,
+      canFailCheck,
+    });
+
+    const result = await client.updateIssuePrioritySetting({
+      repositoryId,
+      priority,
+      isReported,
+      canFailCheck,
+    });
+
+    deps.logger.info('Issue priority setting update result', {
+      success: result.ok,
+      projectKey,
+      priority,
+    });
+
+    const updateResult = {
+      ok: result.ok,
+      projectKey, // Echo back the project key for context
+      priority,
+      settings: {
+        isReported,
+        canFailCheck,
+      },
+      message: result.ok
+        ? `Successfully updated quality gate for ${priority} priority issues`
+        : `Failed to update quality gate for ${priority} priority issues`,
+      next_steps: result.ok
+        ? ['Use quality_gates to view the updated settings']
+        : ['Check if you have sufficient permissions', 'Verify the repository ID is correct'],
+    };
+
+    return wrapInApiResponse(updateResult);
+  }
+);
+
+/**
+ * Updates whether an issue priority is reported and can fail checks
+ * @param params - Parameters for updating the priority setting
+ * @returns A response indicating whether the update was successful
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceUpdateIssuePrioritySetting(
+  params: DeepsourceUpdateIssuePrioritySettingParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createUpdateIssuePrioritySettingHandler(deps);
+  return handler(params);
+}
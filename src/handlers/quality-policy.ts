@@ -0,0 +1,714 @@
+/**
+ * @fileoverview Quality policy handlers for the DeepSource MCP server
+ * This module provides MCP tool handlers that compare a declarative quality
+ * policy with the live settings of the matching projects, and apply the
+ * differences. A policy declares metric settings, metric thresholds and issue
+ * category gates for projects selected by key or name patterns.
+ */
+
+import { z } from 'zod';
+import { ApiResponse } from '../models/common.js';
+import { DeepSourceProject } from '../models/projects.js';
+import { ISSUE_CATEGORIES, IssueCategory, QualityGates } from '../models/quality-gates.js';
+import { MetricKey, MetricShortcode } from '../models/metrics.js';
+import { QualityMetrics } from '../domain/aggregates/quality-metrics/quality-metrics.aggregate.js';
+import { ThresholdValue } from '../domain/value-objects/threshold-value.js';
+import { RepositoryFactory } from '../infrastructure/factories/repository.factory.js';
+import { asProjectKey } from '../types/branded.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { MCPErrorFactory } from '../utils/error-handling/index.js';
+import { mapWithConcurrency } from '../utils/batching/index.js';
+import { reportProgress } from '../utils/progress.js';
+import { readWorkspaceFile } from '../utils/workspace-files.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the quality policy handlers
+const logger = createLogger('QualityPolicyHandler');
+
+/**
+ * Maximum number of projects whose live settings are fetched at the same time
+ */
+const POLICY_CONCURRENCY = parseInt(process.env.POLICY_CONCURRENCY || '4', 10);
+
+/**
+ * Interface for parameters for planning or applying a quality policy
+ * @public
+ */
+export interface DeepsourceQualityPolicyParams {
+  /** The policy document as JSON */
+  policy?: string;
+  /** Path of a JSON policy file inside the working directory */
+  policyFile?: string;
+}
+
+/**
+ * Schema of the settings a policy declares for a metric
+ */
+const metricPolicySchema = z
+  .object({
+    isReported: z.boolean().optional(),
+    isThresholdEnforced: z.boolean().optional(),
+    thresholds: z.record(z.string(), z.number().nullable()).optional(),
+  })
+  .strict();
+
+/**
+ * Schema of the settings a policy declares for an issue category
+ */
+const issueCategoryPolicySchema = z
+  .object({
+    isReported: z.boolean().optional(),
+    canFailCheck: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * Schema of a quality policy document
+ * @public
+ */
+export const qualityPolicySchema = z
+  .object({
+    version: z.literal(1).optional(),
+    policies: z.array(
+      z
+        .object({
+          projects: z.union([z.string(), z.array(z.string()).min(1)]),
+          metrics: z.record(z.nativeEnum(MetricShortcode), metricPolicySchema).optional(),
+          issueCategories: z.record(z.enum(ISSUE_CATEGORIES), issueCategoryPolicySchema).optional(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+/**
+ * A quality policy document
+ * @public
+ */
+export type QualityPolicy = z.infer<typeof qualityPolicySchema>;
+
+/**
+ * What applying a policy does to a setting
+ * @public
+ */
+export type PolicyAction = 'create' | 'update' | 'delete' | 'no-op';
+
+/**
+ * A setting declared by a policy, compared with its live value
+ * @public
+ */
+export interface PolicyChange {
+  /** What applying the policy does to the setting */
+  action: PolicyAction;
+  /** Key of the project the setting belongs to */
+  projectKey: string;
+  /** Name of the project, as `login/name` */
+  project: string;
+  /** Kind of setting */
+  resource: 'metric_setting' | 'metric_threshold' | 'issue_category';
+  /** Address of the setting within the project, e.g. `metric_threshold.LCV.AGGREGATE` */
+  address: string;
+  /** Live value of the setting */
+  current: unknown;
+  /** Value the policy declares */
+  desired: unknown;
+}
+
+/**
+ * Plan of the changes needed to bring the matching projects in line with a policy
+ * @public
+ */
+export interface PolicyPlan {
+  /** Projects matched by the policy */
+  projects: Array<{ projectKey: string; project: string }>;
+  /** Every declared setting, in project order */
+  changes: PolicyChange[];
+  /** Number of settings per action */
+  summary: { create: number; update: number; delete: number; noop: number };
+  /** Problems that prevent the policy from being applied */
+  errors: string[];
+  /** Patterns that match no project */
+  warnings: string[];
+}
+
+/**
+ * A planned change together with the mutation that applies it
+ * @private
+ */
+interface PlannedChange {
+  change: PolicyChange;
+  apply?: () => Promise<{ ok: boolean }>;
+}
+
+/**
+ * Settings a policy declares for one metric of a project
+ * @private
+ */
+interface DesiredMetric {
+  isReported?: boolean;
+  isThresholdEnforced?: boolean;
+  thresholds: Map<string, number | null>;
+}
+
+/**
+ * Settings a policy declares for one project
+ * @private
+ */
+interface DesiredProjectState {
+  metrics: Map<MetricShortcode, DesiredMetric>;
+  issueCategories: Map<IssueCategory, { isReported?: boolean; canFailCheck?: boolean }>;
+}
+
+/**
+ * Loads and validates a quality policy
+ * @param params - The inline policy or the path of a policy file
+ * @returns The policy
+ * @throws {MCPError} When no policy or both are given, the file is outside the
+ * working directory, or the policy is not valid
+ * @public
+ */
+export async function loadQualityPolicy(
+  params: DeepsourceQualityPolicyParams
+): Promise<QualityPolicy> {
+  if ((params.policy === undefined) === (params.policyFile === undefined)) {
+    throw MCPErrorFactory.validation('Provide either policy or policyFile', {
+      field: 'policy',
+    });
+  }
+
+  const content =
+    params.policyFile === undefined
+      ? params.policy
+      : await readWorkspaceFile(params.policyFile, 'policyFile');
+
+  let document: unknown;
+  try {
+    document = JSON.parse(content ?? '');
+  } catch (error) {
+    throw MCPErrorFactory.validation(
+      `The policy is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      { field: 'policy' }
+    );
+  }
+
+  const result = qualityPolicySchema.safeParse(document);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || 'policy'}: ${issue.message}`
+    );
+    throw MCPErrorFactory.validation(`The policy is not valid: ${problems.join('; ')}`, {
+      field: 'policy',
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Checks whether a project pattern matches a project
+ *
+ * Patterns are matched against the project key and against `login/name`,
+ * where `*` matches any sequence of characters.
+ *
+ * @param pattern - The project pattern
+ * @param project - The project
+ * @returns True when the pattern matches the project
+ * @private
+ */
+function matchesProject(pattern: string, project: DeepSourceProject): boolean {
+  const regex = new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`
+  );
+  return regex.test(project.key) || regex.test(projectLabel(project));
+}
+
+/**
+ * Names a project for display
+ * @param project - The project
+ * @returns The project name as `login/name`
+ * @private
+ */
+function projectLabel(project: DeepSourceProject): string {
+  return `${project.repository.login}/${project.name}`;
+}
+
+/**
+ * Merges the rules of a policy that match a project
+ *
+ * Rules apply in order, so later rules override the settings of earlier ones.
+ *
+ * @param policy - The policy
+ * @param project - The project
+ * @returns The declared settings, or undefined when no rule matches the project
+ * @private
+ */
+function resolveDesiredState(
+  policy: QualityPolicy,
+  project: DeepSourceProject
+): DesiredProjectState | undefined {
+  let desired: DesiredProjectState | undefined;
+
+  for (const rule of policy.policies) {
+    const patterns = typeof rule.projects === 'string' ? [rule.projects] : rule.projects;
+    if (!patterns.some((pattern) => matchesProject(pattern, project))) {
+      continue;
+    }
+    desired ??= { metrics: new Map(), issueCategories: new Map() };
+
+    for (const [shortcode, metricPolicy] of Object.entries(rule.metrics ?? {})) {
+      if (!metricPolicy) continue;
+      const metric: DesiredMetric = desired.metrics.get(shortcode as MetricShortcode) ?? {
+        thresholds: new Map(),
+      };
+      if (metricPolicy.isReported !== undefined) metric.isReported = metricPolicy.isReported;
+      if (metricPolicy.isThresholdEnforced !== undefined) {
+        metric.isThresholdEnforced = metricPolicy.isThresholdEnforced;
+      }
+      for (const [metricKey, threshold] of Object.entries(metricPolicy.thresholds ?? {})) {
+        metric.thresholds.set(metricKey, threshold);
+      }
+      desired.metrics.set(shortcode as MetricShortcode, metric);
+    }
+
+    for (const [category, categoryPolicy] of Object.entries(rule.issueCategories ?? {})) {
+      if (!categoryPolicy) continue;
+      const current = desired.issueCategories.get(category as IssueCategory) ?? {};
+      desired.issueCategories.set(category as IssueCategory, {
+        ...current,
+        ...(categoryPolicy.isReported !== undefined && { isReported: categoryPolicy.isReported }),
+        ...(categoryPolicy.canFailCheck !== undefined && {
+          canFailCheck: categoryPolicy.canFailCheck,
+        }),
+      });
+    }
+  }
+
+  return desired;
+}
+
+/**
+ * Decides what applying a value does to a setting
+ * @param current - The live value, null when the setting is not set
+ * @param desired - The declared value, null to remove the setting
+ * @returns The action
+ * @private
+ */
+function actionFor(current: unknown, desired: unknown): PolicyAction {
+  if (JSON.stringify(current) === JSON.stringify(desired)) return 'no-op';
+  if (current === null) return 'create';
+  if (desired === null) return 'delete';
+  return 'update';
+}
+
+/**
+ * Plans the changes of one project
+ * @param deps - The handler dependencies
+ * @param project - The project
+ * @param desired - The settings the policy declares for the project
+ * @param metrics - The live metrics of the project
+ * @param qualityGates - The live quality gates, when the policy declares issue categories
+ * @returns The planned changes and the problems found
+ * @private
+ */
+function planProject(
+  deps: BaseHandlerDeps,
+  project: DeepSourceProject,
+  desired: DesiredProjectState,
+  metrics: QualityMetrics[],
+  qualityGates: QualityGates | null
+): { planned: PlannedChange[]; errors: string[] } {
+  const planned: PlannedChange[] = [];
+  const errors: string[] = [];
+  const label = projectLabel(project);
+  const base = { projectKey: project.key, project: label };
+
+  for (const [shortcode, metricPolicy] of desired.metrics) {
+    const contexts = metrics.filter((metric) => metric.configuration.shortcode === shortcode);
+    const [first] = contexts;
+    if (!first) {
+      errors.push(`${label}: the ${shortcode} metric is not available`);
+      continue;
+    }
+
+    if (metricPolicy.isReported !== undefined || metricPolicy.isThresholdEnforced !== undefined) {
+      const current = {
+        isReported: first.configuration.isReported,
+        isThresholdEnforced: first.configuration.isThresholdEnforced,
+      };
+      const settings = {
+        isReported: metricPolicy.isReported ?? current.isReported,
+        isThresholdEnforced: metricPolicy.isThresholdEnforced ?? current.isThresholdEnforced,
+      };
+      const action = actionFor(current, settings);
+      planned.push({
+        change: {
+          ...base,
+          action,
+          resource: 'metric_setting',
+          address: `metric_setting.${shortcode}`,
+          current,
+          desired: settings,
+        },
+        ...(action !== 'no-op' && {
+          apply: () =>
+            deps.clientFactory.getMetricsClient().updateMetricSetting({
+              repositoryId: first.repositoryId,
+              metricShortcode: shortcode,
+              ...settings,
+            }),
+        }),
+      });
+    }
+
+    for (const [metricKey, threshold] of metricPolicy.thresholds) {
+      const address = `metric_threshold.${shortcode}.${metricKey}`;
+      const context = contexts.find((metric) => metric.configuration.metricKey === metricKey);
+      if (!context) {
+        errors.push(`${label}: ${shortcode} has no ${metricKey} context`);
+        continue;
+      }
+      if (threshold !== null) {
+        const { unit, minAllowed, maxAllowed } = context.configuration;
+        try {
+          ThresholdValue.create(threshold, unit, minAllowed, maxAllowed);
+        } catch (error) {
+          errors.push(
+            `${label}: ${address}: ${error instanceof Error ? error.message : String(error)}`
+          );
+          continue;
+        }
+      }
+
+      const current = context.configuration.threshold?.value ?? null;
+      const action = actionFor(current, threshold);
+      planned.push({
+        change: {
+          ...base,
+          action,
+          resource: 'metric_threshold',
+          address,
+          current,
+          desired: threshold,
+        },
+        ...(action !== 'no-op' && {
+          apply: () =>
+            deps.clientFactory.getMetricsClient().setMetricThreshold({
+              repositoryId: context.repositoryId,
+              metricShortcode: shortcode,
+              metricKey: metricKey as MetricKey,
+              thresholdValue: threshold,
+            }),
+        }),
+      });
+    }
+  }
+
+  for (const [category, categoryPolicy] of desired.issueCategories) {
+    const setting = qualityGates?.categories.find((candidate) => candidate.category === category);
+    if (!qualityGates || !setting) {
+      errors.push(`${label}: the quality gate of ${category} issues is not available`);
+      continue;
+    }
+    const current = { isReported: setting.isReported, canFailCheck: setting.canFailCheck };
+    const settings = {
+      isReported: categoryPolicy.isReported ?? current.isReported,
+      canFailCheck: categoryPolicy.canFailCheck ?? current.canFailCheck,
+    };
+    const action = actionFor(current, settings);
+    planned.push({
+      change: {
+        ...base,
+        action,
+        resource: 'issue_category',
+        address: `issue_category.${category}`,
+        current,
+        desired: settings,
+      },
+      ...(action !== 'no-op' && {
+        apply: () =>
+          deps.clientFactory.getQualityGatesClient().updateIssueCategorySetting({
+            repositoryId: qualityGates.repositoryId,
+            category,
+            ...settings,
+          }),
+      }),
+    });
+  }
+
+  return { planned, errors };
+}
+
+/**
+ * Compares a policy with the live settings of the projects it matches
+ * @param deps - The handler dependencies
+ * @param policy - The policy
+ * @returns The plan and the mutations that apply it
+ * @private
+ */
+async function buildPolicyPlan(
+  deps: BaseHandlerDeps,
+  policy: QualityPolicy
+): Promise<{ plan: PolicyPlan; planned: PlannedChange[] }> {
+  const projects = await deps.clientFactory.getProjectsClient().listProjects();
+  const metricsRepository = new RepositoryFactory({
+    apiKey: deps.getApiKey(),
+  }).createQualityMetricsRepository();
+
+  const warnings = policy.policies
+    .flatMap((rule) => (typeof rule.projects === 'string' ? [rule.projects] : rule.projects))
+    .filter((pattern) => !projects.some((project) => matchesProject(pattern, project)))
+    .map((pattern) => `No project matches ${pattern}`);
+
+  const targets = projects.flatMap((project) => {
+    const desired = resolveDesiredState(policy, project);
+    return desired ? [{ project, desired }] : [];
+  });
+
+  let planned = 0;
+  const results = await mapWithConcurrency(targets, POLICY_CONCURRENCY, async (target) => {
+    const { project, desired } = target;
+    const [metrics, qualityGates] = await Promise.all([
+      desired.metrics.size > 0
+        ? metricsRepository.findByProject(asProjectKey(project.key))
+        : Promise.resolve([]),
+      desired.issueCategories.size > 0
+        ? deps.clientFactory.getQualityGatesClient().getQualityGates(project.key)
+        : Promise.resolve(null),
+    ]);
+
+    planned++;
+    await reportProgress({
+      progress: planned,
+      total: targets.length,
+      message: `Planned ${planned} of ${targets.length} projects`,
+    });
+    return planProject(deps, project, desired, metrics, qualityGates);
+  });
+
+  const plannedChanges = results.flatMap((result) => result.planned);
+  const changes = plannedChanges.map((plannedChange) => plannedChange.change);
+  const count = (action: PolicyAction) =>
+    changes.filter((change) => change.action === action).length;
+
+  return {
+    plan: {
+      projects: targets.map(({ project }) => ({
+        projectKey: project.key,
+        project: projectLabel(project),
+      })),
+      changes,
+      summary: {
+        create: count('create'),
+        update: count('update'),
+        delete: count('delete'),
+        noop: count('no-op'),
+      },
+      errors: results.flatMap((result) => result.errors),
+      warnings,
+    },
+    planned: plannedChanges,
+  };
+}
+
+/**
+ * Compares a policy with the live settings of the projects it matches
+ * @param deps - The handler dependencies
+ * @param policy - The policy
+ * @returns The plan
+ * @public
+ */
+export async function planQualityPolicy(
+  deps: BaseHandlerDeps,
+  policy: QualityPolicy
+): Promise<PolicyPlan> {
+  return (await buildPolicyPlan(deps, policy)).plan;
+}
+
+/**
+ * Formats the counts of a plan
+ * @param summary - The counts per action
+ * @returns The counts as text
+ * @public
+ */
+export function formatPolicySummary(summary: PolicyPlan['summary']): string {
+  return `${summary.create} to create, ${summary.update} to update, ${summary.delete} to delete, ${summary.noop} unchanged`;
+}
+
+/**
+ * Symbols marking each action in the plan text
+ */
+const ACTION_SYMBOLS: Record<PolicyAction, string> = {
+  create: '+',
+  update: '~',
+  delete: '-',
+  'no-op': '=',
+};
+
+/**
+ * Renders a plan as text, grouped by project
+ * @param plan - The plan
+ * @returns The plan text
+ * @public
+ */
+export function renderPolicyPlan(plan: PolicyPlan): string {
+  const lines: string[] = [];
+
+  for (const { projectKey, project } of plan.projects) {
+    lines.push(`${project} (${projectKey})`);
+    for (const change of plan.changes.filter((candidate) => candidate.projectKey === projectKey)) {
+      const values =
+        change.action === 'no-op'
+          ? ''
+          : `: ${JSON.stringify(change.current)} -> ${JSON.stringify(change.desired)}`;
+      lines.push(`  ${ACTION_SYMBOLS[change.action]} ${change.address}${values}`);
+    }
+  }
+
+  for (const warning of plan.warnings) {
+    lines.push(`Warning: ${warning}`);
+  }
+  for (const error of plan.errors) {
+    lines.push(`Error: ${error}`);
+  }
+  lines.push(`Plan: ${formatPolicySummary(plan.summary)}.`);
+  return lines.join('\n');
+}
+
+/**
+ * Creates a policy plan handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createPolicyPlanHandler = createBaseHandlerFactory(
+  'policy_plan',
+  async (deps: BaseHandlerDeps, params: DeepsourceQualityPolicyParams) => {
+    const policy = await loadQualityPolicy(params);
+    deps.logger.info('Planning quality policy', { rules: policy.policies.length });
+
+    const plan = await planQualityPolicy(deps, policy);
+    const pending = plan.summary.create + plan.summary.update + plan.summary.delete;
+
+    return wrapInApiResponse({
+      ...plan,
+      planText: renderPolicyPlan(plan),
+      next_steps:
+        plan.errors.length > 0
+          ? ['Fix the errors in the policy before applying it']
+          : pending > 0
+            ? ['Use policy_apply with the same policy to apply the changes']
+            : ['The projects already follow the policy'],
+    });
+  }
+);
+
+/**
+ * Plans the changes needed to bring the matching projects in line with a policy
+ * @param params - The policy or the path of a policy file
+ * @returns A response containing the plan
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourcePolicyPlan(
+  params: DeepsourceQualityPolicyParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createPolicyPlanHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates a policy apply handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createPolicyApplyHandler = createBaseHandlerFactory(
+  'policy_apply',
+  async (deps: BaseHandlerDeps, params: DeepsourceQualityPolicyParams) => {
+    const policy = await loadQualityPolicy(params);
+    const { plan, planned } = await buildPolicyPlan(deps, policy);
+
+    if (plan.errors.length > 0) {
+      throw MCPErrorFactory.validation(
+        `The policy cannot be applied: ${plan.errors.join('; ')}. Nothing has been changed.`,
+        { field: 'policy' }
+      );
+    }
+
+    const pending = planned.filter((plannedChange) => plannedChange.apply);
+    deps.logger.info('Applying quality policy', {
+      projects: plan.projects.length,
+      changes: pending.length,
+    });
+
+    // Changes are applied one at a time so that a failure leaves a clear record
+    const results: Array<{
+      projectKey: string;
+      address: string;
+      action: PolicyAction;
+      ok: boolean;
+      error?: string;
+    }> = [];
+    for (const [index, { change, apply }] of pending.entries()) {
+      const { projectKey, address, action } = change;
+      try {
+        const { ok } = await (apply as NonNullable<PlannedChange['apply']>)();
+        results.push({ projectKey, address, action, ok });
+      } catch (error) {
+        deps.logger.error('Failed to apply a policy change', { projectKey, address, error });
+        results.push({
+          projectKey,
+          address,
+          action,
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      await reportProgress({
+        progress: index + 1,
+        total: pending.length,
+        message: `Applied ${index + 1} of ${pending.length} changes`,
+      });
+    }
+
+    const failed = results.filter((result) => !result.ok).length;
+
+    return wrapInApiResponse({
+      ok: failed === 0,
+      summary: plan.summary,
+      applied: results.length - failed,
+      failed,
+      results,
+      planText: renderPolicyPlan(plan),
+      message:
+        failed === 0
+          ? `Applied the policy: ${formatPolicySummary(plan.summary)}`
+          : `Applied ${results.length - failed} of ${results.length} policy changes; ${failed} failed`,
+      next_steps:
+        failed === 0
+          ? ['Use policy_plan to confirm that the projects follow the policy']
+          : ['Check the failed changes, then use policy_apply again to retry them'],
+    });
+  }
+);
+
+/**
+ * Applies the changes needed to bring the matching projects in line with a policy
+ * @param params - The policy or the path of a policy file
+ * @returns A response listing the applied changes
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourcePolicyApply(
+  params: DeepsourceQualityPolicyParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createPolicyApplyHandler(deps);
+  return handler(params);
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Repository lifecycle handlers for the DeepSource MCP server
+ * This module provides MCP tool handlers that activate and deactivate a
+ * repository and change its default branch through the Project aggregate.
+ */
+
+import { IProjectRepository } from '../domain/aggregates/project/project.repository.js';
+import { Project } from '../domain/aggregates/project/project.aggregate.js';
+import { RepositoryFactory } from '../infrastructure/factories/repository.factory.js';
+import { ApiResponse } from '../models/common.js';
+import { asProjectKey } from '../types/branded.js';
+import { createLogger, Logger } from '../utils/logging/logger.js';
+import { getApiKey } from '../config/index.js';
+import {
+  MCPErrorFactory,
+  MCPErrorFormatter,
+  validateNonEmptyString,
+} from '../utils/error-handling/index.js';
+
+// Logger for the repository lifecycle handlers
+const logger = createLogger('RepositoryLifecycleHandler');
+
+/**
+ * Interface for parameters for activating or deactivating a repository
+ * @public
+ */
+export interface DeepsourceRepositoryLifecycleParams {
+  /** DeepSource project key identifying the repository */
+  projectKey: string;
+}
+
+/**
+ * Interface for parameters for changing a repository's default branch
+ * @public
+ */
+export interface DeepsourceUpdateDefaultBranchParams extends DeepsourceRepositoryLifecycleParams {
+  /** Name of the branch DeepSource should analyze by default */
+  defaultBranch: string;
+}
+
+/**
+ * Dependencies interface for the repository lifecycle handlers
+ */
+export interface RepositoryLifecycleHandlerDeps {
+  projectRepository: IProjectRepository;
+  logger: Logger;
+}
+
+/**
+ * Describes a lifecycle change applied by one of the tools
+ * @private
+ */
+interface LifecycleChange {
+  /** Operation name used for logging and error context */
+  operation: string;
+  /** Applies the state transition to the aggregate */
+  apply: (project: Project) => void;
+  /** Whether DeepSource starts a new analysis of the changed repository */
+  triggersReanalysis: (project: Project) => boolean;
+  /** Message returned when the change was applied */
+  appliedMessage: (project: Project) => string;
+  /** Message returned when the repository was already in the requested state */
+  unchangedMessage: (project: Project) => string;
+}
+
+/**
+ * Loads a project, applies a lifecycle change and persists it
+ * @param deps - The handler dependencies
+ * @param projectKey - The project key supplied to the tool
+ * @param change - The lifecycle change to apply
+ * @returns The tool response
+ * @private
+ */
+async function applyLifecycleChange(
+  deps: RepositoryLifecycleHandlerDeps,
+  projectKey: string,
+  change: LifecycleChange
+): Promise<ApiResponse> {
+  try {
+    const key = validateNonEmptyString(projectKey, 'projectKey');
+
+    deps.logger.info('Applying repository lifecycle change', {
+      projectKey: key,
+      operation: change.operation,
+    });
+
+    const project = await deps.projectRepository.findByKey(asProjectKey(key));
+    if (!project) {
+      throw MCPErrorFactory.resourceNotFound('project', { projectKey: key });
+    }
+
+    change.apply(project);
+    const changed = project.domainEvents.length > 0;
+    await deps.projectRepository.save(project);
+
+    const reanalysisTriggered = changed && change.triggersReanalysis(project);
+    deps.logger.info('Repository lifecycle change saved', {
+      projectKey: key,
+      operation: change.operation,
+      changed,
+      reanalysisTriggered,
+    });
+
+    const lifecycleResult = {
+      ok: true,
+      projectKey: key, // Echo back the project key for context
+      repository: {
+        login: project.repository.login,
+        provider: project.repository.provider,
+        url: project.repository.url,
+        defaultBranch: project.repository.defaultBranch ?? null,
+      },
+      status: project.status,
+      isActivated: project.configuration.isActivated,
+      changed,
+      reanalysis: {
+        triggered: reanalysisTriggered,
+        branch: reanalysisTriggered ? (project.repository.defaultBranch ?? null) : null,
+      },
+      message: changed ? change.appliedMessage(project) : change.unchangedMessage(project),
+      next_steps: reanalysisTriggered
+        ? [
+            'Use the runs tool to follow the analysis DeepSource has queued',
+            'Use project_issues once the run completes to review the results',
+          ]
+        : ['Use the projects tool to review the repositories DeepSource analyzes'],
+    };
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(lifecycleResult),
+        },
+      ],
+    };
+  } catch (error) {
+    deps.logger.error(`Error in ${change.operation}`, {
+      errorType: typeof error,
+      errorName: error instanceof Error ? error.name : 'Unknown',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+
+    // Use MCP-compliant error formatting
+    return MCPErrorFormatter.createErrorResponse(error, change.operation);
+  }
+}
+
+/**
+ * Creates the repository dependencies used by the exported handlers
+ * @returns Dependencies backed by the DeepSource API
+ * @private
+ */
+function createDefaultLifecycleDeps(): RepositoryLifecycleHandlerDeps {
+  const repositoryFactory = new RepositoryFactory({ apiKey: getApiKey() });
+  return {
+    projectRepository: repositoryFactory.createProjectRepository(),
+    logger,
+  };
+}
+
+/**
+ * Creates an activate repository handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler function
+ */
+export function createActivateRepositoryHandler(deps: RepositoryLifecycleHandlerDeps) {
+  return async function handleActivateRepository(
+    params: DeepsourceRepositoryLifecycleParams
+  ): Promise<ApiResponse> {
+    return applyLifecycleChange(deps, params.projectKey, {
+      operation: 'activate-repository',
+      apply: (project) => project.activate(),
+      triggersReanalysis: () => true,
+      appliedMessage: (project) =>
+        `Activated ${project.name}. DeepSource has queued an analysis of the default branch.`,
+      unchangedMessage: (project) => `${project.name} is already activated`,
+    });
+  };
+}
+
+/**
+ * Creates a deactivate repository handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler function
+ */
+export function createDeactivateRepositoryHandler(deps: RepositoryLifecycleHandlerDeps) {
+  return async function handleDeactivateRepository(
+    params: DeepsourceRepositoryLifecycleParams
+  ): Promise<ApiResponse> {
+    return applyLifecycleChange(deps, params.projectKey, {
+      operation: 'deactivate-repository',
+      apply: (project) => project.deactivate(),
+      triggersReanalysis: () => false,
+      appliedMessage: (project) =>
+        `Deactivated ${project.name}. DeepSource will no longer analyze new commits.`,
+      unchangedMessage: (project) => `${project.name} is already deactivated`,
+    });
+  };
+}
+
+/**
+ * Creates an update default branch handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler function
+ */
+export function createUpdateDefaultBranchHandler(deps: RepositoryLifecycleHandlerDeps) {
+  return async function handleUpdateDefaultBranch(
+    params: DeepsourceUpdateDefaultBranchParams
+  ): Promise<ApiResponse> {
+    let defaultBranch: string;
+    try {
+      defaultBranch = validateNonEmptyString(params.defaultBranch, 'defaultBranch');
+    } catch (error) {
+      return MCPErrorFormatter.createErrorResponse(error, 'update-default-branch');
+    }
+
+    return applyLifecycleChange(deps, params.projectKey, {
+      operation: 'update-default-branch',
+      apply: (project) => project.changeDefaultBranch(defaultBranch),
+      // DeepSource only analyzes the new branch of an activated repository
+      triggersReanalysis: (project) => project.configuration.isActivated,
+      appliedMessage: (project) =>
+        project.configuration.isActivated
+          ? `Changed the default branch of ${project.name} to ${defaultBranch}. DeepSource has queued an analysis of ${defaultBranch}.`
+          : `Changed the default branch of ${project.name} to ${defaultBranch}. The repository is not activated, so DeepSource will analyze ${defaultBranch} once it is.`,
+      unchangedMessage: (project) =>
+        `${defaultBranch} is already the default branch of ${project.name}`,
+    });
+  };
+}
+
+/**
+ * Activates a repository so that DeepSource starts analyzing it
+ * @param params - Parameters identifying the project
+ * @returns A response describing the new state and the triggered analysis
+ * @public
+ */
+export async function handleDeepsourceActivateRepository(
+  params: DeepsourceRepositoryLifecycleParams
+): Promise<ApiResponse> {
+  try {
+    const handler = createActivateRepositoryHandler(createDefaultLifecycleDeps());
+    return handler(params);
+  } catch (error) {
+    // Handle configuration errors and other setup issues
+    return MCPErrorFormatter.createErrorResponse(error, 'activate-repository-setup');
+  }
+}
+
+/**
+ * Deactivates a repository so that DeepSource stops analyzing it
+ * @param params - Parameters identifying the project
+ * @returns A response describing the new state
+ * @public
+ */
+export async function handleDeepsourceDeactivateRepository(
+  params: DeepsourceRepositoryLifecycleParams
+): Promise<ApiResponse> {
+  try {
+    const handler = createDeactivateRepositoryHandler(createDefaultLifecycleDeps());
+    return handler(params);
+  } catch (error) {
+    // Handle configuration errors and other setup issues
+    return MCPErrorFormatter.createErrorResponse(error, 'deactivate-repository-setup');
+  }
+}
+
+/**
+ * Changes the branch DeepSource analyzes by default for a repository
+ * @param params - Parameters identifying the project and the new default branch
+ * @returns A response describing the new state and any triggered analysis
+ * @public
+ */
+export async function handleDeepsourceUpdateDefaultBranch(
+  params: DeepsourceUpdateDefaultBranchParams
+): Promise<ApiResponse> {
+  try {
+    const handler = createUpdateDefaultBranchHandler(createDefaultLifecycleDeps());
+    return handler(params);
+  } catch (error) {
+    // Handle configuration errors and other setup issues
+    return MCPErrorFormatter.createErrorResponse(error, 'update-default-branch-setup');
+  }
+}
@@ -0,0 +1,603 @@
+/**
+ * @fileoverview Settings snapshot handlers for the DeepSource MCP server
+ * This module provides MCP tool handlers that capture the complete
+ * configuration of a project as a versioned JSON document, and compare two
+ * snapshots, or a snapshot with the live settings, to detect drift such as
+ * quality gates that were loosened.
+ */
+
+import { z } from 'zod';
+import { ApiResponse } from '../models/common.js';
+import { RepositoryFactory } from '../infrastructure/factories/repository.factory.js';
+import { asProjectKey } from '../types/branded.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { MCPErrorFactory, validateNonEmptyString } from '../utils/error-handling/index.js';
+import { readWorkspaceFile } from '../utils/workspace-files.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the settings snapshot handlers
+const logger = createLogger('SettingsSnapshotHandler');
+
+/**
+ * Version of the snapshot document format
+ */
+export const SETTINGS_SNAPSHOT_VERSION = 1;
+
+/**
+ * Maximum number of pages of ignore rules captured in a snapshot
+ */
+const SNAPSHOT_IGNORE_RULES_MAX_PAGES = parseInt(
+  process.env.SNAPSHOT_IGNORE_RULES_MAX_PAGES || '20',
+  10
+);
+
+/**
+ * Interface for parameters for capturing a settings snapshot
+ * @public
+ */
+export interface DeepsourceSettingsSnapshotParams {
+  /** DeepSource project key identifying the repository */
+  projectKey: string;
+}
+
+/**
+ * Interface for parameters for comparing settings snapshots
+ * @public
+ */
+export interface DeepsourceSettingsDiffParams {
+  /** The earlier snapshot as JSON */
+  before?: string;
+  /** Path of the earlier snapshot inside the working directory */
+  beforeFile?: string;
+  /** The later snapshot as JSON; the live settings are used when omitted */
+  after?: string;
+  /** Path of the later snapshot inside the working directory */
+  afterFile?: string;
+}
+
+/**
+ * Schema of the reporting and check settings of an issue category or priority
+ */
+const issueGateShape = {
+  isReported: z.boolean(),
+  canFailCheck: z.boolean(),
+};
+
+/**
+ * Schema of a settings snapshot document
+ * @public
+ */
+export const settingsSnapshotSchema = z.object({
+  schemaVersion: z.literal(SETTINGS_SNAPSHOT_VERSION),
+  capturedAt: z.string(),
+  project: z.object({
+    key: z.string(),
+    name: z.string(),
+    login: z.string(),
+    provider: z.string(),
+  }),
+  defaultBranch: z.string().nullable(),
+  metrics: z.array(
+    z.object({
+      shortcode: z.string(),
+      metricKey: z.string(),
+      positiveDirection: z.enum(['UPWARD', 'DOWNWARD']),
+      isReported: z.boolean(),
+      isThresholdEnforced: z.boolean(),
+      threshold: z.number().nullable(),
+    })
+  ),
+  issueCategories: z.array(z.object({ category: z.string(), ...issueGateShape })),
+  issuePriorities: z.array(z.object({ priority: z.string(), ...issueGateShape })),
+  ignoreRules: z.array(
+    z.object({
+      type: z.string(),
+      level: z.string(),
+      issue: z.string().nullable(),
+      filePath: z.string().nullable(),
+      globPattern: z.string().nullable(),
+    })
+  ),
+  analyzers: z.array(z.object({ shortcode: z.string(), name: z.string() })),
+  configJson: z.unknown(),
+});
+
+/**
+ * A settings snapshot document
+ * @public
+ */
+export type SettingsSnapshot = z.infer<typeof settingsSnapshotSchema>;
+
+/**
+ * Whether a difference makes the checks of a project weaker or stronger
+ * @public
+ */
+export type SettingsDriftDirection = 'loosened' | 'tightened' | 'changed';
+
+/**
+ * A setting that differs between two snapshots
+ * @public
+ */
+export interface SettingsDrift {
+  /** Path of the setting, e.g. `issueCategories.SECURITY.canFailCheck` */
+  path: string;
+  /** Whether the setting was added, removed or changed */
+  change: 'added' | 'removed' | 'changed';
+  /** Value in the earlier snapshot, null when added */
+  before: unknown;
+  /** Value in the later snapshot, null when removed */
+  after: unknown;
+  /** Whether the difference makes the checks weaker or stronger */
+  direction: SettingsDriftDirection;
+}
+
+/**
+ * Sorts the entries of a snapshot section by their identifying key
+ * @private
+ */
+function sortByKey<T>(entries: T[], key: (entry: T) => string): T[] {
+  return [...entries].sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+/**
+ * Identifies an ignore rule by what it silences
+ * @private
+ */
+function ignoreRuleKey(rule: SettingsSnapshot['ignoreRules'][number]): string {
+  return `${rule.issue ?? '*'}:${rule.type}:${rule.filePath ?? rule.globPattern ?? '*'}`;
+}
+
+/**
+ * Captures the complete configuration of a project
+ * @param deps - The handler dependencies
+ * @param projectKey - The project key
+ * @returns The snapshot and warnings about settings that could not be captured in full
+ * @throws {MCPError} When the project does not exist
+ * @public
+ */
+export async function captureSettingsSnapshot(
+  deps: BaseHandlerDeps,
+  projectKey: string
+): Promise<{ snapshot: SettingsSnapshot; warnings: string[] }> {
+  const projectsClient = deps.clientFactory.getProjectsClient();
+  const projects = await projectsClient.listProjects();
+  const project = projects.find((candidate) => candidate.key === projectKey);
+  if (!project) {
+    throw MCPErrorFactory.resourceNotFound('project', { projectKey });
+  }
+
+  const metricsRepository = new RepositoryFactory({
+    apiKey: deps.getApiKey(),
+  }).createQualityMetricsRepository();
+
+  const [metrics, qualityGates, ignoreRules, repositorySettings] = await Promise.all([
+    metricsRepository.findByProject(asProjectKey(projectKey)),
+    deps.clientFactory.getQualityGatesClient().getQualityGates(projectKey),
+    deps.clientFactory
+      .getIgnoreRulesClient()
+      .getIgnoreRules(projectKey, { max_pages: SNAPSHOT_IGNORE_RULES_MAX_PAGES }),
+    projectsClient.getRepositorySettings(projectKey),
+  ]);
+
+  const warnings: string[] = [];
+  if (!qualityGates) {
+    warnings.push('The quality gates of the project are not available');
+  }
+  if (!repositorySettings) {
+    warnings.push('The analyzers and configuration of the project are not available');
+  }
+  if (ignoreRules.pageInfo.hasNextPage) {
+    warnings.push(
+      `Only the first ${SNAPSHOT_IGNORE_RULES_MAX_PAGES} pages of ignore rules were captured`
+    );
+  }
+
+  const snapshot: SettingsSnapshot = {
+    schemaVersion: SETTINGS_SNAPSHOT_VERSION,
+    capturedAt: new Date().toISOString(),
+    project: {
+      key: project.key,
+      name: project.name,
+      login: project.repository.login,
+      provider: project.repository.provider,
+    },
+    defaultBranch: repositorySettings?.defaultBranch ?? project.repository.defaultBranch ?? null,
+    metrics: sortByKey(
+      metrics.map(({ configuration }) => ({
+        shortcode: configuration.shortcode,
+        metricKey: configuration.metricKey,
+        positiveDirection: configuration.positiveDirection,
+        isReported: configuration.isReported,
+        isThresholdEnforced: configuration.isThresholdEnforced,
+        threshold: configuration.threshold?.value ?? null,
+      })),
+      (metric) => `${metric.shortcode}.${metric.metricKey}`
+    ),
+    issueCategories: sortByKey(
+      (qualityGates?.categories ?? []).map(({ category, isReported, canFailCheck }) => ({
+        category,
+        isReported,
+        canFailCheck,
+      })),
+      (setting) => setting.category
+    ),
+    issuePriorities: sortByKey(
+      (qualityGates?.priorities ?? []).map(({ priority, isReported, canFailCheck }) => ({
+        priority,
+        isReported,
+        canFailCheck,
+      })),
+      (setting) => setting.priority
+    ),
+    ignoreRules: sortByKey(
+      ignoreRules.items.map((rule) => ({
+        type: rule.type,
+        level: rule.level,
+        issue: rule.issue?.shortcode ?? null,
+        filePath: rule.filePath,
+        globPattern: rule.globPattern,
+      })),
+      ignoreRuleKey
+    ),
+    analyzers: sortByKey(
+      repositorySettings?.enabledAnalyzers ?? [],
+      (analyzer) => analyzer.shortcode
+    ),
+    configJson: repositorySettings?.configJson ?? null,
+  };
+
+  return { snapshot, warnings };
+}
+
+/**
+ * Loads and validates a snapshot given inline or as a file
+ * @param json - The snapshot as JSON
+ * @param file - The path of the snapshot file
+ * @param field - The name of the inline argument, for error messages
+ * @returns The snapshot, or undefined when neither is given
+ * @throws {MCPError} When both are given or the snapshot is not valid
+ * @private
+ */
+async function loadSnapshot(
+  json: string | undefined,
+  file: string | undefined,
+  field: string
+): Promise<SettingsSnapshot | undefined> {
+  if (json !== undefined && file !== undefined) {
+    throw MCPErrorFactory.validation(`Provide either ${field} or ${field}File`, { field });
+  }
+  if (json === undefined && file === undefined) {
+    return undefined;
+  }
+
+  const content = file === undefined ? json : await readWorkspaceFile(file, `${field}File`);
+  let document: unknown;
+  try {
+    document = JSON.parse(content ?? '');
+  } catch (error) {
+    throw MCPErrorFactory.validation(
+      `The ${field} snapshot is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      { field }
+    );
+  }
+
+  const result = settingsSnapshotSchema.safeParse(document);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || 'snapshot'}: ${issue.message}`
+    );
+    throw MCPErrorFactory.validation(`The ${field} snapshot is not valid: ${problems.join('; ')}`, {
+      field,
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Compares two values, descending into plain objects
+ * @param path - The path of the values
+ * @param before - The earlier value
+ * @param after - The later value
+ * @returns The differences, all without a direction
+ * @private
+ */
+function diffValues(path: string, before: unknown, after: unknown): SettingsDrift[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffValues(`${path}.${key}`, before[key], after[key]));
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [
+    {
+      path,
+      change: before === undefined ? 'added' : after === undefined ? 'removed' : 'changed',
+      before: before ?? null,
+      after: after ?? null,
+      direction: 'changed',
+    },
+  ];
+}
+
+/**
+ * Compares the entries of a snapshot section matched by key
+ * @param section - The name of the section
+ * @param before - The earlier entries
+ * @param after - The later entries
+ * @param key - Identifies an entry
+ * @param compare - Compares an entry present in both snapshots
+ * @param membership - Direction of an added entry and of a removed entry
+ * @returns The differences
+ * @private
+ */
+function diffSection<T>(
+  section: string,
+  before: T[],
+  after: T[],
+  key: (entry: T) => string,
+  compare: (path: string, before: T, after: T) => SettingsDrift[],
+  membership: { added: SettingsDriftDirection; removed: SettingsDriftDirection }
+): SettingsDrift[] {
+  const beforeByKey = new Map(before.map((entry) => [key(entry), entry]));
+  const afterByKey = new Map(after.map((entry) => [key(entry), entry]));
+  const keys = [...new Set([...beforeByKey.keys(), ...afterByKey.keys()])].sort();
+
+  return keys.flatMap((entryKey): SettingsDrift[] => {
+    const path = `${section}.${entryKey}`;
+    const earlier = beforeByKey.get(entryKey);
+    const later = afterByKey.get(entryKey);
+    if (earlier === undefined) {
+      return [{ path, change: 'added', before: null, after: later, direction: membership.added }];
+    }
+    if (later === undefined) {
+      return [
+        { path, change: 'removed', before: earlier, after: null, direction: membership.removed },
+      ];
+    }
+    return compare(path, earlier, later);
+  });
+}
+
+/**
+ * Compares boolean gates, where turning a gate off loosens the checks
+ * @private
+ */
+function diffGates<T extends object>(path: string, before: T, after: T, fields: Array<keyof T>) {
+  return fields.flatMap((field): SettingsDrift[] =>
+    before[field] === after[field]
+      ? []
+      : [
+          {
+            path: `${path}.${String(field)}`,
+            change: 'changed',
+            before: before[field],
+            after: after[field],
+            direction: after[field] ? 'tightened' : 'loosened',
+          },
+        ]
+  );
+}
+
+/**
+ * Decides whether a threshold change loosens the checks of a metric
+ * @param positiveDirection - Whether higher values of the metric are better
+ * @param before - The earlier threshold
+ * @param after - The later threshold
+ * @returns The direction of the change
+ * @private
+ */
+function thresholdDirection(
+  positiveDirection: 'UPWARD' | 'DOWNWARD',
+  before: number | null,
+  after: number | null
+): SettingsDriftDirection {
+  if (before === null) return 'tightened';
+  if (after === null) return 'loosened';
+  // An upward metric must stay above its threshold, a downward one below it
+  const lowered = after < before;
+  return lowered === (positiveDirection === 'UPWARD') ? 'loosened' : 'tightened';
+}
+
+/**
+ * Compares two settings snapshots
+ *
+ * Settings are matched by their identity rather than their position, so
+ * reordered entries are not reported. Turning off a gate, relaxing a
+ * threshold, adding an ignore rule and disabling an analyzer loosen the
+ * checks of a project.
+ *
+ * @param before - The earlier snapshot
+ * @param after - The later snapshot
+ * @returns The settings that differ
+ * @public
+ */
+export function diffSettingsSnapshots(
+  before: SettingsSnapshot,
+  after: SettingsSnapshot
+): SettingsDrift[] {
+  return [
+    ...diffValues('defaultBranch', before.defaultBranch, after.defaultBranch),
+    ...diffSection(
+      'metrics',
+      before.metrics,
+      after.metrics,
+      (metric) => `${metric.shortcode}.${metric.metricKey}`,
+      (path, earlier, later) => [
+        ...diffGates(path, earlier, later, ['isReported', 'isThresholdEnforced']),
+        ...(earlier.threshold === later.threshold
+          ? []
+          : [
+              {
+                path: `${path}.threshold`,
+                change: 'changed' as const,
+                before: earlier.threshold,
+                after: later.threshold,
+                direction: thresholdDirection(
+                  later.positiveDirection,
+                  earlier.threshold,
+                  later.threshold
+                ),
+              },
+            ]),
+      ],
+      { added: 'changed', removed: 'changed' }
+    ),
+    ...diffSection(
+      'issueCategories',
+      before.issueCategories,
+      after.issueCategories,
+      (setting) => setting.category,
+      (path, earlier, later) => diffGates(path, earlier, later, ['isReported', 'canFailCheck']),
+      { added: 'changed', removed: 'changed' }
+    ),
+    ...diffSection(
+      'issuePriorities',
+      before.issuePriorities,
+      after.issuePriorities,
+      (setting) => setting.priority,
+      (path, earlier, later) => diffGates(path, earlier, later, ['isReported', 'canFailCheck']),
+      { added: 'changed', removed: 'changed' }
+    ),
+    ...diffSection(
+      'ignoreRules',
+      before.ignoreRules,
+      after.ignoreRules,
+      ignoreRuleKey,
+      (path, earlier, later) => diffValues(path, earlier, later),
+      { added: 'loosened', removed: 'tightened' }
+    ),
+    ...diffSection(
+      'analyzers',
+      before.analyzers,
+      after.analyzers,
+      (analyzer) => analyzer.shortcode,
+      (path, earlier, later) => diffValues(path, earlier, later),
+      { added: 'tightened', removed: 'loosened' }
+    ),
+    ...diffValues('configJson', before.configJson ?? null, after.configJson ?? null),
+  ];
+}
+
+/**
+ * Creates a settings snapshot handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createSettingsSnapshotHandler = createBaseHandlerFactory(
+  'settings_snapshot',
+  async (deps: BaseHandlerDeps, params: DeepsourceSettingsSnapshotParams) => {
+    const projectKey = validateNonEmptyString(params.projectKey, 'projectKey');
+    deps.logger.info('Capturing settings snapshot', { projectKey });
+
+    const { snapshot, warnings } = await captureSettingsSnapshot(deps, projectKey);
+
+    return wrapInApiResponse({
+      snapshot,
+      warnings,
+      next_steps: [
+        'Save the snapshot to compare it with the live settings later',
+        'Use settings_diff with the snapshot as before to detect drift',
+      ],
+    });
+  }
+);
+
+/**
+ * Captures the complete configuration of a project as a versioned JSON document
+ * @param params - The project to capture
+ * @returns A response containing the snapshot
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceSettingsSnapshot(
+  params: DeepsourceSettingsSnapshotParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createSettingsSnapshotHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates a settings diff handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createSettingsDiffHandler = createBaseHandlerFactory(
+  'settings_diff',
+  async (deps: BaseHandlerDeps, params: DeepsourceSettingsDiffParams) => {
+    const before = await loadSnapshot(params.before, params.beforeFile, 'before');
+    if (!before) {
+      throw MCPErrorFactory.validation('Provide the before snapshot or beforeFile', {
+        field: 'before',
+      });
+    }
+
+    let after = await loadSnapshot(params.after, params.afterFile, 'after');
+    const live = after === undefined;
+    const warnings: string[] = [];
+    if (!after) {
+      deps.logger.info('Comparing snapshot with live settings', { projectKey: before.project.key });
+      const captured = await captureSettingsSnapshot(deps, before.project.key);
+      after = captured.snapshot;
+      warnings.push(...captured.warnings);
+    }
+    if (before.project.key !== after.project.key) {
+      warnings.push(
+        `The snapshots belong to different projects: ${before.project.key} and ${after.project.key}`
+      );
+    }
+
+    const drift = diffSettingsSnapshots(before, after);
+    const loosened = drift.filter((entry) => entry.direction === 'loosened');
+    const tightened = drift.filter((entry) => entry.direction === 'tightened');
+
+    return wrapInApiResponse({
+      before: { projectKey: before.project.key, capturedAt: before.capturedAt },
+      after: { projectKey: after.project.key, capturedAt: after.capturedAt, live },
+      summary: {
+        changes: drift.length,
+        loosened: loosened.length,
+        tightened: tightened.length,
+      },
+      drift,
+      warnings,
+      message:
+        drift.length === 0
+          ? 'The settings have not changed'
+          : `${drift.length} settings changed, ${loosened.length} of which loosen the checks${
+              loosened.length > 0 ? `: ${loosened.map((entry) => entry.path).join(', ')}` : ''
+            }`,
+      next_steps:
+        loosened.length > 0
+          ? [
+              'Review the loosened settings with the project owners',
+              'Use policy_plan and policy_apply to restore the expected settings',
+            ]
+          : ['Capture a new snapshot with settings_snapshot to use as the next baseline'],
+    });
+  }
+);
+
+/**
+ * Compares two settings snapshots, or a snapshot with the live settings
+ * @param params - The snapshots to compare
+ * @returns A response listing the settings that differ
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceSettingsDiff(
+  params: DeepsourceSettingsDiffParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createSettingsDiffHandler(deps);
+  return handler(params);
+}
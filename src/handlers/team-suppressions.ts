@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Team suppression handlers for the DeepSource MCP server
+ * This module provides MCP tool handlers for listing, suppressing and
+ * unsuppressing issues across every repository of a team.
+ */
+
+import { ApiResponse } from '../models/common.js';
+import {
+  SuppressedIssue,
+  TeamIssueSuppressionParams,
+  TeamSuppressedIssuesParams,
+} from '../models/suppressions.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { createPaginationMetadata } from '../utils/pagination/helpers.js';
+import { MCPErrorFactory, validateNonEmptyString } from '../utils/error-handling/index.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+
+// Logger for the team suppression handlers
+const logger = createLogger('TeamSuppressionsHandler');
+
+/**
+ * Interface for parameters for listing a team's suppressed issues
+ * @public
+ */
+export type DeepsourceTeamSuppressedIssuesParams = TeamSuppressedIssuesParams;
+
+/**
+ * Interface for parameters for suppressing or unsuppressing an issue for a team
+ * @public
+ */
+export interface DeepsourceTeamIssueSuppressionParams extends TeamIssueSuppressionParams {
+  /** Why the suppression is being changed, written to the server log and echoed in the response */
+  reason: string;
+  /** Must be true to confirm the change, which affects every repository of the team */
+  confirm: boolean;
+}
+
+/**
+ * Checks that a team-wide suppression change was confirmed and has a reason
+ * @param params - The incoming handler parameters
+ * @param action - The action being confirmed, used in the error message
+ * @returns The trimmed reason
+ * @throws {MCPError} When the change is not confirmed or no reason is given
+ * @private
+ */
+function validateSuppressionChange(
+  params: DeepsourceTeamIssueSuppressionParams,
+  action: 'suppress' | 'unsuppress'
+): string {
+  validateNonEmptyString(params.login, 'login');
+  validateNonEmptyString(params.analyzerShortcode, 'analyzerShortcode');
+  validateNonEmptyString(params.issueShortcode, 'issueShortcode');
+  const reason = validateNonEmptyString(params.reason, 'reason');
+
+  if (params.confirm !== true) {
+    throw MCPErrorFactory.validation(
+      `confirm must be true to ${action} ${params.issueShortcode} in every repository of ${params.login}`,
+      { login: params.login, issueShortcode: params.issueShortcode }
+    );
+  }
+
+  return reason;
+}
+
+/**
+ * Creates a team suppressed issues handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createTeamSuppressedIssuesHandler = createBaseHandlerFactory(
+  'team_suppressed_issues',
+  async (deps: BaseHandlerDeps, params: DeepsourceTeamSuppressedIssuesParams) => {
+    const { login, vcsProvider } = params;
+    const client = deps.clientFactory.getSuppressionsClient();
+
+    deps.logger.info('Fetching team suppressed issues', {
+      login,
+      vcsProvider,
+      maxPages: params.max_pages,
+    });
+
+    const listParams: TeamSuppressedIssuesParams = { login, vcsProvider };
+    if (params.first !== undefined) listParams.first = params.first;
+    if (params.after !== undefined) listParams.after = params.after;
+    if (params.last !== undefined) listParams.last = params.last;
+    if (params.before !== undefined) listParams.before = params.before;
+    if (params.page_size !== undefined) listParams.page_size = params.page_size;
+    if (params.max_pages !== undefined) listParams.max_pages = params.max_pages;
+
+    const suppressions = await client.listTeamSuppressedIssues(listParams);
+    if (!suppressions) {
+      throw MCPErrorFactory.resourceNotFound('team', { login, vcsProvider });
+    }
+
+    deps.logger.info('Successfully fetched team suppressed issues', {
+      login,
+      count: suppressions.items.length,
+      totalCount: suppressions.totalCount,
+    });
+
+    const suppressionsData = {
+      team: { login, vcsProvider },
+      suppressedIssues: suppressions.items.map((suppression: SuppressedIssue) => ({
+        id: suppression.id,
+        issue: suppression.issue,
+        suppressedAt: suppression.suppressedAt,
+        suppressedBy: suppression.suppressedBy,
+      })),
+      pageInfo: {
+        hasNextPage: suppressions.pageInfo?.hasNextPage || false,
+        hasPreviousPage: suppressions.pageInfo?.hasPreviousPage || false,
+        startCursor: suppressions.pageInfo?.startCursor || null,
+        endCursor: suppressions.pageInfo?.endCursor || null,
+      },
+      pagination: createPaginationMetadata(suppressions),
+      totalCount: suppressions.totalCount,
+      // Provide helpful information and guidance
+      usage_examples: {
+        pagination: {
+          next_page: 'For forward pagination, use first and after parameters',
+          multi_page: 'Use max_pages to automatically fetch multiple pages (e.g., max_pages: 5)',
+        },
+        related_tools: {
+          unsuppress:
+            'Use unsuppress_issue_for_team with confirm: true and a reason to lift a suppression',
+          explain_issue: 'Use the explain_issue tool to see what a suppressed issue detects',
+        },
+      },
+    };
+
+    return wrapInApiResponse(suppressionsData);
+  }
+);
+
+/**
+ * Fetches the issues suppressed across every repository of a team
+ * @param params - Parameters identifying the team, with optional pagination
+ * @returns A response containing the suppressed issues
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceTeamSuppressedIssues(
+  params: DeepsourceTeamSuppressedIssuesParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createTeamSuppressedIssuesHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates a suppress issue for team handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createSuppressIssueForTeamHandler = createBaseHandlerFactory(
+  'suppress_issue_for_team',
+  async (deps: BaseHandlerDeps, params: DeepsourceTeamIssueSuppressionParams) => {
+    const reason = validateSuppressionChange(params, 'suppress');
+    const { login, vcsProvider, analyzerShortcode, issueShortcode } = params;
+    const client = deps.clientFactory.getSuppressionsClient();
+
+    // DeepSource does not store the reason, so the server log is its only record
+    deps.logger.info('Suppressing issue for team', {
+      login,
+      vcsProvider,
+      analyzerShortcode,
+      issueShortcode,
+      reason,
+    });
+
+    const result = await client.suppressIssueForTeam({
+      login,
+      vcsProvider,
+      analyzerShortcode,
+      issueShortcode,
+    });
+
+    deps.logger.info('Team issue suppression result', {
+      success: result.ok,
+      login,
+      issueShortcode,
+    });
+
+    const suppressionResult = {
+      ok: result.ok,
+      team: { login, vcsProvider },
+      analyzerShortcode,
+      issueShortcode,
+      reason,
+      message: result.ok
+        ? `Suppressed ${issueShortcode} in every repository of ${login}`
+        : `Failed to suppress ${issueShortcode} for ${login}`,
+      next_steps: result.ok
+        ? ['Use team_suppressed_issues to review the team suppressions']
+        : ['Check if you have sufficient permissions on the team', 'Verify the shortcodes'],
+    };
+
+    return wrapInApiResponse(suppressionResult);
+  }
+);
+
+/**
+ * Suppresses an issue in every repository of a team
+ * @param params - The team, issue, reason and confirmation
+ * @returns A response indicating whether the suppression was successful
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceSuppressIssueForTeam(
+  params: DeepsourceTeamIssueSuppressionParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createSuppressIssueForTeamHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Creates an unsuppress issue for team handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createUnsuppressIssueForTeamHandler = createBaseHandlerFactory(
+  'unsuppress_issue_for_team',
+  async (deps: BaseHandlerDeps, params: DeepsourceTeamIssueSuppressionParams) => {
+    const reason = validateSuppressionChange(params, 'unsuppress');
+    const { login, vcsProvider, analyzerShortcode, issueShortcode } = params;
+    const client = deps.clientFactory.getSuppressionsClient();
+
+    // DeepSource does not store the reason, so the server log is its only record
+    deps.logger.info('Unsuppressing issue for team', {
+      login,
+      vcsProvider,
+      analyzerShortcode,
+      issueShortcode,
+      reason,
+    });
+
+    const result = await client.unsuppressIssueForTeam({
+      login,
+      vcsProvider,
+      analyzerShortcode,
+      issueShortcode,
+    });
+
+    deps.logger.info('Team issue unsuppression result', {
+      success: result.ok,
+      login,
+      issueShortcode,
+    });
+
+    const unsuppressionResult = {
+      ok: result.ok,
+      team: { login, vcsProvider },
+      analyzerShortcode,
+      issueShortcode,
+      reason,
+      message: result.ok
+        ? `${issueShortcode} is reported again in every repository of ${login}`
+        : `Failed to unsuppress ${issueShortcode} for ${login}`,
+      next_steps: result.ok
+        ? ['Use team_suppressed_issues to review the team suppressions']
+        : ['Check if you have sufficient permissions on the team', 'Verify the shortcodes'],
+    };
+
+    return wrapInApiResponse(unsuppressionResult);
+  }
+);
+
+/**
+ * Removes a team-wide suppression of an issue
+ * @param params - The team, issue, reason and confirmation
+ * @returns A response indicating whether the unsuppression was successful
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceUnsuppressIssueForTeam(
+  params: DeepsourceTeamIssueSuppressionParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createUnsuppressIssueForTeamHandler(deps);
+  return handler(params);
+}
@@ -0,0 +1,390 @@
+/**
+ * @fileoverview Vulnerability upgrade plan handler for the DeepSource MCP server
+ * This module provides an MCP tool handler that groups vulnerability occurrences
+ * by package and works out the upgrades that resolve them.
+ */
+
+import { DeepSourceClient } from '../deepsource.js';
+import { ApiResponse } from '../models/common.js';
+import {
+  VULNERABILITY_SEVERITY_ORDER,
+  VulnerabilityOccurrence,
+  VulnerabilitySeverity,
+} from '../models/security.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { validateNonEmptyString } from '../utils/error-handling/index.js';
+import { fetchMultiplePages, PageFetcher } from '../utils/pagination/manager.js';
+import { BaseHandlerDeps } from './base/handler.interface.js';
+import {
+  createBaseHandlerFactory,
+  wrapInApiResponse,
+  createDefaultHandlerDeps,
+} from './base/handler.factory.js';
+import { attachDependencyTargets } from './dependency-targets.js';
+
+// Logger for the vulnerability upgrade plan handler
+const logger = createLogger('VulnerabilityUpgradePlanHandler');
+
+/**
+ * Interface for parameters for building a vulnerability upgrade plan
+ * @public
+ */
+export interface DeepsourceVulnerabilityUpgradePlanParams {
+  /** DeepSource project key to plan upgrades for */
+  projectKey: string;
+  /** Number of vulnerability occurrences fetched per page */
+  page_size?: number;
+  /** Maximum number of pages to scan (all pages are scanned by default) */
+  max_pages?: number;
+}
+
+/**
+ * A single advisory affecting a package
+ * @private
+ */
+interface PackageAdvisory {
+  identifier: string;
+  severity: VulnerabilitySeverity;
+  cvssScore: number | null;
+  /** Smallest version above the installed ones that fixes the advisory */
+  fixVersion: string | null;
+}
+
+/**
+ * Vulnerability occurrences grouped by package
+ * @private
+ */
+interface PackageGroup {
+  ecosystem: string;
+  packageName: string;
+  currentVersions: Set<string>;
+  files: Set<string>;
+  occurrences: VulnerabilityOccurrence[];
+}
+
+/**
+ * Summary of the risk carried by a set of advisories
+ * @private
+ */
+interface RiskSummary {
+  advisories: number;
+  occurrences: number;
+  highestSeverity: VulnerabilitySeverity | null;
+  cvssTotal: number;
+  bySeverity: Partial<Record<VulnerabilitySeverity, number>>;
+}
+
+/**
+ * An upgrade of one package that resolves one or more advisories
+ * @private
+ */
+interface UpgradeStep {
+  ecosystem: string;
+  packageName: string;
+  currentVersions: string[];
+  targetVersion: string;
+  files: string[];
+  resolvesAdvisories: string[];
+  unresolvedAdvisories: string[];
+  riskRemoved: RiskSummary;
+}
+
+/**
+ * A vulnerable package for which no fixed version above the installed ones exists
+ * @private
+ */
+interface PackageWithoutFix {
+  ecosystem: string;
+  packageName: string;
+  currentVersions: string[];
+  files: string[];
+  advisories: string[];
+  risk: RiskSummary;
+  advice: string;
+}
+
+/**
+ * Creates a vulnerability upgrade plan handler with injected dependencies
+ * @param deps - The dependencies for the handler
+ * @returns The configured handler factory
+ */
+export const createVulnerabilityUpgradePlanHandler = createBaseHandlerFactory(
+  'vulnerability_upgrade_plan',
+  async (deps: BaseHandlerDeps, params: DeepsourceVulnerabilityUpgradePlanParams) => {
+    const projectKey = validateNonEmptyString(params.projectKey, 'projectKey');
+    const client = new DeepSourceClient(deps.getApiKey());
+
+    deps.logger.info('Building vulnerability upgrade plan', {
+      projectKey,
+      maxPages: params.max_pages,
+    });
+
+    const pageFetcher: PageFetcher<VulnerabilityOccurrence> = (cursor, pageSize) =>
+      client.getDependencyVulnerabilities(projectKey, {
+        first: pageSize ?? 50,
+        ...(cursor && { after: cursor }),
+      });
+
+    const result = await fetchMultiplePages(pageFetcher, {
+      pageSize: params.page_size ?? 50,
+      fetchAll: params.max_pages === undefined,
+      ...(params.max_pages !== undefined && { maxPages: params.max_pages }),
+    });
+
+    const groups = groupByPackage(await attachDependencyTargets(deps, projectKey, result.items));
+    const steps: UpgradeStep[] = [];
+    const packagesWithoutFix: PackageWithoutFix[] = [];
+
+    for (const group of groups) {
+      const currentVersions = [...group.currentVersions].sort(compareVersions);
+      const advisories = getPackageAdvisories(group, currentVersions[currentVersions.length - 1]);
+      const resolved = advisories.filter((advisory) => advisory.fixVersion !== null);
+      const unresolved = advisories.filter((advisory) => advisory.fixVersion === null);
+
+      if (resolved.length === 0) {
+        packagesWithoutFix.push({
+          ecosystem: group.ecosystem,
+          packageName: group.packageName,
+          currentVersions,
+          files: [...group.files],
+          advisories: unresolved.map((advisory) => advisory.identifier),
+          risk: summarizeRisk(unresolved, group.occurrences),
+          advice: `No fixed version of ${group.packageName} newer than the installed versions is available. Consider replacing it with a secure alternative or mitigating the affected code paths.`,
+        });
+        continue;
+      }
+
+      const targetVersion = resolved
+        .map((advisory) => advisory.fixVersion as string)
+        .reduce((highest, version) => (compareVersions(version, highest) > 0 ? version : highest));
+
+      steps.push({
+        ecosystem: group.ecosystem,
+        packageName: group.packageName,
+        currentVersions,
+        targetVersion,
+        files: [...group.files],
+        resolvesAdvisories: resolved.map((advisory) => advisory.identifier),
+        unresolvedAdvisories: unresolved.map((advisory) => advisory.identifier),
+        riskRemoved: summarizeRisk(resolved, group.occurrences),
+      });
+    }
+
+    // Highest-risk upgrades first, so the plan can be worked top to bottom
+    steps.sort((a, b) => compareRisk(b.riskRemoved, a.riskRemoved));
+    packagesWithoutFix.sort((a, b) => compareRisk(b.risk, a.risk));
+
+    deps.logger.info('Successfully built vulnerability upgrade plan', {
+      projectKey,
+      occurrences: result.items.length,
+      upgrades: steps.length,
+      packagesWithoutFix: packagesWithoutFix.length,
+    });
+
+    const planData = {
+      projectKey, // Echo back the project key for context
+      summary: {
+        occurrencesScanned: result.items.length,
+        packagesAffected: groups.length,
+        upgrades: steps.length,
+        packagesWithoutFix: packagesWithoutFix.length,
+        scanComplete: !result.hasMore,
+      },
+      upgrades: steps.map((step, index) => ({ step: index + 1, ...step })),
+      packagesWithoutFix,
+      // Provide helpful information and guidance
+      usage_examples: {
+        related_tools: {
+          vulnerabilities:
+            'Use the dependency_vulnerabilities tool with ecosystemIn or minSeverity to inspect individual advisories',
+          targets:
+            'Use the dependency_targets tool to list the manifests and lockfiles DeepSource scans',
+        },
+      },
+    };
+
+    return wrapInApiResponse(planData);
+  }
+);
+
+/**
+ * Builds an ordered upgrade plan for the vulnerable dependencies of a project
+ * @param params - Parameters identifying the project and bounding the scan
+ * @returns A response containing the upgrade steps and the packages without a fix
+ * @throws Error if the DEEPSOURCE_API_KEY environment variable is not set
+ * @public
+ */
+export async function handleDeepsourceVulnerabilityUpgradePlan(
+  params: DeepsourceVulnerabilityUpgradePlanParams
+): Promise<ApiResponse> {
+  const deps = createDefaultHandlerDeps({ logger });
+  const handler = createVulnerabilityUpgradePlanHandler(deps);
+  return handler(params);
+}
+
+/**
+ * Groups vulnerability occurrences by ecosystem and package name
+ * @param occurrences The vulnerability occurrences
+ * @returns One group per package
+ * @private
+ */
+function groupByPackage(occurrences: VulnerabilityOccurrence[]): PackageGroup[] {
+  const groups = new Map<string, PackageGroup>();
+
+  for (const occurrence of occurrences) {
+    const ecosystem = occurrence.package.ecosystem || 'UNKNOWN';
+    const key = `${ecosystem}:${occurrence.package.name}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        ecosystem,
+        packageName: occurrence.package.name,
+        currentVersions: new Set(),
+        files: new Set(),
+        occurrences: [],
+      };
+      groups.set(key, group);
+    }
+
+    group.occurrences.push(occurrence);
+    if (occurrence.packageVersion.version) {
+      group.currentVersions.add(occurrence.packageVersion.version);
+    }
+    const sourceFile = occurrence.target?.lockfilePath ?? occurrence.target?.manifestPath;
+    if (sourceFile) {
+      group.files.add(sourceFile);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Collects the distinct advisories affecting a package and the version fixing each
+ * @param group The package group
+ * @param highestCurrent The highest installed version of the package
+ * @returns One entry per advisory
+ * @private
+ */
+function getPackageAdvisories(
+  group: PackageGroup,
+  highestCurrent: string | undefined
+): PackageAdvisory[] {
+  const advisories = new Map<string, PackageAdvisory>();
+
+  for (const { vulnerability } of group.occurrences) {
+    if (advisories.has(vulnerability.identifier)) {
+      continue;
+    }
+
+    const fixedVersions = [...(vulnerability.fixedVersions ?? [])].sort(compareVersions);
+    // A fix at or below an installed version is not an upgrade, so it does not count
+    const fixVersion =
+      fixedVersions.find(
+        (version) => highestCurrent === undefined || compareVersions(version, highestCurrent) > 0
+      ) ?? null;
+
+    advisories.set(vulnerability.identifier, {
+      identifier: vulnerability.identifier,
+      severity: vulnerability.severity,
+      cvssScore: vulnerability.cvssV3BaseScore || vulnerability.cvssV2BaseScore || null,
+      fixVersion,
+    });
+  }
+
+  return [...advisories.values()];
+}
+
+/**
+ * Summarizes the risk carried by a set of advisories
+ * @param advisories The advisories
+ * @param occurrences The occurrences of the package the advisories belong to
+ * @returns The risk summary
+ * @private
+ */
+function summarizeRisk(
+  advisories: PackageAdvisory[],
+  occurrences: VulnerabilityOccurrence[]
+): RiskSummary {
+  const identifiers = new Set(advisories.map((advisory) => advisory.identifier));
+  const bySeverity: Partial<Record<VulnerabilitySeverity, number>> = {};
+  let highestSeverity: VulnerabilitySeverity | null = null;
+  let cvssTotal = 0;
+
+  for (const advisory of advisories) {
+    bySeverity[advisory.severity] = (bySeverity[advisory.severity] ?? 0) + 1;
+    if (
+      highestSeverity === null ||
+      severityRank(advisory.severity) > severityRank(highestSeverity)
+    ) {
+      highestSeverity = advisory.severity;
+    }
+    cvssTotal += advisory.cvssScore ?? 0;
+  }
+
+  return {
+    advisories: advisories.length,
+    occurrences: occurrences.filter((occurrence) =>
+      identifiers.has(occurrence.vulnerability.identifier)
+    ).length,
+    highestSeverity,
+    cvssTotal: Math.round(cvssTotal * 10) / 10,
+    bySeverity,
+  };
+}
+
+/**
+ * Compares two risk summaries by highest severity, then total CVSS score
+ * @param a The first risk summary
+ * @param b The second risk summary
+ * @returns A negative number if a carries less risk than b, positive if more
+ * @private
+ */
+function compareRisk(a: RiskSummary, b: RiskSummary): number {
+  const severityDifference =
+    (a.highestSeverity ? severityRank(a.highestSeverity) : -1) -
+    (b.highestSeverity ? severityRank(b.highestSeverity) : -1);
+  if (severityDifference !== 0) {
+    return severityDifference;
+  }
+  return a.cvssTotal - b.cvssTotal || a.advisories - b.advisories;
+}
+
+/**
+ * Gets the rank of a severity, higher meaning more severe
+ * @param severity The severity
+ * @returns The rank, or -1 for unknown severities
+ * @private
+ */
+function severityRank(severity: VulnerabilitySeverity): number {
+  return VULNERABILITY_SEVERITY_ORDER.indexOf(severity);
+}
+
+/**
+ * Compares two version strings segment by segment
+ * Numeric segments are compared numerically and pre-releases sort before releases.
+ * @param a The first version
+ * @param b The second version
+ * @returns A negative number if a is lower than b, positive if higher, 0 if equal
+ * @private
+ */
+function compareVersions(a: string, b: string): number {
+  const [releaseA = '', preReleaseA] = a.replace(/^v/i, '').split(/-(.*)/s);
+  const [releaseB = '', preReleaseB] = b.replace(/^v/i, '').split(/-(.*)/s);
+  const segmentsA = releaseA.split(/[.+]/);
+  const segmentsB = releaseB.split(/[.+]/);
+
+  for (let i = 0; i < Math.max(segmentsA.length, segmentsB.length); i++) {
+    const difference = (segmentsA[i] ?? '0').localeCompare(segmentsB[i] ?? '0', undefined, {
+      numeric: true,
+    });
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  if (preReleaseA === undefined || preReleaseB === undefined) {
+    return (preReleaseA === undefined ? 1 : 0) - (preReleaseB === undefined ? 1 : 0);
+  }
+  return preReleaseA.localeCompare(preReleaseB, undefined, { numeric: true });
+}
@@ -10,11 +10,15 @@
  * @packageDocumentation
  */
 
+import type { AddressInfo } from 'node:net';
 import { createLogger } from './utils/logging/logger.js';
 import { DeepSourceMCPServer } from './server/mcp-server.js';
+import { DeepSourceHttpServer } from './server/http-server.js';
 import { VERSION, getVersion } from './version.js';
 import { getFeatureFlags, logFeatureFlags } from './config/features.js';
 import { getEnvironmentConfig } from './config/default.js';
+import { getTransportConfig, TransportConfig } from './config/transport.js';
+import { getCacheStoreConfig } from './config/cache.js';
 
 // Create logger instance for index.ts
 const logger = createLogger('DeepSourceMCP:index');
@@ -32,14 +36,47 @@ export const mcpServer = {
   },
 };
 
+/**
+ * Creates a DeepSource MCP server with every tool, resource and prompt registered
+ *
+ * @returns The configured server, not yet connected to a transport
+ */
+export async function createConfiguredServer(): Promise<DeepSourceMCPServer> {
+  const features = getFeatureFlags();
+  const config = getEnvironmentConfig();
+
+  const server = await DeepSourceMCPServer.create({
+    autoRegisterTools: true,
+    autoStart: false,
+    // Pass discovery config if tool discovery is enabled
+    ...(features.toolDiscovery && {
+      discoveryConfig: config.discovery,
+    }),
+  });
+
+  // If tool discovery is enabled, perform discovery
+  if (features.toolDiscovery) {
+    logger.info('Tool discovery enabled, scanning for additional tools...');
+    const discoveredTools = await server.discoverTools(
+      config.discovery as unknown as Record<string, unknown>
+    );
+    if (discoveredTools.length > 0) {
+      logger.info(`Discovered ${discoveredTools.length} additional tools`, {
+        tools: discoveredTools,
+      });
+    }
+  }
+
+  return server;
+}
+
 // Initialize the DeepSource MCP server
 export async function initializeServer(): Promise<void> {
   try {
     logger.info('Initializing DeepSource MCP Server');
 
-    // Get feature flags and configuration
+    // Get feature flags
     const features = getFeatureFlags();
-    const config = getEnvironmentConfig();
 
     // Log feature flags in development
     if (process.env.NODE_ENV === 'development' || features.enhancedLogging) {
@@ -47,27 +84,7 @@ export async function initializeServer(): Promise<void> {
     }
 
     // Create server with configuration
-    _mcpServer = await DeepSourceMCPServer.create({
-      autoRegisterTools: true,
-      autoStart: false,
-      // Pass discovery config if tool discovery is enabled
-      ...(features.toolDiscovery && {
-        discoveryConfig: config.discovery,
-      }),
-    });
-
-    // If tool discovery is enabled, perform discovery
-    if (features.toolDiscovery && _mcpServer) {
-      logger.info('Tool discovery enabled, scanning for additional tools...');
-      const discoveredTools = await _mcpServer.discoverTools(
-        config.discovery as unknown as Record<string, unknown>
-      );
-      if (discoveredTools.length > 0) {
-        logger.info(`Discovered ${discoveredTools.length} additional tools`, {
-          tools: discoveredTools,
-        });
-      }
-    }
+    _mcpServer = await createConfiguredServer();
 
     logger.info('DeepSource MCP Server initialized successfully', {
       tools: _mcpServer.getRegisteredTools(),
@@ -112,12 +129,50 @@ export function handleCliArgs(args: string[]): boolean {
     console.log('\nOptions:');
     console.log('  -v, --version  Display version information');
     console.log('  -h, --help     Display this help message');
+    console.log('  --transport    Transport to serve: stdio (default) or http');
+    console.log('  --host         Host to bind the HTTP transport to (default: 127.0.0.1)');
+    console.log('  --port         Port of the HTTP transport (default: 3000)');
+    console.log('  --offline      Answer every request from the on-disk cache');
+    console.log('  --read-only    Only register tools that do not change settings');
     console.log('\nEnvironment Variables:');
     console.log('  DEEPSOURCE_API_KEY             DeepSource API key (required)');
     console.log('  LOG_FILE                       Path to log file (optional)');
     console.log(
       '  LOG_LEVEL                      Minimum log level: DEBUG, INFO, WARN, ERROR (optional)'
     );
+    console.log('  MCP_TRANSPORT                  Transport to serve: stdio or http (optional)');
+    console.log('  MCP_HTTP_HOST                  Host of the HTTP transport (optional)');
+    console.log('  MCP_HTTP_PORT                  Port of the HTTP transport (optional)');
+    console.log(
+      '  MCP_HTTP_ENDPOINT              Path of the MCP endpoint, default /mcp (optional)'
+    );
+    console.log(
+      '  MCP_HTTP_SESSION_IDLE_TIMEOUT_MS  Close HTTP sessions idle for this long (optional)'
+    );
+    console.log(
+      '  MCP_HTTP_SHUTDOWN_TIMEOUT_MS   Wait for open connections on shutdown (optional)'
+    );
+    console.log(
+      '  MCP_HTTP_REQUIRE_API_KEY       Set to false to let HTTP sessions without a bearer API key use DEEPSOURCE_API_KEY (optional)'
+    );
+    console.log(
+      '  CACHE_PERSIST                  Keep API responses in an on-disk cache (optional)'
+    );
+    console.log('  CACHE_DIR                      Directory of the on-disk cache (optional)');
+    console.log('  DEEPSOURCE_OFFLINE             Answer from the on-disk cache only (optional)');
+    console.log(
+      '  DEEPSOURCE_READ_ONLY           Only register tools that do not change settings (optional)'
+    );
+    console.log('  DEEPSOURCE_TOOLS_ALLOW         Comma-separated tool names to allow (optional)');
+    console.log('  DEEPSOURCE_TOOLS_DENY          Comma-separated tool names to deny (optional)');
+    console.log(
+      '  DEEPSOURCE_TOOL_CATEGORIES_ALLOW  Comma-separated tool categories to allow (optional)'
+    );
+    console.log(
+      '  DEEPSOURCE_TOOL_CATEGORIES_DENY   Comma-separated tool categories to deny (optional)'
+    );
+    console.log('  DEEPSOURCE_TOOL_TAGS_ALLOW     Comma-separated tool tags to allow (optional)');
+    console.log('  DEEPSOURCE_TOOL_TAGS_DENY      Comma-separated tool tags to deny (optional)');
     console.log('\nFeature Flags:');
     console.log('  FEATURE_TOOL_DISCOVERY         Enable automatic tool discovery (optional)');
     console.log('  FEATURE_ENHANCED_LOGGING       Enable enhanced logging (optional)');
@@ -130,6 +185,59 @@ export function handleCliArgs(args: string[]): boolean {
   return false;
 }
 
+/**
+ * Starts serving MCP over the configured transport
+ *
+ * In HTTP mode no server is created up front: each session creates its own,
+ * with the API key it brings, so `DEEPSOURCE_API_KEY` is optional.
+ *
+ * @param transport - The transport to serve
+ * @returns Closes the transport, and the bound address in HTTP mode
+ */
+export async function startTransport(
+  transport: TransportConfig
+): Promise<{ close: () => Promise<void>; address?: AddressInfo }> {
+  if (transport.mode === 'http') {
+    // Every HTTP session gets its own server instance
+    const httpServer = new DeepSourceHttpServer({
+      ...transport.http,
+      createServer: createConfiguredServer,
+    });
+    const address = await httpServer.listen();
+    return { close: () => httpServer.close(), address };
+  }
+
+  await initializeServer();
+  logger.info('Starting MCP server connection...');
+  await mcpServer.current.start();
+  return { close: () => mcpServer.current.close() };
+}
+
+/**
+ * Closes the server gracefully when the process is asked to stop
+ *
+ * @param close - Closes the active server
+ */
+function registerShutdownHandlers(close: () => Promise<void>): void {
+  let shuttingDown = false;
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    logger.info(`Received ${signal}, shutting down`);
+    close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        logger.error('Failed to shut down cleanly', error);
+        process.exit(1);
+      });
+  };
+
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
 // Main entry point
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
@@ -153,15 +261,24 @@ async function main(): Promise<void> {
       features: enabledFeatures,
     });
 
-    // Initialize the server
-    await initializeServer();
+    const transport = getTransportConfig(args);
+    const cacheStore = getCacheStoreConfig(args);
+    if (cacheStore.persistent) {
+      logger.info('On-disk cache enabled', {
+        directory: cacheStore.directory,
+        offline: cacheStore.offline,
+      });
+    }
 
     // Start the server if not in test mode
     /* istanbul ignore if */
     if (process.env.NODE_ENV !== 'test') {
-      logger.info('Starting MCP server connection...');
-      await mcpServer.current.start();
-      logger.info('MCP server started successfully', { version: getVersion() });
+      const { close } = await startTransport(transport);
+      registerShutdownHandlers(close);
+      logger.info('MCP server started successfully', {
+        version: getVersion(),
+        transport: transport.mode,
+      });
     }
   } catch (error) {
     logger.error('Failed to start MCP server', error);
@@ -55,6 +55,28 @@ describe('ProjectMapper', () => {
       expect(domainProject.configuration.isActivated).toBe(false);
     });
 
+    it('should carry over the repository ID and default branch', () => {
+      const apiProject: DeepSourceProject = {
+        key: asProjectKey('branch-project'),
+        name: 'Branch Project',
+        repository: {
+          url: 'https://github.com/org/branch-project',
+          provider: 'GITHUB',
+          login: 'org',
+          name: 'branch-project',
+          isPrivate: false,
+          isActivated: true,
+          id: 'UmVwb3NpdG9yeToz',
+          defaultBranch: 'main',
+        },
+      };
+
+      const domainProject = ProjectMapper.toDomain(apiProject);
+
+      expect(domainProject.repository.id).toBe('UmVwb3NpdG9yeToz');
+      expect(domainProject.repository.defaultBranch).toBe('main');
+    });
+
     it('should set default configuration values', () => {
       const apiProject: DeepSourceProject = {
         key: asProjectKey('default-config-project'),
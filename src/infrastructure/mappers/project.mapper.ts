@@ -26,6 +26,10 @@ export function mapProjectToDomain(apiProject: DeepSourceProject): Project {
     login: apiProject.repository.login,
     isPrivate: apiProject.repository.isPrivate,
   };
+  if (apiProject.repository.id) repository.id = apiProject.repository.id;
+  if (apiProject.repository.defaultBranch) {
+    repository.defaultBranch = apiProject.repository.defaultBranch;
+  }
 
   // Determine status based on activation
   const status: ProjectStatus = apiProject.repository.isActivated ? 'ACTIVE' : 'INACTIVE';
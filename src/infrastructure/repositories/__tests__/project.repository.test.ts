@@ -34,6 +34,9 @@ describe('ProjectRepository', () => {
     // Create mock ProjectsClient with mocked methods
     mockProjectsClient = {
       listProjects: vi.fn(),
+      activateRepository: vi.fn().mockResolvedValue({ ok: true }),
+      deactivateRepository: vi.fn().mockResolvedValue({ ok: true }),
+      updateRepositoryDefaultBranch: vi.fn().mockResolvedValue({ ok: true }),
     } as unknown as anyed<ProjectsClient>;
 
     // Create test data
@@ -58,6 +61,8 @@ describe('ProjectRepository', () => {
           login: 'user',
           isPrivate: true,
           isActivated: false,
+          id: 'UmVwb3NpdG9yeToy',
+          defaultBranch: 'master',
         },
       },
       {
@@ -285,7 +290,7 @@ describe('ProjectRepository', () => {
   });
 
   describe('save', () => {
-    it('should throw error indicating operation not supported', async () => {
+    it('should throw error for changes the API cannot persist', async () => {
       const project = Project.create({
         key: asProjectKey('new-project'),
         name: 'New Project',
@@ -300,6 +305,64 @@ describe('ProjectRepository', () => {
       await expect(repository.save(project)).rejects.toThrow(
         'Save operation is not supported by DeepSource API'
       );
+      expect(mockProjectsClient.activateRepository).not.toHaveBeenCalled();
+    });
+
+    it('should persist activation through the API', async () => {
+      const project = await repository.findByKey(asProjectKey('project-2'));
+      project?.activate();
+
+      await repository.save(project as Project);
+
+      expect(mockProjectsClient.activateRepository).toHaveBeenCalledWith('UmVwb3NpdG9yeToy');
+      expect(project?.domainEvents).toHaveLength(0);
+    });
+
+    it('should persist deactivation and default branch changes in order', async () => {
+      mockApiProjects[1].repository.isActivated = true;
+      const project = (await repository.findByKey(asProjectKey('project-2'))) as Project;
+      project.changeDefaultBranch('main');
+      project.deactivate();
+
+      await repository.save(project);
+
+      expect(mockProjectsClient.updateRepositoryDefaultBranch).toHaveBeenCalledWith(
+        'UmVwb3NpdG9yeToy',
+        'main'
+      );
+      expect(mockProjectsClient.deactivateRepository).toHaveBeenCalledWith('UmVwb3NpdG9yeToy');
+      expect(
+        mockProjectsClient.updateRepositoryDefaultBranch.mock.invocationCallOrder[0]
+      ).toBeLessThan(mockProjectsClient.deactivateRepository.mock.invocationCallOrder[0]);
+    });
+
+    it('should do nothing when there are no pending changes', async () => {
+      const project = (await repository.findByKey(asProjectKey('project-2'))) as Project;
+
+      await repository.save(project);
+
+      expect(mockProjectsClient.activateRepository).not.toHaveBeenCalled();
+      expect(mockProjectsClient.deactivateRepository).not.toHaveBeenCalled();
+    });
+
+    it('should require a repository ID', async () => {
+      const project = (await repository.findByKey(asProjectKey('project-1'))) as Project;
+      project.deactivate();
+
+      await expect(repository.save(project)).rejects.toThrow(
+        'Repository ID is not available for project project-1'
+      );
+    });
+
+    it('should throw and keep pending events when DeepSource rejects a change', async () => {
+      mockProjectsClient.activateRepository.mockResolvedValue({ ok: false });
+      const project = (await repository.findByKey(asProjectKey('project-2'))) as Project;
+      project.activate();
+
+      await expect(repository.save(project)).rejects.toThrow(
+        'DeepSource rejected the ProjectActivated change for project-2'
+      );
+      expect(project.domainEvents.length).toBeGreaterThan(0);
     });
   });
 
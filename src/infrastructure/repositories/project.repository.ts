@@ -6,6 +6,7 @@
 
 import { IProjectRepository } from '../../domain/aggregates/project/project.repository.js';
 import { Project } from '../../domain/aggregates/project/project.aggregate.js';
+import { DomainEvent } from '../../domain/shared/aggregate-root.js';
 import { ProjectKey } from '../../types/branded.js';
 import { ProjectsClient } from '../../client/projects-client.js';
 import { ProjectMapper } from '../mappers/project.mapper.js';
@@ -13,14 +14,24 @@ import { createLogger } from '../../utils/logging/logger.js';
 
 const logger = createLogger('ProjectRepository');
 
+/**
+ * Project domain events that map to DeepSource repository mutations
+ */
+const PERSISTABLE_PROJECT_EVENTS = [
+  'ProjectActivated',
+  'ProjectDeactivated',
+  'ProjectDefaultBranchChanged',
+];
+
 /**
  * Concrete implementation of IProjectRepository using DeepSource API
  *
  * This repository provides access to Project aggregates by fetching data
  * from the DeepSource API and mapping it to domain models.
  *
- * Note: Since the DeepSource API doesn't support individual project queries
- * or persistence operations, some methods fetch all projects and filter locally.
+ * Note: Since the DeepSource API doesn't support individual project queries,
+ * some methods fetch all projects and filter locally. Only repository
+ * lifecycle changes can be persisted.
  * This ensures fresh data retrieval on every request as per requirements.
  */
 export class ProjectRepository implements IProjectRepository {
@@ -201,24 +212,75 @@ export class ProjectRepository implements IProjectRepository {
   /**
    * Saves a project
    *
-   * Note: The DeepSource API doesn't support creating/updating projects
-   * through the GraphQL API. This method is implemented to satisfy the
-   * interface but will throw an error indicating the operation is not supported.
+   * The DeepSource API can't create or edit projects, but it does expose
+   * mutations for a repository's lifecycle. This method replays the
+   * aggregate's pending activation, deactivation and default branch events
+   * against those mutations, then clears the events. Any other kind of
+   * change is rejected before a mutation is sent.
    *
    * @param project - The project to save
-   * @throws Error indicating the operation is not supported
+   * @throws Error if the project has unsupported changes, has no repository ID,
+   *   or DeepSource rejects a mutation
    */
-  // skipcq: JS-0105 - Repository method required by interface contract
   async save(project: Project): Promise<void> {
-    logger.warn('Attempted to save project', {
-      key: project.key,
-      name: project.name,
-    });
-
-    throw new Error(
-      'Save operation is not supported by DeepSource API. ' +
-        'Projects must be created and managed through the DeepSource UI.'
+    const events = project.domainEvents.filter((event) => event.eventType !== 'AggregateModified');
+    const unsupported = events.filter(
+      (event) => !PERSISTABLE_PROJECT_EVENTS.includes(event.eventType)
     );
+
+    if (unsupported.length > 0) {
+      logger.warn('Attempted to save unsupported project changes', {
+        key: project.key,
+        eventTypes: unsupported.map((event) => event.eventType),
+      });
+
+      throw new Error(
+        `Save operation is not supported by DeepSource API for ${unsupported[0]?.eventType} changes. ` +
+          'Only activation, deactivation and default branch changes can be persisted.'
+      );
+    }
+
+    if (events.length === 0) {
+      logger.debug('No pending project changes to save', { key: project.key });
+      return;
+    }
+
+    const repositoryId = project.repository.id;
+    if (!repositoryId) {
+      throw new Error(`Repository ID is not available for project ${project.key}`);
+    }
+
+    for (const event of events) {
+      logger.info('Persisting project change', { key: project.key, eventType: event.eventType });
+
+      const result = await this.persistEvent(repositoryId, event);
+      if (!result.ok) {
+        throw new Error(`DeepSource rejected the ${event.eventType} change for ${project.key}`);
+      }
+    }
+
+    project.clearEvents();
+  }
+
+  /**
+   * Sends the lifecycle mutation that corresponds to a domain event
+   *
+   * @param repositoryId - The repository GraphQL ID
+   * @param event - The domain event to persist
+   * @returns The mutation result
+   */
+  private persistEvent(repositoryId: string, event: DomainEvent) {
+    switch (event.eventType) {
+      case 'ProjectActivated':
+        return this.projectsClient.activateRepository(repositoryId);
+      case 'ProjectDeactivated':
+        return this.projectsClient.deactivateRepository(repositoryId);
+      default:
+        return this.projectsClient.updateRepositoryDefaultBranch(
+          repositoryId,
+          String(event.payload.defaultBranch)
+        );
+    }
   }
 
   /**
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Analyzer-related models
+ * This module defines interfaces for DeepSource analyzers and their issue catalogs.
+ */
+
+import { PaginationParams, PaginatedResponse } from '../utils/pagination/types.js';
+
+/**
+ * Represents a DeepSource analyzer
+ * @public
+ */
+export interface DeepSourceAnalyzer {
+  /** Unique identifier for the analyzer */
+  id: string;
+  /** Display name of the analyzer */
+  name: string;
+  /** Shortcode identifying the analyzer (e.g., 'python', 'javascript') */
+  shortcode: string;
+  /** Description of what the analyzer checks */
+  description: string;
+  /** Current version of the analyzer */
+  version: string | null;
+  /** Type of the analyzer (e.g., 'CORE', 'COMMUNITY') */
+  type: string | null;
+  /** Number of issue types the analyzer can detect */
+  numIssues: number;
+}
+
+/**
+ * Represents an issue type in an analyzer's catalog
+ * @public
+ */
+export interface AnalyzerIssue {
+  /** Unique identifier for the issue type */
+  id: string;
+  /** Shortcode identifying the issue type (e.g., 'JS-0125') */
+  shortcode: string;
+  /** Title of the issue type */
+  title: string;
+  /** Category of the issue type (e.g., 'BUG_RISK', 'SECURITY') */
+  category: string;
+  /** Severity of the issue type (e.g., 'CRITICAL', 'MAJOR', 'MINOR') */
+  severity: string;
+  /** Whether DeepSource can automatically fix occurrences of this issue */
+  autofixAvailable: boolean;
+}
+
+/**
+ * Full definition of an issue type, as used to explain a finding
+ * @public
+ */
+export interface IssueDefinition extends AnalyzerIssue {
+  /** One-line summary of why the issue matters */
+  shortDescription: string;
+  /** Full markdown description, including rationale and examples */
+  description: string;
+  /** Tags associated with the issue type */
+  tags: string[];
+  /** Whether DeepSource recommends enabling this issue type */
+  isRecommended: boolean;
+  /** Whether an AI-generated autofix can be offered for this issue */
+  autofixAiAvailable: boolean;
+  /** The analyzer that reports this issue type */
+  analyzer: {
+    name: string;
+    shortcode: string;
+  };
+}
+
+/**
+ * Parameters for paging through an analyzer's issue catalog
+ * @public
+ */
+export type AnalyzerIssuesParams = PaginationParams;
+
+/**
+ * Response containing a list of analyzers with pagination
+ * @public
+ */
+export type AnalyzersResponse = PaginatedResponse<DeepSourceAnalyzer>;
+
+/**
+ * Response containing an analyzer with a page of its issue catalog
+ * @public
+ */
+export interface AnalyzerIssuesResponse extends PaginatedResponse<AnalyzerIssue> {
+  /** The analyzer the issues belong to */
+  analyzer: DeepSourceAnalyzer;
+}
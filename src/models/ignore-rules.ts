@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Ignore rule models
+ * This module defines interfaces for the rules that silence issues in a repository.
+ */
+
+import { PaginationParams, PaginatedResponse } from '../utils/pagination/types.js';
+
+/**
+ * Possible types of an ignore rule
+ * Determines how the rule decides which occurrences are silenced
+ * @public
+ */
+export type IgnoreRuleType =
+  /** The issue is ignored everywhere in the repository */
+  | 'FOREVER'
+  /** The issue is ignored in files matching a glob pattern */
+  | 'PATTERN'
+  /** The issue is ignored in test files */
+  | 'TEST_PATTERN';
+
+/**
+ * Represents a rule that silences an issue in a repository
+ * @public
+ */
+export interface IgnoreRule {
+  /** Unique identifier for the rule */
+  id: string;
+  /** Level the rule applies at (e.g., 'REPOSITORY', 'FILE') */
+  level: string;
+  /** How the rule matches occurrences */
+  type: IgnoreRuleType;
+  /** File the rule applies to, if it is scoped to a single file */
+  filePath: string | null;
+  /** Glob pattern the rule applies to, for PATTERN rules */
+  globPattern: string | null;
+  /** The issue type silenced by the rule */
+  issue: {
+    shortcode: string;
+    title: string;
+  } | null;
+}
+
+/**
+ * Parameters for listing a repository's ignore rules
+ * @public
+ */
+export interface IgnoreRulesParams extends PaginationParams {
+  /** Only return rules of this type */
+  type?: IgnoreRuleType;
+}
+
+/**
+ * Response containing a list of ignore rules with pagination
+ * @public
+ */
+export type IgnoreRulesResponse = PaginatedResponse<IgnoreRule>;
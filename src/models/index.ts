@@ -9,3 +9,7 @@ export * from './issues.js';
 export * from './runs.js';
 export * from './metrics.js';
 export * from './security.js';
+export * from './analyzers.js';
+export * from './ignore-rules.js';
+export * from './quality-gates.js';
+export * from './suppressions.js';
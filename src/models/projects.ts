@@ -28,5 +28,36 @@ export interface DeepSourceProject {
     isPrivate: boolean;
     /** Whether the repository is activated in DeepSource */
     isActivated: boolean;
+    /** Repository GraphQL ID, required for lifecycle mutations */
+    id?: string;
+    /** Default branch analyzed by DeepSource */
+    defaultBranch?: string;
   };
 }
+
+/**
+ * Response from a repository lifecycle mutation
+ * @public
+ */
+export interface RepositoryLifecycleResponse {
+  /** Whether the mutation was applied */
+  ok: boolean;
+}
+
+/**
+ * Repository settings kept outside of metrics and quality gates
+ * @public
+ */
+export interface RepositorySettings {
+  /** Repository GraphQL ID */
+  repositoryId: string;
+  /** Default branch analyzed by DeepSource */
+  defaultBranch: string | null;
+  /** Analysis configuration of the repository, null when it has none */
+  configJson: unknown;
+  /** Analyzers enabled for the repository */
+  enabledAnalyzers: Array<{
+    shortcode: string;
+    name: string;
+  }>;
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Quality gate models
+ * This module defines interfaces for the issue category and priority settings
+ * that decide which issues are reported and which can fail a check.
+ */
+
+/**
+ * Issue categories that can be configured for a repository
+ * @public
+ */
+export type IssueCategory =
+  | 'ANTI_PATTERN'
+  | 'BUG_RISK'
+  | 'PERFORMANCE'
+  | 'SECURITY'
+  | 'COVERAGE'
+  | 'TYPECHECK'
+  | 'SECRETS'
+  | 'STYLE'
+  | 'DOCUMENTATION';
+
+/**
+ * Every issue category that can be configured for a repository
+ * @public
+ */
+export const ISSUE_CATEGORIES = [
+  'ANTI_PATTERN',
+  'BUG_RISK',
+  'PERFORMANCE',
+  'SECURITY',
+  'COVERAGE',
+  'TYPECHECK',
+  'SECRETS',
+  'STYLE',
+  'DOCUMENTATION',
+] as const satisfies readonly IssueCategory[];
+
+/**
+ * Issue priorities that can be configured for a repository
+ * @public
+ */
+export type IssuePriority = 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * Quality gate setting for a single issue category
+ * @public
+ */
+export interface IssueCategorySetting {
+  /** The issue category the setting applies to */
+  category: IssueCategory;
+  /** Whether issues in this category are reported */
+  isReported: boolean;
+  /** Whether issues in this category can fail a check */
+  canFailCheck: boolean;
+}
+
+/**
+ * Quality gate setting for a single issue priority
+ * @public
+ */
+export interface IssuePrioritySetting {
+  /** The issue priority the setting applies to */
+  priority: IssuePriority;
+  /** Whether issues with this priority are reported */
+  isReported: boolean;
+  /** Whether issues with this priority can fail a check */
+  canFailCheck: boolean;
+}
+
+/**
+ * Quality gates configured for a repository
+ * @public
+ */
+export interface QualityGates {
+  /** Repository GraphQL ID, needed to update the settings */
+  repositoryId: string;
+  /** Settings for each issue category */
+  categories: IssueCategorySetting[];
+  /** Settings for each issue priority */
+  priorities: IssuePrioritySetting[];
+}
+
+/**
+ * Parameters for updating an issue category setting
+ * @public
+ */
+export interface UpdateIssueCategorySettingParams {
+  /** Repository GraphQL ID */
+  repositoryId: string;
+  /** The issue category to update */
+  category: IssueCategory;
+  /** Whether issues in this category should be reported */
+  isReported: boolean;
+  /** Whether issues in this category should be able to fail a check */
+  canFailCheck: boolean;
+}
+
+/**
+ * Parameters for updating an issue priority setting
+ * @public
+ */
+export interface UpdateIssuePrioritySettingParams {
+  /** Repository GraphQL ID */
+  repositoryId: string;
+  /** The issue priority to update */
+  priority: IssuePriority;
+  /** Whether issues with this priority should be reported */
+  isReported: boolean;
+  /** Whether issues with this priority should be able to fail a check */
+  canFailCheck: boolean;
+}
+
+/**
+ * Response from updating a quality gate setting
+ * @public
+ */
+export interface QualityGateUpdateResponse {
+  /** Whether the update was successful */
+  ok: boolean;
+}
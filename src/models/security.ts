@@ -111,6 +111,18 @@ export type VulnerabilitySeverity =
   /** Critical impact with easy exploitation or catastrophic consequences */
   | 'CRITICAL';
 
+/**
+ * Vulnerability severities ordered from least to most severe
+ * @public
+ */
+export const VULNERABILITY_SEVERITY_ORDER: readonly VulnerabilitySeverity[] = [
+  'NONE',
+  'LOW',
+  'MEDIUM',
+  'HIGH',
+  'CRITICAL',
+];
+
 /**
  * Possible package version types
  * Defines how the version numbering scheme for a package should be interpreted
@@ -252,6 +264,26 @@ export interface Vulnerability {
   referenceUrls: string[];
 }
 
+/**
+ * Represents a dependency target in a repository
+ * A target is a manifest, and optionally its lockfile, that DeepSource scans for dependencies
+ * @public
+ */
+export interface RepositoryTarget {
+  /** Unique identifier of the target */
+  id: string;
+  /** Package ecosystem of the target (e.g., 'NPM', 'PYPI') */
+  ecosystem: string;
+  /** Package manager that owns the manifest (e.g., 'npm', 'yarn', 'poetry') */
+  packageManager: string;
+  /** Path of the manifest file relative to the repository root */
+  manifestPath: string | null;
+  /** Path of the lockfile relative to the repository root */
+  lockfilePath: string | null;
+  /** Whether DeepSource scans this target */
+  isActivated: boolean;
+}
+
 /**
  * Represents a vulnerability occurrence in the DeepSource API
  * A vulnerability occurrence is an instance of a vulnerability affecting a specific package version
@@ -271,6 +303,8 @@ export interface VulnerabilityOccurrence {
   reachability: VulnerabilityReachability;
   /** Whether and how the vulnerability can be fixed */
   fixability: VulnerabilityFixability;
+  /** The dependency target matched to the package's ecosystem, if any */
+  target?: RepositoryTarget;
 }
 
 /**
@@ -287,3 +321,15 @@ export interface DependencyVulnerabilitiesParams extends PaginationParams {
  * @public
  */
 export type VulnerabilitiesResponse = PaginatedResponse<VulnerabilityOccurrence>;
+
+/**
+ * Parameters for paging through a repository's dependency targets
+ * @public
+ */
+export type DependencyTargetsParams = PaginationParams;
+
+/**
+ * Response containing a list of dependency targets with pagination
+ * @public
+ */
+export type DependencyTargetsResponse = PaginatedResponse<RepositoryTarget>;
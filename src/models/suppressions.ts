@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Team suppression models
+ * This module defines interfaces for issues suppressed across every repository of a team.
+ */
+
+import { PaginationParams, PaginatedResponse } from '../utils/pagination/types.js';
+
+/**
+ * Identifies a DeepSource team (account)
+ * @public
+ */
+export interface TeamIdentifier {
+  /** Login of the team on the VCS provider */
+  login: string;
+  /** VCS provider of the team (e.g., 'GITHUB', 'GITLAB') */
+  vcsProvider: string;
+}
+
+/**
+ * Represents an issue suppressed for a whole team
+ * @public
+ */
+export interface SuppressedIssue {
+  /** Unique identifier for the suppression */
+  id: string;
+  /** The suppressed issue type */
+  issue: {
+    shortcode: string;
+    title: string;
+    analyzerShortcode: string | null;
+  };
+  /** When the issue was suppressed */
+  suppressedAt: string | null;
+  /** Who suppressed the issue */
+  suppressedBy: string | null;
+}
+
+/**
+ * Parameters for listing a team's suppressed issues
+ * @public
+ */
+export type TeamSuppressedIssuesParams = TeamIdentifier & PaginationParams;
+
+/**
+ * Parameters for suppressing or unsuppressing an issue for a team
+ * @public
+ */
+export interface TeamIssueSuppressionParams extends TeamIdentifier {
+  /** Shortcode of the analyzer that reports the issue (e.g., 'python'), not sent to the API */
+  analyzerShortcode: string;
+  /** Shortcode of the issue (e.g., 'PYL-W0611') */
+  issueShortcode: string;
+}
+
+/**
+ * Response containing a team's suppressed issues with pagination
+ * @public
+ */
+export type SuppressedIssuesResponse = PaginatedResponse<SuppressedIssue>;
+
+/**
+ * Response from suppressing or unsuppressing an issue for a team
+ * @public
+ */
+export interface TeamIssueSuppressionResponse {
+  /** Whether the mutation was successful */
+  ok: boolean;
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Argument completion for the DeepSource MCP server
+ *
+ * This module suggests values for the arguments of prompts and the variables
+ * of resource templates through the MCP completion API. Suggestions come
+ * from the existing tool handlers, so that users pick project keys, branches
+ * and analyzers that exist instead of guessing them.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  handleProjects,
+  handleDeepsourceProjectRuns,
+  handleDeepsourceAnalyzers,
+} from '../handlers/index.js';
+import { ProjectsClient } from '../client/projects-client.js';
+import { getApiKey } from '../config/index.js';
+import { ReportType } from '../types/report-types.js';
+import { MetricShortcode } from '../types/metrics.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { parseHandlerResponse } from './tool-helpers.js';
+
+const logger = createLogger('ArgumentCompletion');
+
+/**
+ * Number of recent runs inspected for branches
+ */
+const RECENT_RUNS_PAGE_SIZE = 50;
+
+/**
+ * Context of a completion request
+ */
+export interface CompletionContext {
+  /** Arguments the user has already filled in */
+  arguments?: Record<string, string>;
+}
+
+/**
+ * Suggests values for an argument given its partial value
+ */
+export type ArgumentCompleter = (value: string, context?: CompletionContext) => Promise<string[]>;
+
+/**
+ * Shape of a run in the runs handler response
+ * @private
+ */
+interface RunSummary {
+  branchName?: string;
+}
+
+/**
+ * Filters and orders candidate values against a partial value
+ *
+ * Matching ignores case. Values starting with the partial value come first,
+ * followed by values containing it, each group in alphabetical order.
+ *
+ * @param candidates - The candidate values, possibly with duplicates
+ * @param value - The partial value typed by the user
+ * @returns The matching values
+ */
+export function rankCompletions(candidates: Iterable<string>, value: string): string[] {
+  const needle = value.toLowerCase();
+  const prefixMatches: string[] = [];
+  const substringMatches: string[] = [];
+
+  for (const candidate of new Set(candidates)) {
+    const index = candidate.toLowerCase().indexOf(needle);
+    if (index === 0) {
+      prefixMatches.push(candidate);
+    } else if (index > 0) {
+      substringMatches.push(candidate);
+    }
+  }
+
+  const byName = (a: string, b: string) => a.localeCompare(b);
+  return [...prefixMatches.sort(byName), ...substringMatches.sort(byName)];
+}
+
+/**
+ * Wraps a completer so that a failing lookup yields no suggestions
+ * @param name - Name of the completed argument, for logging
+ * @param fetchCandidates - Fetches the candidate values
+ * @returns The completer
+ * @private
+ */
+function fromLookup(
+  name: string,
+  fetchCandidates: (context?: CompletionContext) => Promise<Iterable<string>>
+): ArgumentCompleter {
+  return async (value, context) => {
+    try {
+      return rankCompletions(await fetchCandidates(context), value);
+    } catch (error) {
+      // Completion is a convenience; the user can still type the value
+      logger.debug('Completion lookup failed', {
+        argument: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  };
+}
+
+/**
+ * Creates a completer suggesting values from a fixed list
+ * @param values - The allowed values
+ * @returns The completer
+ */
+export function completeFrom(values: readonly string[]): ArgumentCompleter {
+  return async (value) => rankCompletions(values, value);
+}
+
+/**
+ * Fetches the runs of the project the user has already chosen
+ * @param context - The completion context
+ * @returns The recent runs, or none when no project key was given
+ * @private
+ */
+async function fetchRecentRuns(context?: CompletionContext): Promise<RunSummary[]> {
+  const projectKey = context?.arguments?.projectKey;
+  if (!projectKey) {
+    return [];
+  }
+  const response = parseHandlerResponse(
+    await handleDeepsourceProjectRuns({ projectKey, first: RECENT_RUNS_PAGE_SIZE })
+  ) as { runs?: RunSummary[] };
+  return response.runs ?? [];
+}
+
+/**
+ * Suggests the keys of the projects visible to the API key
+ */
+export const completeProjectKey = fromLookup('projectKey', async () => {
+  const projects = parseHandlerResponse(await handleProjects()) as Array<{ key: string }>;
+  return projects.map((project) => project.key);
+});
+
+/**
+ * Suggests the branches analyzed in the recent runs of the chosen project
+ */
+export const completeBranchName = fromLookup('branchName', async (context) => {
+  const runs = await fetchRecentRuns(context);
+  return runs.flatMap((run) => (run.branchName ? [run.branchName] : []));
+});
+
+/**
+ * Suggests a single analyzer: those enabled for the chosen project, or every
+ * available analyzer when no project has been chosen
+ * @private
+ */
+const completeAnalyzer = fromLookup('analyzerIn', async (context) => {
+  const projectKey = context?.arguments?.projectKey;
+  if (projectKey) {
+    const settings = await new ProjectsClient(getApiKey()).getRepositorySettings(projectKey);
+    return (settings?.enabledAnalyzers ?? []).map((analyzer) => analyzer.shortcode);
+  }
+
+  const catalog = parseHandlerResponse(await handleDeepsourceAnalyzers()) as {
+    analyzers?: Array<{ shortcode: string }>;
+  };
+  return (catalog.analyzers ?? []).map((analyzer) => analyzer.shortcode);
+});
+
+/**
+ * Suggests analyzers for a comma-separated list of analyzer shortcodes
+ *
+ * Only the segment after the last comma is completed. The analyzers before it
+ * are kept in every suggestion and are not suggested again.
+ */
+export const completeAnalyzerShortcode: ArgumentCompleter = async (value, context) => {
+  const chosen = value.slice(0, value.lastIndexOf(',') + 1);
+  const picked = new Set(chosen.split(','));
+  const suggestions = await completeAnalyzer(value.slice(chosen.length), context);
+  return suggestions
+    .filter((shortcode) => !picked.has(shortcode))
+    .map((shortcode) => `${chosen}${shortcode}`);
+};
+
+/**
+ * Suggests quality metric shortcodes
+ */
+export const completeMetricShortcode = completeFrom(Object.values(MetricShortcode));
+
+/**
+ * Suggests report types
+ */
+export const completeReportType = completeFrom(Object.values(ReportType));
+
+/**
+ * Completers keyed by the name of the argument they complete
+ */
+export const ARGUMENT_COMPLETERS: Readonly<Record<string, ArgumentCompleter>> = {
+  projectKey: completeProjectKey,
+  branchName: completeBranchName,
+  analyzerIn: completeAnalyzerShortcode,
+  metricShortcode: completeMetricShortcode,
+  reportType: completeReportType,
+};
+
+/**
+ * Picks the completers for a set of argument names
+ * @param names - The argument names, e.g. the variables of a URI template
+ * @returns The completers of the arguments that have one
+ */
+export function completersFor(names: readonly string[]): Record<string, ArgumentCompleter> {
+  const completers: Record<string, ArgumentCompleter> = {};
+  for (const name of names) {
+    const completer = ARGUMENT_COMPLETERS[name];
+    if (completer) {
+      completers[name] = completer;
+    }
+  }
+  return completers;
+}
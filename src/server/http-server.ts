@@ -0,0 +1,443 @@
+/**
+ * @fileoverview Streamable HTTP server for the DeepSource MCP server
+ *
+ * This module serves the MCP Streamable HTTP transport so that a single
+ * shared instance can be used by many clients. Every MCP session gets its
+ * own {@link DeepSourceMCPServer}, created when the client sends its
+ * initialize request and closed when the client ends the session, when it
+ * stays idle for too long or when the HTTP server shuts down.
+ *
+ * A session can bring its own DeepSource API key as a bearer token in the
+ * Authorization header. Its requests then run in a request context scoped
+ * to the session, so that API clients, circuit breakers and retry budgets
+ * are never shared with other sessions.
+ *
+ * @packageDocumentation
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { BaseDeepSourceClient } from '../client/base-client.js';
+import { hasApiKey } from '../config/index.js';
+import type { HttpTransportConfig } from '../config/transport.js';
+import { runWithRequestContext } from '../utils/request-context.js';
+import { ResponseCache } from '../utils/cache/index.js';
+import { CircuitBreakerManager, RetryBudgetManager } from '../utils/retry/index.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { VERSION } from '../version.js';
+import type { DeepSourceMCPServer } from './mcp-server.js';
+
+const logger = createLogger('HttpServer');
+
+/**
+ * Maximum size of a request body in bytes
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Path of the health endpoint
+ */
+const HEALTH_PATH = '/health';
+
+/**
+ * Options of the Streamable HTTP server
+ */
+export interface HttpServerOptions extends HttpTransportConfig {
+  /** Creates the MCP server backing a new session */
+  createServer: () => Promise<DeepSourceMCPServer>;
+}
+
+/**
+ * An open MCP session
+ * @private
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: DeepSourceMCPServer;
+  apiKey: string | undefined;
+  lastActivity: number;
+}
+
+/**
+ * Error raised when a request body cannot be read
+ * @private
+ */
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: number
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Writes a JSON response
+ * @param res - The server response
+ * @param status - The HTTP status code
+ * @param payload - The payload to serialize
+ * @private
+ */
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+}
+
+/**
+ * Writes a JSON-RPC error response that is not tied to a request
+ * @param res - The server response
+ * @param status - The HTTP status code
+ * @param code - The JSON-RPC error code
+ * @param message - The error message
+ * @private
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @param req - The incoming request
+ * @returns The parsed body
+ * @throws RequestBodyError if the body is too large or is not valid JSON
+ * @private
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413, -32600);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestBodyError('Parse error: invalid JSON', 400, -32700);
+  }
+}
+
+/**
+ * Extracts the DeepSource API key sent as a bearer token
+ * @param req - The incoming request
+ * @returns The API key, or undefined when no bearer token was sent
+ * @private
+ */
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+  return match?.[1];
+}
+
+/**
+ * Writes a 401 response asking for a bearer token
+ * @param res - The server response
+ * @param message - The error message
+ * @private
+ */
+function sendUnauthorized(res: ServerResponse, message: string): void {
+  res.setHeader('WWW-Authenticate', 'Bearer realm="deepsource-mcp-server"');
+  sendJsonRpcError(res, 401, -32000, message);
+}
+
+/**
+ * Checks whether a JSON-RPC payload starts a session
+ * @param body - The parsed request body
+ * @returns True if the payload contains an initialize request
+ * @private
+ */
+function containsInitializeRequest(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+/**
+ * Streamable HTTP server hosting one MCP server per session
+ */
+export class DeepSourceHttpServer {
+  private readonly options: HttpServerOptions;
+  private readonly httpServer: Server;
+  private readonly sessions = new Map<string, Session>();
+  private readonly startedAt = Date.now();
+  private sweepTimer?: NodeJS.Timeout;
+  private closing = false;
+
+  constructor(options: HttpServerOptions) {
+    this.options = options;
+    this.httpServer = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+  }
+
+  /**
+   * Starts listening for connections
+   * @returns The address the server is bound to
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    if (this.options.sessionIdleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(
+        () => void this.closeIdleSessions(),
+        Math.min(this.options.sessionIdleTimeoutMs, 60000)
+      );
+      this.sweepTimer.unref();
+    }
+
+    const address = this.httpServer.address() as AddressInfo;
+    logger.info('Streamable HTTP server listening', {
+      host: address.address,
+      port: address.port,
+      endpoint: this.options.endpoint,
+    });
+    return address;
+  }
+
+  /**
+   * Gets the number of open sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Shuts the server down gracefully
+   *
+   * Stops accepting connections, closes every session and waits for open
+   * connections to finish, forcing them closed after the shutdown timeout.
+   */
+  async close(): Promise<void> {
+    if (this.closing) {
+      return;
+    }
+    this.closing = true;
+    clearInterval(this.sweepTimer);
+    logger.info('Shutting down Streamable HTTP server', { sessions: this.sessions.size });
+
+    const closed = new Promise<void>((resolve) => {
+      this.httpServer.close(() => resolve());
+    });
+
+    await Promise.all([...this.sessions.keys()].map((sessionId) => this.closeSession(sessionId)));
+    this.httpServer.closeIdleConnections();
+
+    let forceTimer: NodeJS.Timeout | undefined;
+    const forced = new Promise<void>((resolve) => {
+      forceTimer = setTimeout(() => {
+        logger.warn('Forcing open connections closed after shutdown timeout');
+        this.httpServer.closeAllConnections();
+        resolve();
+      }, this.options.shutdownTimeoutMs);
+      forceTimer.unref();
+    });
+
+    await Promise.race([closed, forced]);
+    clearTimeout(forceTimer);
+    logger.info('Streamable HTTP server stopped');
+  }
+
+  /**
+   * Routes an incoming request
+   * @param req - The incoming request
+   * @param res - The server response
+   * @private
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (pathname === HEALTH_PATH && req.method === 'GET') {
+        sendJson(res, this.closing ? 503 : 200, {
+          status: this.closing ? 'shutting_down' : 'ok',
+          version: VERSION,
+          transport: 'streamable-http',
+          sessions: this.sessions.size,
+          uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+        });
+        return;
+      }
+
+      if (pathname !== this.options.endpoint) {
+        sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      if (this.closing) {
+        sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+        return;
+      }
+
+      await this.handleMcpRequest(req, res);
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+
+      logger.error('Error handling MCP HTTP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  /**
+   * Handles a request to the MCP endpoint
+   * @param req - The incoming request
+   * @param res - The server response
+   * @private
+   */
+  private async handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (getBearerToken(req) !== session.apiKey) {
+        sendJsonRpcError(res, 403, -32000, 'Forbidden: API key does not match the session');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await runWithRequestContext(
+        { scope: sessionId, ...(session.apiKey && { apiKey: session.apiKey }) },
+        () => session.transport.handleRequest(req, res, body)
+      );
+      return;
+    }
+
+    if (req.method === 'POST' && containsInitializeRequest(body)) {
+      await this.createSession(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+  }
+
+  /**
+   * Creates a session for an initialize request
+   * @param req - The incoming request
+   * @param res - The server response
+   * @param body - The parsed initialize request
+   * @private
+   */
+  private async createSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const apiKey = getBearerToken(req);
+    if (!apiKey && (this.options.requireApiKey || !hasApiKey())) {
+      sendUnauthorized(res, 'Unauthorized: send your DeepSource API key as a bearer token');
+      return;
+    }
+
+    // The session ID is known up front so that the server is created in its scope
+    const sessionId = randomUUID();
+    await runWithRequestContext({ scope: sessionId, ...(apiKey && { apiKey }) }, async () => {
+      const server = await this.options.createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => sessionId,
+        onsessioninitialized: () => {
+          this.sessions.set(sessionId, { transport, server, apiKey, lastActivity: Date.now() });
+          logger.info('MCP session opened', {
+            sessionId,
+            ownApiKey: Boolean(apiKey),
+            sessions: this.sessions.size,
+          });
+        },
+      });
+
+      transport.onclose = () => {
+        if (this.sessions.delete(sessionId)) {
+          this.releaseScope(sessionId, apiKey);
+          logger.info('MCP session closed', { sessionId, sessions: this.sessions.size });
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    });
+  }
+
+  /**
+   * Closes a session and its MCP server
+   * @param sessionId - The session to close
+   * @private
+   */
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn('Failed to close MCP session cleanly', { sessionId, error });
+    } finally {
+      this.sessions.delete(sessionId);
+      this.releaseScope(sessionId, session.apiKey);
+    }
+  }
+
+  /**
+   * Drops the circuit breakers, retry budgets and cached responses of a session,
+   * and the project lookup batchers of its API key once no other session uses it
+   * @param sessionId - The session whose state to drop
+   * @param apiKey - The API key the session brought, if any
+   * @private
+   */
+  private releaseScope(sessionId: string, apiKey: string | undefined): void {
+    CircuitBreakerManager.getInstance().removeScope(sessionId);
+    RetryBudgetManager.getInstance().removeScope(sessionId);
+    ResponseCache.getInstance().removeScope(sessionId);
+
+    const keyInUse = [...this.sessions.values()].some((session) => session.apiKey === apiKey);
+    if (apiKey && !keyInUse) {
+      BaseDeepSourceClient.removeProjectLoaders(apiKey);
+    }
+  }
+
+  /**
+   * Closes the sessions that have been idle longer than the idle timeout
+   * @private
+   */
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.options.sessionIdleTimeoutMs;
+    const idle = [...this.sessions.entries()]
+      .filter(([, session]) => session.lastActivity < cutoff)
+      .map(([sessionId]) => sessionId);
+
+    if (idle.length > 0) {
+      logger.info('Closing idle MCP sessions', { sessions: idle });
+      await Promise.all(idle.map((sessionId) => this.closeSession(sessionId)));
+    }
+  }
+}
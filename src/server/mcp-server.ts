@@ -11,12 +11,16 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { createLogger } from '../utils/logging/logger.js';
 import { ToolRegistry } from './tool-registry.js';
 import { BaseHandlerDeps } from '../handlers/base/handler.interface.js';
 import { createDefaultHandlerDeps } from '../handlers/base/handler.factory.js';
 import { registerDeepSourceTools } from './tool-registration.js';
+import { registerDeepSourceResources } from './resource-registration.js';
+import { registerDeepSourcePrompts } from './prompt-registration.js';
 import { VERSION } from '../version.js';
+import { getToolAccessConfig, type ToolAccessConfig } from '../config/tool-access.js';
 
 const logger = createLogger('MCPServer');
 
@@ -32,21 +36,33 @@ export interface MCPServerConfig {
   handlerDeps?: BaseHandlerDeps;
   /** Whether to auto-register DeepSource tools */
   autoRegisterTools?: boolean;
+  /** Whether to auto-register DeepSource resources */
+  autoRegisterResources?: boolean;
+  /** Whether to auto-register DeepSource prompts */
+  autoRegisterPrompts?: boolean;
   /** Custom transport (defaults to StdioServerTransport) */
-  transport?: StdioServerTransport;
+  transport?: Transport;
   /** Whether to start the server immediately */
   autoStart?: boolean;
+  /**
+   * Restrictions on the tools the server exposes, overriding the
+   * `--read-only` flag and the tool access environment variables
+   */
+  toolAccess?: Partial<ToolAccessConfig>;
 }
 
 /**
  * Default configuration values
  */
-const DEFAULT_CONFIG: Required<Omit<MCPServerConfig, 'handlerDeps' | 'transport'>> = {
-  name: 'deepsource-mcp-server',
-  version: VERSION,
-  autoRegisterTools: true,
-  autoStart: false,
-};
+const DEFAULT_CONFIG: Required<Omit<MCPServerConfig, 'handlerDeps' | 'transport' | 'toolAccess'>> =
+  {
+    name: 'deepsource-mcp-server',
+    version: VERSION,
+    autoRegisterTools: true,
+    autoRegisterResources: true,
+    autoRegisterPrompts: true,
+    autoStart: false,
+  };
 
 /**
  * DeepSource MCP Server class
@@ -57,9 +73,11 @@ const DEFAULT_CONFIG: Required<Omit<MCPServerConfig, 'handlerDeps' | 'transport'
 export class DeepSourceMCPServer {
   private mcpServer: McpServer;
   private toolRegistry: ToolRegistry;
-  private transport?: StdioServerTransport;
-  private config: Required<Omit<MCPServerConfig, 'handlerDeps' | 'transport'>> &
-    Pick<MCPServerConfig, 'handlerDeps' | 'transport'>;
+  private registeredResources: string[] = [];
+  private registeredPrompts: string[] = [];
+  private transport?: Transport;
+  private config: Required<Omit<MCPServerConfig, 'handlerDeps' | 'transport' | 'toolAccess'>> &
+    Pick<MCPServerConfig, 'handlerDeps' | 'transport' | 'toolAccess'>;
   private isConnected = false;
 
   constructor(config: MCPServerConfig = {}) {
@@ -82,12 +100,21 @@ export class DeepSourceMCPServer {
 
     // Initialize tool registry
     const handlerDeps = this.config.handlerDeps || createDefaultHandlerDeps();
-    this.toolRegistry = new ToolRegistry(this.mcpServer, handlerDeps);
+    const toolAccess = { ...getToolAccessConfig(), ...this.config.toolAccess };
+    this.toolRegistry = new ToolRegistry(this.mcpServer, handlerDeps, toolAccess);
 
     // Auto-register tools if configured (AFTER transport is set)
     if (this.config.autoRegisterTools) {
       this.registerDefaultTools();
     }
+
+    if (this.config.autoRegisterResources) {
+      this.registeredResources = registerDeepSourceResources(this.mcpServer);
+    }
+
+    if (this.config.autoRegisterPrompts) {
+      this.registeredPrompts = registerDeepSourcePrompts(this.mcpServer);
+    }
   }
 
   /**
@@ -146,7 +173,7 @@ export class DeepSourceMCPServer {
    *
    * @param transport - Optional transport to use (overrides constructor transport)
    */
-  async connect(transport?: StdioServerTransport): Promise<void> {
+  async connect(transport?: Transport): Promise<void> {
     if (this.isConnected) {
       logger.warn('Server is already connected');
       return;
@@ -171,6 +198,19 @@ export class DeepSourceMCPServer {
     await this.connect();
   }
 
+  /**
+   * Closes the server and its transport
+   */
+  async close(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    logger.info('Closing MCP server');
+    await this.mcpServer.close();
+    this.isConnected = false;
+  }
+
   /**
    * Checks if the server is connected
    */
@@ -195,6 +235,20 @@ export class DeepSourceMCPServer {
     return this.toolRegistry.getToolNames();
   }
 
+  /**
+   * Gets registered resource names
+   */
+  getRegisteredResources(): string[] {
+    return [...this.registeredResources];
+  }
+
+  /**
+   * Gets registered prompt names
+   */
+  getRegisteredPrompts(): string[] {
+    return [...this.registeredPrompts];
+  }
+
   /**
    * Discovers and loads tools from filesystem (requires FEATURE_TOOL_DISCOVERY)
    *
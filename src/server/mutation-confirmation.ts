@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Confirmation of tools that change DeepSource settings
+ *
+ * A mutating tool only runs once the change it is about to make has been
+ * confirmed. Clients that support MCP elicitation ask their user directly,
+ * showing the current and proposed values. Other clients get the same
+ * preview with a one-time confirmation token, and apply the change by
+ * calling the tool again with the same arguments and that token.
+ *
+ * @packageDocumentation
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { scopeKey } from '../utils/request-context.js';
+import { createLogger } from '../utils/logging/logger.js';
+
+const logger = createLogger('MutationConfirmation');
+
+/**
+ * Name of the tool argument carrying a confirmation token
+ */
+export const CONFIRMATION_TOKEN_PARAM = 'confirmationToken';
+
+/**
+ * Describes a change before it is made
+ */
+export interface MutationPreview {
+  /** One-line description of the change */
+  summary: string;
+  /** Current values of the settings the change affects */
+  current: Record<string, unknown>;
+  /** Values the settings will have once the change is applied */
+  proposed: Record<string, unknown>;
+  /** Why the change cannot be applied, when it is invalid */
+  errors?: string[];
+}
+
+/**
+ * Builds the preview of the change a tool call would make
+ */
+export type MutationPreviewer<TInput = unknown> = (params: TInput) => Promise<MutationPreview>;
+
+/**
+ * Asks the user of the client to confirm a change
+ */
+export type ElicitFunction = (params: ElicitRequest['params']) => Promise<ElicitResult>;
+
+/**
+ * Outcome of a confirmation check
+ */
+export type ConfirmationResult =
+  | { confirmed: true }
+  | { confirmed: false; response: Record<string, unknown> & { message: string } };
+
+/**
+ * A token issued for a change that awaits confirmation
+ * @private
+ */
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * Identifies a tool call by its tool and arguments, ignoring the token
+ * @param toolName - The tool name
+ * @param params - The tool arguments
+ * @returns A string equal for identical calls
+ * @private
+ */
+function fingerprint(toolName: string, params: Record<string, unknown>): string {
+  const entries = Object.entries(params)
+    .filter(([name, value]) => name !== CONFIRMATION_TOKEN_PARAM && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([toolName, entries]);
+}
+
+/**
+ * Keeps the confirmation tokens issued to clients without elicitation
+ *
+ * Tokens are single-use, expire after `CONFIRMATION_TOKEN_TTL_MS`, and are
+ * only valid for the request scope and the exact call they were issued for.
+ *
+ * @class
+ * @public
+ */
+export class ConfirmationTokenStore {
+  private static instance: ConfirmationTokenStore | undefined;
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(
+    private readonly ttlMs = parseInt(process.env.CONFIRMATION_TOKEN_TTL_MS || '300000', 10)
+  ) {}
+
+  /**
+   * Gets the process-wide token store
+   * @returns The token store
+   */
+  static getInstance(): ConfirmationTokenStore {
+    if (!ConfirmationTokenStore.instance) {
+      ConfirmationTokenStore.instance = new ConfirmationTokenStore();
+    }
+    return ConfirmationTokenStore.instance;
+  }
+
+  /**
+   * Issues a token for a tool call
+   * @param toolName - The tool name
+   * @param params - The tool arguments
+   * @returns The token and when it expires
+   */
+  issue(toolName: string, params: Record<string, unknown>): { token: string; expiresAt: Date } {
+    this.prune();
+    const token = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(scopeKey(token), { fingerprint: fingerprint(toolName, params), expiresAt });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Redeems a token for a tool call
+   * @param token - The token sent by the client
+   * @param toolName - The tool name
+   * @param params - The tool arguments
+   * @returns True when the token was issued for this call and has not expired
+   */
+  consume(token: string, toolName: string, params: Record<string, unknown>): boolean {
+    const key = scopeKey(token);
+    const pending = this.pending.get(key);
+    if (!pending || pending.expiresAt <= Date.now()) {
+      this.pending.delete(key);
+      return false;
+    }
+    if (pending.fingerprint !== fingerprint(toolName, params)) {
+      return false;
+    }
+    this.pending.delete(key);
+    return true;
+  }
+
+  /**
+   * Forgets every issued token
+   */
+  clear(): void {
+    this.pending.clear();
+  }
+
+  /**
+   * Drops expired tokens
+   * @private
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Formats a value of a preview for display
+ * @param value - The value
+ * @returns The display text
+ * @private
+ */
+function formatValue(value: unknown): string {
+  return value === undefined ? 'unknown' : JSON.stringify(value);
+}
+
+/**
+ * Formats a preview as text listing each setting with its current and proposed value
+ * @param preview - The preview
+ * @returns The preview text
+ */
+export function formatMutationPreview(preview: MutationPreview): string {
+  const names = [...new Set([...Object.keys(preview.current), ...Object.keys(preview.proposed)])];
+  const lines = names.map(
+    (name) =>
+      `- ${name}: ${formatValue(preview.current[name])} -> ${formatValue(preview.proposed[name])}`
+  );
+  return [preview.summary, ...lines].join('\n');
+}
+
+/**
+ * Checks that a mutating tool call has been confirmed
+ *
+ * When the client supports elicitation, its user is always asked to confirm
+ * the previewed change and confirmation tokens are ignored. Otherwise a valid
+ * token confirms the call, and a token is issued for calls without one.
+ * Changes whose preview reports errors are refused.
+ *
+ * @param options - The tool call and how to reach the client
+ * @returns Whether to run the tool, or the response explaining why not
+ */
+export async function confirmMutation(options: {
+  toolName: string;
+  params: Record<string, unknown>;
+  preview: MutationPreviewer<Record<string, unknown>>;
+  elicit?: ElicitFunction | undefined;
+}): Promise<ConfirmationResult> {
+  const { toolName, params, preview } = options;
+  const store = ConfirmationTokenStore.getInstance();
+
+  // A token must not let the model skip asking a user who can be asked
+  const token = options.elicit ? undefined : params[CONFIRMATION_TOKEN_PARAM];
+  if (typeof token === 'string' && store.consume(token, toolName, params)) {
+    logger.info('Change confirmed with a token', { toolName });
+    return { confirmed: true };
+  }
+
+  const change = await preview(params);
+  const previewText = formatMutationPreview(change);
+
+  if (change.errors?.length) {
+    logger.info('Refused an invalid change', { toolName, errors: change.errors });
+    return {
+      confirmed: false,
+      response: {
+        confirmed: false,
+        message: `${change.summary} cannot be applied: ${change.errors.join(' ')} Nothing has been changed.`,
+        errors: change.errors,
+        current: change.current,
+        proposed: change.proposed,
+      },
+    };
+  }
+
+  if (options.elicit) {
+    const result = await options.elicit({
+      message: `${previewText}\n\nApply this change?`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: {
+            type: 'boolean',
+            title: 'Apply change',
+            description: 'Apply the change shown above',
+          },
+        },
+        required: ['confirm'],
+      },
+    });
+
+    if (result.action === 'accept' && result.content?.confirm === true) {
+      logger.info('Change confirmed by the user', { toolName });
+      return { confirmed: true };
+    }
+
+    logger.info('Change not confirmed by the user', { toolName, action: result.action });
+    return {
+      confirmed: false,
+      response: {
+        confirmed: false,
+        message: `${change.summary} was not applied because the user did not confirm it. Nothing has been changed.`,
+        current: change.current,
+        proposed: change.proposed,
+      },
+    };
+  }
+
+  const { token: newToken, expiresAt } = store.issue(toolName, params);
+  logger.info('Issued a confirmation token', { toolName, expiresAt });
+  return {
+    confirmed: false,
+    response: {
+      confirmationRequired: true,
+      message: [
+        ...(token === undefined ? [] : ['The confirmation token is invalid or has expired.']),
+        `${previewText}\n\nNothing has been changed yet. Show this change to the user and, once they approve it, call ${toolName} again with the same arguments and ${CONFIRMATION_TOKEN_PARAM} "${newToken}".`,
+      ].join(' '),
+      confirmationToken: newToken,
+      expiresAt: expiresAt.toISOString(),
+      current: change.current,
+      proposed: change.proposed,
+    },
+  };
+}
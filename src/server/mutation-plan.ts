@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Dry runs of tools that change DeepSource settings
+ *
+ * Calling a mutating tool with `dryRun` returns the plan of the change
+ * instead of applying it: the settings it would change with their current
+ * and proposed values, and whether the change is valid. Nothing is changed
+ * and no confirmation is needed.
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import type { MutationPreview } from './mutation-confirmation.js';
+
+/**
+ * Name of the tool argument requesting a dry run
+ */
+export const DRY_RUN_PARAM = 'dryRun';
+
+/**
+ * A setting a change would modify
+ */
+export interface MutationChange {
+  /** Name of the setting */
+  setting: string;
+  /** Current value, omitted when unknown */
+  current?: unknown;
+  /** Value after the change */
+  proposed: unknown;
+}
+
+/**
+ * Plan of a change computed without applying it
+ */
+export interface MutationPlan {
+  /** The tool that would make the change */
+  tool: string;
+  /** One-line description of the change */
+  summary: string;
+  /** Whether the change can be applied */
+  valid: boolean;
+  /** Why the change cannot be applied */
+  errors: string[];
+  /** Settings whose value would change */
+  changes: MutationChange[];
+  /** Requested settings that already have the proposed value */
+  unchanged: string[];
+}
+
+/**
+ * Result of a dry run
+ */
+export interface DryRunResult {
+  dryRun: true;
+  message: string;
+  plan: MutationPlan;
+}
+
+/**
+ * Output schema fields of a dry run result
+ */
+export const DRY_RUN_OUTPUT_SHAPE = {
+  dryRun: z.literal(true).optional(),
+  plan: z
+    .object({
+      tool: z.string(),
+      summary: z.string(),
+      valid: z.boolean(),
+      errors: z.array(z.string()),
+      changes: z.array(
+        z.object({
+          setting: z.string(),
+          current: z.unknown().optional(),
+          proposed: z.unknown(),
+        })
+      ),
+      unchanged: z.array(z.string()),
+    })
+    .optional(),
+};
+
+/**
+ * Compares two setting values
+ * @param a - The first value
+ * @param b - The second value
+ * @returns True when both values are the same
+ * @private
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Computes the plan of a change from its preview
+ *
+ * Each proposed setting is compared with its current value. Settings whose
+ * current value is unknown count as changes.
+ *
+ * @param toolName - The tool that would make the change
+ * @param preview - The preview of the change
+ * @returns The dry run result
+ */
+export function planMutation(toolName: string, preview: MutationPreview): DryRunResult {
+  const changes: MutationChange[] = [];
+  const unchanged: string[] = [];
+
+  for (const [setting, proposed] of Object.entries(preview.proposed)) {
+    const current = preview.current[setting];
+    if (current !== undefined && isSameValue(current, proposed)) {
+      unchanged.push(setting);
+    } else {
+      changes.push({ setting, ...(current !== undefined && { current }), proposed });
+    }
+  }
+
+  const errors = preview.errors ?? [];
+  let message: string;
+  if (errors.length > 0) {
+    message = `Dry run: ${preview.summary} cannot be applied: ${errors.join(' ')}`;
+  } else if (changes.length === 0) {
+    message = `Dry run: ${preview.summary} would not change anything, the settings already have the requested values.`;
+  } else {
+    message = `Dry run: ${preview.summary} would change ${changes.map((change) => change.setting).join(', ')}. Nothing has been changed; call ${toolName} without ${DRY_RUN_PARAM} to apply it.`;
+  }
+
+  return {
+    dryRun: true,
+    message,
+    plan: {
+      tool: toolName,
+      summary: preview.summary,
+      valid: errors.length === 0,
+      errors,
+      changes,
+      unchanged,
+    },
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Previews of the changes made by mutating tools
+ *
+ * Each preview looks up the current values of the settings a tool call
+ * would change, so that the change can be confirmed or planned in a dry run
+ * before it is made. Metric previews also check proposed thresholds against
+ * the range the metric allows.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  handleDeepsourcePolicyPlan,
+  handleDeepsourceQualityGates,
+  handleDeepsourceTeamSuppressedIssues,
+} from '../handlers/index.js';
+import type { DeepsourceQualityPolicyParams, PolicyPlan } from '../handlers/quality-policy.js';
+import { getApiKey } from '../config/index.js';
+import { Project } from '../domain/aggregates/project/project.aggregate.js';
+import { QualityMetrics } from '../domain/aggregates/quality-metrics/quality-metrics.aggregate.js';
+import { ThresholdValue } from '../domain/value-objects/threshold-value.js';
+import { RepositoryFactory } from '../infrastructure/factories/repository.factory.js';
+import { asProjectKey } from '../types/branded.js';
+import { MetricKey, MetricShortcode } from '../models/metrics.js';
+import { MCPErrorFactory } from '../utils/error-handling/index.js';
+import { parseHandlerResponse } from './tool-helpers.js';
+import type { MutationPreview, MutationPreviewer } from './mutation-confirmation.js';
+
+/**
+ * Maximum number of pages of team suppressions searched for the current state
+ */
+const SUPPRESSION_PREVIEW_MAX_PAGES = 10;
+
+/**
+ * Tool arguments as received by a preview
+ * @private
+ */
+type ToolParams = Record<string, unknown>;
+
+/**
+ * Shape of an issue setting in the quality gates handler response
+ * @private
+ */
+interface IssueSetting {
+  isReported: boolean;
+  canFailCheck: boolean;
+}
+
+/**
+ * Looks up the quality metrics of a project
+ * @param projectKey - The project key
+ * @param shortcode - The metric shortcode
+ * @param metricKey - The context of the metric, or every context when omitted
+ * @returns The metrics, one per context
+ * @private
+ */
+async function findMetrics(
+  projectKey: string,
+  shortcode: MetricShortcode,
+  metricKey?: string
+): Promise<QualityMetrics[]> {
+  const repository = new RepositoryFactory({
+    apiKey: getApiKey(),
+  }).createQualityMetricsRepository();
+  if (metricKey === undefined) {
+    return repository.findByProjectWithFilter(asProjectKey(projectKey), [shortcode]);
+  }
+  const metric = await repository.findByProjectAndMetric(
+    asProjectKey(projectKey),
+    shortcode,
+    metricKey as MetricKey
+  );
+  return metric ? [metric] : [];
+}
+
+/**
+ * Checks a threshold against the range allowed for a metric
+ * @param metric - The metric
+ * @param threshold - The proposed threshold, or null to remove it
+ * @returns The validation errors
+ * @private
+ */
+function validateThreshold(metric: QualityMetrics, threshold: number | null): string[] {
+  if (threshold === null) {
+    return [];
+  }
+  const { unit, minAllowed, maxAllowed } = metric.configuration;
+  try {
+    ThresholdValue.create(threshold, unit, minAllowed, maxAllowed);
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+}
+
+/**
+ * Looks up the quality gate settings of a project
+ * @param projectKey - The project key
+ * @returns The category and priority settings
+ * @private
+ */
+async function fetchQualityGates(projectKey: string): Promise<{
+  categories: Array<IssueSetting & { category: string }>;
+  priorities: Array<IssueSetting & { priority: string }>;
+}> {
+  return parseHandlerResponse(await handleDeepsourceQualityGates({ projectKey })) as {
+    categories: Array<IssueSetting & { category: string }>;
+    priorities: Array<IssueSetting & { priority: string }>;
+  };
+}
+
+/**
+ * Looks up the project of a repository lifecycle change
+ * @param projectKey - The project key
+ * @returns The project
+ * @throws {MCPError} When the project does not exist
+ * @private
+ */
+async function findProject(projectKey: string): Promise<Project> {
+  const repository = new RepositoryFactory({ apiKey: getApiKey() }).createProjectRepository();
+  const project = await repository.findByKey(asProjectKey(projectKey));
+  if (!project) {
+    throw MCPErrorFactory.resourceNotFound('project', { projectKey });
+  }
+  return project;
+}
+
+/**
+ * Describes the activation state of a project
+ * @param project - The project
+ * @returns The activation settings shown in previews
+ * @private
+ */
+function activationState(project: Project): Record<string, unknown> {
+  return { status: project.status, isActivated: project.configuration.isActivated };
+}
+
+/**
+ * Checks whether an issue is currently suppressed for a team
+ * @param params - The suppression tool arguments
+ * @returns True when the issue is in the team's suppressed issues
+ * @private
+ */
+async function isSuppressedForTeam(params: ToolParams): Promise<boolean> {
+  const response = parseHandlerResponse(
+    await handleDeepsourceTeamSuppressedIssues({
+      login: params.login as string,
+      vcsProvider: params.vcsProvider as string,
+      max_pages: SUPPRESSION_PREVIEW_MAX_PAGES,
+    })
+  ) as {
+    suppressedIssues?: Array<{
+      issue: { shortcode: string; analyzerShortcode: string | null };
+    }>;
+  };
+  return (response.suppressedIssues ?? []).some(
+    ({ issue }) =>
+      issue.shortcode === params.issueShortcode &&
+      (issue.analyzerShortcode === null || issue.analyzerShortcode === params.analyzerShortcode)
+  );
+}
+
+/**
+ * Creates the preview of a team suppression change
+ * @param suppressed - Whether the change suppresses or lifts the suppression
+ * @returns The preview
+ * @private
+ */
+function teamSuppressionPreview(suppressed: boolean): MutationPreviewer<ToolParams> {
+  return async (params): Promise<MutationPreview> => ({
+    summary: `${suppressed ? 'Suppress' : 'Lift the suppression of'} ${params.issueShortcode} in every repository of ${params.login}`,
+    current: { suppressed: await isSuppressedForTeam(params) },
+    proposed: { suppressed, reason: params.reason },
+  });
+}
+
+/**
+ * Creates the preview of applying a quality policy
+ * @param params - The policy tool arguments
+ * @returns The preview, listing the settings the policy changes by project
+ * @private
+ */
+async function qualityPolicyPreview(params: ToolParams): Promise<MutationPreview> {
+  const plan = parseHandlerResponse(
+    await handleDeepsourcePolicyPlan(params as DeepsourceQualityPolicyParams)
+  ) as PolicyPlan;
+  const pending = plan.changes.filter((change) => change.action !== 'no-op');
+  return {
+    summary: `Apply the quality policy to ${plan.projects.length} projects`,
+    current: Object.fromEntries(
+      pending.map((change) => [`${change.projectKey}.${change.address}`, change.current])
+    ),
+    proposed: Object.fromEntries(
+      pending.map((change) => [`${change.projectKey}.${change.address}`, change.desired])
+    ),
+    errors: plan.errors,
+  };
+}
+
+/**
+ * Previews keyed by the name of the tool whose change they describe
+ */
+export const MUTATION_PREVIEWS: Readonly<Record<string, MutationPreviewer<ToolParams>>> = {
+  update_metric_threshold: async (params) => {
+    const projectKey = params.projectKey as string;
+    const shortcode = params.metricShortcode as MetricShortcode;
+    const metricKey = params.metricKey as string;
+    const threshold = (params.thresholdValue ?? null) as number | null;
+    const [metric] = await findMetrics(projectKey, shortcode, metricKey);
+    return {
+      summary: `Change the ${shortcode} threshold for ${metricKey} in ${projectKey}`,
+      current: { threshold: metric ? (metric.configuration.threshold?.value ?? null) : undefined },
+      proposed: { threshold },
+      // The allowed range is only known for metrics the project reports
+      errors: metric ? validateThreshold(metric, threshold) : [],
+    };
+  },
+  update_metric_setting: async (params) => {
+    const projectKey = params.projectKey as string;
+    const shortcode = params.metricShortcode as MetricShortcode;
+    // The settings are shared by every context of the metric
+    const [metric] = await findMetrics(projectKey, shortcode);
+    return {
+      summary: `Change the ${shortcode} settings in ${projectKey}`,
+      current: {
+        isReported: metric?.configuration.isReported,
+        isThresholdEnforced: metric?.configuration.isThresholdEnforced,
+      },
+      proposed: {
+        isReported: params.isReported,
+        isThresholdEnforced: params.isThresholdEnforced,
+      },
+    };
+  },
+  update_issue_category_setting: async (params) => {
+    const projectKey = params.projectKey as string;
+    const gates = await fetchQualityGates(projectKey);
+    const setting = gates.categories.find((candidate) => candidate.category === params.category);
+    return {
+      summary: `Change the quality gate of ${params.category} issues in ${projectKey}`,
+      current: { isReported: setting?.isReported, canFailCheck: setting?.canFailCheck },
+      proposed: { isReported: params.isReported, canFailCheck: params.canFailCheck },
+    };
+  },
+  update_issue_priority_setting: async (params) => {
+    const projectKey = params.projectKey as string;
+    const gates = await fetchQualityGates(projectKey);
+    const setting = gates.priorities.find((candidate) => candidate.priority === params.priority);
+    return {
+      summary: `Change the quality gate of ${params.priority} priority issues in ${projectKey}`,
+      current: { isReported: setting?.isReported, canFailCheck: setting?.canFailCheck },
+      proposed: { isReported: params.isReported, canFailCheck: params.canFailCheck },
+    };
+  },
+  suppress_issue_for_team: teamSuppressionPreview(true),
+  unsuppress_issue_for_team: teamSuppressionPreview(false),
+  activate_repository: async (params) => {
+    const project = await findProject(params.projectKey as string);
+    return {
+      summary: `Activate ${project.name} on DeepSource and analyze its default branch`,
+      current: activationState(project),
+      proposed: { status: 'ACTIVE', isActivated: true },
+    };
+  },
+  deactivate_repository: async (params) => {
+    const project = await findProject(params.projectKey as string);
+    return {
+      summary: `Deactivate ${project.name} on DeepSource so that new commits are no longer analyzed`,
+      current: activationState(project),
+      proposed: { status: 'INACTIVE', isActivated: false },
+    };
+  },
+  update_default_branch: async (params) => {
+    const project = await findProject(params.projectKey as string);
+    return {
+      summary: project.configuration.isActivated
+        ? `Change the default branch of ${project.name} and analyze the new branch`
+        : `Change the default branch of ${project.name}, which is not analyzed until the repository is activated`,
+      current: { defaultBranch: project.repository.defaultBranch ?? null },
+      proposed: { defaultBranch: params.defaultBranch },
+    };
+  },
+  policy_apply: qualityPolicyPreview,
+};
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Prompt registration for the DeepSource MCP server
+ *
+ * This module registers MCP prompts for common DeepSource workflows. Each
+ * prompt gathers its context from the existing tool handlers so that users
+ * don't need to know which tools to chain.
+ *
+ * @packageDocumentation
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import {
+  handleDeepsourceRecentRunIssues,
+  handleDeepsourceComplianceReport,
+  handleDeepsourceDependencyVulnerabilities,
+  handleDeepsourceRun,
+  handleDeepsourceQualityMetrics,
+} from '../handlers/index.js';
+import { ReportType } from '../types/report-types.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { parseHandlerResponse } from './tool-helpers.js';
+import { completeBranchName, completeFrom, completeProjectKey } from './argument-completion.js';
+
+const logger = createLogger('PromptRegistration');
+
+/**
+ * Report types that can back a security review
+ */
+const SECURITY_REPORT_TYPES = [
+  ReportType.OWASP_TOP_10,
+  ReportType.SANS_TOP_25,
+  ReportType.MISRA_C,
+] as const;
+
+/**
+ * Project key argument shared by every prompt, completed from the visible projects
+ */
+const projectKeyArg = completable(
+  z.string().describe('DeepSource project key'),
+  completeProjectKey
+);
+
+const securityReportTypeSchema = z
+  .enum(SECURITY_REPORT_TYPES)
+  .optional()
+  .describe('Compliance report to base the review on (defaults to OWASP_TOP_10)');
+
+/**
+ * Report type argument of the security-review prompt, completed from the security report types
+ *
+ * The SDK only types completable prompt arguments as plain strings, so the
+ * completable schema is cast back to the optional enum it validates.
+ */
+const securityReportTypeArg = completable(
+  securityReportTypeSchema,
+  async (value) =>
+    (await completeFrom(SECURITY_REPORT_TYPES)(value ?? '')) as Array<
+      (typeof SECURITY_REPORT_TYPES)[number]
+    >
+) as unknown as typeof securityReportTypeSchema;
+
+/**
+ * Arguments of the triage-branch-issues prompt
+ */
+export interface TriageBranchIssuesArgs {
+  projectKey: string;
+  branchName: string;
+}
+
+/**
+ * Arguments of the security-review prompt
+ */
+export interface SecurityReviewArgs {
+  projectKey: string;
+  reportType?: (typeof SECURITY_REPORT_TYPES)[number] | undefined;
+}
+
+/**
+ * Arguments of the explain-quality-gate-failure prompt
+ */
+export interface ExplainQualityGateFailureArgs {
+  projectKey: string;
+  runIdentifier: string;
+}
+
+/**
+ * Formats a block of context gathered from a handler
+ * @param heading - Heading describing the context
+ * @param payload - The handler payload
+ * @returns Markdown with the payload as a JSON code block
+ * @private
+ */
+function formatContext(heading: string, payload: unknown): string {
+  return `## ${heading}\n\n\`\`\`json\n${JSON.stringify(payload, null, 2)}\n\`\`\``;
+}
+
+/**
+ * Builds a prompt result made of a single user message
+ * @param description - Description of the prompt result
+ * @param sections - Instructions followed by context blocks
+ * @returns The prompt result
+ * @private
+ */
+function userPrompt(description: string, sections: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: sections.join('\n\n') },
+      },
+    ],
+  };
+}
+
+/**
+ * Builds the prompt for triaging the issues found on a branch
+ * @param args - The prompt arguments
+ * @returns The prompt with the issues of the most recent run on the branch
+ */
+export async function buildTriageBranchIssuesPrompt({
+  projectKey,
+  branchName,
+}: TriageBranchIssuesArgs): Promise<GetPromptResult> {
+  const issues = parseHandlerResponse(
+    await handleDeepsourceRecentRunIssues({ projectKey, branchName })
+  );
+
+  return userPrompt(`Triage of the issues on ${branchName} in ${projectKey}`, [
+    `Triage the issues DeepSource reported in the most recent analysis run on branch \`${branchName}\` of project \`${projectKey}\`.`,
+    [
+      '1. Group the issues by category and severity, most severe first.',
+      '2. Flag issues that look like false positives and explain why.',
+      '3. Call out issues that DeepSource Autofix can fix.',
+      '4. Propose the order in which to fix the rest, with a one-line rationale each.',
+    ].join('\n'),
+    formatContext('Most recent run and its issues', issues),
+  ]);
+}
+
+/**
+ * Builds the prompt for a security review of a project
+ * @param args - The prompt arguments
+ * @returns The prompt with the compliance report and HIGH+ dependency vulnerabilities
+ */
+export async function buildSecurityReviewPrompt({
+  projectKey,
+  reportType = ReportType.OWASP_TOP_10,
+}: SecurityReviewArgs): Promise<GetPromptResult> {
+  const report = parseHandlerResponse(
+    await handleDeepsourceComplianceReport({ projectKey, reportType })
+  );
+  const vulnerabilities = parseHandlerResponse(
+    await handleDeepsourceDependencyVulnerabilities({
+      projectKey,
+      minSeverity: 'HIGH',
+      sortByCvss: 'desc',
+    })
+  );
+
+  return userPrompt(`Security review of ${projectKey} using the ${reportType} report`, [
+    `Prepare a security review of project \`${projectKey}\` based on its ${reportType} compliance report and its HIGH and CRITICAL dependency vulnerabilities.`,
+    [
+      '1. Summarize the overall security posture and whether the report is passing.',
+      '2. For each report category with open issues, explain the risk and the code changes needed.',
+      '3. List the dependency upgrades to make first, prioritizing reachable vulnerabilities.',
+      '4. End with a short checklist the team can track until the next review.',
+    ].join('\n'),
+    formatContext(`${reportType} compliance report`, report),
+    formatContext('HIGH and CRITICAL dependency vulnerabilities', vulnerabilities),
+  ]);
+}
+
+/**
+ * Builds the prompt explaining why the quality gate failed on a run
+ * @param args - The prompt arguments
+ * @returns The prompt with the run and the project's metric thresholds
+ */
+export async function buildExplainQualityGateFailurePrompt({
+  projectKey,
+  runIdentifier,
+}: ExplainQualityGateFailureArgs): Promise<GetPromptResult> {
+  const run = parseHandlerResponse(await handleDeepsourceRun({ projectKey, runIdentifier }));
+  const metrics = parseHandlerResponse(await handleDeepsourceQualityMetrics({ projectKey }));
+
+  return userPrompt(`Quality gate failure on run ${runIdentifier} in ${projectKey}`, [
+    `Explain why the DeepSource quality gate failed on run \`${runIdentifier}\` of project \`${projectKey}\`.`,
+    [
+      '1. Identify the checks and metrics that failed, comparing each metric with its threshold.',
+      '2. Explain which introduced issues or metric changes caused each failure.',
+      '3. Suggest the smallest set of changes that would make the gate pass.',
+      '4. Point out thresholds that look misconfigured, if any.',
+    ].join('\n'),
+    formatContext('Analysis run', run),
+    formatContext('Quality metrics and thresholds', metrics),
+  ]);
+}
+
+/**
+ * Registers the DeepSource prompts with the MCP server
+ * @param server - The MCP server to register the prompts with
+ * @returns The names of the registered prompts
+ */
+export function registerDeepSourcePrompts(server: McpServer): string[] {
+  server.registerPrompt(
+    'triage-branch-issues',
+    {
+      title: 'Triage issues on a branch',
+      description: 'Triage the issues DeepSource found in the most recent analysis run on a branch',
+      argsSchema: {
+        projectKey: projectKeyArg,
+        branchName: completable(
+          z.string().describe('Branch to triage (e.g., main)'),
+          completeBranchName
+        ),
+      },
+    },
+    (args) => buildTriageBranchIssuesPrompt(args)
+  );
+
+  server.registerPrompt(
+    'security-review',
+    {
+      title: 'Prepare a security review',
+      description:
+        'Prepare a security review of a project from a compliance report and its HIGH+ dependency vulnerabilities',
+      argsSchema: {
+        projectKey: projectKeyArg,
+        reportType: securityReportTypeArg,
+      },
+    },
+    (args) => buildSecurityReviewPrompt(args)
+  );
+
+  server.registerPrompt(
+    'explain-quality-gate-failure',
+    {
+      title: 'Explain a quality gate failure',
+      description: 'Explain why the quality gate failed on an analysis run',
+      argsSchema: {
+        projectKey: projectKeyArg,
+        runIdentifier: z.string().describe('Run UID or commit OID of the failed run'),
+      },
+    },
+    (args) => buildExplainQualityGateFailurePrompt(args)
+  );
+
+  const names = ['triage-branch-issues', 'security-review', 'explain-quality-gate-failure'];
+  logger.info('Registered DeepSource prompts', { prompts: names });
+  return names;
+}
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Resource registration for the DeepSource MCP server
+ *
+ * This module exposes DeepSource projects, runs, issues, reports and settings as MCP
+ * resource templates so that clients can attach them as context. Each
+ * resource is backed by the handler of the corresponding tool.
+ *
+ * @packageDocumentation
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { UriTemplate, type Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import {
+  handleProjects,
+  handleDeepsourceQualityMetrics,
+  handleDeepsourceRun,
+  handleDeepsourceProjectIssues,
+  handleDeepsourceComplianceReport,
+  handleDeepsourceSettingsSnapshot,
+} from '../handlers/index.js';
+import { ApiResponse } from '../models/common.js';
+import { ReportType } from '../types/report-types.js';
+import { MetricShortcode } from '../types/metrics.js';
+import { MCPErrorFactory, validateNonEmptyString } from '../utils/error-handling/index.js';
+import { createLogger } from '../utils/logging/logger.js';
+import { parseHandlerResponse } from './tool-helpers.js';
+import { completersFor } from './argument-completion.js';
+
+const logger = createLogger('ResourceRegistration');
+
+/**
+ * MIME type of every DeepSource resource
+ */
+const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * Definition of a DeepSource resource template
+ */
+export interface ResourceDefinition {
+  /** Unique resource name */
+  name: string;
+  /** RFC 6570 URI template */
+  uriTemplate: string;
+  /** Human-readable title */
+  title: string;
+  /** Resource description */
+  description: string;
+  /** Lists the concrete resources matching the template, if enumerable */
+  list?: () => Promise<Resource[]>;
+  /** Reads a resource given the variables extracted from its URI */
+  read: (variables: Record<string, string>) => Promise<ApiResponse>;
+}
+
+/**
+ * Builds the URI of a project resource
+ * @param projectKey - The project key
+ * @returns The resource URI
+ */
+export function projectResourceUri(projectKey: string): string {
+  return `deepsource://projects/${encodeURIComponent(projectKey)}`;
+}
+
+/**
+ * Fetches the projects visible to the API key
+ * @returns The project keys and names
+ * @private
+ */
+async function fetchProjects(): Promise<Array<{ key: string; name: string }>> {
+  return parseHandlerResponse(await handleProjects()) as Array<{ key: string; name: string }>;
+}
+
+/**
+ * Reads the issues of a project, optionally limited to a path or to analyzers
+ * @param variables - The URI variables
+ * @returns The project issues response
+ * @private
+ */
+function readProjectIssues(variables: Record<string, string>): Promise<ApiResponse> {
+  return handleDeepsourceProjectIssues({
+    projectKey: validateNonEmptyString(variables.projectKey, 'projectKey'),
+    ...(variables.path && { path: variables.path }),
+    ...(variables.analyzerIn && { analyzerIn: variables.analyzerIn.split(',') }),
+  });
+}
+
+/**
+ * DeepSource resource templates
+ */
+export const RESOURCE_DEFINITIONS: ResourceDefinition[] = [
+  {
+    name: 'project',
+    uriTemplate: 'deepsource://projects/{projectKey}',
+    title: 'DeepSource project',
+    description: 'A DeepSource project with its current quality metrics',
+    list: async () => {
+      const projects = await fetchProjects();
+      return projects.map((project) => ({
+        uri: projectResourceUri(project.key),
+        name: project.name,
+        description: `DeepSource project ${project.key}`,
+        mimeType: RESOURCE_MIME_TYPE,
+      }));
+    },
+    read: async (variables) => {
+      const projectKey = validateNonEmptyString(variables.projectKey, 'projectKey');
+      const projects = await fetchProjects();
+      const project = projects.find((candidate) => candidate.key === projectKey);
+      if (!project) {
+        throw MCPErrorFactory.resourceNotFound('project', { projectKey });
+      }
+
+      const metrics = parseHandlerResponse(await handleDeepsourceQualityMetrics({ projectKey }));
+      return wrapJson({ ...project, qualityMetrics: metrics });
+    },
+  },
+  {
+    name: 'project-run',
+    uriTemplate: 'deepsource://projects/{projectKey}/runs/{runUid}',
+    title: 'DeepSource analysis run',
+    description: 'An analysis run of a DeepSource project, identified by its run UID',
+    read: (variables) =>
+      handleDeepsourceRun({
+        projectKey: validateNonEmptyString(variables.projectKey, 'projectKey'),
+        runIdentifier: validateNonEmptyString(variables.runUid, 'runUid'),
+      }),
+  },
+  {
+    name: 'project-issues',
+    uriTemplate: 'deepsource://projects/{projectKey}/issues',
+    title: 'DeepSource project issues',
+    description: 'Issues reported in a DeepSource project',
+    list: async () => {
+      const projects = await fetchProjects();
+      return projects.map((project) => ({
+        uri: `${projectResourceUri(project.key)}/issues`,
+        name: `${project.name} issues`,
+        description: `Issues reported in DeepSource project ${project.key}`,
+        mimeType: RESOURCE_MIME_TYPE,
+      }));
+    },
+    read: readProjectIssues,
+  },
+  {
+    // The SDK only matches {?path} when the query is present, hence a separate template
+    name: 'project-path-issues',
+    uriTemplate: 'deepsource://projects/{projectKey}/issues{?path}',
+    title: 'DeepSource issues in a path',
+    description: 'Issues reported in a file or directory of a DeepSource project',
+    read: readProjectIssues,
+  },
+  {
+    name: 'project-analyzer-issues',
+    uriTemplate: 'deepsource://projects/{projectKey}/issues{?analyzerIn}',
+    title: 'DeepSource issues of analyzers',
+    description:
+      'Issues reported by specific analyzers in a DeepSource project (comma-separated shortcodes)',
+    read: readProjectIssues,
+  },
+  {
+    name: 'project-metric',
+    uriTemplate: 'deepsource://projects/{projectKey}/metrics/{metricShortcode}',
+    title: 'DeepSource quality metric',
+    description: `A quality metric of a DeepSource project. Metric shortcodes: ${Object.values(MetricShortcode).join(', ')}`,
+    read: (variables) => {
+      const projectKey = validateNonEmptyString(variables.projectKey, 'projectKey');
+      const metricShortcode = validateNonEmptyString(variables.metricShortcode, 'metricShortcode');
+      if (!Object.values(MetricShortcode).includes(metricShortcode as MetricShortcode)) {
+        throw MCPErrorFactory.validation(`Unknown metric shortcode: ${metricShortcode}`, {
+          metricShortcode,
+          supportedMetricShortcodes: Object.values(MetricShortcode),
+        });
+      }
+      return handleDeepsourceQualityMetrics({
+        projectKey,
+        shortcodeIn: [metricShortcode as MetricShortcode],
+      });
+    },
+  },
+  {
+    name: 'project-report',
+    uriTemplate: 'deepsource://projects/{projectKey}/reports/{reportType}',
+    title: 'DeepSource report',
+    description: `A compliance or code health report of a DeepSource project. Report types: ${Object.values(ReportType).join(', ')}`,
+    read: async (variables) => {
+      const projectKey = validateNonEmptyString(variables.projectKey, 'projectKey');
+      const reportType = validateNonEmptyString(variables.reportType, 'reportType');
+      if (!Object.values(ReportType).includes(reportType as ReportType)) {
+        throw MCPErrorFactory.validation(`Unknown report type: ${reportType}`, {
+          reportType,
+          supportedReportTypes: Object.values(ReportType),
+        });
+      }
+      return handleDeepsourceComplianceReport({
+        projectKey,
+        reportType: reportType as ReportType,
+      });
+    },
+  },
+  {
+    name: 'project-settings',
+    uriTemplate: 'deepsource://projects/{projectKey}/settings',
+    title: 'DeepSource project settings',
+    description:
+      'A versioned snapshot of the settings of a DeepSource project, as captured by settings_snapshot',
+    read: (variables) =>
+      handleDeepsourceSettingsSnapshot({
+        projectKey: validateNonEmptyString(variables.projectKey, 'projectKey'),
+      }),
+  },
+];
+
+/**
+ * Wraps a payload in a handler-style response
+ * @param payload - The payload to serialize
+ * @returns The response
+ * @private
+ */
+function wrapJson(payload: unknown): ApiResponse {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(payload) }],
+  };
+}
+
+/**
+ * Decodes the variables extracted from a resource URI
+ * @param variables - The raw URI template variables
+ * @returns The decoded variables
+ * @private
+ */
+function decodeVariables(variables: Variables): Record<string, string> {
+  const decoded: Record<string, string> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    const raw = Array.isArray(value) ? value[0] : value;
+    if (raw !== undefined && raw !== '') {
+      decoded[name] = decodeURIComponent(raw);
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Reads a DeepSource resource
+ * @param definition - The resource template the URI matched
+ * @param uri - The requested URI
+ * @param variables - The variables extracted from the URI
+ * @returns The resource contents
+ */
+export async function readDeepSourceResource(
+  definition: ResourceDefinition,
+  uri: URL,
+  variables: Variables
+): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  const decoded = decodeVariables(variables);
+  logger.info(`Reading resource ${definition.name}`, { uri: uri.href, variables: decoded });
+
+  const response = await definition.read(decoded);
+  const payload = parseHandlerResponse(response);
+
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Registers the DeepSource resource templates with the MCP server
+ * @param server - The MCP server to register the resources with
+ * @returns The names of the registered resources
+ */
+export function registerDeepSourceResources(server: McpServer): string[] {
+  for (const definition of RESOURCE_DEFINITIONS) {
+    const list = definition.list;
+    const uriTemplate = new UriTemplate(definition.uriTemplate);
+    const template = new ResourceTemplate(uriTemplate, {
+      list: list ? async () => ({ resources: await list() }) : undefined,
+      complete: completersFor(uriTemplate.variableNames),
+    });
+
+    server.registerResource(
+      definition.name,
+      template,
+      {
+        title: definition.title,
+        description: definition.description,
+        mimeType: RESOURCE_MIME_TYPE,
+      },
+      (uri, variables) => readDeepSourceResource(definition, uri, variables)
+    );
+  }
+
+  const names = RESOURCE_DEFINITIONS.map((definition) => definition.name);
+  logger.info('Registered DeepSource resources', { resources: names });
+  return names;
+}
@@ -3,14 +3,40 @@
  * @packageDocumentation
  */
 
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { MetricShortcode, ReportType } from '../deepsource.js';
+import { MetricKey } from '../types/metrics.js';
+
+/**
+ * Annotations of tools that only read DeepSource data
+ */
+const readOnlyAnnotations = { readOnlyHint: true } satisfies ToolAnnotations;
+
+/**
+ * Annotations of tools that replace existing settings or state
+ */
+const overwritingAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+} satisfies ToolAnnotations;
+
+/**
+ * Annotations of tools that only add to the existing state
+ */
+const additiveAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+} satisfies ToolAnnotations;
 
 /**
  * Projects tool schemas
  */
 export const projectsToolSchema = {
   name: 'projects',
+  annotations: readOnlyAnnotations,
   description:
     'List all available DeepSource projects. Returns a list of project objects with "key" and "name" properties.',
   inputSchema: {},
@@ -29,6 +55,7 @@ export const projectsToolSchema = {
  */
 export const qualityMetricsToolSchema = {
   name: 'quality_metrics',
+  annotations: readOnlyAnnotations,
   description: 'Get quality metrics from a DeepSource project with optional filtering',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to fetch quality metrics for'),
@@ -76,6 +103,7 @@ export const qualityMetricsToolSchema = {
  */
 export const updateMetricThresholdToolSchema = {
   name: 'update_metric_threshold',
+  annotations: overwritingAnnotations,
   description: 'Update the threshold for a specific quality metric',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to identify the project'),
@@ -104,6 +132,7 @@ export const updateMetricThresholdToolSchema = {
  */
 export const updateMetricSettingToolSchema = {
   name: 'update_metric_setting',
+  annotations: overwritingAnnotations,
   description: 'Update the settings for a quality metric',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to identify the project'),
@@ -130,6 +159,7 @@ export const updateMetricSettingToolSchema = {
  */
 export const complianceReportToolSchema = {
   name: 'compliance_report',
+  annotations: readOnlyAnnotations,
   description: 'Get security compliance reports from a DeepSource project',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to identify the project'),
@@ -173,6 +203,7 @@ export const complianceReportToolSchema = {
  */
 export const projectIssuesToolSchema = {
   name: 'project_issues',
+  annotations: readOnlyAnnotations,
   description: 'Get issues from a DeepSource project with filtering capabilities',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to fetch issues for'),
@@ -240,6 +271,7 @@ export const projectIssuesToolSchema = {
  */
 export const runsToolSchema = {
   name: 'runs',
+  annotations: readOnlyAnnotations,
   description: 'List analysis runs for a DeepSource project with filtering',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to fetch runs for'),
@@ -317,6 +349,7 @@ export const runsToolSchema = {
  */
 export const runToolSchema = {
   name: 'run',
+  annotations: readOnlyAnnotations,
   description: 'Get a specific analysis run by its runUid or commitOid',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to identify the project'),
@@ -377,6 +410,7 @@ export const runToolSchema = {
  */
 export const recentRunIssuesToolSchema = {
   name: 'recent_run_issues',
+  annotations: readOnlyAnnotations,
   description: 'Get issues from the most recent analysis run on a specific branch',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to fetch issues for'),
@@ -461,11 +495,17 @@ export const recentRunIssuesToolSchema = {
   },
 };
 
+/**
+ * Vulnerability severity levels, ordered from least to most severe
+ */
+const vulnerabilitySeveritySchema = z.enum(['NONE', 'LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+
 /**
  * Dependency vulnerabilities tool schemas
  */
 export const dependencyVulnerabilitiesToolSchema = {
   name: 'dependency_vulnerabilities',
+  annotations: readOnlyAnnotations,
   description: 'Get dependency vulnerabilities from a DeepSource project',
   inputSchema: {
     projectKey: z.string().describe('DeepSource project key to fetch vulnerabilities for'),
@@ -487,6 +527,44 @@ export const dependencyVulnerabilitiesToolSchema = {
       .number()
       .optional()
       .describe('Maximum number of pages to fetch (enables automatic multi-page fetching)'),
+    reachabilityIn: z
+      .array(z.enum(['REACHABLE', 'UNREACHABLE', 'UNKNOWN']))
+      .optional()
+      .describe('Filter occurrences by reachability'),
+    fixabilityIn: z
+      .array(
+        z.enum([
+          'ERROR',
+          'UNFIXABLE',
+          'GENERATING_FIX',
+          'POSSIBLY_FIXABLE',
+          'MANUALLY_FIXABLE',
+          'AUTO_FIXABLE',
+        ])
+      )
+      .optional()
+      .describe('Filter occurrences by fixability'),
+    severityIn: z
+      .array(vulnerabilitySeveritySchema)
+      .optional()
+      .describe('Filter vulnerabilities by severity'),
+    ecosystemIn: z
+      .array(z.string())
+      .optional()
+      .describe('Filter by package ecosystem (e.g., NPM, PYPI, MAVEN)'),
+    minSeverity: vulnerabilitySeveritySchema
+      .optional()
+      .describe('Only return vulnerabilities at or above this severity (e.g., HIGH for HIGH+)'),
+    minCvssScore: z
+      .number()
+      .min(0)
+      .max(10)
+      .optional()
+      .describe('Only return vulnerabilities with a CVSS score at or above this value'),
+    sortByCvss: z
+      .enum(['asc', 'desc'])
+      .optional()
+      .describe('Sort vulnerabilities by CVSS score; unscored vulnerabilities go last'),
   },
   outputSchema: {
     vulnerabilities: z.array(
@@ -495,8 +573,13 @@ export const dependencyVulnerabilitiesToolSchema = {
         title: z.string(),
         severity: z.string(),
         cvssScore: z.number().nullable(),
+        reachability: z.string(),
+        fixability: z.string(),
+        ecosystem: z.string(),
         packageName: z.string(),
         packageVersion: z.string(),
+        manifestPath: z.string().nullable(),
+        lockfilePath: z.string().nullable(),
         fixedIn: z.string().nullable(),
         description: z.string(),
         identifiers: z.record(z.string(), z.array(z.string())),
@@ -516,6 +599,896 @@ export const dependencyVulnerabilitiesToolSchema = {
       endCursor: z.string().nullable(),
     }),
     totalCount: z.number(),
+    filters_applied: z.record(z.string(), z.unknown()).optional(),
+    scanned_count: z.number().optional(),
+  },
+};
+
+/**
+ * Dependency targets tool schemas
+ */
+export const dependencyTargetsToolSchema = {
+  name: 'dependency_targets',
+  annotations: readOnlyAnnotations,
+  description:
+    'List the dependency targets (manifests and lockfiles) DeepSource scans in a project, with their ecosystem, package manager and activation status',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to list dependency targets for'),
+    first: z.number().optional().describe('Number of items to retrieve (forward pagination)'),
+    after: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items after (forward pagination)'),
+    last: z.number().optional().describe('Number of items to retrieve (backward pagination)'),
+    before: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items before (backward pagination)'),
+    page_size: z
+      .number()
+      .optional()
+      .describe('Number of items per page (alias for first, for convenience)'),
+    max_pages: z
+      .number()
+      .optional()
+      .describe('Maximum number of pages to fetch (enables automatic multi-page fetching)'),
+  },
+  outputSchema: {
+    targets: z.array(
+      z.object({
+        id: z.string(),
+        ecosystem: z.string(),
+        packageManager: z.string(),
+        manifestPath: z.string().nullable(),
+        lockfilePath: z.string().nullable(),
+        isActivated: z.boolean(),
+      })
+    ),
+    pageInfo: z.object({
+      hasNextPage: z.boolean(),
+      hasPreviousPage: z.boolean(),
+      startCursor: z.string().nullable(),
+      endCursor: z.string().nullable(),
+    }),
+    pagination: z
+      .object({
+        has_more_pages: z.boolean(),
+        next_cursor: z.string().optional(),
+        previous_cursor: z.string().optional(),
+        total_count: z.number().optional(),
+        page_size: z.number(),
+        pages_fetched: z.number().optional(),
+        limit_reached: z.boolean().optional(),
+      })
+      .optional()
+      .describe('User-friendly pagination metadata'),
+    totalCount: z.number(),
+  },
+};
+
+/**
+ * Summary of the risk carried by a set of advisories
+ */
+const upgradeRiskSchema = z.object({
+  advisories: z.number(),
+  occurrences: z.number(),
+  highestSeverity: z.string().nullable(),
+  cvssTotal: z.number(),
+  bySeverity: z.record(z.string(), z.number()),
+});
+
+/**
+ * Vulnerability upgrade plan tool schemas
+ */
+export const vulnerabilityUpgradePlanToolSchema = {
+  name: 'vulnerability_upgrade_plan',
+  annotations: readOnlyAnnotations,
+  description:
+    'Build an ordered upgrade plan for vulnerable dependencies: groups vulnerabilities by package, computes the minimum version that resolves every known advisory, and flags packages with no fix',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to plan upgrades for'),
+    page_size: z
+      .number()
+      .optional()
+      .describe('Number of vulnerability occurrences fetched per page'),
+    max_pages: z
+      .number()
+      .optional()
+      .describe('Maximum number of pages to scan (all pages are scanned by default)'),
+  },
+  outputSchema: {
+    projectKey: z.string(),
+    summary: z.object({
+      occurrencesScanned: z.number(),
+      packagesAffected: z.number(),
+      upgrades: z.number(),
+      packagesWithoutFix: z.number(),
+      scanComplete: z.boolean(),
+    }),
+    upgrades: z.array(
+      z.object({
+        step: z.number(),
+        ecosystem: z.string(),
+        packageName: z.string(),
+        currentVersions: z.array(z.string()),
+        targetVersion: z.string(),
+        files: z.array(z.string()),
+        resolvesAdvisories: z.array(z.string()),
+        unresolvedAdvisories: z.array(z.string()),
+        riskRemoved: upgradeRiskSchema,
+      })
+    ),
+    packagesWithoutFix: z.array(
+      z.object({
+        ecosystem: z.string(),
+        packageName: z.string(),
+        currentVersions: z.array(z.string()),
+        files: z.array(z.string()),
+        advisories: z.array(z.string()),
+        risk: upgradeRiskSchema,
+        advice: z.string(),
+      })
+    ),
+  },
+};
+
+/**
+ * Metric history tool schemas
+ */
+export const metricHistoryToolSchema = {
+  name: 'metric_history',
+  annotations: readOnlyAnnotations,
+  description:
+    'Get the history of a quality metric with trend analysis, rate of change and the last threshold crossing',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to fetch metric history for'),
+    metricShortcode: z.nativeEnum(MetricShortcode).describe('Code for the metric (e.g., "LCV")'),
+    metricKey: z
+      .nativeEnum(MetricKey)
+      .describe('Context key for the metric (e.g., "AGGREGATE" or a language)'),
+    startDate: z
+      .string()
+      .optional()
+      .describe('Only include values recorded on or after this date (ISO 8601)'),
+    endDate: z
+      .string()
+      .optional()
+      .describe('Only include values recorded on or before this date (ISO 8601)'),
+    limit: z.number().optional().describe('Maximum number of historical values to fetch'),
+  },
+  outputSchema: {
+    metric: z.object({
+      shortcode: z.string(),
+      metricKey: z.string(),
+      name: z.string(),
+      unit: z.string(),
+      positiveDirection: z.string(),
+      threshold: z.number().nullable(),
+    }),
+    window: z.object({
+      startDate: z.string().nullable(),
+      endDate: z.string().nullable(),
+    }),
+    values: z.array(
+      z.object({
+        value: z.number(),
+        valueDisplay: z.string(),
+        threshold: z.number().nullable(),
+        thresholdStatus: z.string().nullable(),
+        commitOid: z.string(),
+        createdAt: z.string(),
+      })
+    ),
+    trend: z
+      .object({
+        direction: z.string(),
+        changePercentage: z.number(),
+        periodDays: z.number(),
+        isTrendingPositive: z.boolean(),
+        ratePerDay: z.number(),
+        firstValue: z.number(),
+        lastValue: z.number(),
+      })
+      .nullable(),
+    lastThresholdCrossing: z
+      .object({
+        crossedAt: z.string(),
+        commitOid: z.string(),
+        from: z.string(),
+        to: z.string(),
+        value: z.number(),
+        threshold: z.number(),
+      })
+      .nullable(),
+    summary: z.string(),
+  },
+};
+
+/**
+ * Analyzers tool schemas
+ */
+export const analyzersToolSchema = {
+  name: 'analyzers',
+  annotations: readOnlyAnnotations,
+  description:
+    'List the analyzers available on DeepSource with their version, type, description and number of issue types',
+  inputSchema: {
+    first: z.number().optional().describe('Number of items to retrieve (forward pagination)'),
+    after: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items after (forward pagination)'),
+    last: z.number().optional().describe('Number of items to retrieve (backward pagination)'),
+    before: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items before (backward pagination)'),
+    page_size: z
+      .number()
+      .optional()
+      .describe('Number of items per page (alias for first, for convenience)'),
+    max_pages: z
+      .number()
+      .optional()
+      .describe('Maximum number of pages to fetch (enables automatic multi-page fetching)'),
+  },
+  outputSchema: {
+    analyzers: z.array(
+      z.object({
+        name: z.string(),
+        shortcode: z.string(),
+        description: z.string(),
+        version: z.string().nullable(),
+        type: z.string().nullable(),
+        numIssues: z.number(),
+      })
+    ),
+    pageInfo: z.object({
+      hasNextPage: z.boolean(),
+      hasPreviousPage: z.boolean(),
+      startCursor: z.string().nullable(),
+      endCursor: z.string().nullable(),
+    }),
+    pagination: z
+      .object({
+        has_more_pages: z.boolean(),
+        next_cursor: z.string().optional(),
+        previous_cursor: z.string().optional(),
+        total_count: z.number().optional(),
+        page_size: z.number(),
+        pages_fetched: z.number().optional(),
+        limit_reached: z.boolean().optional(),
+      })
+      .optional()
+      .describe('User-friendly pagination metadata'),
+    totalCount: z.number(),
+  },
+};
+
+/**
+ * Analyzer issue catalog tool schemas
+ */
+export const analyzerToolSchema = {
+  name: 'analyzer',
+  annotations: readOnlyAnnotations,
+  description:
+    'Page through the issue catalog of a DeepSource analyzer, including category, severity and autofix availability',
+  inputSchema: {
+    shortcode: z.string().describe('Shortcode of the analyzer (e.g., "python", "javascript")'),
+    first: z.number().optional().describe('Number of items to retrieve (forward pagination)'),
+    after: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items after (forward pagination)'),
+    last: z.number().optional().describe('Number of items to retrieve (backward pagination)'),
+    before: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items before (backward pagination)'),
+    page_size: z
+      .number()
+      .optional()
+      .describe('Number of items per page (alias for first, for convenience)'),
+    max_pages: z
+      .number()
+      .optional()
+      .describe('Maximum number of pages to fetch (enables automatic multi-page fetching)'),
+  },
+  outputSchema: {
+    analyzer: z.object({
+      name: z.string(),
+      shortcode: z.string(),
+      description: z.string(),
+      version: z.string().nullable(),
+      type: z.string().nullable(),
+      numIssues: z.number(),
+    }),
+    issues: z.array(
+      z.object({
+        shortcode: z.string(),
+        title: z.string(),
+        category: z.string(),
+        severity: z.string(),
+        autofixAvailable: z.boolean(),
+      })
+    ),
+    pageInfo: z.object({
+      hasNextPage: z.boolean(),
+      hasPreviousPage: z.boolean(),
+      startCursor: z.string().nullable(),
+      endCursor: z.string().nullable(),
+    }),
+    pagination: z
+      .object({
+        has_more_pages: z.boolean(),
+        next_cursor: z.string().optional(),
+        previous_cursor: z.string().optional(),
+        total_count: z.number().optional(),
+        page_size: z.number(),
+        pages_fetched: z.number().optional(),
+        limit_reached: z.boolean().optional(),
+      })
+      .optional()
+      .describe('User-friendly pagination metadata'),
+    totalCount: z.number(),
+  },
+};
+
+/**
+ * Explain issue tool schemas
+ */
+export const explainIssueToolSchema = {
+  name: 'explain_issue',
+  annotations: readOnlyAnnotations,
+  description:
+    'Explain an issue type by its shortcode. Returns the full markdown description with rationale and examples, and whether Autofix is available',
+  inputSchema: {
+    analyzerShortcode: z
+      .string()
+      .describe('Shortcode of the analyzer that reports the issue (e.g., "javascript")'),
+    issueShortcode: z.string().describe('Shortcode of the issue (e.g., "JS-0125")'),
+  },
+  outputSchema: {
+    shortcode: z.string(),
+    title: z.string(),
+    category: z.string(),
+    severity: z.string(),
+    tags: z.array(z.string()),
+    analyzer: z.object({
+      name: z.string(),
+      shortcode: z.string(),
+    }),
+    shortDescription: z.string(),
+    description: z.string(),
+    isRecommended: z.boolean(),
+    autofixAvailable: z.boolean(),
+    autofixAiAvailable: z.boolean(),
+    fix_guidance: z.string(),
+  },
+};
+
+/**
+ * Ignore rules tool schemas
+ */
+export const ignoreRulesToolSchema = {
+  name: 'ignore_rules',
+  annotations: readOnlyAnnotations,
+  description:
+    'List the ignore rules that silence issues in a DeepSource project, optionally filtered by rule type',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to fetch ignore rules for'),
+    type: z
+      .enum(['FOREVER', 'PATTERN', 'TEST_PATTERN'])
+      .optional()
+      .describe(
+        'Only return rules of this type. Each fetched page is filtered, so a page can be empty while hasNextPage is true'
+      ),
+    first: z.number().optional().describe('Number of items to retrieve (forward pagination)'),
+    after: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items after (forward pagination)'),
+    last: z.number().optional().describe('Number of items to retrieve (backward pagination)'),
+    before: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items before (backward pagination)'),
+    page_size: z
+      .number()
+      .optional()
+      .describe('Number of items per page (alias for first, for convenience)'),
+    max_pages: z
+      .number()
+      .optional()
+      .describe('Maximum number of pages to fetch (enables automatic multi-page fetching)'),
+  },
+  outputSchema: {
+    ignoreRules: z.array(
+      z.object({
+        id: z.string(),
+        level: z.string(),
+        type: z.string(),
+        filePath: z.string().nullable(),
+        globPattern: z.string().nullable(),
+        issue: z
+          .object({
+            shortcode: z.string(),
+            title: z.string(),
+          })
+          .nullable(),
+      })
+    ),
+    pageInfo: z.object({
+      hasNextPage: z.boolean(),
+      hasPreviousPage: z.boolean(),
+      startCursor: z.string().nullable(),
+      endCursor: z.string().nullable(),
+    }),
+    pagination: z
+      .object({
+        has_more_pages: z.boolean(),
+        next_cursor: z.string().optional(),
+        previous_cursor: z.string().optional(),
+        total_count: z.number().optional(),
+        page_size: z.number(),
+        pages_fetched: z.number().optional(),
+        limit_reached: z.boolean().optional(),
+      })
+      .optional()
+      .describe('User-friendly pagination metadata'),
+    totalCount: z.number().describe('Number of rules in the repository, ignoring the type filter'),
+  },
+};
+
+/**
+ * Quality gate tool schemas
+ */
+const issueCategorySchema = z.enum([
+  'ANTI_PATTERN',
+  'BUG_RISK',
+  'PERFORMANCE',
+  'SECURITY',
+  'COVERAGE',
+  'TYPECHECK',
+  'SECRETS',
+  'STYLE',
+  'DOCUMENTATION',
+]);
+
+const issuePrioritySchema = z.enum(['HIGH', 'MEDIUM', 'LOW']);
+
+export const qualityGatesToolSchema = {
+  name: 'quality_gates',
+  annotations: readOnlyAnnotations,
+  description:
+    'Get the quality gates of a DeepSource project: whether each issue category and priority is reported and can fail checks',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to fetch quality gates for'),
+  },
+  outputSchema: {
+    projectKey: z.string(),
+    repositoryId: z.string(),
+    categories: z.array(
+      z.object({
+        category: z.string(),
+        isReported: z.boolean(),
+        canFailCheck: z.boolean(),
+      })
+    ),
+    priorities: z.array(
+      z.object({
+        priority: z.string(),
+        isReported: z.boolean(),
+        canFailCheck: z.boolean(),
+      })
+    ),
+    failing_on: z.object({
+      categories: z.array(z.string()),
+      priorities: z.array(z.string()),
+    }),
+  },
+};
+
+export const updateIssueCategorySettingToolSchema = {
+  name: 'update_issue_category_setting',
+  annotations: overwritingAnnotations,
+  description: 'Update whether an issue category is reported and can fail checks',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to identify the project'),
+    repositoryId: z.string().describe('Repository GraphQL ID'),
+    category: issueCategorySchema.describe('Issue category to update (e.g., "SECURITY")'),
+    isReported: z.boolean().describe('Whether issues in this category should be reported'),
+    canFailCheck: z
+      .boolean()
+      .describe('Whether issues in this category should be able to fail a check'),
+  },
+  outputSchema: {
+    ok: z.boolean(),
+    projectKey: z.string(),
+    category: z.string(),
+    settings: z.object({
+      isReported: z.boolean(),
+      canFailCheck: z.boolean(),
+    }),
+    message: z.string(),
+    next_steps: z.array(z.string()),
+  },
+};
+
+export const updateIssuePrioritySettingToolSchema = {
+  name: 'update_issue_priority_setting',
+  annotations: overwritingAnnotations,
+  description: 'Update whether an issue priority is reported and can fail checks',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key to identify the project'),
+    repositoryId: z.string().describe('Repository GraphQL ID'),
+    priority: issuePrioritySchema.describe('Issue priority to update (e.g., "HIGH")'),
+    isReported: z.boolean().describe('Whether issues with this priority should be reported'),
+    canFailCheck: z
+      .boolean()
+      .describe('Whether issues with this priority should be able to fail a check'),
+  },
+  outputSchema: {
+    ok: z.boolean(),
+    projectKey: z.string(),
+    priority: z.string(),
+    settings: z.object({
+      isReported: z.boolean(),
+      canFailCheck: z.boolean(),
+    }),
+    message: z.string(),
+    next_steps: z.array(z.string()),
+  },
+};
+
+/**
+ * Team suppression tool schemas
+ */
+const vcsProviderSchema = z
+  .enum(['GITHUB', 'GITLAB', 'BITBUCKET', 'GITHUB_ENTERPRISE', 'GSR', 'ADS'])
+  .describe('VCS provider of the team');
+
+const teamIssueSuppressionInputSchema = {
+  login: z.string().describe('Login of the team on the VCS provider'),
+  vcsProvider: vcsProviderSchema,
+  analyzerShortcode: z.string().describe('Shortcode of the analyzer that reports the issue'),
+  issueShortcode: z.string().describe('Shortcode of the issue (e.g., "PYL-W0611")'),
+  reason: z
+    .string()
+    .describe(
+      'Why the suppression is being changed. DeepSource does not store it; it is written to the server log and returned in the response'
+    ),
+  confirm: z
+    .boolean()
+    .describe('Must be true to confirm the change, which affects every repository of the team'),
+};
+
+const teamIssueSuppressionOutputSchema = {
+  ok: z.boolean(),
+  team: z.object({
+    login: z.string(),
+    vcsProvider: z.string(),
+  }),
+  analyzerShortcode: z.string(),
+  issueShortcode: z.string(),
+  reason: z.string(),
+  message: z.string(),
+  next_steps: z.array(z.string()),
+};
+
+export const teamSuppressedIssuesToolSchema = {
+  name: 'team_suppressed_issues',
+  annotations: readOnlyAnnotations,
+  description: 'List the issues suppressed across every repository of a DeepSource team',
+  inputSchema: {
+    login: z.string().describe('Login of the team on the VCS provider'),
+    vcsProvider: vcsProviderSchema,
+    first: z.number().optional().describe('Number of items to retrieve (forward pagination)'),
+    after: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items after (forward pagination)'),
+    last: z.number().optional().describe('Number of items to retrieve (backward pagination)'),
+    before: z
+      .string()
+      .optional()
+      .describe('Cursor to start retrieving items before (backward pagination)'),
+    page_size: z
+      .number()
+      .optional()
+      .describe('Number of items per page (alias for first, for convenience)'),
+    max_pages: z
+      .number()
+      .optional()
+      .describe('Maximum number of pages to fetch (enables automatic multi-page fetching)'),
+  },
+  outputSchema: {
+    team: z.object({
+      login: z.string(),
+      vcsProvider: z.string(),
+    }),
+    suppressedIssues: z.array(
+      z.object({
+        id: z.string(),
+        issue: z.object({
+          shortcode: z.string(),
+          title: z.string(),
+          analyzerShortcode: z.string().nullable(),
+        }),
+        suppressedAt: z.string().nullable(),
+        suppressedBy: z.string().nullable(),
+      })
+    ),
+    pageInfo: z.object({
+      hasNextPage: z.boolean(),
+      hasPreviousPage: z.boolean(),
+      startCursor: z.string().nullable(),
+      endCursor: z.string().nullable(),
+    }),
+    pagination: z
+      .object({
+        has_more_pages: z.boolean(),
+        next_cursor: z.string().optional(),
+        previous_cursor: z.string().optional(),
+        total_count: z.number().optional(),
+        page_size: z.number(),
+        pages_fetched: z.number().optional(),
+        limit_reached: z.boolean().optional(),
+      })
+      .optional()
+      .describe('User-friendly pagination metadata'),
+    totalCount: z.number(),
+  },
+};
+
+export const suppressIssueForTeamToolSchema = {
+  name: 'suppress_issue_for_team',
+  annotations: additiveAnnotations,
+  description:
+    'Suppress an issue in every repository of a DeepSource team. Requires confirm: true and a reason, which is kept in the server log only',
+  inputSchema: teamIssueSuppressionInputSchema,
+  outputSchema: teamIssueSuppressionOutputSchema,
+};
+
+export const unsuppressIssueForTeamToolSchema = {
+  name: 'unsuppress_issue_for_team',
+  annotations: overwritingAnnotations,
+  description:
+    'Lift a team-wide suppression so an issue is reported again in every repository. Requires confirm: true and a reason, which is kept in the server log only',
+  inputSchema: teamIssueSuppressionInputSchema,
+  outputSchema: teamIssueSuppressionOutputSchema,
+};
+
+/**
+ * Repository lifecycle tool schemas
+ */
+const repositoryLifecycleOutputSchema = {
+  ok: z.boolean(),
+  projectKey: z.string(),
+  repository: z.object({
+    login: z.string(),
+    provider: z.string(),
+    url: z.string(),
+    defaultBranch: z.string().nullable(),
+  }),
+  status: z.string(),
+  isActivated: z.boolean(),
+  changed: z.boolean(),
+  reanalysis: z.object({
+    triggered: z.boolean(),
+    branch: z.string().nullable(),
+  }),
+  message: z.string(),
+  next_steps: z.array(z.string()),
+};
+
+export const activateRepositoryToolSchema = {
+  name: 'activate_repository',
+  annotations: additiveAnnotations,
+  description:
+    'Activate a repository on DeepSource so that it is analyzed. Activation queues an analysis of the default branch',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key identifying the repository'),
+  },
+  outputSchema: repositoryLifecycleOutputSchema,
+};
+
+export const deactivateRepositoryToolSchema = {
+  name: 'deactivate_repository',
+  annotations: overwritingAnnotations,
+  description: 'Deactivate a repository on DeepSource so that new commits are no longer analyzed',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key identifying the repository'),
+  },
+  outputSchema: repositoryLifecycleOutputSchema,
+};
+
+export const updateDefaultBranchToolSchema = {
+  name: 'update_default_branch',
+  annotations: overwritingAnnotations,
+  description:
+    'Change the branch DeepSource analyzes by default for a repository. When the repository is activated, the change queues an analysis of the new branch',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key identifying the repository'),
+    defaultBranch: z.string().describe('Name of the branch DeepSource should analyze by default'),
+  },
+  outputSchema: repositoryLifecycleOutputSchema,
+};
+
+/**
+ * Quality policy tool schemas
+ */
+const qualityPolicyInputSchema = {
+  policy: z
+    .string()
+    .optional()
+    .describe(
+      'Quality policy as JSON: { "policies": [{ "projects", "metrics", "issueCategories" }] }'
+    ),
+  policyFile: z
+    .string()
+    .optional()
+    .describe('Path of a JSON policy file inside the working directory of the server'),
+};
+
+const policySummarySchema = z.object({
+  create: z.number(),
+  update: z.number(),
+  delete: z.number(),
+  noop: z.number(),
+});
+
+export const policyPlanToolSchema = {
+  name: 'policy_plan',
+  annotations: readOnlyAnnotations,
+  description:
+    'Compare a quality policy with the live metric settings, thresholds and issue category gates of the projects it matches, and list what applying it would create, update or leave unchanged',
+  inputSchema: qualityPolicyInputSchema,
+  outputSchema: {
+    projects: z.array(z.object({ projectKey: z.string(), project: z.string() })),
+    changes: z.array(
+      z.object({
+        action: z.enum(['create', 'update', 'delete', 'no-op']),
+        projectKey: z.string(),
+        project: z.string(),
+        resource: z.enum(['metric_setting', 'metric_threshold', 'issue_category']),
+        address: z.string(),
+        current: z.unknown(),
+        desired: z.unknown(),
+      })
+    ),
+    summary: policySummarySchema,
+    errors: z.array(z.string()),
+    warnings: z.array(z.string()),
+    planText: z.string(),
+    next_steps: z.array(z.string()),
+  },
+};
+
+export const policyApplyToolSchema = {
+  name: 'policy_apply',
+  annotations: overwritingAnnotations,
+  description:
+    'Apply a quality policy to the projects it matches, changing only the settings that differ from the policy',
+  inputSchema: qualityPolicyInputSchema,
+  outputSchema: {
+    ok: z.boolean(),
+    summary: policySummarySchema,
+    applied: z.number(),
+    failed: z.number(),
+    results: z.array(
+      z.object({
+        projectKey: z.string(),
+        address: z.string(),
+        action: z.enum(['create', 'update', 'delete', 'no-op']),
+        ok: z.boolean(),
+        error: z.string().optional(),
+      })
+    ),
+    planText: z.string(),
+    message: z.string(),
+    next_steps: z.array(z.string()),
+  },
+};
+
+/**
+ * Settings snapshot tool schemas
+ */
+const issueGateOutputShape = {
+  isReported: z.boolean(),
+  canFailCheck: z.boolean(),
+};
+
+export const settingsSnapshotToolSchema = {
+  name: 'settings_snapshot',
+  annotations: readOnlyAnnotations,
+  description:
+    'Capture the complete configuration of a project as a versioned JSON document: metric settings and thresholds, issue category and priority gates, ignore rules, enabled analyzers, analysis configuration and default branch',
+  inputSchema: {
+    projectKey: z.string().describe('DeepSource project key identifying the repository'),
+  },
+  outputSchema: {
+    snapshot: z.object({
+      schemaVersion: z.number(),
+      capturedAt: z.string(),
+      project: z.object({
+        key: z.string(),
+        name: z.string(),
+        login: z.string(),
+        provider: z.string(),
+      }),
+      defaultBranch: z.string().nullable(),
+      metrics: z.array(
+        z.object({
+          shortcode: z.string(),
+          metricKey: z.string(),
+          positiveDirection: z.string(),
+          isReported: z.boolean(),
+          isThresholdEnforced: z.boolean(),
+          threshold: z.number().nullable(),
+        })
+      ),
+      issueCategories: z.array(z.object({ category: z.string(), ...issueGateOutputShape })),
+      issuePriorities: z.array(z.object({ priority: z.string(), ...issueGateOutputShape })),
+      ignoreRules: z.array(
+        z.object({
+          type: z.string(),
+          level: z.string(),
+          issue: z.string().nullable(),
+          filePath: z.string().nullable(),
+          globPattern: z.string().nullable(),
+        })
+      ),
+      analyzers: z.array(z.object({ shortcode: z.string(), name: z.string() })),
+      configJson: z.unknown(),
+    }),
+    warnings: z.array(z.string()),
+    next_steps: z.array(z.string()),
+  },
+};
+
+export const settingsDiffToolSchema = {
+  name: 'settings_diff',
+  annotations: readOnlyAnnotations,
+  description:
+    'Compare two settings snapshots, or a snapshot with the live settings of its project, and flag the settings that loosen the checks',
+  inputSchema: {
+    before: z.string().optional().describe('The earlier snapshot as JSON'),
+    beforeFile: z
+      .string()
+      .optional()
+      .describe('Path of the earlier snapshot inside the working directory of the server'),
+    after: z
+      .string()
+      .optional()
+      .describe(
+        'The later snapshot as JSON. The live settings are used when no later snapshot is given'
+      ),
+    afterFile: z
+      .string()
+      .optional()
+      .describe('Path of the later snapshot inside the working directory of the server'),
+  },
+  outputSchema: {
+    before: z.object({ projectKey: z.string(), capturedAt: z.string() }),
+    after: z.object({ projectKey: z.string(), capturedAt: z.string(), live: z.boolean() }),
+    summary: z.object({
+      changes: z.number(),
+      loosened: z.number(),
+      tightened: z.number(),
+    }),
+    drift: z.array(
+      z.object({
+        path: z.string(),
+        change: z.enum(['added', 'removed', 'changed']),
+        before: z.unknown(),
+        after: z.unknown(),
+        direction: z.enum(['loosened', 'tightened', 'changed']),
+      })
+    ),
+    warnings: z.array(z.string()),
+    message: z.string(),
+    next_steps: z.array(z.string()),
   },
 };
 
@@ -533,4 +1506,24 @@ export const toolSchemas = [
   runToolSchema,
   recentRunIssuesToolSchema,
   dependencyVulnerabilitiesToolSchema,
+  metricHistoryToolSchema,
+  analyzersToolSchema,
+  analyzerToolSchema,
+  explainIssueToolSchema,
+  ignoreRulesToolSchema,
+  qualityGatesToolSchema,
+  updateIssueCategorySettingToolSchema,
+  updateIssuePrioritySettingToolSchema,
+  teamSuppressedIssuesToolSchema,
+  suppressIssueForTeamToolSchema,
+  unsuppressIssueForTeamToolSchema,
+  activateRepositoryToolSchema,
+  deactivateRepositoryToolSchema,
+  updateDefaultBranchToolSchema,
+  dependencyTargetsToolSchema,
+  vulnerabilityUpgradePlanToolSchema,
+  policyPlanToolSchema,
+  policyApplyToolSchema,
+  settingsSnapshotToolSchema,
+  settingsDiffToolSchema,
 ];
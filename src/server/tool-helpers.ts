@@ -4,6 +4,8 @@
  * @packageDocumentation
  */
 
+import { ApiResponse } from '../models/common.js';
+import { MCPError } from '../utils/error-handling/index.js';
 import { createLogger } from '../utils/logging/logger.js';
 
 const logger = createLogger('DeepSourceMCP:ToolHelpers');
@@ -76,3 +78,27 @@ export function logAndFormatError(error: unknown, toolName: string): string {
   logger.info(`Returning error response to MCP client for ${toolName}`, { errorMessage });
   return errorMessage;
 }
+
+/**
+ * Parses the JSON payload of a successful handler response, or throws the
+ * MCP error it describes so that the client receives a JSON-RPC error
+ * @param response - The handler response
+ * @returns The parsed payload
+ */
+export function parseHandlerResponse(response: ApiResponse): unknown {
+  const text = response.content[0]?.text ?? '';
+  const payload = text ? JSON.parse(text) : null;
+
+  if (response.isError) {
+    const error = (payload ?? {}) as Record<string, unknown>;
+    throw new MCPError({
+      code: (error.code as string | number | undefined) ?? 'SERVER_ERROR',
+      category: (error.category as string | undefined) ?? 'server_error',
+      message: (error.error as string | undefined) ?? 'The DeepSource request failed',
+      ...(error.details !== undefined && { details: error.details as Record<string, unknown> }),
+      retryable: error.retryable === true,
+    });
+  }
+
+  return payload;
+}
@@ -21,18 +21,82 @@ import {
   handleDeepsourceRun,
   handleDeepsourceRecentRunIssues,
   handleDeepsourceDependencyVulnerabilities,
+  handleDeepsourceMetricHistory,
+  handleDeepsourceAnalyzers,
+  handleDeepsourceAnalyzer,
+  handleDeepsourceExplainIssue,
+  handleDeepsourceIgnoreRules,
+  handleDeepsourceQualityGates,
+  handleDeepsourceUpdateIssueCategorySetting,
+  handleDeepsourceUpdateIssuePrioritySetting,
+  handleDeepsourceTeamSuppressedIssues,
+  handleDeepsourceSuppressIssueForTeam,
+  handleDeepsourceUnsuppressIssueForTeam,
+  handleDeepsourceActivateRepository,
+  handleDeepsourceDeactivateRepository,
+  handleDeepsourceUpdateDefaultBranch,
+  handleDeepsourceDependencyTargets,
+  handleDeepsourceVulnerabilityUpgradePlan,
+  handleDeepsourcePolicyPlan,
+  handleDeepsourcePolicyApply,
+  handleDeepsourceSettingsSnapshot,
+  handleDeepsourceSettingsDiff,
 } from '../handlers/index.js';
 import { DeepsourceRunParams } from '../handlers/run.js';
 import { DeepsourceRecentRunIssuesParams } from '../handlers/recent-run-issues.js';
 import { DeepsourceDependencyVulnerabilitiesParams } from '../handlers/dependency-vulnerabilities.js';
+import { DeepsourceDependencyTargetsParams } from '../handlers/dependency-targets.js';
+import { DeepsourceVulnerabilityUpgradePlanParams } from '../handlers/vulnerability-upgrade-plan.js';
+import { DeepsourceQualityPolicyParams } from '../handlers/quality-policy.js';
+import { DeepsourceSettingsDiffParams } from '../handlers/settings-snapshot.js';
+import { DeepsourceMetricHistoryParams } from '../handlers/metric-history.js';
+import { DeepsourceAnalyzersParams, DeepsourceAnalyzerParams } from '../handlers/analyzers.js';
+import { DeepsourceIgnoreRulesParams } from '../handlers/ignore-rules.js';
+import { IgnoreRuleType } from '../models/ignore-rules.js';
+import { IssueCategory, IssuePriority } from '../models/quality-gates.js';
+import {
+  DeepsourceTeamSuppressedIssuesParams,
+  DeepsourceTeamIssueSuppressionParams,
+} from '../handlers/team-suppressions.js';
 import { MetricKey } from '../types/metrics.js';
 import { AnalyzerShortcode } from '../types/branded.js';
 import { MetricShortcode } from '../models/metrics.js';
 import { ReportType } from '../types/report-types.js';
 import { createLogger } from '../utils/logging/logger.js';
+import { MUTATION_PREVIEWS } from './mutation-previews.js';
 
 const logger = createLogger('ToolRegistration');
 
+/**
+ * Maps raw tool arguments to team issue suppression parameters
+ */
+function toTeamIssueSuppressionParams(params: unknown): DeepsourceTeamIssueSuppressionParams {
+  const typedParams = params as Record<string, unknown>;
+  return {
+    login: typedParams.login as string,
+    vcsProvider: typedParams.vcsProvider as string,
+    analyzerShortcode: typedParams.analyzerShortcode as string,
+    issueShortcode: typedParams.issueShortcode as string,
+    reason: typedParams.reason as string,
+    confirm: typedParams.confirm === true,
+  };
+}
+
+/**
+ * Maps raw tool arguments to quality policy parameters
+ */
+function toQualityPolicyParams(params: unknown): DeepsourceQualityPolicyParams {
+  const typedParams = params as Record<string, unknown>;
+  const policyParams: DeepsourceQualityPolicyParams = {};
+  if (typeof typedParams.policy === 'string') {
+    policyParams.policy = typedParams.policy;
+  }
+  if (typeof typedParams.policyFile === 'string') {
+    policyParams.policyFile = typedParams.policyFile;
+  }
+  return policyParams;
+}
+
 /**
  * Handler mapping for tool schemas
  */
@@ -227,9 +291,292 @@ const TOOL_HANDLERS: Record<string, (params: unknown) => Promise<unknown>> = {
     if (typeof typedParams.before === 'string') {
       vulnParams.before = typedParams.before;
     }
+    if (typeof typedParams.page_size === 'number') {
+      vulnParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      vulnParams.max_pages = typedParams.max_pages;
+    }
+    if (Array.isArray(typedParams.reachabilityIn)) {
+      vulnParams.reachabilityIn = typedParams.reachabilityIn as NonNullable<
+        DeepsourceDependencyVulnerabilitiesParams['reachabilityIn']
+      >;
+    }
+    if (Array.isArray(typedParams.fixabilityIn)) {
+      vulnParams.fixabilityIn = typedParams.fixabilityIn as NonNullable<
+        DeepsourceDependencyVulnerabilitiesParams['fixabilityIn']
+      >;
+    }
+    if (Array.isArray(typedParams.severityIn)) {
+      vulnParams.severityIn = typedParams.severityIn as NonNullable<
+        DeepsourceDependencyVulnerabilitiesParams['severityIn']
+      >;
+    }
+    if (Array.isArray(typedParams.ecosystemIn)) {
+      vulnParams.ecosystemIn = typedParams.ecosystemIn as string[];
+    }
+    if (typeof typedParams.minSeverity === 'string') {
+      vulnParams.minSeverity = typedParams.minSeverity as NonNullable<
+        DeepsourceDependencyVulnerabilitiesParams['minSeverity']
+      >;
+    }
+    if (typeof typedParams.minCvssScore === 'number') {
+      vulnParams.minCvssScore = typedParams.minCvssScore;
+    }
+    if (typedParams.sortByCvss === 'asc' || typedParams.sortByCvss === 'desc') {
+      vulnParams.sortByCvss = typedParams.sortByCvss;
+    }
 
     return handleDeepsourceDependencyVulnerabilities(vulnParams);
   },
+  dependency_targets: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const targetsParams: DeepsourceDependencyTargetsParams = {
+      projectKey: typedParams.projectKey as string,
+    };
+
+    if (typeof typedParams.first === 'number') {
+      targetsParams.first = typedParams.first;
+    }
+    if (typeof typedParams.last === 'number') {
+      targetsParams.last = typedParams.last;
+    }
+    if (typeof typedParams.after === 'string') {
+      targetsParams.after = typedParams.after;
+    }
+    if (typeof typedParams.before === 'string') {
+      targetsParams.before = typedParams.before;
+    }
+    if (typeof typedParams.page_size === 'number') {
+      targetsParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      targetsParams.max_pages = typedParams.max_pages;
+    }
+
+    return handleDeepsourceDependencyTargets(targetsParams);
+  },
+  vulnerability_upgrade_plan: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const planParams: DeepsourceVulnerabilityUpgradePlanParams = {
+      projectKey: typedParams.projectKey as string,
+    };
+
+    if (typeof typedParams.page_size === 'number') {
+      planParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      planParams.max_pages = typedParams.max_pages;
+    }
+
+    return handleDeepsourceVulnerabilityUpgradePlan(planParams);
+  },
+  metric_history: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const historyParams: DeepsourceMetricHistoryParams = {
+      projectKey: typedParams.projectKey as string,
+      metricShortcode: typedParams.metricShortcode as MetricShortcode,
+      metricKey: typedParams.metricKey as MetricKey,
+    };
+
+    if (typeof typedParams.startDate === 'string') {
+      historyParams.startDate = typedParams.startDate;
+    }
+    if (typeof typedParams.endDate === 'string') {
+      historyParams.endDate = typedParams.endDate;
+    }
+    if (typeof typedParams.limit === 'number') {
+      historyParams.limit = typedParams.limit;
+    }
+
+    return handleDeepsourceMetricHistory(historyParams);
+  },
+  analyzers: async (params: unknown) => {
+    const typedParams = (params ?? {}) as Record<string, unknown>;
+    const analyzersParams: DeepsourceAnalyzersParams = {};
+
+    if (typeof typedParams.first === 'number') {
+      analyzersParams.first = typedParams.first;
+    }
+    if (typeof typedParams.last === 'number') {
+      analyzersParams.last = typedParams.last;
+    }
+    if (typeof typedParams.after === 'string') {
+      analyzersParams.after = typedParams.after;
+    }
+    if (typeof typedParams.before === 'string') {
+      analyzersParams.before = typedParams.before;
+    }
+    if (typeof typedParams.page_size === 'number') {
+      analyzersParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      analyzersParams.max_pages = typedParams.max_pages;
+    }
+
+    return handleDeepsourceAnalyzers(analyzersParams);
+  },
+  analyzer: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const analyzerParams: DeepsourceAnalyzerParams = {
+      shortcode: typedParams.shortcode as string,
+    };
+
+    if (typeof typedParams.first === 'number') {
+      analyzerParams.first = typedParams.first;
+    }
+    if (typeof typedParams.last === 'number') {
+      analyzerParams.last = typedParams.last;
+    }
+    if (typeof typedParams.after === 'string') {
+      analyzerParams.after = typedParams.after;
+    }
+    if (typeof typedParams.before === 'string') {
+      analyzerParams.before = typedParams.before;
+    }
+    if (typeof typedParams.page_size === 'number') {
+      analyzerParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      analyzerParams.max_pages = typedParams.max_pages;
+    }
+
+    return handleDeepsourceAnalyzer(analyzerParams);
+  },
+  explain_issue: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceExplainIssue({
+      analyzerShortcode: typedParams.analyzerShortcode as string,
+      issueShortcode: typedParams.issueShortcode as string,
+    });
+  },
+  ignore_rules: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const ignoreRulesParams: DeepsourceIgnoreRulesParams = {
+      projectKey: typedParams.projectKey as string,
+    };
+
+    if (typeof typedParams.type === 'string') {
+      ignoreRulesParams.type = typedParams.type as IgnoreRuleType;
+    }
+    if (typeof typedParams.first === 'number') {
+      ignoreRulesParams.first = typedParams.first;
+    }
+    if (typeof typedParams.last === 'number') {
+      ignoreRulesParams.last = typedParams.last;
+    }
+    if (typeof typedParams.after === 'string') {
+      ignoreRulesParams.after = typedParams.after;
+    }
+    if (typeof typedParams.before === 'string') {
+      ignoreRulesParams.before = typedParams.before;
+    }
+    if (typeof typedParams.page_size === 'number') {
+      ignoreRulesParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      ignoreRulesParams.max_pages = typedParams.max_pages;
+    }
+
+    return handleDeepsourceIgnoreRules(ignoreRulesParams);
+  },
+  quality_gates: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceQualityGates({
+      projectKey: typedParams.projectKey as string,
+    });
+  },
+  update_issue_category_setting: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceUpdateIssueCategorySetting({
+      projectKey: typedParams.projectKey as string,
+      repositoryId: typedParams.repositoryId as string,
+      category: typedParams.category as IssueCategory,
+      isReported: typedParams.isReported as boolean,
+      canFailCheck: typedParams.canFailCheck as boolean,
+    });
+  },
+  update_issue_priority_setting: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceUpdateIssuePrioritySetting({
+      projectKey: typedParams.projectKey as string,
+      repositoryId: typedParams.repositoryId as string,
+      priority: typedParams.priority as IssuePriority,
+      isReported: typedParams.isReported as boolean,
+      canFailCheck: typedParams.canFailCheck as boolean,
+    });
+  },
+  team_suppressed_issues: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const suppressedIssuesParams: DeepsourceTeamSuppressedIssuesParams = {
+      login: typedParams.login as string,
+      vcsProvider: typedParams.vcsProvider as string,
+    };
+
+    if (typeof typedParams.first === 'number') {
+      suppressedIssuesParams.first = typedParams.first;
+    }
+    if (typeof typedParams.last === 'number') {
+      suppressedIssuesParams.last = typedParams.last;
+    }
+    if (typeof typedParams.after === 'string') {
+      suppressedIssuesParams.after = typedParams.after;
+    }
+    if (typeof typedParams.before === 'string') {
+      suppressedIssuesParams.before = typedParams.before;
+    }
+    if (typeof typedParams.page_size === 'number') {
+      suppressedIssuesParams.page_size = typedParams.page_size;
+    }
+    if (typeof typedParams.max_pages === 'number') {
+      suppressedIssuesParams.max_pages = typedParams.max_pages;
+    }
+
+    return handleDeepsourceTeamSuppressedIssues(suppressedIssuesParams);
+  },
+  suppress_issue_for_team: async (params: unknown) => {
+    return handleDeepsourceSuppressIssueForTeam(toTeamIssueSuppressionParams(params));
+  },
+  unsuppress_issue_for_team: async (params: unknown) => {
+    return handleDeepsourceUnsuppressIssueForTeam(toTeamIssueSuppressionParams(params));
+  },
+  activate_repository: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceActivateRepository({ projectKey: typedParams.projectKey as string });
+  },
+  deactivate_repository: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceDeactivateRepository({ projectKey: typedParams.projectKey as string });
+  },
+  update_default_branch: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceUpdateDefaultBranch({
+      projectKey: typedParams.projectKey as string,
+      defaultBranch: typedParams.defaultBranch as string,
+    });
+  },
+  policy_plan: async (params: unknown) => {
+    return handleDeepsourcePolicyPlan(toQualityPolicyParams(params));
+  },
+  policy_apply: async (params: unknown) => {
+    return handleDeepsourcePolicyApply(toQualityPolicyParams(params));
+  },
+  settings_snapshot: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    return handleDeepsourceSettingsSnapshot({ projectKey: typedParams.projectKey as string });
+  },
+  settings_diff: async (params: unknown) => {
+    const typedParams = params as Record<string, unknown>;
+    const diffParams: DeepsourceSettingsDiffParams = {};
+
+    for (const field of ['before', 'beforeFile', 'after', 'afterFile'] as const) {
+      if (typeof typedParams[field] === 'string') {
+        diffParams[field] = typedParams[field];
+      }
+    }
+
+    return handleDeepsourceSettingsDiff(diffParams);
+  },
 };
 
 /**
@@ -243,6 +590,7 @@ function createToolDefinition(
   schema: {
     name: string;
     description: string;
+    annotations?: unknown;
     inputSchema?: unknown;
     outputSchema?: unknown;
   },
@@ -254,11 +602,16 @@ function createToolDefinition(
     inputSchema: schema.inputSchema,
   });
 
+  const metadata = TOOL_METADATA[schema.name];
+
   return {
     name: schema.name,
     description: schema.description,
     inputSchema: schema.inputSchema,
     outputSchema: schema.outputSchema,
+    annotations: schema.annotations,
+    previewChange: MUTATION_PREVIEWS[schema.name],
+    ...(metadata && { metadata: { category: metadata.category, tags: metadata.tags } }),
     handler,
   } as ToolDefinition;
 }
@@ -399,9 +752,149 @@ export const TOOL_METADATA: Record<string, ToolMetadata> = {
     category: ToolCategory.DEPENDENCIES,
     tags: ['dependencies', 'vulnerabilities', 'security', 'cve', 'list'],
     requiresAuth: true,
+    supportsFiltering: true,
+    supportsPagination: true,
+  },
+  dependency_targets: {
+    category: ToolCategory.DEPENDENCIES,
+    tags: ['dependencies', 'sca', 'manifests', 'inventory', 'list'],
+    requiresAuth: true,
     supportsFiltering: false,
     supportsPagination: true,
   },
+  vulnerability_upgrade_plan: {
+    category: ToolCategory.DEPENDENCIES,
+    tags: ['dependencies', 'vulnerabilities', 'security', 'remediation', 'upgrade'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  metric_history: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['metrics', 'quality', 'history', 'trend'],
+    requiresAuth: true,
+    supportsFiltering: true,
+    supportsPagination: false,
+  },
+  analyzers: {
+    category: ToolCategory.ANALYSIS,
+    tags: ['analyzers', 'catalog', 'discovery', 'list'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: true,
+  },
+  analyzer: {
+    category: ToolCategory.ANALYSIS,
+    tags: ['analyzers', 'catalog', 'issues', 'details'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: true,
+  },
+  explain_issue: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['issues', 'explain', 'autofix', 'details', 'single'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  ignore_rules: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['issues', 'ignore', 'suppression', 'audit', 'list'],
+    requiresAuth: true,
+    supportsFiltering: true,
+    supportsPagination: true,
+  },
+  quality_gates: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['quality', 'gates', 'settings', 'issues'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  update_issue_category_setting: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['quality', 'gates', 'settings', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  update_issue_priority_setting: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['quality', 'gates', 'settings', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  team_suppressed_issues: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['issues', 'suppression', 'team', 'audit', 'list'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: true,
+  },
+  suppress_issue_for_team: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['issues', 'suppression', 'team', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  unsuppress_issue_for_team: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['issues', 'suppression', 'team', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  activate_repository: {
+    category: ToolCategory.PROJECT_MANAGEMENT,
+    tags: ['projects', 'repository', 'lifecycle', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  deactivate_repository: {
+    category: ToolCategory.PROJECT_MANAGEMENT,
+    tags: ['projects', 'repository', 'lifecycle', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  update_default_branch: {
+    category: ToolCategory.PROJECT_MANAGEMENT,
+    tags: ['projects', 'repository', 'branch', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  policy_plan: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['policy', 'metrics', 'quality', 'gates', 'settings', 'plan'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  policy_apply: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['policy', 'metrics', 'quality', 'gates', 'settings', 'update', 'mutation'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  settings_snapshot: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['settings', 'snapshot', 'metrics', 'gates', 'audit'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
+  settings_diff: {
+    category: ToolCategory.CODE_QUALITY,
+    tags: ['settings', 'snapshot', 'drift', 'gates', 'audit'],
+    requiresAuth: true,
+    supportsFiltering: false,
+    supportsPagination: false,
+  },
 };
 
 /**
@@ -4,6 +4,13 @@
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ElicitResultSchema,
+  type ServerNotification,
+  type ServerRequest,
+  type ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { promises as fs } from 'fs';
 import { join, normalize, resolve } from 'path';
@@ -15,8 +22,18 @@ import {
   createErrorResponse,
 } from '../handlers/base/handler.factory.js';
 import { logToolInvocation, logToolResult, logAndFormatError } from './tool-helpers.js';
+import { describeDataAge, trackDataAge } from '../utils/cache/persistent-store.js';
+import { createProgressReporter, runWithProgressReporter } from '../utils/progress.js';
+import { runWithAbortSignal } from '../utils/cancellation.js';
 import { isFeatureEnabled } from '../config/features.js';
+import {
+  CONFIRMATION_TOKEN_PARAM,
+  confirmMutation,
+  type MutationPreviewer,
+} from './mutation-confirmation.js';
+import { DRY_RUN_OUTPUT_SHAPE, DRY_RUN_PARAM, planMutation } from './mutation-plan.js';
 import type { DiscoveryConfig } from '../config/default.js';
+import { DEFAULT_TOOL_ACCESS_CONFIG, type ToolAccessConfig } from '../config/tool-access.js';
 
 const logger = createLogger('ToolRegistry');
 
@@ -62,10 +79,70 @@ export interface ToolDefinition<TInput = unknown, TOutput = unknown> {
   outputSchema?: z.ZodType<TOutput> | z.ZodRawShape;
   /** Handler function */
   handler: HandlerFunction<TInput>;
+  /** Hints about the behavior of the tool, such as whether it only reads data */
+  annotations?: ToolAnnotations;
+  /**
+   * Previews the change a call would make. Tools with a preview only run
+   * once the change has been confirmed, through elicitation or a token.
+   */
+  previewChange?: MutationPreviewer<TInput>;
   /** Optional metadata for enhanced features */
   metadata?: ToolMetadata;
 }
 
+/**
+ * Adds the dry run and confirmation token arguments to the input schema of a mutating tool
+ * @param inputSchema - The input schema of the tool
+ * @returns The input schema accepting the mutation arguments
+ */
+function withMutationParams(
+  inputSchema: z.ZodTypeAny | z.ZodRawShape | undefined
+): z.ZodTypeAny | z.ZodRawShape {
+  const mutationParams = {
+    [DRY_RUN_PARAM]: z
+      .boolean()
+      .optional()
+      .describe('Return the plan of the change with the current values, without applying it'),
+    [CONFIRMATION_TOKEN_PARAM]: z
+      .string()
+      .optional()
+      .describe('Token returned by a previous call of this tool, to apply the change it previewed'),
+  };
+
+  if (inputSchema instanceof z.ZodObject) {
+    return inputSchema.extend(mutationParams);
+  }
+  if (inputSchema === undefined || !(inputSchema instanceof z.ZodType)) {
+    return { ...inputSchema, ...mutationParams };
+  }
+  return inputSchema;
+}
+
+/**
+ * Lets the output schema of a mutating tool describe dry run results as well
+ * @param outputSchema - The output schema of the tool
+ * @returns The output schema accepting the applied change or its plan
+ */
+function withDryRunOutput(
+  outputSchema: z.ZodTypeAny | z.ZodRawShape
+): z.ZodTypeAny | z.ZodRawShape {
+  const shape =
+    outputSchema instanceof z.ZodObject
+      ? (outputSchema.shape as z.ZodRawShape)
+      : outputSchema instanceof z.ZodType
+        ? undefined
+        : outputSchema;
+  if (!shape) {
+    return outputSchema;
+  }
+
+  // A dry run returns the plan instead of the fields of the applied change
+  const optionalShape = Object.fromEntries(
+    Object.entries(shape).map(([name, schema]) => [name, schema.optional()])
+  );
+  return { ...optionalShape, ...DRY_RUN_OUTPUT_SHAPE };
+}
+
 /**
  * Tool discovery options (compatible with DiscoveryConfig)
  */
@@ -80,18 +157,76 @@ export class ToolRegistry {
   private discoveredTools = new Map<string, string>(); // tool name -> file path
   private server: McpServer;
   private defaultDeps: BaseHandlerDeps;
+  private toolAccess: ToolAccessConfig;
 
-  constructor(server: McpServer, defaultDeps?: BaseHandlerDeps) {
+  constructor(
+    server: McpServer,
+    defaultDeps?: BaseHandlerDeps,
+    toolAccess: ToolAccessConfig = DEFAULT_TOOL_ACCESS_CONFIG
+  ) {
     this.server = server;
     this.defaultDeps = defaultDeps || createDefaultHandlerDeps();
-    logger.info('ToolRegistry initialized');
+    this.toolAccess = toolAccess;
+    logger.info('ToolRegistry initialized', {
+      readOnly: toolAccess.readOnly,
+    });
+  }
+
+  /**
+   * Checks whether the tool access configuration allows a tool
+   *
+   * In read-only mode only tools annotated with `readOnlyHint` are allowed.
+   * A tool matching any deny list is refused. When any allow list is set,
+   * the tool must match one of them by name, category or tag.
+   *
+   * @param tool - The tool definition
+   * @returns True when the tool may be registered
+   */
+  isToolAllowed(tool: Pick<ToolDefinition, 'name' | 'annotations' | 'metadata'>): boolean {
+    const access = this.toolAccess;
+    const category = tool.metadata?.category;
+    const tags = tool.metadata?.tags ?? [];
+
+    if (access.readOnly && tool.annotations?.readOnlyHint !== true) {
+      return false;
+    }
+
+    if (
+      access.denyTools.includes(tool.name) ||
+      (category !== undefined && access.denyCategories.includes(category)) ||
+      tags.some((tag) => access.denyTags.includes(tag))
+    ) {
+      return false;
+    }
+
+    const hasAllowList =
+      access.allowTools.length > 0 ||
+      access.allowCategories.length > 0 ||
+      access.allowTags.length > 0;
+    if (!hasAllowList) {
+      return true;
+    }
+
+    return (
+      access.allowTools.includes(tool.name) ||
+      (category !== undefined && access.allowCategories.includes(category)) ||
+      tags.some((tag) => access.allowTags.includes(tag))
+    );
   }
 
   /**
    * Registers a tool with the MCP server
+   *
+   * Tools refused by the tool access configuration are skipped.
+   *
    * @param tool - The tool definition
    */
   registerTool<TInput = unknown, TOutput = unknown>(tool: ToolDefinition<TInput, TOutput>): void {
+    if (!this.isToolAllowed(tool as ToolDefinition)) {
+      logger.info(`Tool ${tool.name} is not allowed by the tool access configuration, skipping`);
+      return;
+    }
+
     if (this.tools.has(tool.name)) {
       logger.warn(`Tool ${tool.name} is already registered, overwriting`);
     }
@@ -119,23 +254,33 @@ export class ToolRegistry {
       description: tool.description,
     };
 
-    if (tool.inputSchema) {
-      toolConfig.inputSchema = tool.inputSchema;
+    if (tool.annotations) {
+      toolConfig.annotations = tool.annotations;
+    }
+
+    // Mutating tools accept a dry run and the token that confirms a previewed change
+    const inputSchema = tool.previewChange
+      ? withMutationParams(tool.inputSchema as z.ZodTypeAny | z.ZodRawShape | undefined)
+      : tool.inputSchema;
+    const outputSchema =
+      tool.previewChange && tool.outputSchema
+        ? withDryRunOutput(tool.outputSchema as z.ZodTypeAny | z.ZodRawShape)
+        : tool.outputSchema;
+
+    if (inputSchema) {
+      toolConfig.inputSchema = inputSchema;
       logger.debug(`Tool ${tool.name} inputSchema details`, {
-        schemaType: typeof tool.inputSchema,
-        isZodSchema:
-          tool.inputSchema && typeof tool.inputSchema === 'object' && '_def' in tool.inputSchema,
-        hasShape:
-          tool.inputSchema && typeof tool.inputSchema === 'object' && 'shape' in tool.inputSchema,
+        schemaType: typeof inputSchema,
+        isZodSchema: typeof inputSchema === 'object' && '_def' in inputSchema,
+        hasShape: typeof inputSchema === 'object' && 'shape' in inputSchema,
       });
     }
 
-    if (tool.outputSchema) {
-      toolConfig.outputSchema = tool.outputSchema;
+    if (outputSchema) {
+      toolConfig.outputSchema = outputSchema;
       logger.debug(`Tool ${tool.name} outputSchema details`, {
-        schemaType: typeof tool.outputSchema,
-        isZodSchema:
-          tool.outputSchema && typeof tool.outputSchema === 'object' && '_def' in tool.outputSchema,
+        schemaType: typeof outputSchema,
+        isZodSchema: outputSchema && typeof outputSchema === 'object' && '_def' in outputSchema,
       });
     }
 
@@ -151,8 +296,10 @@ export class ToolRegistry {
         tool.name,
         toolConfig,
 
-        async (params: Record<string, unknown>, _: unknown): Promise<McpResponse> => {
-          // Second parameter required by MCP SDK but not used
+        async (
+          params: Record<string, unknown>,
+          extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+        ): Promise<McpResponse> => {
           logger.info(`===== TOOL INVOCATION START: ${tool.name} =====`);
           logger.info(`Tool ${tool.name} received params:`, {
             params,
@@ -171,20 +318,18 @@ export class ToolRegistry {
 
             // Validate input if schema provided
             let validatedParams: TInput;
-            if (tool.inputSchema && params !== undefined) {
+            if (inputSchema && params !== undefined) {
               logger.debug(`Validating params for ${tool.name}`, {
-                schemaType: typeof tool.inputSchema,
-                hasDefProperty: '_def' in (tool.inputSchema as object),
-                hasSafeParseMethod: 'safeParse' in (tool.inputSchema as object),
+                schemaType: typeof inputSchema,
+                hasDefProperty: '_def' in (inputSchema as object),
+                hasSafeParseMethod: 'safeParse' in (inputSchema as object),
               });
 
               // Wrap the inputSchema in z.object() if it's a ZodRawShape
               const schema =
-                tool.inputSchema &&
-                typeof tool.inputSchema === 'object' &&
-                !('safeParse' in tool.inputSchema)
-                  ? z.object(tool.inputSchema as z.ZodRawShape)
-                  : (tool.inputSchema as z.ZodSchema);
+                inputSchema && typeof inputSchema === 'object' && !('safeParse' in inputSchema)
+                  ? z.object(inputSchema as z.ZodRawShape)
+                  : (inputSchema as z.ZodSchema);
 
               const parseResult = schema.safeParse(params);
               if (!parseResult.success) {
@@ -199,13 +344,64 @@ export class ToolRegistry {
               validatedParams = (params ?? {}) as TInput;
             }
 
+            // Mutating tools only run once their change has been confirmed
+            if (tool.previewChange) {
+              const { [DRY_RUN_PARAM]: dryRun, ...mutationParams } = validatedParams as Record<
+                string,
+                unknown
+              >;
+              validatedParams = mutationParams as TInput;
+
+              // A dry run returns the plan of the change without applying it
+              if (dryRun === true) {
+                const dryRunResult = planMutation(
+                  tool.name,
+                  await tool.previewChange(validatedParams)
+                );
+                return {
+                  content: [{ type: 'text', text: JSON.stringify(dryRunResult) }],
+                  structuredContent: dryRunResult as unknown as Record<string, unknown>,
+                  isError: false,
+                };
+              }
+
+              const confirmation = await this.confirmChange(tool, validatedParams, extra);
+              if (!confirmation.confirmed) {
+                return {
+                  content: [{ type: 'text', text: JSON.stringify(confirmation.response) }],
+                  structuredContent: confirmation.response,
+                  isError: true,
+                };
+              }
+              const { [CONFIRMATION_TOKEN_PARAM]: _token, ...handlerParams } =
+                validatedParams as Record<string, unknown>;
+              validatedParams = handlerParams as TInput;
+            }
+
             // Execute handler
             logger.info(`About to execute handler for ${tool.name} with validated params:`, {
               validatedParams,
               handlerType: typeof tool.handler,
             });
 
-            const result = await tool.handler(validatedParams);
+            // Clients that send a progress token get progress notifications
+            const progressToken = extra?._meta?.progressToken;
+            const progressReporter =
+              progressToken === undefined
+                ? undefined
+                : createProgressReporter(progressToken, extra.sendNotification);
+
+            // Cancelling the call stops its retries, page loops and API requests
+            const { result, storedAt } = await runWithAbortSignal(extra?.signal, () =>
+              runWithProgressReporter(progressReporter, () =>
+                trackDataAge(() => tool.handler(validatedParams))
+              )
+            );
+
+            // Offline answers say how old the stored data behind them is
+            if (storedAt && isApiResponse(result)) {
+              result.content.push({ type: 'text', text: describeDataAge(storedAt) });
+            }
 
             logger.info(`Handler for ${tool.name} returned result:`, {
               resultType: typeof result,
@@ -351,6 +547,39 @@ export class ToolRegistry {
     logger.info(`Tool ${tool.name} registered successfully`);
   }
 
+  /**
+   * Confirms the change a mutating tool call would make
+   *
+   * Clients that declared the elicitation capability are asked directly;
+   * the others receive a confirmation token.
+   *
+   * @param tool - The mutating tool
+   * @param params - The validated tool arguments
+   * @param extra - The request context of the tool call
+   * @returns Whether to run the tool, or the response explaining why not
+   */
+  private confirmChange<TInput>(
+    tool: ToolDefinition<TInput>,
+    params: TInput,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification> | undefined
+  ): ReturnType<typeof confirmMutation> {
+    const supportsElicitation = Boolean(this.server.server?.getClientCapabilities()?.elicitation);
+    return confirmMutation({
+      toolName: tool.name,
+      params: params as Record<string, unknown>,
+      preview: tool.previewChange as MutationPreviewer<Record<string, unknown>>,
+      elicit:
+        supportsElicitation && extra
+          ? (request) =>
+              extra.sendRequest(
+                { method: 'elicitation/create', params: request },
+                ElicitResultSchema,
+                { signal: extra.signal }
+              )
+          : undefined,
+    });
+  }
+
   /**
    * Registers multiple tools at once
    * @param tools - Array of tool definitions
@@ -563,6 +792,11 @@ export class ToolRegistry {
         return null;
       }
 
+      if (!this.isToolAllowed(toolDef)) {
+        logger.info(`Tool ${toolDef.name} is not allowed by the tool access configuration`);
+        return null;
+      }
+
       this.registerTool(toolDef);
       logger.info(`Successfully loaded tool: ${toolDef.name} from ${filePath}`);
       return toolDef.name;
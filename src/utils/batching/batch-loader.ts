@@ -0,0 +1,140 @@
+/**
+ * @fileoverview DataLoader-style batch loader
+ * This module collects the keys requested while the current work runs and
+ * resolves them together with a single call to a batch function, so that
+ * many lookups of the same kind cost one round trip.
+ */
+
+/**
+ * Resolves a batch of keys, returning the value of every key found
+ */
+export type BatchLoadFunction<K, V> = (keys: K[]) => Promise<Map<K, V>>;
+
+/**
+ * Batch loader options
+ */
+export interface BatchLoaderOptions {
+  /** Maximum number of keys passed to one batch function call */
+  maxBatchSize?: number;
+  /** Whether loaded values are kept for later loads of the same key */
+  cache?: boolean;
+}
+
+/**
+ * A load waiting for its batch
+ * @private
+ */
+interface PendingLoad<K, V> {
+  key: K;
+  resolve: (value: V | undefined) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Batches the loads made in the same turn of the event loop
+ *
+ * Keys requested before the batch is dispatched are deduplicated and passed
+ * to the batch function together. Keys the batch function does not return
+ * resolve to undefined. When caching is enabled, a key is loaded once for the
+ * lifetime of the loader; failed loads are not cached.
+ *
+ * @class
+ * @public
+ */
+export class BatchLoader<K, V> {
+  private readonly batchFn: BatchLoadFunction<K, V>;
+  private readonly maxBatchSize: number;
+  private readonly cacheEnabled: boolean;
+  private readonly cache = new Map<K, Promise<V | undefined>>();
+  private queue: PendingLoad<K, V>[] = [];
+
+  /**
+   * Creates a new batch loader
+   * @param batchFn Resolves a batch of keys
+   * @param options Optional batching and caching options
+   * @public
+   */
+  constructor(batchFn: BatchLoadFunction<K, V>, options: BatchLoaderOptions = {}) {
+    this.batchFn = batchFn;
+    this.maxBatchSize = options.maxBatchSize ?? Infinity;
+    this.cacheEnabled = options.cache ?? true;
+  }
+
+  /**
+   * Load the value of a key
+   * @param key The key to load
+   * @returns The value, or undefined if the batch function did not return the key
+   * @public
+   */
+  load(key: K): Promise<V | undefined> {
+    const cached = this.cacheEnabled ? this.cache.get(key) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const promise = new Promise<V | undefined>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+      if (this.queue.length === 1) {
+        setImmediate(() => this.dispatch());
+      }
+    });
+
+    if (this.cacheEnabled) {
+      this.cache.set(key, promise);
+      promise.catch(() => {
+        if (this.cache.get(key) === promise) {
+          this.cache.delete(key);
+        }
+      });
+    }
+    return promise;
+  }
+
+  /**
+   * Load the values of several keys
+   * @param keys The keys to load
+   * @returns The values in the order of the keys
+   * @public
+   */
+  loadMany(keys: K[]): Promise<Array<V | undefined>> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  /**
+   * Forget the cached value of a key
+   * @param key The key to forget
+   * @public
+   */
+  clear(key: K): void {
+    this.cache.delete(key);
+  }
+
+  /**
+   * Forget all cached values
+   * @public
+   */
+  clearAll(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Resolve the queued loads in batches
+   * @private
+   */
+  private dispatch(): void {
+    const loads = this.queue;
+    this.queue = [];
+
+    for (let start = 0; start < loads.length; start += this.maxBatchSize) {
+      const batch = loads.slice(start, start + this.maxBatchSize);
+      const keys = [...new Set(batch.map((load) => load.key))];
+
+      Promise.resolve()
+        .then(() => this.batchFn(keys))
+        .then(
+          (values) => batch.forEach((load) => load.resolve(values.get(load.key))),
+          (error: unknown) => batch.forEach((load) => load.reject(error))
+        );
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Export aggregation for batching utilities
+ * This module exports all request batching, coalescing and parallel execution functionality.
+ */
+
+export { BatchLoadFunction, BatchLoaderOptions, BatchLoader } from './batch-loader.js';
+
+export { attachRequestCoalescing, getInFlightRequestCount } from './request-coalescing.js';
+
+export { mapWithConcurrency } from './parallel.js';
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Concurrency-limited parallel execution
+ * This module runs asynchronous work over a list of items with a cap on how
+ * many items are processed at the same time, so that independent API
+ * requests can overlap without flooding the API.
+ */
+
+/**
+ * Maps items with an asynchronous function, processing at most `concurrency`
+ * items at a time
+ *
+ * Results keep the order of the items. When an item fails, no further items
+ * are started and the returned promise rejects with the first error.
+ *
+ * @param items The items to process
+ * @param concurrency Maximum number of items processed at the same time
+ * @param fn Processes one item
+ * @returns The results, in the order of the items
+ * @public
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const workerCount = Math.min(items.length, Math.max(1, Math.floor(concurrency) || 1));
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index] as T, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview In-flight request coalescing for GraphQL queries
+ * This module lets identical GraphQL queries that are in flight at the same
+ * time share one HTTP request. Agents often ask the same question from several
+ * tools at once, and each of those calls would otherwise hit the API.
+ */
+
+import { createHash } from 'node:crypto';
+import axios, { AxiosAdapter, AxiosInstance, AxiosResponse } from 'axios';
+import { createCancellationError } from '../cancellation.js';
+import { createLogger } from '../logging/logger.js';
+
+const logger = createLogger('RequestCoalescing');
+
+/**
+ * A request in flight and the callers waiting for it
+ * @private
+ */
+interface SharedRequest {
+  key: string;
+  response: Promise<AxiosResponse>;
+  controller: AbortController;
+  waiting: number;
+}
+
+/**
+ * Requests currently in flight, by request key
+ * @private
+ */
+const inFlight = new Map<string, SharedRequest>();
+
+/**
+ * Checks whether a request body is a GraphQL mutation
+ * @param data The serialized request body
+ * @returns True if the body holds a mutation
+ * @private
+ */
+function isMutationBody(data: string): boolean {
+  try {
+    const query = (JSON.parse(data) as { query?: unknown }).query;
+    return typeof query === 'string' && query.trim().toLowerCase().startsWith('mutation');
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Get the number of requests currently in flight (for testing)
+ * @returns The number of distinct requests in flight
+ * @public
+ */
+export function getInFlightRequestCount(): number {
+  return inFlight.size;
+}
+
+/**
+ * Waits for a shared request on behalf of one caller
+ *
+ * A caller whose signal is aborted stops waiting right away. The shared
+ * request itself is aborted once no caller waits for it any more.
+ *
+ * @param shared The shared request
+ * @param signal The abort signal of the caller
+ * @returns A copy of the response
+ * @private
+ */
+function waitForSharedRequest(
+  shared: SharedRequest,
+  signal: AbortSignal | undefined
+): Promise<AxiosResponse> {
+  shared.waiting++;
+
+  return new Promise<AxiosResponse>((resolve, reject) => {
+    const onAbort = () => {
+      if (--shared.waiting === 0) {
+        shared.controller.abort();
+        if (inFlight.get(shared.key) === shared) {
+          inFlight.delete(shared.key);
+        }
+      }
+      reject(createCancellationError());
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    shared.response.then(
+      (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve({ ...response });
+      },
+      (error: unknown) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Makes identical concurrent queries of an Axios instance share one request
+ *
+ * Requests are identical when they go to the same URL with the same
+ * credentials and body. Mutations are never shared. Every caller gets its own
+ * copy of the response so that response transforms do not interfere, and
+ * can stop waiting through its own abort signal.
+ *
+ * @param client The Axios instance of a DeepSource client
+ * @public
+ */
+export function attachRequestCoalescing(client: AxiosInstance): void {
+  const previous = client.defaults.adapter;
+
+  const adapter: AxiosAdapter = (config) => {
+    const send = axios.getAdapter(previous ?? axios.defaults.adapter);
+    if (typeof config.data !== 'string' || isMutationBody(config.data)) {
+      return send(config);
+    }
+
+    const key = createHash('sha256')
+      .update(
+        [
+          config.method,
+          config.baseURL,
+          config.url,
+          String(config.headers.get('Authorization') ?? ''),
+          config.data,
+        ].join('\n')
+      )
+      .digest('hex');
+
+    let shared = inFlight.get(key);
+    if (shared) {
+      logger.debug('Sharing in-flight GraphQL request', { url: config.url });
+    } else {
+      const controller = new AbortController();
+      const request: SharedRequest = {
+        key,
+        response: send({ ...config, signal: controller.signal }).finally(() => {
+          if (inFlight.get(key) === request) {
+            inFlight.delete(key);
+          }
+        }),
+        controller,
+        waiting: 0,
+      };
+      shared = request;
+      inFlight.set(key, request);
+    }
+    return waitForSharedRequest(shared, config.signal as AbortSignal | undefined);
+  };
+
+  client.defaults.adapter = adapter;
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Export aggregation for cache utilities
+ * This module exports all cache-related functionality.
+ */
+
+export {
+  CacheEntity,
+  ResponseCacheConfig,
+  ResponseCacheStats,
+  FINISHED_RUN_STATUSES,
+  ResponseCache,
+  classifyQuery,
+  normalizeQuery,
+  createCacheDigest,
+  createCacheNamespace,
+  attachResponseCache,
+} from './response-cache.js';
+
+export {
+  StoredEntityKind,
+  StoredRecord,
+  PersistentStoreOptions,
+  PersistentStore,
+  attachPersistentStore,
+  trackDataAge,
+  recordDataAge,
+  describeDataAge,
+} from './persistent-store.js';
@@ -0,0 +1,339 @@
+/**
+ * @fileoverview Persistent on-disk store for DeepSource API data
+ * This module keeps GraphQL responses and normalized entities on disk so that
+ * they survive restarts. In offline mode the store answers every request in
+ * place of the DeepSource API, and the age of the data served is tracked so
+ * that tool responses can say how fresh they are.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import axios, { AxiosAdapter, AxiosInstance, AxiosResponse } from 'axios';
+import { getCacheStoreConfig } from '../../config/cache.js';
+import { ErrorCategory } from '../errors/categories.js';
+import { createClassifiedError } from '../errors/factory.js';
+import { createLogger } from '../logging/logger.js';
+import { createCacheDigest, parseGraphQLBody } from './response-cache.js';
+
+const logger = createLogger('PersistentStore');
+
+/**
+ * Kinds of normalized entities kept in the store
+ */
+export type StoredEntityKind = 'projects' | 'runs' | 'issues';
+
+/**
+ * A value kept in the store
+ */
+export interface StoredRecord<T> {
+  /** When the value was stored, as an ISO 8601 timestamp */
+  storedAt: string;
+  /** The stored value */
+  value: T;
+}
+
+/**
+ * Persistent store options
+ */
+export interface PersistentStoreOptions {
+  /** Directory of the store */
+  directory: string;
+  /** Whether the store answers requests in place of the DeepSource API */
+  offline: boolean;
+}
+
+/**
+ * Tracks the oldest stored data served while handling a tool call
+ * @private
+ */
+const dataAgeStorage = new AsyncLocalStorage<{ oldest?: string }>();
+
+/**
+ * Hashes a value into a file name
+ * @param value The value to hash
+ * @returns A file-system safe name
+ * @private
+ */
+function toFileName(value: string): string {
+  return `${createHash('sha256').update(value).digest('hex')}.json`;
+}
+
+/**
+ * Records that stored data was served for the current tool call
+ * @param storedAt When the served data was stored
+ * @public
+ */
+export function recordDataAge(storedAt: string): void {
+  const tracker = dataAgeStorage.getStore();
+  if (tracker && (!tracker.oldest || storedAt < tracker.oldest)) {
+    tracker.oldest = storedAt;
+  }
+}
+
+/**
+ * Runs a function and reports the oldest stored data it was served
+ * @param fn The function to run
+ * @returns The function result and when its oldest stored data was stored, if any
+ * @public
+ */
+export async function trackDataAge<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; storedAt: string | undefined }> {
+  const tracker: { oldest?: string } = {};
+  const result = await dataAgeStorage.run(tracker, fn);
+  return { result, storedAt: tracker.oldest };
+}
+
+/**
+ * Describes the age of stored data for people reading a tool response
+ * @param storedAt When the data was stored
+ * @param now The current time in milliseconds
+ * @returns A sentence stating when the data was stored and how old it is
+ * @public
+ */
+export function describeDataAge(storedAt: string, now = Date.now()): string {
+  const minutes = Math.max(0, Math.floor((now - Date.parse(storedAt)) / 60000));
+  let age: string;
+  if (minutes < 60) {
+    age = `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  } else if (minutes < 48 * 60) {
+    const hours = Math.floor(minutes / 60);
+    age = `${hours} hour${hours === 1 ? '' : 's'}`;
+  } else {
+    age = `${Math.floor(minutes / (24 * 60))} days`;
+  }
+  return `Offline mode: answered from data stored at ${storedAt} (${age} old).`;
+}
+
+/**
+ * On-disk store of GraphQL responses and normalized entities
+ *
+ * Every value is kept in its own JSON file, written atomically, under a
+ * directory per API key namespace. Write failures are logged and ignored so
+ * that the store never breaks an online request.
+ *
+ * @class
+ * @public
+ */
+export class PersistentStore {
+  private static instance: PersistentStore | null | undefined;
+  readonly directory: string;
+  readonly offline: boolean;
+
+  /**
+   * Creates a new persistent store
+   * @param options The store options
+   * @public
+   */
+  constructor(options: PersistentStoreOptions) {
+    this.directory = options.directory;
+    this.offline = options.offline;
+  }
+
+  /**
+   * Get the singleton instance
+   * @returns The configured store, or null if persistence is disabled
+   * @public
+   */
+  static getInstance(): PersistentStore | null {
+    if (PersistentStore.instance === undefined) {
+      const config = getCacheStoreConfig();
+      PersistentStore.instance = config.persistent ? new PersistentStore(config) : null;
+    }
+    return PersistentStore.instance;
+  }
+
+  /**
+   * Forget the singleton instance so that the configuration is read again (for testing)
+   * @public
+   */
+  static resetInstance(): void {
+    PersistentStore.instance = undefined;
+  }
+
+  /**
+   * Get a stored GraphQL response
+   * @param namespace The cache namespace of the API key
+   * @param digest The cache digest of the query
+   * @returns The stored response, or null if none is stored
+   * @public
+   */
+  getResponse<T>(namespace: string, digest: string): Promise<StoredRecord<T> | null> {
+    return this.read<T>(join(this.directory, 'responses', namespace, `${digest}.json`));
+  }
+
+  /**
+   * Store a GraphQL response
+   * @param namespace The cache namespace of the API key
+   * @param digest The cache digest of the query
+   * @param value The response to store
+   * @public
+   */
+  putResponse(namespace: string, digest: string, value: unknown): Promise<void> {
+    return this.write(join(this.directory, 'responses', namespace, `${digest}.json`), value);
+  }
+
+  /**
+   * Get a stored entity
+   * @param namespace The cache namespace of the API key
+   * @param kind The kind of entity
+   * @param id The entity identifier
+   * @returns The stored entity, or null if none is stored
+   * @public
+   */
+  getEntity<T>(
+    namespace: string,
+    kind: StoredEntityKind,
+    id: string
+  ): Promise<StoredRecord<T> | null> {
+    return this.read<T>(join(this.directory, 'entities', namespace, kind, toFileName(id)));
+  }
+
+  /**
+   * List the stored entities of a kind
+   * @param namespace The cache namespace of the API key
+   * @param kind The kind of entity
+   * @returns The stored entities, in no particular order
+   * @public
+   */
+  async listEntities<T>(namespace: string, kind: StoredEntityKind): Promise<StoredRecord<T>[]> {
+    const directory = join(this.directory, 'entities', namespace, kind);
+    let files: string[];
+    try {
+      files = await readdir(directory);
+    } catch {
+      return [];
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.read<T>(join(directory, file)))
+    );
+    return records.filter((record): record is StoredRecord<T> => record !== null);
+  }
+
+  /**
+   * Store entities under one or more identifiers each
+   * @param namespace The cache namespace of the API key
+   * @param kind The kind of entity
+   * @param entities The entities to store
+   * @param getIds Returns the identifiers an entity can be looked up by
+   * @public
+   */
+  async putEntities<T>(
+    namespace: string,
+    kind: StoredEntityKind,
+    entities: T[],
+    getIds: (entity: T) => string[]
+  ): Promise<void> {
+    await Promise.all(
+      entities.flatMap((entity) =>
+        getIds(entity)
+          .filter(Boolean)
+          .map((id) =>
+            this.write(join(this.directory, 'entities', namespace, kind, toFileName(id)), entity)
+          )
+      )
+    );
+  }
+
+  /**
+   * Read a stored record
+   * @param file The file of the record
+   * @returns The record, or null if it is missing or unreadable
+   * @private
+   */
+  private async read<T>(file: string): Promise<StoredRecord<T> | null> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as StoredRecord<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read stored record', { file, error });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Write a record atomically
+   * @param file The file of the record
+   * @param value The value to store
+   * @private
+   */
+  private async write(file: string, value: unknown): Promise<void> {
+    const record: StoredRecord<unknown> = { storedAt: new Date().toISOString(), value };
+    const temporaryFile = `${file}.${process.pid}.tmp`;
+    try {
+      await mkdir(dirname(file), { recursive: true, mode: 0o700 });
+      await writeFile(temporaryFile, JSON.stringify(record), { mode: 0o600 });
+      await rename(temporaryFile, file);
+    } catch (error) {
+      logger.warn('Failed to write stored record', { file, error });
+    }
+  }
+}
+
+/**
+ * Routes the GraphQL requests of an Axios instance through the persistent store
+ *
+ * Online, successful query responses are stored as they arrive. Offline,
+ * queries are answered from the store and mutations are rejected. This does
+ * nothing when persistence is disabled.
+ *
+ * @param client The Axios instance of a DeepSource client
+ * @param namespace The cache namespace of the client's API key
+ * @public
+ */
+export function attachPersistentStore(client: AxiosInstance, namespace: string): void {
+  const store = PersistentStore.getInstance();
+  if (!store) {
+    return;
+  }
+
+  const send = axios.getAdapter(client.defaults.adapter ?? axios.defaults.adapter);
+  const adapter: AxiosAdapter = async (config) => {
+    const body = parseGraphQLBody(config.data);
+    const query = typeof body?.query === 'string' ? body.query : undefined;
+    if (!query) {
+      return send(config);
+    }
+
+    const isMutation = query.trim().toLowerCase().startsWith('mutation');
+    const digest = createCacheDigest(query, body?.variables as Record<string, unknown> | undefined);
+
+    if (store.offline) {
+      if (isMutation) {
+        throw createClassifiedError('Changes cannot be made in offline mode', ErrorCategory.CLIENT);
+      }
+      const record = await store.getResponse(namespace, digest);
+      if (!record) {
+        throw createClassifiedError(
+          'No stored data is available offline for this request. Run it once while online to store it.',
+          ErrorCategory.NOT_FOUND
+        );
+      }
+      recordDataAge(record.storedAt);
+      const response: AxiosResponse = {
+        data: record.value,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+        request: {},
+      };
+      return response;
+    }
+
+    const response = await send(config);
+    const data = parseGraphQLBody(response.data);
+    if (!isMutation && response.status === 200 && data && !data.errors) {
+      await store.putResponse(namespace, digest, data);
+    }
+    return response;
+  };
+
+  client.defaults.adapter = adapter;
+}
@@ -0,0 +1,470 @@
+/**
+ * @fileoverview Response cache for DeepSource GraphQL queries
+ * This module implements a size-bounded cache of GraphQL responses with
+ * per-entity time-to-live values. Agents tend to ask the same questions many
+ * times per conversation, so serving repeated queries from memory keeps the
+ * server well below the DeepSource API rate limits.
+ */
+
+import { createHash } from 'node:crypto';
+import axios, { AxiosAdapter, AxiosInstance, AxiosResponse } from 'axios';
+import { isFeatureEnabled } from '../../config/features.js';
+import { isOfflineMode } from '../../config/cache.js';
+import { createLogger } from '../logging/logger.js';
+import { scopeKey } from '../request-context.js';
+
+const logger = createLogger('ResponseCache');
+
+/**
+ * Kinds of data cached with their own time-to-live
+ */
+export type CacheEntity = 'projects' | 'runs' | 'issues' | 'metrics' | 'default';
+
+/**
+ * Response cache configuration
+ */
+export interface ResponseCacheConfig {
+  /** Maximum number of cached responses */
+  maxEntries: number;
+  /** Time-to-live per entity in milliseconds */
+  ttlMs: Record<CacheEntity, number>;
+}
+
+/**
+ * Response cache statistics
+ */
+export interface ResponseCacheStats {
+  /** Number of cached responses */
+  size: number;
+  /** Number of lookups served from the cache */
+  hits: number;
+  /** Number of lookups not found in the cache */
+  misses: number;
+  /** Number of responses evicted to respect the size bound */
+  evictions: number;
+}
+
+/**
+ * A cached response
+ * @private
+ */
+interface CacheEntry {
+  value: unknown;
+  entity: CacheEntity;
+  expiresAt: number;
+}
+
+/**
+ * Run statuses after which a run no longer changes
+ */
+export const FINISHED_RUN_STATUSES: readonly string[] = [
+  'SUCCESS',
+  'FAILURE',
+  'TIMEOUT',
+  'CANCEL',
+  'READY',
+  'SKIPPED',
+];
+
+/**
+ * Default maximum number of cached responses
+ * @private
+ */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Parses the maximum number of cached responses, falling back to the default
+ * when the value is not a number
+ * @param value The raw value
+ * @returns The maximum number of cached responses
+ * @private
+ */
+function parseMaxEntries(value: string | undefined): number {
+  const parsed = parseInt(value || String(DEFAULT_MAX_ENTRIES), 10);
+  return Number.isNaN(parsed) ? DEFAULT_MAX_ENTRIES : parsed;
+}
+
+/**
+ * Default response cache configuration from environment
+ * @private
+ */
+const DEFAULT_CONFIG: ResponseCacheConfig = {
+  maxEntries: parseMaxEntries(process.env.CACHE_MAX_ENTRIES),
+  ttlMs: {
+    projects: 15 * 60 * 1000,
+    runs: 30 * 1000,
+    issues: 60 * 1000,
+    metrics: 5 * 60 * 1000,
+    default: 60 * 1000,
+  },
+};
+
+/**
+ * Mutations and the entities they make stale
+ * @private
+ */
+const MUTATION_INVALIDATIONS: Array<{ pattern: RegExp; entities: CacheEntity[] }> = [
+  {
+    pattern:
+      /\b(updateMetricThreshold|updateMetricSetting|setRepositoryMetricThreshold|updateRepositoryMetricSetting)\b/,
+    entities: ['metrics'],
+  },
+  {
+    pattern: /\bupdateRepositoryIssue(Category|Priority)Setting\b/,
+    entities: ['metrics'],
+  },
+  {
+    pattern: /\b(activateRepository|deactivateRepository|updateRepositoryDefaultBranch)\b/,
+    entities: ['projects'],
+  },
+  {
+    pattern: /\b(suppressIssueForTeam|unsuppressIssueForTeam)\b/,
+    entities: ['issues'],
+  },
+];
+
+/**
+ * Normalizes a GraphQL query so that formatting differences share a cache entry
+ * @param query The GraphQL query
+ * @returns The query with collapsed whitespace
+ * @public
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([{}():,!$=])\s*/g, '$1')
+    .trim();
+}
+
+/**
+ * Serializes a value with sorted object keys
+ * @param value The value to serialize
+ * @returns A serialization independent of key order
+ * @private
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hashes a query and its variables into a cache digest
+ * @param query The GraphQL query
+ * @param variables The query variables
+ * @returns A digest shared by equivalent queries
+ * @public
+ */
+export function createCacheDigest(query: string, variables?: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(`${normalizeQuery(query)}\n${stableStringify(variables ?? {})}`)
+    .digest('hex');
+}
+
+/**
+ * Derives the cache namespace of an API key
+ * @param apiKey The DeepSource API key
+ * @returns A namespace that separates the cached data of different API keys
+ * @public
+ */
+export function createCacheNamespace(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Determines which entity a query reads
+ * @param query The GraphQL query
+ * @returns The cache entity of the query
+ * @public
+ */
+export function classifyQuery(query: string): CacheEntity {
+  const operationName = /^\s*query\s+(\w+)/.exec(query)?.[1];
+  if (!operationName) {
+    return /\bviewer\b/.test(query) && /\brepositories\b/.test(query) ? 'projects' : 'default';
+  }
+  if (/Run(s|ByUid|ByCommit|Checks)?$/.test(operationName)) {
+    return 'runs';
+  }
+  if (/Issues|Occurrences|Suppressed|IgnoreRules/.test(operationName)) {
+    return 'issues';
+  }
+  if (/Metric|QualityGates/.test(operationName)) {
+    return 'metrics';
+  }
+  return 'default';
+}
+
+/**
+ * Checks whether a response holds a run that has finished
+ * @param data The GraphQL response data
+ * @returns True if the response is a single finished run
+ * @private
+ */
+function isFinishedRun(data: unknown): boolean {
+  const root = (data as { data?: Record<string, { status?: unknown } | null> } | null)?.data;
+  const run = root?.run ?? root?.runByCommit;
+  return typeof run?.status === 'string' && FINISHED_RUN_STATUSES.includes(run.status);
+}
+
+/**
+ * Size-bounded cache of GraphQL responses with per-entity time-to-live
+ *
+ * Entries are evicted least recently used first once the size bound is
+ * reached. Keys include the request scope so that sessions never share
+ * cached responses.
+ *
+ * @class
+ * @public
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private readonly config: ResponseCacheConfig;
+  private entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  /**
+   * Creates a new response cache
+   * @param config Optional configuration overrides
+   * @public
+   */
+  constructor(config: { maxEntries?: number; ttlMs?: Partial<Record<CacheEntity, number>> } = {}) {
+    this.config = {
+      maxEntries: config.maxEntries ?? DEFAULT_CONFIG.maxEntries,
+      ttlMs: { ...DEFAULT_CONFIG.ttlMs, ...config.ttlMs },
+    };
+  }
+
+  /**
+   * Get the singleton instance
+   * @returns The response cache shared by all clients
+   * @public
+   */
+  static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  /**
+   * Builds the cache key of a query
+   * @param namespace Identifies the credentials the query runs with
+   * @param query The GraphQL query
+   * @param variables The query variables
+   * @returns The cache key, scoped to the current request context
+   * @public
+   */
+  static createKey(namespace: string, query: string, variables?: Record<string, unknown>): string {
+    return scopeKey(`${namespace}:${createCacheDigest(query, variables)}`);
+  }
+
+  /**
+   * Get a cached response
+   * @param key The cache key
+   * @returns A copy of the cached response, or undefined if absent or expired
+   * @public
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Move the entry to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return structuredClone(entry.value) as T;
+  }
+
+  /**
+   * Cache a query response
+   * @param key The cache key
+   * @param query The GraphQL query the response answers
+   * @param value The response to cache
+   * @public
+   */
+  set(key: string, query: string, value: unknown): void {
+    const entity = classifyQuery(query);
+    // A finished run never changes, so it only leaves the cache when evicted
+    const ttl = entity === 'runs' && isFinishedRun(value) ? Infinity : this.config.ttlMs[entity];
+    if (ttl <= 0 || this.config.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), entity, expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Remove every cached response of an entity
+   * @param entity The entity whose responses are stale
+   * @public
+   */
+  invalidate(entity: CacheEntity): void {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.entity === entity) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    logger.debug('Cache entries invalidated', { entity, removed });
+  }
+
+  /**
+   * Remove the cached responses made stale by a mutation
+   * @param mutation The GraphQL mutation that succeeded
+   * @public
+   */
+  invalidateForMutation(mutation: string): void {
+    for (const { pattern, entities } of MUTATION_INVALIDATIONS) {
+      if (pattern.test(mutation)) {
+        entities.forEach((entity) => this.invalidate(entity));
+      }
+    }
+  }
+
+  /**
+   * Remove the cached responses of a request scope
+   * @param scope The scope whose responses to remove
+   * @public
+   */
+  removeScope(scope: string): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(`${scope}:`)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get cache statistics
+   * @returns The current statistics
+   * @public
+   */
+  getStats(): ResponseCacheStats {
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * Clear all cached responses (for testing)
+   * @public
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+}
+
+/**
+ * Parses the GraphQL request or response body of an Axios request
+ * @param data The raw body
+ * @returns The parsed body, or undefined if it is not JSON
+ * @public
+ */
+export function parseGraphQLBody(data: unknown): Record<string, unknown> | undefined {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data) as Record<string, unknown>;
+    } catch {
+      return undefined;
+    }
+  }
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : undefined;
+}
+
+/**
+ * Routes the GraphQL requests of an Axios instance through the response cache
+ *
+ * When the cache feature is enabled, query responses are served from the
+ * cache until they expire. Successful mutations invalidate the cached
+ * responses they make stale.
+ *
+ * @param client The Axios instance
+ * @param namespace Identifies the API key the client sends
+ * @public
+ */
+export function attachResponseCache(client: AxiosInstance, namespace: string): void {
+  const previous = client.defaults.adapter;
+
+  const adapter: AxiosAdapter = async (config) => {
+    const send = axios.getAdapter(previous ?? axios.defaults.adapter);
+    const body = parseGraphQLBody(config.data);
+    const query = typeof body?.query === 'string' ? body.query : undefined;
+    if (!query) {
+      return send(config);
+    }
+
+    const cache = ResponseCache.getInstance();
+    if (query.trim().toLowerCase().startsWith('mutation')) {
+      const response = await send(config);
+      const data = parseGraphQLBody(response.data);
+      if (response.status === 200 && data && !data.errors) {
+        cache.invalidateForMutation(query);
+      }
+      return response;
+    }
+
+    // Offline responses come from the persistent store, which tracks their age
+    if (!isFeatureEnabled('cache') || isOfflineMode()) {
+      return send(config);
+    }
+
+    const key = ResponseCache.createKey(
+      namespace,
+      query,
+      body?.variables as Record<string, unknown> | undefined
+    );
+    const cached = cache.get<unknown>(key);
+    if (cached) {
+      logger.debug('GraphQL response served from cache', {
+        query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+      });
+      const response: AxiosResponse = {
+        data: cached,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+        request: {},
+      };
+      return response;
+    }
+
+    const response = await send(config);
+    const data = parseGraphQLBody(response.data);
+    if (response.status === 200 && data && !data.errors) {
+      cache.set(key, query, data);
+    }
+    return response;
+  };
+
+  client.defaults.adapter = adapter;
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Cancellation of tool calls
+ *
+ * A client can cancel a tool call it no longer needs. The abort signal of the
+ * call travels with its asynchronous context, so that retries, page loops
+ * and API requests made anywhere below the tool handler stop once the call
+ * is cancelled instead of finishing work nobody waits for.
+ *
+ * @packageDocumentation
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AxiosInstance } from 'axios';
+import { ErrorCategory } from './errors/categories.js';
+import { createClassifiedError } from './errors/factory.js';
+import { ClassifiedError } from './errors/types.js';
+
+const storage = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Runs a function with the abort signal of a tool call
+ * @param signal - The abort signal, if the call can be cancelled
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+export function runWithAbortSignal<T>(signal: AbortSignal | undefined, fn: () => T): T {
+  return signal ? storage.run(signal, fn) : fn();
+}
+
+/**
+ * Gets the abort signal of the tool call being processed
+ * @returns The abort signal, or undefined outside of a cancellable call
+ */
+export function getAbortSignal(): AbortSignal | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Creates the error a cancelled operation fails with
+ * @returns The cancellation error
+ */
+export function createCancellationError(): ClassifiedError {
+  return createClassifiedError('The request was cancelled', ErrorCategory.CLIENT, undefined, {
+    cancelled: true,
+  });
+}
+
+/**
+ * Throws if a signal has been aborted
+ * @param signal - The signal to check; defaults to the signal of the current tool call
+ * @throws {ClassifiedError} When the signal has been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined = getAbortSignal()): void {
+  if (signal?.aborted) {
+    throw createCancellationError();
+  }
+}
+
+/**
+ * Makes the requests of an Axios instance stop when their tool call is cancelled
+ * @param client - The Axios instance of a DeepSource client
+ */
+export function attachAbortSignal(client: AxiosInstance): void {
+  client.interceptors.request.use((config) => {
+    const signal = getAbortSignal();
+    if (signal && !config.signal) {
+      config.signal = signal;
+    }
+    return config;
+  });
+}
@@ -60,6 +60,7 @@ query {
           repositories(first: 100) {
             edges {
               node {
+                id
                 name
                 defaultBranch
                 dsn
@@ -14,6 +14,8 @@ import {
   PaginationMetadata,
 } from './types.js';
 import { normalizePaginationParams } from './helpers.js';
+import { throwIfAborted } from '../cancellation.js';
+import { reportProgress } from '../progress.js';
 
 const logger = createLogger('PaginationManager');
 
@@ -25,10 +27,15 @@ export type PageFetcher<T> = (cursor?: string, pageSize?: number) => Promise<Pag
 
 /**
  * Fetches multiple pages of data with configurable limits
+ *
+ * Each fetched page is reported as progress of the current tool call, and
+ * the fetch stops before the next page once the call is cancelled.
+ *
  * @template T The type of items being fetched
  * @param fetcher Function that fetches a single page
  * @param options Configuration for multi-page fetching
  * @returns Aggregated results from all fetched pages
+ * @throws {ClassifiedError} When the tool call is cancelled
  */
 export async function fetchMultiplePages<T>(
   fetcher: PageFetcher<T>,
@@ -53,6 +60,8 @@ export async function fetchMultiplePages<T>(
 
   for (let iteration = 0; iteration < maxIterations && hasMore; iteration++) {
     try {
+      throwIfAborted();
+
       // Fetch the next page
       const response = await fetcher(currentCursor, pageSize);
 
@@ -70,6 +79,14 @@ export async function fetchMultiplePages<T>(
         onProgress(pagesFetched, allItems.length);
       }
 
+      // Report progress to the client of the tool call
+      const totalPages = totalCount ? Math.ceil(totalCount / pageSize) : undefined;
+      await reportProgress({
+        progress: pagesFetched,
+        ...(totalPages && { total: fetchAll ? totalPages : Math.min(maxPages, totalPages) }),
+        message: `Fetched page ${pagesFetched} (${allItems.length} items so far)`,
+      });
+
       logger.debug('Fetched page', {
         pageNumber: pagesFetched,
         itemsInPage: response.items.length,
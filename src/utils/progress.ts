@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Progress reporting for long-running tool calls
+ *
+ * A client that wants to follow a tool call sends a progress token with it.
+ * The work done for that call can then report how far it got from anywhere
+ * below the tool handler, without threading a callback through every layer:
+ * the reporter travels with the asynchronous context of the call. Reports
+ * made outside of such a call are dropped.
+ *
+ * @packageDocumentation
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logging/logger.js';
+
+const logger = createLogger('Progress');
+
+/**
+ * A progress update of a tool call
+ */
+export interface ProgressUpdate {
+  /** Work done so far; increases with every update */
+  progress: number;
+  /** Total work, when known */
+  total?: number;
+  /** Human-readable description of the progress */
+  message?: string;
+}
+
+/**
+ * Sends progress updates of a tool call to the client
+ */
+export type ProgressReporter = (update: ProgressUpdate) => Promise<void>;
+
+const storage = new AsyncLocalStorage<ProgressReporter>();
+
+/**
+ * Creates a reporter that sends MCP progress notifications
+ *
+ * Updates that do not increase the progress are dropped, as the protocol
+ * requires progress to increase with every notification. Failures to send a
+ * notification are logged and never fail the tool call.
+ *
+ * @param progressToken - The progress token of the tool call
+ * @param sendNotification - Sends a notification to the client of the call
+ * @returns The progress reporter
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressReporter {
+  let lastProgress = -Infinity;
+
+  return async (update) => {
+    if (update.progress <= lastProgress) {
+      return;
+    }
+    lastProgress = update.progress;
+
+    try {
+      await sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, ...update },
+      });
+    } catch (error) {
+      logger.debug('Failed to send progress notification', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/**
+ * Runs a function with a progress reporter
+ * @param reporter - The reporter, or undefined when the client did not ask for progress
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+export function runWithProgressReporter<T>(reporter: ProgressReporter | undefined, fn: () => T): T {
+  return reporter ? storage.run(reporter, fn) : fn();
+}
+
+/**
+ * Reports progress of the tool call being processed
+ * @param update - The progress update
+ */
+export async function reportProgress(update: ProgressUpdate): Promise<void> {
+  await storage.getStore()?.(update);
+}
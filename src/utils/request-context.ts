@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Request context for multi-tenant deployments
+ *
+ * When the server is shared over HTTP, every MCP session brings its own
+ * DeepSource API key. The request context carries that key, and a scope
+ * identifying the session, through the asynchronous work done for a
+ * request, so that API keys, circuit breakers and retry budgets are never
+ * shared between sessions.
+ *
+ * @packageDocumentation
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Context of the request being processed
+ */
+export interface RequestContext {
+  /** Identifies the tenant, usually the MCP session ID */
+  scope: string;
+  /** DeepSource API key of the tenant, when it brings its own */
+  apiKey?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function within a request context
+ * @param context - The request context
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Gets the context of the request being processed
+ * @returns The request context, or undefined outside of a request context
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Scopes a key to the current request context
+ * @param key - The key to scope
+ * @returns The key prefixed with the request scope, or the key itself outside of a request context
+ */
+export function scopeKey(key: string): string {
+  const context = storage.getStore();
+  return context ? `${context.scope}:${key}` : key;
+}
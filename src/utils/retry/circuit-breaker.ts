@@ -399,6 +399,19 @@ export class CircuitBreakerManager {
     logger.info('All circuit breakers reset');
   }
 
+  /**
+   * Remove the circuit breakers of a request scope
+   * @param scope The scope whose circuit breakers to remove
+   * @public
+   */
+  removeScope(scope: string): void {
+    for (const endpoint of this.breakers.keys()) {
+      if (endpoint.startsWith(`${scope}:`)) {
+        this.breakers.delete(endpoint);
+      }
+    }
+  }
+
   /**
    * Clear all circuit breakers (for testing)
    * @public
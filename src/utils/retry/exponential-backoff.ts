@@ -5,6 +5,7 @@
 
 import { RetryPolicy } from './retry-policy.js';
 import { createLogger } from '../logging/logger.js';
+import { createCancellationError } from '../cancellation.js';
 
 const logger = createLogger('ExponentialBackoff');
 
@@ -159,14 +160,29 @@ export function calculateRetryDelay(
 /**
  * Sleep for a specified duration
  * @param ms The number of milliseconds to sleep
+ * @param signal Optional abort signal that ends the sleep early
  * @returns A promise that resolves after the specified duration
+ * @throws {ClassifiedError} When the signal is aborted before the duration has passed
  * @public
  */
-export function sleep(ms: number): Promise<void> {
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(createCancellationError());
+  }
   if (ms <= 0) {
     return Promise.resolve();
   }
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancellationError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -31,6 +31,8 @@ export {
   CircuitBreakerManager,
 } from './circuit-breaker.js';
 
+export { RetryAfterGate } from './retry-after-gate.js';
+
 export {
   RetryBudgetConfig,
   RetryBudgetStats,
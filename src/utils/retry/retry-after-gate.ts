@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Shared pause for requests made in parallel
+ * When the API answers one of several parallel requests with a Retry-After
+ * header, the other requests would hit the same limit. This module lets them
+ * all hold off until the API is ready again.
+ */
+
+import { parseRetryAfter, sleep } from './exponential-backoff.js';
+import { createLogger } from '../logging/logger.js';
+
+const logger = createLogger('RetryAfterGate');
+
+/**
+ * Holds back requests until the latest Retry-After delay has passed
+ * @class
+ * @public
+ */
+export class RetryAfterGate {
+  private pausedUntil = 0;
+
+  /**
+   * Pause requests for the delay of a Retry-After header
+   * @param retryAfterHeader The Retry-After header value
+   * @returns The header, unchanged, for use as an `extractRetryAfter` result
+   * @public
+   */
+  pause(retryAfterHeader: string | undefined): string | undefined {
+    const retryAfter = parseRetryAfter(retryAfterHeader);
+    if (retryAfter) {
+      const until = Date.now() + retryAfter.delayMs;
+      if (until > this.pausedUntil) {
+        this.pausedUntil = until;
+        logger.info('Pausing requests for Retry-After', { delayMs: retryAfter.delayMs });
+      }
+    }
+    return retryAfterHeader;
+  }
+
+  /**
+   * Wait until requests may be made again
+   * @public
+   */
+  async wait(): Promise<void> {
+    let remaining = this.pausedUntil - Date.now();
+    while (remaining > 0) {
+      await sleep(remaining);
+      remaining = this.pausedUntil - Date.now();
+    }
+  }
+}
@@ -299,6 +299,19 @@ export class RetryBudgetManager {
     logger.info('All retry budgets reset');
   }
 
+  /**
+   * Remove the budgets of a request scope
+   * @param scope The scope whose budgets to remove
+   * @public
+   */
+  removeScope(scope: string): void {
+    for (const endpoint of this.budgets.keys()) {
+      if (endpoint.startsWith(`${scope}:`)) {
+        this.budgets.delete(endpoint);
+      }
+    }
+  }
+
   /**
    * Clear all budgets (for testing)
    * @public
@@ -7,6 +7,8 @@ import { RetryPolicy, getRetryPolicyForEndpoint } from './retry-policy.js';
 import { calculateRetryDelay, sleep } from './exponential-backoff.js';
 import { CircuitBreakerManager } from './circuit-breaker.js';
 import { RetryBudgetManager } from './retry-budget.js';
+import { scopeKey } from '../request-context.js';
+import { createCancellationError, getAbortSignal } from '../cancellation.js';
 import { ErrorCategory } from '../errors/categories.js';
 import { ClassifiedError } from '../errors/types.js';
 import { createLogger } from '../logging/logger.js';
@@ -51,6 +53,8 @@ export interface RetryResult<T> {
   circuitBreakerBlocked: boolean;
   /** Whether retry was blocked by budget exhaustion */
   budgetExhausted: boolean;
+  /** Whether the operation was cancelled through its abort signal */
+  cancelled: boolean;
 }
 
 /**
@@ -69,6 +73,8 @@ export interface RetryExecutorOptions {
   maxTotalDuration?: number;
   /** Function to extract Retry-After header from error */
   extractRetryAfter?: (error: unknown) => string | undefined;
+  /** Signal that stops further attempts; defaults to the signal of the current tool call */
+  signal?: AbortSignal;
 }
 
 /**
@@ -87,12 +93,28 @@ export async function executeWithRetry<T>(
   const policy = options.policy || getRetryPolicyForEndpoint(endpoint);
   const circuitBreakerManager = CircuitBreakerManager.getInstance();
   const retryBudgetManager = RetryBudgetManager.getInstance();
-  const circuitBreaker = circuitBreakerManager.getBreaker(endpoint);
+  // Breakers and budgets are per request scope so that tenants never share them
+  const scopedEndpoint = scopeKey(endpoint);
+  const circuitBreaker = circuitBreakerManager.getBreaker(scopedEndpoint);
 
   const startTime = Date.now();
   let lastError: unknown;
   let attemptNumber = 0;
   const maxTotalDuration = options.maxTotalDuration || 120000; // 2 minutes default
+  const signal = options.signal ?? getAbortSignal();
+
+  const cancelledResult = (attempts: number): RetryResult<T> => {
+    logger.info('Operation cancelled', { endpoint, attempts });
+    return {
+      success: false,
+      error: createCancellationError(),
+      attempts,
+      totalDurationMs: Date.now() - startTime,
+      circuitBreakerBlocked: false,
+      budgetExhausted: false,
+      cancelled: true,
+    };
+  };
 
   logger.debug('Starting retry execution', {
     endpoint,
@@ -113,10 +135,15 @@ export async function executeWithRetry<T>(
       totalDurationMs: 0,
       circuitBreakerBlocked: true,
       budgetExhausted: false,
+      cancelled: false,
     };
   }
 
   while (attemptNumber <= policy.maxAttempts) {
+    if (signal?.aborted) {
+      return cancelledResult(attemptNumber);
+    }
+
     const elapsedMs = Date.now() - startTime;
 
     // Check if we've exceeded the maximum total duration
@@ -142,7 +169,7 @@ export async function executeWithRetry<T>(
       }
 
       // Check retry budget
-      if (!retryBudgetManager.canRetry(endpoint)) {
+      if (!retryBudgetManager.canRetry(scopedEndpoint)) {
         logger.warn('Retry budget exhausted', {
           endpoint,
           attemptNumber,
@@ -154,6 +181,7 @@ export async function executeWithRetry<T>(
           totalDurationMs: elapsedMs,
           circuitBreakerBlocked: false,
           budgetExhausted: true,
+          cancelled: false,
         };
       }
     }
@@ -196,8 +224,14 @@ export async function executeWithRetry<T>(
         totalDurationMs: Date.now() - startTime,
         circuitBreakerBlocked: false,
         budgetExhausted: false,
+        cancelled: false,
       };
     } catch (error) {
+      // A cancelled attempt says nothing about the health of the endpoint
+      if (signal?.aborted) {
+        return cancelledResult(attemptNumber + 1);
+      }
+
       lastError = error;
       logger.debug('Attempt failed', {
         endpoint,
@@ -227,7 +261,7 @@ export async function executeWithRetry<T>(
       }
 
       // Consume retry budget for the next attempt
-      if (!retryBudgetManager.consumeRetry(endpoint)) {
+      if (!retryBudgetManager.consumeRetry(scopedEndpoint)) {
         logger.warn('Failed to consume retry from budget', {
           endpoint,
           attemptNumber,
@@ -239,6 +273,7 @@ export async function executeWithRetry<T>(
           totalDurationMs: Date.now() - startTime,
           circuitBreakerBlocked: false,
           budgetExhausted: true,
+          cancelled: false,
         };
       }
 
@@ -253,7 +288,11 @@ export async function executeWithRetry<T>(
         delaySource: retryInfo.source,
       });
 
-      await sleep(retryInfo.delayMs);
+      try {
+        await sleep(retryInfo.delayMs, signal);
+      } catch {
+        return cancelledResult(attemptNumber + 1);
+      }
       attemptNumber++;
     }
   }
@@ -272,6 +311,7 @@ export async function executeWithRetry<T>(
     totalDurationMs: Date.now() - startTime,
     circuitBreakerBlocked: false,
     budgetExhausted: false,
+    cancelled: false,
   };
 }
 
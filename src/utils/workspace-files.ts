@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Reading of files named in tool arguments
+ * Tools only read files inside the working directory of the server, so that a
+ * client cannot use them to read arbitrary files from the host.
+ */
+
+import { promises as fs } from 'fs';
+import { resolve, sep } from 'path';
+import { MCPErrorFactory } from './error-handling/index.js';
+
+/**
+ * Reads a text file inside the working directory
+ * @param path - The file path, relative to the working directory
+ * @param field - The tool argument that named the file, for error messages
+ * @returns The file content
+ * @throws {MCPError} When the path is outside the working directory
+ * @public
+ */
+export async function readWorkspaceFile(path: string, field: string): Promise<string> {
+  const workingDirectory = process.cwd();
+  const filePath = resolve(workingDirectory, path);
+  if (!filePath.startsWith(`${workingDirectory}${sep}`)) {
+    throw MCPErrorFactory.validation(`${field} must be inside the working directory`, { field });
+  }
+  return fs.readFile(filePath, 'utf8');
+}